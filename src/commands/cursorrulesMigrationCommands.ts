@@ -0,0 +1,148 @@
+// Cursorrules Migration Commands - Split a legacy .cursorrules file into .cursor/rules/*.mdc
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RulesScanner } from '../scanner/rulesScanner';
+import { RulesTreeItem } from '../providers/rulesTreeProvider';
+import { RulePreviewContentProvider } from '../providers/rulePreviewContentProvider';
+import { MDCParser } from '../utils/mdcParser';
+import { MigratedRule, splitCursorrules } from '../utils/cursorrulesMigration';
+
+interface MigrationQuickPickItem extends vscode.QuickPickItem {
+	rule: MigratedRule;
+	exists: boolean;
+}
+
+export class CursorrulesMigrationCommands {
+	static registerCommands(context: vscode.ExtensionContext, previewProvider: RulePreviewContentProvider): void {
+		// Migrate .cursorrules command - propose one rule per section, write the selected ones
+		const migrateCursorrules = vscode.commands.registerCommand('projectRules.migrateCursorrules', async (treeItem?: RulesTreeItem) => {
+			try {
+				const fileUri = treeItem?.rule?.uri || await CursorrulesMigrationCommands.findCursorrules();
+				if (!fileUri) {
+					return;
+				}
+
+				const projectUri = treeItem?.project
+					? vscode.Uri.file(treeItem.project.path)
+					: vscode.workspace.getWorkspaceFolder(fileUri)?.uri;
+				if (!projectUri) {
+					vscode.window.showErrorMessage('No workspace folder found');
+					return;
+				}
+
+				const text = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8');
+				const rules = splitCursorrules(text);
+				if (rules.length === 0) {
+					vscode.window.showInformationMessage('.cursorrules is empty; there is nothing to migrate');
+					return;
+				}
+
+				// Rules go next to the .cursorrules file, which may be in a subfolder of the project
+				const directory = path.posix.relative(projectUri.path, path.posix.dirname(fileUri.path));
+				const rulesDir = vscode.Uri.joinPath(projectUri, directory, '.cursor', 'rules');
+
+				const selected = await CursorrulesMigrationCommands.pickRules(rules, rulesDir, previewProvider);
+				if (!selected || selected.length === 0) {
+					return; // User cancelled
+				}
+
+				const overwrites = selected.filter(item => item.exists);
+				if (overwrites.length > 0) {
+					const confirm = await vscode.window.showWarningMessage(
+						`Overwrite ${overwrites.map(item => item.rule.fileName).join(', ')}?`,
+						{ modal: true },
+						'Overwrite'
+					);
+					if (confirm !== 'Overwrite') {
+						return;
+					}
+				}
+
+				const scanner = new RulesScanner(projectUri);
+				for (const { rule } of selected) {
+					await scanner.createRuleFile(directory, rule.fileName, rule.metadata, rule.content);
+				}
+
+				const archive = await vscode.window.showInformationMessage(
+					`Migrated ${selected.length} rule${selected.length === 1 ? '' : 's'} from .cursorrules. Archive the original so Cursor stops loading it?`,
+					'Archive .cursorrules',
+					'Keep'
+				);
+				if (archive === 'Archive .cursorrules') {
+					const archiveUri = fileUri.with({ path: `${fileUri.path}.bak` });
+					await vscode.workspace.fs.rename(fileUri, archiveUri, { overwrite: true });
+					vscode.window.showInformationMessage(`Archived .cursorrules as ${path.posix.basename(archiveUri.path)}`);
+				}
+			} catch (e: any) {
+				vscode.window.showErrorMessage(`Failed to migrate .cursorrules: ${e?.message || e}`);
+			}
+		});
+
+		context.subscriptions.push(migrateCursorrules);
+	}
+
+	/**
+	 * Find the .cursorrules file to migrate when the command isn't run from the tree
+	 */
+	private static async findCursorrules(): Promise<vscode.Uri | undefined> {
+		const files = await vscode.workspace.findFiles('**/.cursorrules', '**/node_modules/**');
+		if (files.length === 0) {
+			vscode.window.showInformationMessage('No .cursorrules file found in the workspace');
+			return undefined;
+		}
+		if (files.length === 1) {
+			return files[0];
+		}
+
+		const picked = await vscode.window.showQuickPick(
+			files.map(uri => ({ label: vscode.workspace.asRelativePath(uri), uri })),
+			{ placeHolder: 'Select the .cursorrules file to migrate' }
+		);
+		return picked?.uri;
+	}
+
+	/**
+	 * Multi-select picker previewing each proposed rule as it is highlighted
+	 * Rules that would replace an existing file are not selected by default.
+	 */
+	private static async pickRules(rules: MigratedRule[], rulesDir: vscode.Uri, previewProvider: RulePreviewContentProvider): Promise<MigrationQuickPickItem[] | undefined> {
+		const items: MigrationQuickPickItem[] = [];
+		for (const rule of rules) {
+			const exists = await vscode.workspace.fs.stat(vscode.Uri.joinPath(rulesDir, rule.fileName)).then(() => true, () => false);
+			const scope = rule.metadata.globs?.length ? rule.metadata.globs.join(', ') : 'always applied';
+			items.push({
+				label: rule.fileName,
+				description: exists ? `${scope} · replaces existing rule` : scope,
+				detail: rule.metadata.description,
+				rule,
+				exists
+			});
+		}
+
+		const quickPick = vscode.window.createQuickPick<MigrationQuickPickItem>();
+		quickPick.title = 'Migrate .cursorrules';
+		quickPick.placeholder = 'Select the rules to create (the highlighted rule is previewed)';
+		quickPick.canSelectMany = true;
+		quickPick.ignoreFocusOut = true;
+		quickPick.items = items;
+		quickPick.selectedItems = items.filter(item => !item.exists);
+
+		quickPick.onDidChangeActive(([active]) => {
+			if (active) {
+				previewProvider.show(active.rule.fileName, MDCParser.generateMDC(active.rule.metadata, active.rule.content)).catch(() => undefined);
+			}
+		});
+
+		const selected = await new Promise<MigrationQuickPickItem[] | undefined>(resolve => {
+			quickPick.onDidAccept(() => {
+				resolve([...quickPick.selectedItems]);
+				quickPick.hide();
+			});
+			quickPick.onDidHide(() => resolve(undefined));
+			quickPick.show();
+		});
+		quickPick.dispose();
+
+		return selected;
+	}
+}
@@ -2,6 +2,8 @@
 import * as vscode from 'vscode';
 import { ProjectManager } from '../services/projectManager';
 import { ProjectDefinition } from '../types/project';
+import { resolveRuleType } from '../utils/ruleTypes';
+import { getRuleSourceOf } from '../utils/ruleSources';
 
 export class ProjectCommands {
 	static registerCommands(context: vscode.ExtensionContext): void {
@@ -190,6 +192,8 @@ ${projectList}
 							description: rule.metadata.description,
 							globs: rule.metadata.globs || [],
 							alwaysApply: rule.metadata.alwaysApply || false,
+							ruleType: resolveRuleType(rule.metadata),
+							source: getRuleSourceOf(rule),
 							content: rule.content
 						})),
 						state: {
@@ -209,6 +213,8 @@ ${projectList}
 							security: state.security,
 							api: state.api,
 							deployment: state.deployment,
+							ciPipelines: state.ciPipelines,
+							containers: state.containers,
 							projectMetrics: state.projectMetrics,
 							// Enhanced state (v0.4.0+)
 							identity: state.identity,
@@ -244,6 +250,8 @@ ${projectList}
 								description: rule.metadata.description,
 								globs: rule.metadata.globs || [],
 								alwaysApply: rule.metadata.alwaysApply || false,
+								ruleType: resolveRuleType(rule.metadata),
+								source: getRuleSourceOf(rule),
 								content: rule.content
 							})),
 							state: {
@@ -263,6 +271,8 @@ ${projectList}
 								security: state.security,
 								api: state.api,
 								deployment: state.deployment,
+								ciPipelines: state.ciPipelines,
+								containers: state.containers,
 								projectMetrics: state.projectMetrics,
 								// Enhanced state (v0.4.0+)
 								identity: state.identity,
@@ -3,9 +3,27 @@ import * as vscode from 'vscode';
 import { Rule } from '../scanner/rulesScanner';
 import { MDCParser } from '../utils/mdcParser';
 import { RulesTreeItem } from '../providers/rulesTreeProvider';
+import { getApplicableRules } from '../utils/ruleApplicability';
+import { DEFAULT_DESCRIPTION } from '../utils/ruleTypes';
+import { isReadByCursor } from '../utils/ruleSources';
+import { RulePreviewContentProvider } from '../providers/rulePreviewContentProvider';
+import {
+	BUILTIN_RULE_TEMPLATES,
+	RULE_TEMPLATE_CATEGORIES,
+	RuleTemplate,
+	TemplateVariables,
+	buildTemplateVariables,
+	isTemplateRecommended,
+	renderRuleTemplate,
+	sortTemplates
+} from '../utils/ruleTemplates';
+import { RuleTemplateLoader } from '../utils/ruleTemplateLoader';
 
 export class RuleCommands {
-	static registerCommands(context: vscode.ExtensionContext): void {
+	private static previewProvider: RulePreviewContentProvider | undefined;
+
+	static registerCommands(context: vscode.ExtensionContext, previewProvider?: RulePreviewContentProvider): void {
+		this.previewProvider = previewProvider;
 
 		// Create Rule command
 		const createRule = vscode.commands.registerCommand('projectRules.createRule', async (treeItem?: RulesTreeItem) => {
@@ -13,8 +31,10 @@ export class RuleCommands {
 
 				// Get the project context from the tree item
 				let projectPath: string;
+				let projectName: string;
 				if (treeItem && treeItem.project) {
 					projectPath = treeItem.project.path;
+					projectName = treeItem.project.name;
 				} else {
 					// Fallback to workspace root
 					const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
@@ -23,6 +43,7 @@ export class RuleCommands {
 						return;
 					}
 					projectPath = workspaceRoot.fsPath;
+					projectName = vscode.workspace.workspaceFolders?.[0]?.name || 'project';
 				}
 
 				// Ask for rule name
@@ -68,26 +89,14 @@ export class RuleCommands {
 					// File doesn't exist, which is what we want
 				}
 
-			// Create default rule content
-			const defaultContent = `---
-description: "New rule"
-globs: []
-alwaysApply: false
----
-
-# ${ruleName}
-
-Describe your rule here.
-
-## Guidelines
-
-- Add specific guidelines
-- Include examples
-- Explain when to apply this rule
-`;
+				// Fill the rule from a template
+				const ruleContent = await RuleCommands.pickTemplate(vscode.Uri.file(projectPath), projectName, ruleName);
+				if (ruleContent === undefined) {
+					return; // User cancelled
+				}
 
 				// Create the file
-				await vscode.workspace.fs.writeFile(ruleUri, Buffer.from(defaultContent, 'utf8'));
+				await vscode.workspace.fs.writeFile(ruleUri, Buffer.from(ruleContent, 'utf8'));
 
 				// Open the file in the editor
 				await vscode.window.showTextDocument(ruleUri);
@@ -179,9 +188,9 @@ Describe your rule here.
 					return;
 				}
 
-			// Ensure metadata has required fields with defaults
+			// Ensure metadata has required fields with defaults (extra frontmatter is kept)
 			const metadata = {
-				description: actualRule.metadata.description || 'No description',
+				...actualRule.metadata,
 				globs: actualRule.metadata.globs || [],
 				alwaysApply: actualRule.metadata.alwaysApply || false
 			};
@@ -334,6 +343,120 @@ Describe your rule here.
 			}
 		});
 
-		context.subscriptions.push(createRule, deleteRule, copyRule, pasteRule, renameRule);
+		// Show Applicable Rules command - lists rules Cursor would attach to the active file
+		const showApplicableRules = vscode.commands.registerCommand('projectRules.showApplicableRules', async (uri?: vscode.Uri) => {
+			try {
+				const fileUri = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri;
+				if (!fileUri || fileUri.scheme !== 'file') {
+					vscode.window.showWarningMessage('Open a file to see which rules apply to it');
+					return;
+				}
+
+				const workspaceRoot = vscode.workspace.getWorkspaceFolder(fileUri)?.uri || vscode.workspace.workspaceFolders?.[0]?.uri;
+				if (!workspaceRoot) {
+					vscode.window.showErrorMessage('No workspace folder found');
+					return;
+				}
+
+				const { RulesScanner } = await import('../scanner/rulesScanner');
+				const scanner = new RulesScanner(workspaceRoot);
+				const rules = await scanner.scanRules();
+				const applicable = getApplicableRules(rules.filter(isReadByCursor), fileUri.path);
+				const relativePath = vscode.workspace.asRelativePath(fileUri);
+
+				if (applicable.length === 0) {
+					vscode.window.showInformationMessage(`No rules apply to ${relativePath}`);
+					return;
+				}
+
+				const picked = await vscode.window.showQuickPick(
+					applicable.map(match => ({
+						label: match.rule.fileName,
+						description: match.reason === 'alwaysApply' ? 'alwaysApply' : `matched ${match.matchedGlob}`,
+						detail: match.rule.metadata.description || DEFAULT_DESCRIPTION,
+						rule: match.rule
+					})),
+					{
+						title: `Rules applied to ${relativePath}`,
+						placeHolder: 'Select a rule to open it'
+					}
+				);
+
+				if (picked) {
+					await vscode.window.showTextDocument(picked.rule.uri);
+				}
+			} catch (e: any) {
+				vscode.window.showErrorMessage(`Failed to find applicable rules: ${e?.message || e}`);
+			}
+		});
+
+		context.subscriptions.push(createRule, deleteRule, copyRule, pasteRule, renameRule, showApplicableRules);
+	}
+
+	/**
+	 * Let the user pick a template for a new rule, previewing each one as it is highlighted
+	 * @returns Rendered rule text, or undefined when cancelled
+	 */
+	private static async pickTemplate(projectUri: vscode.Uri, projectName: string, ruleName: string): Promise<string | undefined> {
+		const [state, userTemplates] = await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Window, title: 'Loading rule templates...' },
+			async () => {
+				const { StateScanner } = await import('../scanner/stateScanner');
+				return Promise.all([
+					new StateScanner(projectUri).scanState().catch(() => undefined),
+					RuleTemplateLoader.loadUserTemplates(projectUri)
+				]);
+			}
+		);
+
+		const frameworks = state?.frameworks || [];
+		const variables: TemplateVariables = buildTemplateVariables(ruleName, projectName, state);
+		const templates = [...userTemplates, ...sortTemplates(BUILTIN_RULE_TEMPLATES, frameworks)];
+
+		type TemplateItem = vscode.QuickPickItem & { template?: RuleTemplate };
+		const items: TemplateItem[] = [];
+		let lastGroup: string | undefined;
+		for (const template of templates) {
+			const recommended = isTemplateRecommended(template, frameworks);
+			const group = recommended ? 'Recommended' : RULE_TEMPLATE_CATEGORIES[template.category];
+			if (group !== lastGroup) {
+				items.push({ label: group, kind: vscode.QuickPickItemKind.Separator });
+				lastGroup = group;
+			}
+			items.push({
+				label: template.name,
+				description: template.category === 'user' ? template.path : undefined,
+				detail: template.description,
+				template
+			});
+		}
+
+		const fileName = ruleName.endsWith('.mdc') ? ruleName : `${ruleName}.mdc`;
+		const quickPick = vscode.window.createQuickPick<TemplateItem>();
+		quickPick.title = `Template for ${fileName}`;
+		quickPick.placeholder = 'Choose a template (highlighted templates are previewed)';
+		quickPick.items = items;
+		quickPick.ignoreFocusOut = true;
+
+		if (RuleCommands.previewProvider) {
+			const previewProvider = RuleCommands.previewProvider;
+			quickPick.onDidChangeActive(([active]) => {
+				if (active?.template) {
+					previewProvider.show(fileName, renderRuleTemplate(active.template, variables)).catch(() => undefined);
+				}
+			});
+		}
+
+		const selected = await new Promise<TemplateItem | undefined>(resolve => {
+			quickPick.onDidAccept(() => {
+				resolve(quickPick.selectedItems[0]);
+				quickPick.hide();
+			});
+			quickPick.onDidHide(() => resolve(undefined));
+			quickPick.show();
+		});
+		quickPick.dispose();
+
+		return selected?.template ? renderRuleTemplate(selected.template, variables) : undefined;
 	}
 }
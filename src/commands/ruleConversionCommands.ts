@@ -0,0 +1,147 @@
+// Rule Conversion Commands - Convert rules between assistant formats
+import * as vscode from 'vscode';
+import { Rule } from '../scanner/rulesScanner';
+import { RulesTreeItem } from '../providers/rulesTreeProvider';
+import { MDCParser } from '../utils/mdcParser';
+import { getRuleSourceOf } from '../utils/ruleSources';
+import { MarkdownSection, splitMarkdownSections } from '../utils/markdownSections';
+import {
+	ConversionTarget,
+	ConvertedRule,
+	appendSection,
+	convertToCopilot,
+	convertToCursor,
+	convertToSection,
+	getConversionTargets
+} from '../utils/ruleConversion';
+
+const TARGET_LABELS: Record<ConversionTarget, { label: string; detail: string }> = {
+	cursor: { label: 'Cursor Rule', detail: '.cursor/rules/*.mdc' },
+	copilot: { label: 'GitHub Copilot Instructions', detail: '.github/instructions/*.instructions.md' },
+	agents: { label: 'AGENTS.md Section', detail: 'Appended to AGENTS.md' },
+	claude: { label: 'CLAUDE.md Section', detail: 'Appended to CLAUDE.md' }
+};
+
+export class RuleConversionCommands {
+	static registerCommands(context: vscode.ExtensionContext): void {
+		// Convert Rule To... command - write the rule in another assistant's format
+		const convertRule = vscode.commands.registerCommand('projectRules.convertRule', async (treeItem?: RulesTreeItem) => {
+			try {
+				const rule = treeItem?.rule;
+				if (!rule) {
+					vscode.window.showErrorMessage('Select a rule to convert');
+					return;
+				}
+
+				const projectUri = treeItem?.project
+					? vscode.Uri.file(treeItem.project.path)
+					: vscode.workspace.getWorkspaceFolder(rule.uri)?.uri;
+				if (!projectUri) {
+					vscode.window.showErrorMessage('No workspace folder found');
+					return;
+				}
+
+				const targets = getConversionTargets(getRuleSourceOf(rule));
+				const picked = await vscode.window.showQuickPick(
+					targets.map(target => ({ ...TARGET_LABELS[target], target })),
+					{ title: `Convert ${rule.fileName} To...`, placeHolder: 'Choose the format to convert to' }
+				);
+				if (!picked) {
+					return; // User cancelled
+				}
+
+				let converted: ConvertedRule;
+				if (picked.target === 'cursor') {
+					const section = await RuleConversionCommands.pickSection(rule);
+					if (section === null) {
+						return; // User cancelled
+					}
+					const cursorRule = convertToCursor(rule, section);
+					converted = {
+						filePath: cursorRule.filePath,
+						append: false,
+						text: MDCParser.generateMDC(cursorRule.metadata, cursorRule.content),
+						warnings: cursorRule.warnings
+					};
+				} else if (picked.target === 'copilot') {
+					converted = convertToCopilot(rule);
+				} else {
+					converted = convertToSection(rule, picked.target);
+				}
+
+				const targetUri = vscode.Uri.joinPath(projectUri, converted.filePath);
+				const existing = await RuleConversionCommands.readFile(targetUri);
+
+				// Report what can't be represented before writing anything
+				const actions: string[] = [];
+				if (converted.warnings.length > 0) {
+					actions.push('Convert Anyway');
+				} else if (existing !== undefined && !converted.append) {
+					actions.push('Overwrite');
+				}
+				if (actions.length > 0) {
+					const detail = [
+						...converted.warnings.map(warning => `• ${warning}`),
+						...(existing !== undefined && !converted.append ? [`${converted.filePath} already exists and will be replaced.`] : [])
+					].join('\n');
+					const confirm = await vscode.window.showWarningMessage(
+						converted.warnings.length > 0
+							? `Some parts of ${rule.fileName} can't be represented as ${TARGET_LABELS[picked.target].label}`
+							: `${converted.filePath} already exists`,
+						{ modal: true, detail },
+						...actions
+					);
+					if (!confirm) {
+						return;
+					}
+				}
+
+				const text = converted.append && existing !== undefined
+					? appendSection(existing, converted.text)
+					: converted.text;
+				await vscode.workspace.fs.writeFile(targetUri, Buffer.from(text, 'utf8'));
+				await vscode.window.showTextDocument(targetUri);
+
+				vscode.window.showInformationMessage(
+					`Converted ${rule.fileName} to ${converted.filePath}${converted.warnings.length > 0 ? ` with ${converted.warnings.length} caveat(s)` : ''}`
+				);
+			} catch (e: any) {
+				vscode.window.showErrorMessage(`Failed to convert rule: ${e?.message || e}`);
+			}
+		});
+
+		context.subscriptions.push(convertRule);
+	}
+
+	/**
+	 * Let the user pick one section of a multi-section instruction file
+	 * @returns The section, undefined for the whole file, or null when cancelled
+	 */
+	private static async pickSection(rule: Rule): Promise<MarkdownSection | undefined | null> {
+		const sections = splitMarkdownSections(rule.content).filter(section => section.level === 2);
+		if (sections.length < 2) {
+			return undefined;
+		}
+
+		const picked = await vscode.window.showQuickPick(
+			[
+				{ label: 'Entire file', description: `${sections.length} sections`, section: undefined },
+				...sections.map(section => ({
+					label: section.title!,
+					description: `${section.body.split('\n').length} lines`,
+					section
+				}))
+			],
+			{ title: `Convert ${rule.fileName}`, placeHolder: 'Convert the whole file or a single section' }
+		);
+		return picked ? picked.section : null;
+	}
+
+	private static async readFile(uri: vscode.Uri): Promise<string | undefined> {
+		try {
+			return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+		} catch {
+			return undefined;
+		}
+	}
+}
@@ -0,0 +1,160 @@
+// Rule Generation Commands - Propose starter rules from the detected project state
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RulesTreeItem } from '../providers/rulesTreeProvider';
+import { RulePreviewContentProvider } from '../providers/rulePreviewContentProvider';
+import { GeneratedRule, generateRulesFromState, getTestFolders, isSameRuleText } from '../utils/ruleGenerator';
+
+type ProposalStatus = 'new' | 'changed' | 'unchanged';
+
+interface RuleProposal {
+	rule: GeneratedRule;
+	uri: vscode.Uri;
+	status: ProposalStatus;
+}
+
+interface ProposalQuickPickItem extends vscode.QuickPickItem {
+	proposal: RuleProposal;
+}
+
+const STATUS_LABELS: Record<ProposalStatus, string> = {
+	new: 'new',
+	changed: 'differs from existing rule',
+	unchanged: 'same as existing rule'
+};
+
+export class RuleGenerationCommands {
+	static registerCommands(context: vscode.ExtensionContext, previewProvider: RulePreviewContentProvider): void {
+		// Generate Rules from State command - preview proposed rules and write the selected ones
+		const generateRules = vscode.commands.registerCommand('projectRules.generateRules', async (treeItem?: RulesTreeItem) => {
+			try {
+				const project = treeItem?.project
+					? { uri: vscode.Uri.file(treeItem.project.path), name: treeItem.project.name }
+					: RuleGenerationCommands.getWorkspaceProject();
+				if (!project) {
+					vscode.window.showErrorMessage('No workspace folder found');
+					return;
+				}
+
+				const proposals = await vscode.window.withProgress(
+					{ location: vscode.ProgressLocation.Notification, title: `Analyzing ${project.name}...` },
+					() => RuleGenerationCommands.proposeRules(project.uri, project.name)
+				);
+
+				if (proposals.length === 0) {
+					vscode.window.showInformationMessage(`Nothing was detected in ${project.name} to generate rules from`);
+					return;
+				}
+
+				const selected = await RuleGenerationCommands.pickProposals(proposals, previewProvider);
+				if (!selected || selected.length === 0) {
+					return; // User cancelled
+				}
+
+				const overwrites = selected.filter(proposal => proposal.status === 'changed');
+				if (overwrites.length > 0) {
+					const confirm = await vscode.window.showWarningMessage(
+						`Overwrite ${overwrites.map(proposal => proposal.rule.fileName).join(', ')}?`,
+						{ modal: true },
+						'Overwrite'
+					);
+					if (confirm !== 'Overwrite') {
+						return;
+					}
+				}
+
+				const written = selected.filter(proposal => proposal.status !== 'unchanged');
+				for (const proposal of written) {
+					await vscode.workspace.fs.writeFile(proposal.uri, Buffer.from(proposal.rule.text, 'utf8'));
+				}
+
+				vscode.window.showInformationMessage(
+					`Generated ${written.length} rule${written.length === 1 ? '' : 's'}: ${written.map(proposal => proposal.rule.fileName).join(', ')}`
+				);
+			} catch (e: any) {
+				vscode.window.showErrorMessage(`Failed to generate rules: ${e?.message || e}`);
+			}
+		});
+
+		context.subscriptions.push(generateRules);
+	}
+
+	private static getWorkspaceProject(): { uri: vscode.Uri; name: string } | undefined {
+		const folder = vscode.workspace.workspaceFolders?.[0];
+		return folder ? { uri: folder.uri, name: folder.name } : undefined;
+	}
+
+	/**
+	 * Scan the project and compare each proposed rule with any existing rule of the same name
+	 */
+	private static async proposeRules(projectUri: vscode.Uri, projectName: string): Promise<RuleProposal[]> {
+		const { StateScanner } = await import('../scanner/stateScanner');
+		const [state, testFiles] = await Promise.all([
+			new StateScanner(projectUri).scanState(),
+			vscode.workspace.findFiles(
+				new vscode.RelativePattern(projectUri, '**/{test,tests,__tests__,spec,specs}/**'),
+				'**/node_modules/**',
+				2000
+			)
+		]);
+
+		const testFolders = getTestFolders(testFiles.map(file => path.relative(projectUri.fsPath, file.fsPath)));
+		const rulesDir = vscode.Uri.joinPath(projectUri, '.cursor', 'rules');
+
+		const proposals: RuleProposal[] = [];
+		for (const rule of generateRulesFromState(state, { projectName, testFolders })) {
+			const uri = vscode.Uri.joinPath(rulesDir, rule.fileName);
+			let status: ProposalStatus = 'new';
+			try {
+				const existing = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+				status = isSameRuleText(existing, rule.text) ? 'unchanged' : 'changed';
+			} catch {
+				// No existing rule with this name
+			}
+			proposals.push({ rule, uri, status });
+		}
+		return proposals;
+	}
+
+	/**
+	 * Multi-select picker that previews new rules and diffs rules that would replace existing ones
+	 * New rules are selected by default; existing rules must be opted into.
+	 */
+	private static async pickProposals(proposals: RuleProposal[], previewProvider: RulePreviewContentProvider): Promise<RuleProposal[] | undefined> {
+		const quickPick = vscode.window.createQuickPick<ProposalQuickPickItem>();
+		quickPick.title = 'Generate Rules from Project State';
+		quickPick.placeholder = 'Select the rules to write (the highlighted rule is previewed)';
+		quickPick.canSelectMany = true;
+		quickPick.ignoreFocusOut = true;
+		quickPick.items = proposals.map(proposal => ({
+			label: proposal.rule.fileName,
+			description: STATUS_LABELS[proposal.status],
+			detail: proposal.rule.summary,
+			proposal
+		}));
+		quickPick.selectedItems = quickPick.items.filter(item => item.proposal.status === 'new');
+
+		quickPick.onDidChangeActive(([active]) => {
+			if (!active) {
+				return;
+			}
+			const { rule, uri, status } = active.proposal;
+			const preview = status === 'new'
+				? previewProvider.show(rule.fileName, rule.text)
+				: previewProvider.showDiff(uri, rule.fileName, rule.text);
+			preview.catch(() => undefined);
+		});
+
+		const selected = await new Promise<RuleProposal[] | undefined>(resolve => {
+			quickPick.onDidAccept(() => {
+				resolve(quickPick.selectedItems.map(item => item.proposal));
+				quickPick.hide();
+			});
+			quickPick.onDidHide(() => resolve(undefined));
+			quickPick.show();
+		});
+		quickPick.dispose();
+
+		return selected;
+	}
+}
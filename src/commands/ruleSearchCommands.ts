@@ -0,0 +1,105 @@
+// Rule Search Commands - Filter the rules tree and jump to matching rules
+import * as vscode from 'vscode';
+import { RulesTreeProvider, RulesTreeItem } from '../providers/rulesTreeProvider';
+import { Rule } from '../scanner/rulesScanner';
+import { searchRule } from '../utils/ruleSearch';
+
+const FILTERED_CONTEXT_KEY = 'projectRules.rulesFiltered';
+const MAX_QUICK_PICK_RESULTS = 50;
+
+interface RuleSearchQuickPickItem extends vscode.QuickPickItem {
+	rule?: Rule;
+	applyFilter?: boolean;
+}
+
+export class RuleSearchCommands {
+	static registerCommands(context: vscode.ExtensionContext, treeProvider: RulesTreeProvider, treeView: vscode.TreeView<RulesTreeItem>): void {
+		// Filter Rules command - live search across all projects, Enter on the first item filters the tree
+		const filterRules = vscode.commands.registerCommand('projectRules.filterRules', async () => {
+			try {
+				const quickPick = vscode.window.createQuickPick<RuleSearchQuickPickItem>();
+				quickPick.title = 'Filter Rules';
+				quickPick.placeholder = 'Search file names, descriptions, globs and rule content';
+				quickPick.value = treeProvider.getFilter();
+				quickPick.items = RuleSearchCommands.buildItems(treeProvider, quickPick.value);
+
+				quickPick.onDidChangeValue(value => {
+					quickPick.items = RuleSearchCommands.buildItems(treeProvider, value);
+				});
+
+				quickPick.onDidAccept(async () => {
+					const [selected] = quickPick.selectedItems;
+					quickPick.hide();
+
+					if (!selected || selected.applyFilter) {
+						await RuleSearchCommands.applyFilter(treeProvider, treeView, quickPick.value);
+					} else if (selected.rule) {
+						await vscode.window.showTextDocument(selected.rule.uri);
+					}
+				});
+
+				quickPick.onDidHide(() => quickPick.dispose());
+				quickPick.show();
+			} catch (e: any) {
+				vscode.window.showErrorMessage(`Failed to filter rules: ${e?.message || e}`);
+			}
+		});
+
+		// Clear Rules Filter command
+		const clearRulesFilter = vscode.commands.registerCommand('projectRules.clearRulesFilter', async () => {
+			try {
+				await RuleSearchCommands.applyFilter(treeProvider, treeView, '');
+			} catch (e: any) {
+				vscode.window.showErrorMessage(`Failed to clear rules filter: ${e?.message || e}`);
+			}
+		});
+
+		context.subscriptions.push(filterRules, clearRulesFilter);
+	}
+
+	/**
+	 * Build quick pick items for a query: a "filter the tree" entry followed by matching rules
+	 * Items are always shown because matching is done here rather than by the quick pick.
+	 */
+	private static buildItems(treeProvider: RulesTreeProvider, query: string): RuleSearchQuickPickItem[] {
+		const trimmed = query.trim();
+		if (!trimmed) {
+			return treeProvider.getFilter()
+				? [{ label: '$(clear-all) Clear filter', applyFilter: true, alwaysShow: true }]
+				: [];
+		}
+
+		const matches = treeProvider.getAllRules()
+			.map(({ rule, project }) => ({ rule, project, match: searchRule(rule, trimmed) }))
+			.filter(result => result.match);
+
+		const items: RuleSearchQuickPickItem[] = [{
+			label: `$(filter) Filter rules tree by "${trimmed}"`,
+			description: `${matches.length} matching rules`,
+			applyFilter: true,
+			alwaysShow: true
+		}];
+
+		for (const { rule, project, match } of matches.slice(0, MAX_QUICK_PICK_RESULTS)) {
+			items.push({
+				label: rule.fileName,
+				description: `${project.name} · ${match!.fields.join(', ')}`,
+				detail: match!.snippet || rule.metadata.description,
+				rule,
+				alwaysShow: true
+			});
+		}
+
+		return items;
+	}
+
+	/**
+	 * Apply a filter to the tree and reflect it in the view message and title actions
+	 */
+	private static async applyFilter(treeProvider: RulesTreeProvider, treeView: vscode.TreeView<RulesTreeItem>, query: string): Promise<void> {
+		treeProvider.setFilter(query);
+		const filter = treeProvider.getFilter();
+		treeView.message = filter ? `Rules filtered by "${filter}"` : undefined;
+		await vscode.commands.executeCommand('setContext', FILTERED_CONTEXT_KEY, filter.length > 0);
+	}
+}
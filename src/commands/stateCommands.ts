@@ -197,6 +197,12 @@ export class StateCommands {
 				sections.push('');
 			}
 
+			if (state.enhancedDependencies.drift && state.enhancedDependencies.drift.length > 0) {
+				sections.push('**⚠️ Lockfile Drift** (resolved version outside the declared range):');
+				state.enhancedDependencies.drift.forEach(entry => sections.push(`- ${entry}`));
+				sections.push('');
+			}
+
 			const categories = [
 				{ key: 'parsing', label: 'Parsing' },
 				{ key: 'testing', label: 'Testing' },
@@ -214,11 +220,25 @@ export class StateCommands {
 					sections.push(`**${cat.label}**:`);
 					deps.forEach((dep: any) => {
 						const critical = dep.critical ? ' 🔴' : '';
-						sections.push(`- ${dep.name} (${dep.version})${critical} - ${dep.purpose}`);
+						const resolved = dep.resolvedVersion && dep.resolvedVersion !== dep.version ? ` → ${dep.resolvedVersion}` : '';
+						const drift = dep.drift ? ' ⚠️' : '';
+						sections.push(`- ${dep.name} (${dep.version}${resolved})${critical}${drift} - ${dep.purpose}`);
 					});
 					sections.push('');
 				}
 			}
+
+			if (state.enhancedDependencies.transitive && state.enhancedDependencies.transitive.length > 0) {
+				sections.push('**Transitive** (not declared; pulled in by other dependencies):');
+				state.enhancedDependencies.transitive.forEach(dep => sections.push(`- ${dep.name} (${dep.version}) - ${dep.purpose}`));
+				sections.push('');
+			}
+
+			if (state.enhancedDependencies.lockfiles && state.enhancedDependencies.lockfiles.length > 0) {
+				const { lockfiles, directCount, transitiveCount } = state.enhancedDependencies;
+				sections.push(`**🔒 Lockfiles**: ${lockfiles.join(', ')} (${directCount} direct, ${transitiveCount} transitive)`);
+				sections.push('');
+			}
 		}
 
 		// Enhanced Architecture
@@ -335,6 +355,17 @@ export class StateCommands {
 		sections.push(state.documentation.length > 0 ? state.documentation.map((d: string) => `- ${d}`).join('\n') : 'No documentation found');
 		sections.push('');
 
+		if (state.workspace && state.workspace.packages.length > 0) {
+			sections.push(`### Workspace Packages (${state.workspace.packages.length}${state.workspace.truncated ? '+' : ''})`);
+			sections.push(`**Tools**: ${state.workspace.tools.join(', ')}`);
+			sections.push('');
+			for (const pkg of state.workspace.packages) {
+				const stack = [...pkg.state.languages, ...pkg.state.frameworks];
+				sections.push(`- **${pkg.name}** (\`${pkg.path}\`, ${pkg.source})${stack.length > 0 ? `: ${stack.join(', ')}` : ''}`);
+			}
+			sections.push('');
+		}
+
 		// === CONDITIONAL SECTIONS ===
 		if (state.infrastructure) {
 			const infra = state.infrastructure;
@@ -404,6 +435,152 @@ export class StateCommands {
 			}
 		}
 
+		if (state.ciPipelines && state.ciPipelines.length > 0) {
+			sections.push('## CI/CD Pipelines');
+			sections.push('');
+			for (const workflow of state.ciPipelines) {
+				sections.push(`### ${workflow.name} (${workflow.type})`);
+				if (workflow.file) {
+					sections.push(`- **File**: \`${workflow.file}\``);
+				}
+				if (workflow.onEvents && workflow.onEvents.length > 0) {
+					sections.push(`- **Triggers**: ${workflow.onEvents.join(', ')}`);
+				}
+				if (workflow.jobs && workflow.jobs.length > 0) {
+					sections.push(`- **Jobs**: ${workflow.jobs.join(', ')}`);
+				}
+				if (workflow.environments && workflow.environments.length > 0) {
+					sections.push(`- **Environments**: ${workflow.environments.join(', ')}`);
+				}
+				if (workflow.agents && workflow.agents.length > 0) {
+					sections.push(`- **Runs On**: ${workflow.agents.join(', ')}`);
+				}
+				if (workflow.matrix && Object.keys(workflow.matrix).length > 0) {
+					sections.push(`- **Matrix**: ${Object.entries(workflow.matrix).map(([key, values]) => `${key} = ${values.join(', ')}`).join('; ')}`);
+				}
+				if (workflow.runtimes && workflow.runtimes.length > 0) {
+					sections.push(`- **Runtimes**: ${workflow.runtimes.join(', ')}`);
+				}
+				if (workflow.actions && workflow.actions.length > 0) {
+					sections.push('- **Actions**:');
+					for (const action of workflow.actions) {
+						const unpinned = action.pinning === 'branch' || action.pinning === 'none' ? ' ⚠️ unpinned' : '';
+						sections.push(`  - \`${action.name}${action.ref ? `@${action.ref}` : ''}\` (${action.pinning})${unpinned}`);
+					}
+				}
+				if (workflow.localReferences && workflow.localReferences.length > 0) {
+					sections.push(`- **Local Workflows & Actions**: ${workflow.localReferences.join(', ')}`);
+				}
+				if (workflow.secrets && workflow.secrets.length > 0) {
+					sections.push(`- **Secrets**: ${workflow.secrets.join(', ')}`);
+				}
+				if (workflow.vars && workflow.vars.length > 0) {
+					sections.push(`- **Variables (vars)**: ${workflow.vars.join(', ')}`);
+				}
+				sections.push('');
+			}
+		}
+
+		if (state.containers) {
+			sections.push('## Containers');
+			sections.push('');
+			for (const dockerfile of state.containers.dockerfiles) {
+				sections.push(`### ${dockerfile.file}`);
+				if (dockerfile.baseImages.length > 0) {
+					const images = dockerfile.baseImages.map(image => `\`${image.name}${image.tag ? `:${image.tag}` : ''}${image.digest ? `@${image.digest}` : ''}\``);
+					sections.push(`- **Base Images**: ${images.join(', ')}`);
+				}
+				if (dockerfile.stages.length > 0) {
+					sections.push(`- **Stages**: ${dockerfile.stages.join(' → ')}`);
+				}
+				if (dockerfile.exposedPorts.length > 0) {
+					sections.push(`- **Exposed Ports**: ${dockerfile.exposedPorts.join(', ')}`);
+				}
+				sections.push(`- **User**: ${dockerfile.user || 'root (no USER)'}`);
+				if (dockerfile.healthcheck) {
+					sections.push(`- **Healthcheck**: \`${dockerfile.healthcheck}\``);
+				}
+				sections.push('');
+			}
+			for (const compose of state.containers.composeFiles) {
+				sections.push(`### ${compose.file}`);
+				for (const service of compose.services) {
+					const details = [
+						service.image ? `\`${service.image}\`` : service.build ? `build ${service.build}` : undefined,
+						service.ports.length > 0 ? `ports ${service.ports.join(', ')}` : undefined,
+						service.dependsOn.length > 0 ? `depends on ${service.dependsOn.join(', ')}` : undefined
+					].filter(Boolean);
+					sections.push(`- **${service.name}**${details.length > 0 ? `: ${details.join('; ')}` : ''}`);
+				}
+				sections.push('');
+			}
+		}
+
+		const kubernetes = state.deployment?.kubernetes;
+		if (kubernetes) {
+			const quantities = (values?: Record<string, string>) => Object.entries(values || {}).map(([key, value]) => `${key}=${value}`).join(', ');
+			sections.push('## Kubernetes');
+			sections.push('');
+			if (kubernetes.workloads.length > 0) {
+				sections.push('**Workloads**:');
+				for (const workload of kubernetes.workloads) {
+					const replicas = workload.replicas !== undefined ? `, ${workload.replicas} replicas` : '';
+					sections.push(`- **${workload.name}** (${workload.kind}${replicas}, \`${workload.file}\`)`);
+					for (const container of workload.containers) {
+						const resources = [
+							container.requests ? `requests ${quantities(container.requests)}` : undefined,
+							container.limits ? `limits ${quantities(container.limits)}` : 'no resource limits'
+						].filter(Boolean);
+						sections.push(`  - ${container.name}: \`${container.image || 'no image'}\` (${resources.join('; ')})`);
+					}
+				}
+				sections.push('');
+			}
+			if (kubernetes.services.length > 0) {
+				sections.push('**Services**:');
+				kubernetes.services.forEach(service => sections.push(`- ${service.name} (${[service.type, ...service.ports].join(', ')})`));
+				sections.push('');
+			}
+			if (kubernetes.ingresses.length > 0) {
+				sections.push('**Ingress Hosts**:');
+				kubernetes.ingresses.forEach(ingress => sections.push(`- ${ingress.name}: ${ingress.hosts.join(', ') || 'no host'}`));
+				sections.push('');
+			}
+			if (kubernetes.configMaps.length > 0) {
+				sections.push(`**ConfigMaps**: ${kubernetes.configMaps.join(', ')}`);
+			}
+			if (kubernetes.secrets.length > 0) {
+				sections.push(`**Secrets**: ${kubernetes.secrets.join(', ')}`);
+			}
+			if (kubernetes.configMaps.length > 0 || kubernetes.secrets.length > 0) {
+				sections.push('');
+			}
+			if (kubernetes.overlays.length > 0) {
+				sections.push('**Kustomize Overlays**:');
+				for (const overlay of kubernetes.overlays) {
+					const details = [
+						overlay.environment ? `→ ${overlay.environment}` : undefined,
+						overlay.namespace ? `namespace ${overlay.namespace}` : undefined,
+						overlay.images.length > 0 ? `images ${overlay.images.join(', ')}` : undefined
+					].filter(Boolean);
+					sections.push(`- \`${overlay.path}\`${details.length > 0 ? `: ${details.join('; ')}` : ''}`);
+				}
+				sections.push('');
+			}
+			if (kubernetes.charts.length > 0) {
+				sections.push('**Helm Charts**:');
+				for (const chart of kubernetes.charts) {
+					const details = [
+						chart.version ? `version ${chart.version}` : undefined,
+						chart.dependencies.length > 0 ? `depends on ${chart.dependencies.join(', ')}` : undefined,
+						chart.valuesFiles.length > 0 ? `values ${chart.valuesFiles.join(', ')}` : undefined
+					].filter(Boolean);
+					sections.push(`- **${chart.name}** (\`${chart.path}\`)${details.length > 0 ? `: ${details.join('; ')}` : ''}`);
+				}
+				sections.push('');
+			}
+		}
+
 		if (state.projectMetrics) {
 			sections.push('## Project Metrics');
 			sections.push('');
@@ -1,25 +1,46 @@
 // The module 'vscode' contains the VS Code extensibility API
 import * as vscode from 'vscode';
 import { RulesTreeProvider } from './providers/rulesTreeProvider';
+import { ApplicableRulesTreeProvider } from './providers/applicableRulesTreeProvider';
 import { StateSectionContentProvider } from './providers/stateSectionContentProvider';
+import { RulePreviewContentProvider } from './providers/rulePreviewContentProvider';
+import { RuleDiagnosticsProvider } from './providers/ruleDiagnosticsProvider';
+import { RuleCodeActionProvider } from './providers/ruleCodeActionProvider';
+import { RuleDocumentLinkProvider } from './providers/ruleDocumentLinkProvider';
 import { RulesScanner } from './scanner/rulesScanner';
 import { StateScanner } from './scanner/stateScanner';
 import { RuleCommands } from './commands/ruleCommands';
 import { StateCommands } from './commands/stateCommands';
 import { ProjectCommands } from './commands/projectCommands';
+import { RuleSearchCommands } from './commands/ruleSearchCommands';
+import { RuleGenerationCommands } from './commands/ruleGenerationCommands';
+import { RuleConversionCommands } from './commands/ruleConversionCommands';
+import { CursorrulesMigrationCommands } from './commands/cursorrulesMigrationCommands';
 import { RulePreviewEditor } from './commands/rulePreviewEditor';
 import { ProjectManager } from './services/projectManager';
 import { ProjectDefinition } from './types/project';
 import { Rule } from './scanner/rulesScanner';
 import { ProjectState } from './scanner/stateScanner';
+import { calculateContextBudget, formatTokens } from './utils/ruleBudget';
+import { affectsSetting, getAlwaysApplyTokenBudget } from './utils/configuration';
+import { RULES_VIEW_MODES, RulesViewMode, isRulesViewMode } from './utils/ruleGrouping';
+import { RULE_FILES_GLOB, isReadByCursor } from './utils/ruleSources';
+
+const RULES_VIEW_MODE_KEY = 'projectRules.rulesViewMode';
 
 let treeProvider: RulesTreeProvider;
+let applicableRulesProvider: ApplicableRulesTreeProvider;
+let ruleDiagnosticsProvider: RuleDiagnosticsProvider;
 let rulesScanner: RulesScanner;
 let stateScanner: StateScanner;
 let projectManager: ProjectManager;
 let fileWatcher: vscode.FileSystemWatcher | undefined;
 let outputChannel: vscode.OutputChannel;
 let isActivated = false;
+// Projects already warned about exceeding the always-apply token budget
+const budgetWarnings = new Set<string>();
+let lastProjectData = new Map<string, { rules: Rule[], state: ProjectState }>();
+let lastProjects: ProjectDefinition[] = [];
 
 // This method is called when your extension is activated
 export function activate(context: vscode.ExtensionContext) {
@@ -52,21 +73,44 @@ export function activate(context: vscode.ExtensionContext) {
 	// Initialize tree provider
 	outputChannel.appendLine('Initializing tree provider...');
 	treeProvider = new RulesTreeProvider(new Map(), [], null);
+	const savedViewMode = context.workspaceState.get<string>(RULES_VIEW_MODE_KEY);
+	if (isRulesViewMode(savedViewMode)) {
+		treeProvider.setViewMode(savedViewMode);
+	}
 
 	// Register tree data provider
 	const treeProviderRegistration = vscode.window.createTreeView('projectRulesExplorer', {
 		treeDataProvider: treeProvider
 	});
 
+	// Register applicable rules view (rules attached to the active editor's file)
+	applicableRulesProvider = new ApplicableRulesTreeProvider();
+	const applicableRulesRegistration = vscode.window.createTreeView('projectRulesApplicable', {
+		treeDataProvider: applicableRulesProvider
+	});
+	applicableRulesProvider.setActiveFile(vscode.window.activeTextEditor?.document.uri);
+	const activeEditorListener = vscode.window.onDidChangeActiveTextEditor(editor => {
+		applicableRulesProvider.setActiveFile(editor?.document.uri);
+	});
+
+	// Lint rule files into the Problems panel
+	ruleDiagnosticsProvider = new RuleDiagnosticsProvider();
+	ruleDiagnosticsProvider.lintWorkspace().catch(error => {
+		outputChannel.appendLine(`Error linting rule files: ${error}`);
+	});
+	RuleCodeActionProvider.register(context, ruleDiagnosticsProvider);
+	RuleDocumentLinkProvider.register(context);
+
 	// Register state section content provider (for read-only views)
 	outputChannel.appendLine('Registering state section content provider...');
 	const stateSectionContentProvider = StateSectionContentProvider.register(context);
 	outputChannel.appendLine('State section content provider registered');
+	const rulePreviewContentProvider = RulePreviewContentProvider.register(context);
 
 	// Register commands
 	outputChannel.appendLine('Registering commands...');
 	try {
-		RuleCommands.registerCommands(context);
+		RuleCommands.registerCommands(context, rulePreviewContentProvider);
 		outputChannel.appendLine('RuleCommands registered');
 		StateCommands.registerCommands(context, stateSectionContentProvider);
 		outputChannel.appendLine('StateCommands registered');
@@ -74,6 +118,14 @@ export function activate(context: vscode.ExtensionContext) {
 		outputChannel.appendLine('ProjectCommands registered');
 		RulePreviewEditor.registerCommands(context);
 		outputChannel.appendLine('RulePreviewEditor registered');
+		RuleSearchCommands.registerCommands(context, treeProvider, treeProviderRegistration);
+		outputChannel.appendLine('RuleSearchCommands registered');
+		RuleGenerationCommands.registerCommands(context, rulePreviewContentProvider);
+		outputChannel.appendLine('RuleGenerationCommands registered');
+		RuleConversionCommands.registerCommands(context);
+		outputChannel.appendLine('RuleConversionCommands registered');
+		CursorrulesMigrationCommands.registerCommands(context, rulePreviewContentProvider);
+		outputChannel.appendLine('CursorrulesMigrationCommands registered');
 		outputChannel.appendLine('All commands registered successfully');
 	} catch (error) {
 		outputChannel.appendLine(`Error registering commands: ${error}`);
@@ -85,6 +137,39 @@ export function activate(context: vscode.ExtensionContext) {
 		await refreshData();
 	});
 
+	// Switch between flat, directory and rule type layouts (remembered per workspace)
+	const changeRulesViewCommand = vscode.commands.registerCommand('projectRules.changeRulesView', async () => {
+		try {
+			const currentMode = treeProvider.getViewMode();
+			const selected = await vscode.window.showQuickPick(
+				(Object.keys(RULES_VIEW_MODES) as RulesViewMode[]).map(mode => ({
+					label: RULES_VIEW_MODES[mode].label,
+					description: mode === currentMode ? 'Current' : undefined,
+					detail: RULES_VIEW_MODES[mode].description,
+					mode
+				})),
+				{ placeHolder: 'How should rules be shown?' }
+			);
+			if (!selected) {
+				return;
+			}
+
+			treeProvider.setViewMode(selected.mode);
+			await context.workspaceState.update(RULES_VIEW_MODE_KEY, selected.mode);
+		} catch (e: any) {
+			vscode.window.showErrorMessage(`Failed to change rules view: ${e?.message || e}`);
+		}
+	});
+
+	// Re-evaluate the context budget when its threshold changes
+	const configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+		if (affectsSetting(event, 'alwaysApplyTokenBudget')) {
+			budgetWarnings.clear();
+			treeProvider.refresh();
+			warnAboutContextBudgets(lastProjectData, lastProjects);
+		}
+	});
+
 	// Set up file watcher (only if we have a workspace)
 	if (workspaceRoot) {
 		outputChannel.appendLine('Setting up file watcher...');
@@ -102,7 +187,12 @@ export function activate(context: vscode.ExtensionContext) {
 	// Add subscriptions
 	context.subscriptions.push(
 		treeProviderRegistration,
+		applicableRulesRegistration,
+		activeEditorListener,
+		ruleDiagnosticsProvider,
 		refreshCommand,
+		changeRulesViewCommand,
+		configurationListener,
 		fileWatcher!,
 		outputChannel
 	);
@@ -122,6 +212,12 @@ export function deactivate() {
 	if (treeProvider) {
 		treeProvider.dispose();
 	}
+	if (applicableRulesProvider) {
+		applicableRulesProvider.dispose();
+	}
+	if (ruleDiagnosticsProvider) {
+		ruleDiagnosticsProvider.dispose();
+	}
 }
 
 async function refreshData() {
@@ -223,6 +319,14 @@ async function refreshData() {
 		// Refresh the tree view
 		treeProvider.refresh();
 
+		// Feed every rule Cursor loads to the applicable rules view
+		const allRules = Array.from(projectData.values()).flatMap(data => data.rules).filter(isReadByCursor);
+		applicableRulesProvider.updateRules(allRules);
+
+		lastProjectData = projectData;
+		lastProjects = allProjects;
+		warnAboutContextBudgets(projectData, allProjects);
+
 		const successMessage = `Refreshed ${allProjects.length} projects (including current workspace)`;
 		outputChannel.appendLine(successMessage);
 	} catch (error) {
@@ -232,12 +336,39 @@ async function refreshData() {
 	}
 }
 
+/**
+ * Warn once per project when always-apply rules exceed the configured token budget
+ */
+function warnAboutContextBudgets(projectData: Map<string, { rules: Rule[], state: ProjectState }>, projects: ProjectDefinition[]) {
+	const tokenBudget = getAlwaysApplyTokenBudget();
+
+	for (const project of projects) {
+		const budget = calculateContextBudget(projectData.get(project.id)?.rules || [], tokenBudget);
+		if (!budget.exceeded) {
+			budgetWarnings.delete(project.id);
+			continue;
+		}
+		if (budgetWarnings.has(project.id)) {
+			continue;
+		}
+
+		budgetWarnings.add(project.id);
+		const message = `Always-apply rules in ${project.name} use ~${formatTokens(budget.alwaysApplyTokens)} on every request, over the ${formatTokens(budget.budget)} budget`;
+		outputChannel.appendLine(message);
+		vscode.window.showWarningMessage(message, 'Adjust Budget').then(selection => {
+			if (selection === 'Adjust Budget') {
+				vscode.commands.executeCommand('workbench.action.openSettings', 'projectRules.alwaysApplyTokenBudget');
+			}
+		});
+	}
+}
+
 function setupFileWatcher() {
 	const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
 	if (!workspaceRoot) {return;}
 
-	// Watch for changes in .cursor/rules directories
-	const pattern = new vscode.RelativePattern(workspaceRoot, '**/.cursor/rules/**/*.{mdc,md}');
+	// Watch for changes in .cursor/rules directories and other assistants' instruction files
+	const pattern = new vscode.RelativePattern(workspaceRoot, RULE_FILES_GLOB);
 	fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
 
 	fileWatcher.onDidCreate(() => {
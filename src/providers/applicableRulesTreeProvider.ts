@@ -0,0 +1,110 @@
+// Tree Provider for rules that apply to the active editor's file
+import * as vscode from 'vscode';
+import { Rule } from '../scanner/rulesScanner';
+import { ApplicableRule, getApplicableRules } from '../utils/ruleApplicability';
+import { DEFAULT_DESCRIPTION } from '../utils/ruleTypes';
+
+export interface ApplicableRuleTreeItem extends vscode.TreeItem {
+	applicableRule?: ApplicableRule;
+	rule?: Rule;
+}
+
+export class ApplicableRulesTreeProvider implements vscode.TreeDataProvider<ApplicableRuleTreeItem> {
+	private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+	private rules: Rule[] = [];
+	private activeFile: vscode.Uri | undefined;
+
+	refresh(): void {
+		this._onDidChangeTreeData.fire();
+	}
+
+	dispose(): void {
+		this._onDidChangeTreeData.dispose();
+	}
+
+	/**
+	 * Replace the set of known rules (from all projects)
+	 */
+	updateRules(rules: Rule[]): void {
+		this.rules = rules;
+		this.refresh();
+	}
+
+	/**
+	 * Track the file the applicable rules are computed for
+	 */
+	setActiveFile(uri: vscode.Uri | undefined): void {
+		// Ignore non-file editors (output panels, state views, etc.)
+		if (uri && uri.scheme !== 'file') {
+			return;
+		}
+		this.activeFile = uri;
+		this.refresh();
+	}
+
+	getTreeItem(element: ApplicableRuleTreeItem): ApplicableRuleTreeItem {
+		return element;
+	}
+
+	async getChildren(element?: ApplicableRuleTreeItem): Promise<ApplicableRuleTreeItem[]> {
+		if (element) {
+			return [];
+		}
+
+		if (!this.activeFile) {
+			return [{
+				label: 'No active file',
+				collapsibleState: vscode.TreeItemCollapsibleState.None,
+				description: 'Open a file to see which rules apply'
+			} as ApplicableRuleTreeItem];
+		}
+
+		const applicable = getApplicableRules(this.rules, this.activeFile.path);
+		if (applicable.length === 0) {
+			return [{
+				label: 'No rules apply',
+				collapsibleState: vscode.TreeItemCollapsibleState.None,
+				description: vscode.workspace.asRelativePath(this.activeFile)
+			} as ApplicableRuleTreeItem];
+		}
+
+		return applicable.map(match => {
+			const item = new vscode.TreeItem(
+				match.rule.fileName,
+				vscode.TreeItemCollapsibleState.None
+			) as ApplicableRuleTreeItem;
+			item.applicableRule = match;
+			item.rule = match.rule;
+			item.description = match.reason === 'alwaysApply' ? 'always' : match.matchedGlob;
+			item.tooltip = ApplicableRulesTreeProvider.getTooltip(match);
+			item.iconPath = new vscode.ThemeIcon(match.reason === 'alwaysApply' ? 'star' : 'filter');
+			item.contextValue = 'applicableRule';
+			item.command = {
+				command: 'vscode.open',
+				title: 'Open Rule',
+				arguments: [match.rule.uri]
+			};
+			return item;
+		});
+	}
+
+	/**
+	 * Build a markdown tooltip explaining why the rule applies
+	 */
+	static getTooltip(match: ApplicableRule): vscode.MarkdownString {
+		const tooltip = new vscode.MarkdownString();
+		tooltip.appendMarkdown(`**${match.rule.fileName}**\n\n`);
+		tooltip.appendMarkdown(`${match.rule.metadata.description || DEFAULT_DESCRIPTION}\n\n`);
+		if (match.reason === 'alwaysApply' && match.rule.source !== 'cursor' && match.rule.source !== undefined) {
+			// .cursorrules and AGENTS.md have no frontmatter; Cursor reads them for their whole folder
+			tooltip.appendMarkdown(`Attached because Cursor always reads \`${match.rule.fileName}\` for files in its folder`);
+		} else if (match.reason === 'alwaysApply') {
+			tooltip.appendMarkdown('Attached because `alwaysApply: true`');
+		} else {
+			tooltip.appendMarkdown(`Attached because \`${match.relativePath}\` matches \`${match.matchedGlob}\``);
+		}
+		return tooltip;
+	}
+}
@@ -0,0 +1,110 @@
+// Rule Code Action Provider - Quick fixes for rule lint diagnostics
+import * as vscode from 'vscode';
+import { RuleDiagnosticsProvider } from './ruleDiagnosticsProvider';
+import { RuleLintIssue } from '../utils/ruleLinter';
+import {
+	RuleTextEdit,
+	fixCommaGlobs,
+	fixMissingDescription,
+	fixAlwaysApplyString,
+	removeGlobs
+} from '../utils/ruleQuickFixes';
+
+/**
+ * Offers quick fixes for frontmatter problems reported by RuleDiagnosticsProvider
+ */
+export class RuleCodeActionProvider implements vscode.CodeActionProvider {
+	static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+	constructor(private diagnosticsProvider: RuleDiagnosticsProvider) {}
+
+	provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+		const text = document.getText();
+		const actions: vscode.CodeAction[] = [];
+
+		for (const diagnostic of context.diagnostics) {
+			if (diagnostic.source !== RuleDiagnosticsProvider.source) {
+				continue;
+			}
+
+			switch (diagnostic.code) {
+				case 'globs-comma-string':
+					this.addAction(actions, document, 'Convert globs to a YAML array', diagnostic, fixCommaGlobs(text));
+					break;
+				case 'missing-description':
+					this.addAction(actions, document, 'Add description from the first heading', diagnostic, fixMissingDescription(text));
+					break;
+				case 'always-apply-not-boolean':
+					this.addAction(actions, document, 'Convert alwaysApply to a boolean', diagnostic, fixAlwaysApplyString(text));
+					break;
+				case 'glob-no-match': {
+					const issue = this.findIssue(document, diagnostic);
+					if (issue?.target) {
+						this.addAction(actions, document, `Remove glob "${issue.target}"`, diagnostic, removeGlobs(text, [issue.target]));
+					}
+					break;
+				}
+			}
+		}
+
+		// Offer a single fix for every unmatched glob when there is more than one
+		const unmatched = this.diagnosticsProvider.getIssues(document.uri).filter(issue => issue.code === 'glob-no-match' && issue.target);
+		if (unmatched.length > 1 && actions.some(action => action.title.startsWith('Remove glob'))) {
+			this.addAction(actions, document, `Remove all ${unmatched.length} unmatched globs`, undefined, removeGlobs(text, unmatched.map(issue => issue.target!)));
+		}
+
+		return actions;
+	}
+
+	/**
+	 * Find the lint issue behind a diagnostic (diagnostics don't carry the offending glob)
+	 */
+	private findIssue(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): RuleLintIssue | undefined {
+		return this.diagnosticsProvider.getIssues(document.uri).find(issue =>
+			issue.code === diagnostic.code &&
+			issue.line === diagnostic.range.start.line &&
+			issue.column === diagnostic.range.start.character &&
+			issue.endLine === diagnostic.range.end.line &&
+			issue.endColumn === diagnostic.range.end.character
+		);
+	}
+
+	private addAction(
+		actions: vscode.CodeAction[],
+		document: vscode.TextDocument,
+		title: string,
+		diagnostic: vscode.Diagnostic | undefined,
+		edits: RuleTextEdit | RuleTextEdit[] | undefined
+	): void {
+		const editList = Array.isArray(edits) ? edits : edits ? [edits] : [];
+		if (editList.length === 0) {
+			return;
+		}
+
+		const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+		action.edit = new vscode.WorkspaceEdit();
+		for (const edit of editList) {
+			action.edit.replace(document.uri, new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)), edit.newText);
+		}
+		if (diagnostic) {
+			action.diagnostics = [diagnostic];
+			action.isPreferred = true;
+		}
+		actions.push(action);
+	}
+
+	/**
+	 * Register this provider with VS Code for rule files
+	 */
+	static register(context: vscode.ExtensionContext, diagnosticsProvider: RuleDiagnosticsProvider): RuleCodeActionProvider {
+		const provider = new RuleCodeActionProvider(diagnosticsProvider);
+		context.subscriptions.push(
+			vscode.languages.registerCodeActionsProvider(
+				{ scheme: 'file', pattern: '**/.cursor/rules/**/*.mdc' },
+				provider,
+				{ providedCodeActionKinds: RuleCodeActionProvider.providedCodeActionKinds }
+			)
+		);
+		return provider;
+	}
+}
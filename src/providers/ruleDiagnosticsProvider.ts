@@ -0,0 +1,177 @@
+// Rule Diagnostics Provider - Report rule lint problems in the Problems panel
+import * as vscode from 'vscode';
+import { lintRuleText, splitRuleText, RuleLintIssue } from '../utils/ruleLinter';
+import { extractFileReferences } from '../utils/fileReferences';
+import { FileReferenceResolver } from '../utils/fileReferenceResolver';
+import { getRuleBasePath } from '../utils/ruleApplicability';
+
+const RULE_FILES = '**/.cursor/rules/**/*.mdc';
+const RULE_FILES_EXCLUDE = '**/node_modules/**';
+const PROJECT_FILES_EXCLUDE = '**/{node_modules,.git}/**';
+const MAX_PROJECT_FILES = 20000;
+const PROJECT_FILES_MAX_AGE = 30000;
+const LINT_ON_CHANGE_DELAY = 500;
+
+/**
+ * Lints .mdc files under .cursor/rules and publishes the results as diagnostics
+ */
+export class RuleDiagnosticsProvider implements vscode.Disposable {
+	static readonly source = 'Project Rules';
+
+	private diagnostics: vscode.DiagnosticCollection;
+	private projectFilesCache = new Map<string, { files: Promise<string[]>; listedAt: number }>();
+	private issues = new Map<string, RuleLintIssue[]>();
+	private pendingLints = new Map<string, NodeJS.Timeout>();
+	private disposables: vscode.Disposable[] = [];
+
+	constructor() {
+		this.diagnostics = vscode.languages.createDiagnosticCollection('projectRules');
+
+		// Only rule files are watched; project file lists expire instead (see getProjectFiles)
+		const ruleWatcher = vscode.workspace.createFileSystemWatcher(RULE_FILES, false, true, false);
+		this.disposables.push(
+			this.diagnostics,
+			ruleWatcher,
+			ruleWatcher.onDidCreate(uri => this.onFileCreated(uri)),
+			ruleWatcher.onDidDelete(uri => this.onFileDeleted(uri)),
+			vscode.workspace.onDidOpenTextDocument(document => this.lintDocument(document)),
+			vscode.workspace.onDidSaveTextDocument(document => this.lintDocument(document)),
+			vscode.workspace.onDidChangeTextDocument(event => this.scheduleLint(event.document))
+		);
+	}
+
+	/**
+	 * Check whether a URI is a Cursor rule file this provider lints
+	 */
+	static isRuleFile(uri: vscode.Uri): boolean {
+		return uri.scheme === 'file' && uri.path.endsWith('.mdc') && !/\/node_modules\//.test(uri.path) && getRuleBasePath(uri.path) !== undefined;
+	}
+
+	/**
+	 * Lint every rule file in the workspace, using open editors' unsaved text where available
+	 */
+	async lintWorkspace(): Promise<void> {
+		const ruleFiles = await vscode.workspace.findFiles(RULE_FILES, RULE_FILES_EXCLUDE);
+		for (const uri of ruleFiles) {
+			await this.lintFile(uri);
+		}
+	}
+
+	/**
+	 * Lint a rule file, preferring an open editor's unsaved text over the file on disk
+	 */
+	async lintFile(uri: vscode.Uri): Promise<void> {
+		const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+		if (openDocument) {
+			await this.lintDocument(openDocument);
+			return;
+		}
+		try {
+			const content = await vscode.workspace.fs.readFile(uri);
+			await this.lintText(uri, Buffer.from(content).toString('utf8'));
+		} catch {
+			this.issues.delete(uri.toString());
+			this.diagnostics.delete(uri);
+		}
+	}
+
+	/**
+	 * Lint an open document if it is a rule file
+	 */
+	async lintDocument(document: vscode.TextDocument): Promise<void> {
+		if (RuleDiagnosticsProvider.isRuleFile(document.uri)) {
+			await this.lintText(document.uri, document.getText());
+		}
+	}
+
+	/**
+	 * Get the issues behind the current diagnostics for a rule file
+	 */
+	getIssues(uri: vscode.Uri): RuleLintIssue[] {
+		return this.issues.get(uri.toString()) || [];
+	}
+
+	/**
+	 * Re-lint a rule shortly after it is edited, so applied quick fixes clear their diagnostics
+	 */
+	private scheduleLint(document: vscode.TextDocument): void {
+		if (!RuleDiagnosticsProvider.isRuleFile(document.uri)) {
+			return;
+		}
+		const key = document.uri.toString();
+		clearTimeout(this.pendingLints.get(key));
+		this.pendingLints.set(key, setTimeout(() => {
+			this.pendingLints.delete(key);
+			this.lintDocument(document);
+		}, LINT_ON_CHANGE_DELAY));
+	}
+
+	/**
+	 * Lint rule text and replace the diagnostics for its URI
+	 */
+	private async lintText(uri: vscode.Uri, text: string): Promise<void> {
+		const basePath = getRuleBasePath(uri.path)!;
+		const projectFiles = await this.getProjectFiles(uri, basePath);
+		const references = await FileReferenceResolver.resolve(uri, extractFileReferences(splitRuleText(text).body));
+		const missingReferences = new Set(references.filter(reference => !reference.resolvedPath).map(reference => reference.reference));
+
+		const issues = lintRuleText(text, { projectFiles, missingReferences });
+		this.issues.set(uri.toString(), issues);
+		this.diagnostics.set(uri, issues.map(issue => RuleDiagnosticsProvider.toDiagnostic(issue)));
+	}
+
+	/**
+	 * Get project files relative to a rule's base directory
+	 * The list is cached and read again on the next lint once it is older than PROJECT_FILES_MAX_AGE.
+	 */
+	private getProjectFiles(uri: vscode.Uri, basePath: string): Promise<string[]> {
+		const cached = this.projectFilesCache.get(basePath);
+		if (cached && Date.now() - cached.listedAt < PROJECT_FILES_MAX_AGE) {
+			return cached.files;
+		}
+
+		const baseUri = uri.with({ path: basePath });
+		const files = Promise.resolve(vscode.workspace.findFiles(new vscode.RelativePattern(baseUri, '**/*'), PROJECT_FILES_EXCLUDE, MAX_PROJECT_FILES))
+			.then(found => found.map(file => file.path.substring(basePath.length + 1)))
+			.catch(() => []);
+		this.projectFilesCache.set(basePath, { files, listedAt: Date.now() });
+		return files;
+	}
+
+	private onFileCreated(uri: vscode.Uri): void {
+		if (RuleDiagnosticsProvider.isRuleFile(uri)) {
+			this.lintFile(uri);
+		}
+	}
+
+	private onFileDeleted(uri: vscode.Uri): void {
+		this.issues.delete(uri.toString());
+		this.diagnostics.delete(uri);
+	}
+
+	/**
+	 * Convert a lint issue into a VS Code diagnostic
+	 */
+	private static toDiagnostic(issue: RuleLintIssue): vscode.Diagnostic {
+		const range = new vscode.Range(issue.line, issue.column, issue.endLine, issue.endColumn);
+		const severity = issue.severity === 'error'
+			? vscode.DiagnosticSeverity.Error
+			: issue.severity === 'warning'
+				? vscode.DiagnosticSeverity.Warning
+				: vscode.DiagnosticSeverity.Information;
+
+		const diagnostic = new vscode.Diagnostic(range, issue.message, severity);
+		diagnostic.source = RuleDiagnosticsProvider.source;
+		diagnostic.code = issue.code;
+		return diagnostic;
+	}
+
+	dispose(): void {
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.disposables = [];
+		this.pendingLints.forEach(timeout => clearTimeout(timeout));
+		this.pendingLints.clear();
+		this.projectFilesCache.clear();
+		this.issues.clear();
+	}
+}
@@ -0,0 +1,49 @@
+// Rule Document Link Provider - Make @file references in rules clickable
+import * as vscode from 'vscode';
+import { splitRuleText } from '../utils/ruleLinter';
+import { extractFileReferences } from '../utils/fileReferences';
+import { FileReferenceResolver } from '../utils/fileReferenceResolver';
+
+/**
+ * Links @file references in .mdc rule bodies to the files they resolve to
+ * Unresolved references get no link; RuleDiagnosticsProvider reports them instead.
+ */
+export class RuleDocumentLinkProvider implements vscode.DocumentLinkProvider {
+	async provideDocumentLinks(document: vscode.TextDocument): Promise<vscode.DocumentLink[]> {
+		const sections = splitRuleText(document.getText());
+		const bodyPosition = document.positionAt(sections.bodyStart);
+		const references = await FileReferenceResolver.resolve(document.uri, extractFileReferences(sections.body));
+
+		const links: vscode.DocumentLink[] = [];
+		for (const reference of references) {
+			if (!reference.resolvedPath) {
+				continue;
+			}
+
+			const line = bodyPosition.line + reference.line;
+			const column = reference.line === 0 ? bodyPosition.character + reference.pathColumn : reference.pathColumn;
+			const link = new vscode.DocumentLink(
+				new vscode.Range(line, column, line, column + reference.reference.length),
+				document.uri.with({ path: reference.resolvedPath })
+			);
+			link.tooltip = `Open ${vscode.workspace.asRelativePath(link.target!)}`;
+			links.push(link);
+		}
+
+		return links;
+	}
+
+	/**
+	 * Register this provider with VS Code for rule files
+	 */
+	static register(context: vscode.ExtensionContext): RuleDocumentLinkProvider {
+		const provider = new RuleDocumentLinkProvider();
+		context.subscriptions.push(
+			vscode.languages.registerDocumentLinkProvider(
+				{ scheme: 'file', pattern: '**/.cursor/rules/**/*.mdc' },
+				provider
+			)
+		);
+		return provider;
+	}
+}
@@ -0,0 +1,77 @@
+// Rule Preview Content Provider - Read-only previews of rules before they are written
+import * as vscode from 'vscode';
+
+/**
+ * Content provider for previewing generated rule text (templates, generated rules)
+ */
+export class RulePreviewContentProvider implements vscode.TextDocumentContentProvider {
+	private static scheme = 'project-rules-preview';
+	private contentCache = new Map<string, string>();
+	private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+	readonly onDidChange = this._onDidChange.event;
+
+	/**
+	 * Create a URI for a preview document
+	 * @param name File name shown in the editor tab (e.g. "testing.mdc")
+	 */
+	static createUri(name: string): vscode.Uri {
+		return vscode.Uri.parse(`${this.scheme}:/${encodeURIComponent(name)}`);
+	}
+
+	/**
+	 * Store content for a URI, updating any open preview
+	 */
+	setContent(uri: vscode.Uri, content: string): void {
+		this.contentCache.set(uri.toString(), content);
+		this._onDidChange.fire(uri);
+	}
+
+	/**
+	 * Provide content for a URI
+	 */
+	provideTextDocumentContent(uri: vscode.Uri): string {
+		return this.contentCache.get(uri.toString()) || '';
+	}
+
+	/**
+	 * Show content in a preview editor beside the current one without taking focus
+	 */
+	async show(name: string, content: string): Promise<void> {
+		const uri = RulePreviewContentProvider.createUri(name);
+		this.setContent(uri, content);
+		const document = await vscode.languages.setTextDocumentLanguage(await vscode.workspace.openTextDocument(uri), 'markdown');
+		await vscode.window.showTextDocument(document, {
+			viewColumn: vscode.ViewColumn.Beside,
+			preview: true,
+			preserveFocus: true
+		});
+	}
+
+	/**
+	 * Show a diff between an existing file and proposed content beside the current editor
+	 */
+	async showDiff(original: vscode.Uri, name: string, content: string): Promise<void> {
+		const uri = RulePreviewContentProvider.createUri(name);
+		this.setContent(uri, content);
+		await vscode.commands.executeCommand('vscode.diff', original, uri, `${name} (existing ↔ proposed)`, {
+			viewColumn: vscode.ViewColumn.Beside,
+			preview: true,
+			preserveFocus: true
+		});
+	}
+
+	/**
+	 * Register this provider with VS Code
+	 */
+	static register(context: vscode.ExtensionContext): RulePreviewContentProvider {
+		const provider = new RulePreviewContentProvider();
+		context.subscriptions.push(
+			vscode.workspace.registerTextDocumentContentProvider(
+				this.scheme,
+				provider
+			),
+			provider._onDidChange
+		);
+		return provider;
+	}
+}
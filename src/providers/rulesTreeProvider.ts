@@ -1,21 +1,55 @@
 // Tree Provider for Rules and State visualization
 import * as vscode from 'vscode';
 import { Rule } from '../scanner/rulesScanner';
-import { ProjectState } from '../scanner/stateScanner';
+import { ProjectState, WorkspacePackageState } from '../scanner/stateScanner';
 import { ProjectDefinition } from '../types/project';
+import { DEFAULT_DESCRIPTION, RULE_TYPES, getRuleTypeLabel, resolveRuleType } from '../utils/ruleTypes';
+import { normalizeGlobs } from '../utils/ruleApplicability';
+import { ResolvedFileReference } from '../utils/fileReferences';
+import { calculateContextBudget, formatBytes, formatTokens, getRuleSize } from '../utils/ruleBudget';
+import { getAlwaysApplyTokenBudget } from '../utils/configuration';
+import { RulesViewMode, getRulePathInRulesFolder, groupRulesByDirectory, groupRulesByType } from '../utils/ruleGrouping';
+import { getHighlights, searchRule } from '../utils/ruleSearch';
+import { RULE_SOURCES, RuleSource, getProjectRelativePath, getRuleSourceOf, getRuleSources } from '../utils/ruleSources';
+import { CIWorkflowInfo, KubernetesInfo } from '../scanner/types';
+
+/**
+ * Display names for CI providers
+ */
+const CI_TYPE_LABELS: Record<CIWorkflowInfo['type'], string> = {
+	'github-actions': 'GitHub Actions',
+	'azure-pipelines': 'Azure Pipelines',
+	'gitlab-ci': 'GitLab CI',
+	'jenkins': 'Jenkins',
+	'circleci': 'CircleCI',
+	'bitbucket-pipelines': 'Bitbucket Pipelines',
+	'buildkite': 'Buildkite'
+};
+
+/**
+ * Groups under the Kubernetes state section
+ */
+type KubernetesGroup = 'workloads' | 'services' | 'ingresses' | 'config' | 'overlays' | 'charts';
 
 export interface RulesTreeItem extends vscode.TreeItem {
 	rule?: Rule;
 	stateItem?: any;
 	ruleType?: any;
-	category?: 'rules' | 'state' | 'projects' | 'ruleType';
+	category?: 'rules' | 'state' | 'projects' | 'ruleType' | 'directory' | 'reference' | 'ruleSource' | 'packages' | 'workspacePackage' | 'ciPipelines' | 'ciWorkflow' | 'ciJob' | 'kubernetes' | 'kubernetesGroup' | 'kubernetesResource';
 	directory?: string;
+	workspacePackage?: WorkspacePackageState;
+	ciWorkflow?: CIWorkflowInfo;
+	kubernetesGroup?: KubernetesGroup;
+	ruleSource?: RuleSource;
+	reference?: ResolvedFileReference;
 	project?: ProjectDefinition;
 }
 
 export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeItem> {
 	private _onDidChangeTreeData = new vscode.EventEmitter<void>();
 	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+	private viewMode: RulesViewMode = 'flat';
+	private filterQuery = '';
 
 	constructor(
 		private projectData: Map<string, { rules: Rule[], state: ProjectState }> = new Map(),
@@ -41,6 +75,53 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeItem>
 		this.currentProject = currentProject;
 	}
 
+	/**
+	 * Get how the Rules section of each project is laid out
+	 */
+	getViewMode(): RulesViewMode {
+		return this.viewMode;
+	}
+
+	/**
+	 * Change how the Rules section of each project is laid out
+	 */
+	setViewMode(mode: RulesViewMode): void {
+		this.viewMode = mode;
+		this.refresh();
+	}
+
+	/**
+	 * Get the text the Rules sections are filtered by ('' when not filtering)
+	 */
+	getFilter(): string {
+		return this.filterQuery;
+	}
+
+	/**
+	 * Filter the Rules sections of all projects by file name, description, globs and body
+	 */
+	setFilter(query: string): void {
+		this.filterQuery = query.trim();
+		this.refresh();
+	}
+
+	/**
+	 * Get every rule across all projects, with the project it belongs to
+	 */
+	getAllRules(): Array<{ rule: Rule; project: ProjectDefinition }> {
+		return this.projects.flatMap(project =>
+			(this.projectData.get(project.id)?.rules || []).map(rule => ({ rule, project }))
+		);
+	}
+
+	/**
+	 * Get a project's rules that match the current filter
+	 */
+	private getVisibleRules(projectId: string): Rule[] {
+		const rules = this.projectData.get(projectId)?.rules || [];
+		return this.filterQuery ? rules.filter(rule => searchRule(rule, this.filterQuery)) : rules;
+	}
+
 	getTreeItem(element: RulesTreeItem): RulesTreeItem {
 		return element;
 	}
@@ -84,6 +165,9 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeItem>
 				// Show Rules and State sections for all projects
 				const currentProjectData = this.projectData.get(project.id);
 				const rulesCount = currentProjectData?.rules.length || 0;
+				const rulesDescription = this.filterQuery
+					? `${this.getVisibleRules(project.id).length} of ${rulesCount} rules match "${this.filterQuery}"`
+					: `${rulesCount} rules found`;
 
 				// Count sections (not individual items)
 				let stateCount = 0;
@@ -110,7 +194,7 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeItem>
 				}
 
 				const sections = [
-					{ name: 'Rules', id: 'rules', icon: 'book', description: `${rulesCount} rules found` },
+					{ name: 'Rules', id: 'rules', icon: 'book', description: rulesDescription },
 					{ name: 'State', id: 'state', icon: 'database', description: `${stateCount} items` }
 				];
 
@@ -132,13 +216,30 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeItem>
 
 				// No switch option needed - users can expand any project to see its rules and state
 
+				// Monorepo packages, each with its own state
+				const workspace = currentProjectData?.state.workspace;
+				if (workspace && workspace.packages.length > 0) {
+					const item = new vscode.TreeItem('Packages', vscode.TreeItemCollapsibleState.Collapsed) as RulesTreeItem;
+					item.category = 'packages';
+					item.project = project;
+					item.description = `${workspace.packages.length}${workspace.truncated ? '+' : ''} packages`;
+					item.tooltip = workspace.tools.join('\n');
+					item.iconPath = new vscode.ThemeIcon('layers');
+					items.push(item);
+				}
+
+				items.push(this.getContextBudgetItem(project, currentProjectData?.rules || []));
+
 				return items;
+		} else if (element.category === 'rules' && element.rule) {
+			// Files pulled into context by the rule's @file references
+			return this.getReferenceItems(element.rule);
 		} else if (element.category === 'rules' && element.project) {
 			// Rules section for specific project
 			const projectData = this.projectData.get(element.project.id);
-			const rules = projectData?.rules || [];
+			const rules = this.getVisibleRules(element.project.id);
 
-			if (rules.length === 0) {
+			if (!projectData?.rules.length) {
 				return [{
 					label: 'No rules found',
 					collapsibleState: vscode.TreeItemCollapsibleState.None,
@@ -146,29 +247,74 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeItem>
 				} as RulesTreeItem];
 			}
 
-			// Show all rules in a flat list
-			return rules.map((rule: Rule) => {
-				const item = new vscode.TreeItem(
-					rule.fileName,
-					vscode.TreeItemCollapsibleState.None
-				) as RulesTreeItem;
-				item.rule = rule;
-				item.category = 'rules';
-				item.project = element.project;
-				item.tooltip = rule.metadata.description;
-				item.contextValue = 'rule'; // Enable context menu for individual rules
+			if (rules.length === 0) {
+				return [{
+					label: 'No matching rules',
+					collapsibleState: vscode.TreeItemCollapsibleState.None,
+					description: `Nothing matches "${this.filterQuery}"`
+				} as RulesTreeItem];
+			}
 
-				// Context-aware icon based on filename, content, and project context
-				item.iconPath = new vscode.ThemeIcon(this.getContextAwareIcon(rule, element.project));
+			// Group by assistant when the project has instruction files besides Cursor rules
+			const sources = getRuleSources(rules);
+			if (sources.length === 1 && sources[0] === 'cursor') {
+				return this.getCursorRuleItems(rules, element.project);
+			}
 
-				// Open in editor instead of webview
-				item.command = {
-					command: 'vscode.open',
-					title: 'Open Rule',
-					arguments: [rule.uri]
-				};
+			return sources.map(source => {
+				const sourceRules = rules.filter(rule => getRuleSourceOf(rule) === source);
+				const item = new vscode.TreeItem(RULE_SOURCES[source].label, vscode.TreeItemCollapsibleState.Expanded) as RulesTreeItem;
+				item.category = 'ruleSource';
+				item.ruleSource = source;
+				item.project = element.project;
+				item.description = `${sourceRules.length} ${sourceRules.length === 1 ? 'file' : 'files'}`;
+				item.tooltip = RULE_SOURCES[source].patterns.join(', ');
+				item.iconPath = new vscode.ThemeIcon(RULE_SOURCES[source].icon);
 				return item;
 			});
+		} else if (element.category === 'ruleSource' && element.project) {
+			const rules = this.getVisibleRules(element.project.id).filter(rule => getRuleSourceOf(rule) === element.ruleSource);
+			return element.ruleSource === 'cursor'
+				? this.getCursorRuleItems(rules, element.project)
+				: rules.map(rule => this.createRuleItem(rule, element.project!));
+		} else if (element.category === 'ruleType' && element.project) {
+			const rules = this.getVisibleRules(element.project.id).filter(rule => getRuleSourceOf(rule) === 'cursor');
+			const groupRules = groupRulesByType(rules).get(element.ruleType?.type) || [];
+			return groupRules.map(rule => this.createRuleItem(rule, element.project!));
+		} else if (element.category === 'directory' && element.project) {
+			const rules = this.getVisibleRules(element.project.id).filter(rule => getRuleSourceOf(rule) === 'cursor');
+			const projectRoot = vscode.Uri.file(element.project.path).path;
+			const groupRules = groupRulesByDirectory(rules, projectRoot).get(element.directory || '') || [];
+			return groupRules.map(rule => this.createRuleItem(rule, element.project!));
+			} else if (element.category === 'packages' && element.project) {
+				const packages = this.projectData.get(element.project.id)?.state.workspace?.packages || [];
+				return packages.map(pkg => {
+					const item = new vscode.TreeItem(pkg.name, vscode.TreeItemCollapsibleState.Collapsed) as RulesTreeItem;
+					item.category = 'workspacePackage';
+					item.project = element.project;
+					item.workspacePackage = pkg;
+					item.description = pkg.path;
+					item.tooltip = `${pkg.name}\n${pkg.path}\nDeclared by ${pkg.source}`;
+					item.iconPath = new vscode.ThemeIcon('package');
+					return item;
+				});
+			} else if (element.category === 'workspacePackage' && element.project && element.workspacePackage) {
+				// Package sections open under "Project / package" so they don't replace the root's
+				const pkg = element.workspacePackage;
+				return this.getStateSectionItems(pkg.state, {
+					...element.project,
+					name: `${element.project.name} / ${pkg.name}`,
+					path: vscode.Uri.joinPath(vscode.Uri.file(element.project.path), pkg.path).fsPath
+				});
+			} else if (element.category === 'ciPipelines' && element.project) {
+				const project = element.project;
+				return (element.stateItem as CIWorkflowInfo[]).map(workflow => this.getCIWorkflowItem(workflow, project));
+			} else if (element.category === 'ciWorkflow' && element.project && element.ciWorkflow) {
+				return this.getCIJobItems(element.ciWorkflow, element.project);
+			} else if (element.category === 'kubernetes' && element.project) {
+				return this.getKubernetesGroupItems(element.stateItem as KubernetesInfo, element.project);
+			} else if (element.category === 'kubernetesGroup' && element.project && element.kubernetesGroup) {
+				return this.getKubernetesResourceItems(element.stateItem as KubernetesInfo, element.kubernetesGroup, element.project);
 			} else if (element.category === 'state' && element.project) {
 				// State section for specific project - show categories (basic + enhanced)
 				const projectData = this.projectData.get(element.project.id);
@@ -182,255 +328,7 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeItem>
 					} as RulesTreeItem];
 				}
 
-				const stateItems: Array<{name: string, items: any[], icon: string, isEnhanced?: boolean, sectionKey?: string}> = [
-					// === ENHANCED STATE (High Value) ===
-					// Project Identity
-					...(state.identity ? [{
-						name: 'Project Identity',
-						items: [
-							`Type: ${state.identity.projectType}`,
-							`Domain: ${state.identity.domain}`,
-							`Language: ${state.identity.primaryLanguage}`,
-							`Maturity: ${state.identity.maturityLevel}`
-						],
-						icon: 'target',
-						isEnhanced: true,
-						sectionKey: 'identity'
-					}] : []),
-
-					// Capabilities
-					...(state.capabilities ? [{
-						name: 'Capabilities',
-						items: [
-							...(state.capabilities.description ? [`Description: ${state.capabilities.description}`] : []),
-							...(state.capabilities.primaryFeatures || []),
-							...(state.capabilities.dataFormats?.length ? [`Formats: ${state.capabilities.dataFormats.join(', ')}`] : [])
-						],
-						icon: 'rocket',
-						isEnhanced: true,
-						sectionKey: 'capabilities'
-					}] : []),
-
-					// Dependencies by Purpose
-					...(state.enhancedDependencies ? [{
-						name: 'Dependencies by Purpose',
-						items: this.formatEnhancedDependencies(state.enhancedDependencies),
-						icon: 'package',
-						isEnhanced: true,
-						sectionKey: 'dependencies'
-					}] : []),
-
-					// Architecture Patterns
-					...(state.enhancedArchitecture ? [{
-						name: 'Architecture',
-						items: [
-							`Style: ${state.enhancedArchitecture.style}`,
-							`Organization: ${state.enhancedArchitecture.organization}`,
-							...(state.enhancedArchitecture.patterns || []),
-							...(state.enhancedArchitecture.entryPoints?.length ? [`Entry: ${state.enhancedArchitecture.entryPoints.join(', ')}`] : [])
-						],
-						icon: 'symbol-structure',
-						isEnhanced: true,
-						sectionKey: 'architecture'
-					}] : []),
-
-					// Platform Context
-					...(state.platformContext?.vscode ? [{
-						name: 'VS Code Platform',
-						items: [
-							`Type: ${state.platformContext.vscode.extensionType}`,
-							`Min Version: ${state.platformContext.vscode.minVersion}`,
-							`Commands: ${state.platformContext.vscode.contributes.commands}`,
-							`Views: ${state.platformContext.vscode.contributes.views}`,
-							...(state.platformContext.vscode.capabilities || [])
-						],
-						icon: 'extensions',
-						isEnhanced: true,
-						sectionKey: 'platform'
-					}] : []),
-
-					// Agent Guidance
-					...(state.agentGuidance ? [{
-						name: 'Agent Guidance',
-						items: [
-							`Approach: ${state.agentGuidance.suggestedApproach}`,
-							'',
-							'Critical Files:',
-							...(state.agentGuidance.criticalFiles || []).map(f => `  • ${f}`),
-							'',
-							'Common Tasks:',
-							...(state.agentGuidance.commonTasks || []).map(t => `  • ${t}`),
-							'',
-							'Watch Outs:',
-							...(state.agentGuidance.watchOuts || []).map(w => `  ⚠️ ${w}`)
-						],
-						icon: 'robot',
-						isEnhanced: true,
-						sectionKey: 'guidance'
-					}] : []),
-
-					// === GROUPED BASIC STATE ===
-					// Technology Stack
-					{
-						name: 'Technology Stack',
-						items: [
-							'Languages:',
-							...state.languages.map(l => `  • ${l}`),
-							'',
-							'Frameworks:',
-							...state.frameworks.map(f => `  • ${f}`)
-						],
-						icon: 'symbol-namespace',
-						sectionKey: 'tech-stack'
-					},
-
-					// Development Environment
-					{
-						name: 'Development Environment',
-						items: [
-							'Build Tools:',
-							...state.buildTools.map(b => `  • ${b}`),
-							'',
-							'Testing:',
-							...state.testing.map(t => `  • ${t}`),
-							'',
-							'Code Quality:',
-							...state.codeQuality.map(c => `  • ${c}`),
-							'',
-							'Development Tools:',
-							...state.developmentTools.map(d => `  • ${d}`)
-						],
-						icon: 'tools',
-						sectionKey: 'dev-environment'
-					},
-
-					// Project Structure
-					{
-						name: 'Project Structure',
-						items: [
-							'Architecture:',
-							...state.architecture.map(a => `  • ${a}`),
-							'',
-							'Configuration:',
-							...state.configuration.map(c => `  • ${c}`),
-							'',
-							'Documentation:',
-							...state.documentation.map(d => `  • ${d}`)
-						],
-						icon: 'folder-library',
-						sectionKey: 'project-structure'
-					},
-
-					// Conditional sections (only show if they have content)
-					...(state.infrastructure ? [{
-						name: 'Infrastructure',
-						items: [
-							'Databases:',
-							...state.infrastructure.databases.map((d: string) => `  • ${d}`),
-							'',
-							'Cache:',
-							...state.infrastructure.cache.map((c: string) => `  • ${c}`),
-							'',
-							'Queues:',
-							...state.infrastructure.queues.map((q: string) => `  • ${q}`),
-							'',
-							'Storage:',
-							...state.infrastructure.storage.map((s: string) => `  • ${s}`),
-							'',
-							'Messaging:',
-							...state.infrastructure.messaging.map((m: string) => `  • ${m}`)
-						],
-						icon: 'server',
-						sectionKey: 'infrastructure'
-					}] : []),
-
-					...(state.security ? [{
-						name: 'Security',
-						items: [
-							'Authentication Frameworks:',
-							...state.security.authFrameworks.map((a: string) => `  • ${a}`),
-							'',
-							'Encryption:',
-							...state.security.encryption.map((e: string) => `  • ${e}`),
-							'',
-							'Vulnerability Scanning:',
-							...state.security.vulnerabilityScanning.map((v: string) => `  • ${v}`),
-							'',
-							'Secrets Management:',
-							...state.security.secretsManagement.map((s: string) => `  • ${s}`)
-						],
-						icon: 'shield',
-						sectionKey: 'security'
-					}] : []),
-
-					...(state.api ? [{
-						name: 'API',
-						items: [
-							'API Type:',
-							...state.api.type.map((t: string) => `  • ${t}`),
-							'',
-							'Documentation:',
-							...state.api.documentation.map((d: string) => `  • ${d}`),
-							'',
-							'Authentication:',
-							...state.api.authentication.map((a: string) => `  • ${a}`),
-							'',
-							'Versioning:',
-							...state.api.versioning.map((v: string) => `  • ${v}`)
-						],
-						icon: 'cloud',
-						sectionKey: 'api'
-					}] : []),
-
-					...(state.deployment ? [{
-						name: 'Deployment',
-						items: [
-							'Environments:',
-							...state.deployment.environments.map((e: string) => `  • ${e}`),
-							'',
-							'Platforms:',
-							...state.deployment.platforms.map((p: string) => `  • ${p}`),
-							'',
-							'Orchestration:',
-							...state.deployment.orchestration.map((o: string) => `  • ${o}`)
-						],
-						icon: 'rocket',
-						sectionKey: 'deployment'
-					}] : []),
-
-					...(state.projectMetrics ? [{
-						name: 'Project Metrics',
-						items: [
-							`Size: ${state.projectMetrics.estimatedSize}`,
-							`Complexity: ${state.projectMetrics.complexity}`,
-							`Files Analyzed: ${state.projectMetrics.filesAnalyzed}`,
-							`Last Analyzed: ${new Date(state.projectMetrics.lastAnalyzed).toLocaleString()}`
-						],
-						icon: 'graph',
-						sectionKey: 'metrics'
-					}] : [])
-				].filter(section => section.items.length > 0); // Only show sections with content
-
-				return stateItems.map((section) => {
-					const item = new vscode.TreeItem(
-						section.name,
-						vscode.TreeItemCollapsibleState.None // Don't expand, click to open
-					) as RulesTreeItem;
-					item.category = 'state';
-					item.project = element.project;
-					item.description = `${section.items.length} items`;
-					item.stateItem = section;
-					item.iconPath = new vscode.ThemeIcon(section.icon);
-
-					// Add command to open in a view instead of expanding
-					item.command = {
-						command: 'projectRules.viewStateSection',
-						title: 'View State Section',
-						arguments: [section.sectionKey || section.name.toLowerCase().replace(/\s+/g, '-'), section, element.project]
-					};
-
-					return item;
-				});
+				return this.getStateSectionItems(state, element.project);
 			}
 
 			return [];
@@ -444,6 +342,474 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeItem>
 		}
 	}
 
+	/**
+	 * Build the State section items (enhanced sections first, then grouped basic sections)
+	 */
+	private getStateSectionItems(state: ProjectState, project: ProjectDefinition): RulesTreeItem[] {
+		const stateItems: Array<{name: string, items: any[], icon: string, isEnhanced?: boolean, sectionKey?: string}> = [
+			// === ENHANCED STATE (High Value) ===
+			// Project Identity
+			...(state.identity ? [{
+				name: 'Project Identity',
+				items: [
+					`Type: ${state.identity.projectType}`,
+					`Domain: ${state.identity.domain}`,
+					`Language: ${state.identity.primaryLanguage}`,
+					`Maturity: ${state.identity.maturityLevel}`
+				],
+				icon: 'target',
+				isEnhanced: true,
+				sectionKey: 'identity'
+			}] : []),
+
+			// Capabilities
+			...(state.capabilities ? [{
+				name: 'Capabilities',
+				items: [
+					...(state.capabilities.description ? [`Description: ${state.capabilities.description}`] : []),
+					...(state.capabilities.primaryFeatures || []),
+					...(state.capabilities.dataFormats?.length ? [`Formats: ${state.capabilities.dataFormats.join(', ')}`] : [])
+				],
+				icon: 'rocket',
+				isEnhanced: true,
+				sectionKey: 'capabilities'
+			}] : []),
+
+			// Dependencies by Purpose
+			...(state.enhancedDependencies ? [{
+				name: 'Dependencies by Purpose',
+				items: this.formatEnhancedDependencies(state.enhancedDependencies),
+				icon: 'package',
+				isEnhanced: true,
+				sectionKey: 'dependencies'
+			}] : []),
+
+			// Architecture Patterns
+			...(state.enhancedArchitecture ? [{
+				name: 'Architecture',
+				items: [
+					`Style: ${state.enhancedArchitecture.style}`,
+					`Organization: ${state.enhancedArchitecture.organization}`,
+					...(state.enhancedArchitecture.patterns || []),
+					...(state.enhancedArchitecture.entryPoints?.length ? [`Entry: ${state.enhancedArchitecture.entryPoints.join(', ')}`] : [])
+				],
+				icon: 'symbol-structure',
+				isEnhanced: true,
+				sectionKey: 'architecture'
+			}] : []),
+
+			// Platform Context
+			...(state.platformContext?.vscode ? [{
+				name: 'VS Code Platform',
+				items: [
+					`Type: ${state.platformContext.vscode.extensionType}`,
+					`Min Version: ${state.platformContext.vscode.minVersion}`,
+					`Commands: ${state.platformContext.vscode.contributes.commands}`,
+					`Views: ${state.platformContext.vscode.contributes.views}`,
+					...(state.platformContext.vscode.capabilities || [])
+				],
+				icon: 'extensions',
+				isEnhanced: true,
+				sectionKey: 'platform'
+			}] : []),
+
+			// Agent Guidance
+			...(state.agentGuidance ? [{
+				name: 'Agent Guidance',
+				items: [
+					`Approach: ${state.agentGuidance.suggestedApproach}`,
+					'',
+					'Critical Files:',
+					...(state.agentGuidance.criticalFiles || []).map(f => `  • ${f}`),
+					'',
+					'Common Tasks:',
+					...(state.agentGuidance.commonTasks || []).map(t => `  • ${t}`),
+					'',
+					'Watch Outs:',
+					...(state.agentGuidance.watchOuts || []).map(w => `  ⚠️ ${w}`)
+				],
+				icon: 'robot',
+				isEnhanced: true,
+				sectionKey: 'guidance'
+			}] : []),
+
+			// === GROUPED BASIC STATE ===
+			// Technology Stack
+			{
+				name: 'Technology Stack',
+				items: [
+					'Languages:',
+					...state.languages.map(l => `  • ${l}`),
+					'',
+					'Frameworks:',
+					...state.frameworks.map(f => `  • ${f}`)
+				],
+				icon: 'symbol-namespace',
+				sectionKey: 'tech-stack'
+			},
+
+			// Development Environment
+			{
+				name: 'Development Environment',
+				items: [
+					'Build Tools:',
+					...state.buildTools.map(b => `  • ${b}`),
+					'',
+					'Testing:',
+					...state.testing.map(t => `  • ${t}`),
+					'',
+					'Code Quality:',
+					...state.codeQuality.map(c => `  • ${c}`),
+					'',
+					'Development Tools:',
+					...state.developmentTools.map(d => `  • ${d}`)
+				],
+				icon: 'tools',
+				sectionKey: 'dev-environment'
+			},
+
+			// Project Structure
+			{
+				name: 'Project Structure',
+				items: [
+					'Architecture:',
+					...state.architecture.map(a => `  • ${a}`),
+					'',
+					'Configuration:',
+					...state.configuration.map(c => `  • ${c}`),
+					'',
+					'Documentation:',
+					...state.documentation.map(d => `  • ${d}`)
+				],
+				icon: 'folder-library',
+				sectionKey: 'project-structure'
+			},
+
+			// Conditional sections (only show if they have content)
+			...(state.infrastructure ? [{
+				name: 'Infrastructure',
+				items: [
+					'Databases:',
+					...state.infrastructure.databases.map((d: string) => `  • ${d}`),
+					'',
+					'Cache:',
+					...state.infrastructure.cache.map((c: string) => `  • ${c}`),
+					'',
+					'Queues:',
+					...state.infrastructure.queues.map((q: string) => `  • ${q}`),
+					'',
+					'Storage:',
+					...state.infrastructure.storage.map((s: string) => `  • ${s}`),
+					'',
+					'Messaging:',
+					...state.infrastructure.messaging.map((m: string) => `  • ${m}`)
+				],
+				icon: 'server',
+				sectionKey: 'infrastructure'
+			}] : []),
+
+			...(state.security ? [{
+				name: 'Security',
+				items: [
+					'Authentication Frameworks:',
+					...state.security.authFrameworks.map((a: string) => `  • ${a}`),
+					'',
+					'Encryption:',
+					...state.security.encryption.map((e: string) => `  • ${e}`),
+					'',
+					'Vulnerability Scanning:',
+					...state.security.vulnerabilityScanning.map((v: string) => `  • ${v}`),
+					'',
+					'Secrets Management:',
+					...state.security.secretsManagement.map((s: string) => `  • ${s}`)
+				],
+				icon: 'shield',
+				sectionKey: 'security'
+			}] : []),
+
+			...(state.api ? [{
+				name: 'API',
+				items: [
+					'API Type:',
+					...state.api.type.map((t: string) => `  • ${t}`),
+					'',
+					'Documentation:',
+					...state.api.documentation.map((d: string) => `  • ${d}`),
+					'',
+					'Authentication:',
+					...state.api.authentication.map((a: string) => `  • ${a}`),
+					'',
+					'Versioning:',
+					...state.api.versioning.map((v: string) => `  • ${v}`)
+				],
+				icon: 'cloud',
+				sectionKey: 'api'
+			}] : []),
+
+			...(state.deployment ? [{
+				name: 'Deployment',
+				items: [
+					'Environments:',
+					...state.deployment.environments.map((e: string) => `  • ${e}`),
+					'',
+					'Platforms:',
+					...state.deployment.platforms.map((p: string) => `  • ${p}`),
+					'',
+					'Orchestration:',
+					...state.deployment.orchestration.map((o: string) => `  • ${o}`)
+				],
+				icon: 'rocket',
+				sectionKey: 'deployment'
+			}] : []),
+
+			...(state.projectMetrics ? [{
+				name: 'Project Metrics',
+				items: [
+					`Size: ${state.projectMetrics.estimatedSize}`,
+					`Complexity: ${state.projectMetrics.complexity}`,
+					`Files Analyzed: ${state.projectMetrics.filesAnalyzed}`,
+					`Last Analyzed: ${new Date(state.projectMetrics.lastAnalyzed).toLocaleString()}`
+				],
+				icon: 'graph',
+				sectionKey: 'metrics'
+			}] : [])
+		].filter(section => section.items.length > 0); // Only show sections with content
+
+		const items = stateItems.map((section) => {
+			const item = new vscode.TreeItem(
+				section.name,
+				vscode.TreeItemCollapsibleState.None // Don't expand, click to open
+			) as RulesTreeItem;
+			item.category = 'state';
+			item.project = project;
+			item.description = `${section.items.length} items`;
+			item.stateItem = section;
+			item.iconPath = new vscode.ThemeIcon(section.icon);
+
+			// Add command to open in a view instead of expanding
+			item.command = {
+				command: 'projectRules.viewStateSection',
+				title: 'View State Section',
+				arguments: [section.sectionKey || section.name.toLowerCase().replace(/\s+/g, '-'), section, project]
+			};
+
+			return item;
+		});
+
+		// CI/CD pipelines expand to workflows and jobs instead of opening a summary
+		if (state.ciPipelines && state.ciPipelines.length > 0) {
+			const item = new vscode.TreeItem('CI/CD Pipelines', vscode.TreeItemCollapsibleState.Collapsed) as RulesTreeItem;
+			item.category = 'ciPipelines';
+			item.project = project;
+			item.stateItem = state.ciPipelines;
+			item.description = `${state.ciPipelines.length} pipelines`;
+			item.iconPath = new vscode.ThemeIcon('github-action');
+			items.push(item);
+		}
+
+		// Kubernetes expands to workloads, services, ingress, config, overlays and charts
+		const kubernetes = state.deployment?.kubernetes;
+		if (kubernetes) {
+			const item = new vscode.TreeItem('Kubernetes', vscode.TreeItemCollapsibleState.Collapsed) as RulesTreeItem;
+			item.category = 'kubernetes';
+			item.project = project;
+			item.stateItem = kubernetes;
+			item.description = [
+				...(kubernetes.workloads.length > 0 ? [`${kubernetes.workloads.length} workloads`] : []),
+				...(kubernetes.overlays.length > 0 ? [`${kubernetes.overlays.length} overlays`] : []),
+				...(kubernetes.charts.length > 0 ? [`${kubernetes.charts.length} charts`] : [])
+			].join(' · ');
+			item.iconPath = new vscode.ThemeIcon('server-environment');
+			items.push(item);
+		}
+
+		return items;
+	}
+
+	/**
+	 * Build the non-empty Kubernetes groups
+	 */
+	private getKubernetesGroupItems(kubernetes: KubernetesInfo, project: ProjectDefinition): RulesTreeItem[] {
+		const groups: Array<[KubernetesGroup, string, number, string]> = [
+			['workloads', 'Workloads', kubernetes.workloads.length, 'server-process'],
+			['services', 'Services', kubernetes.services.length, 'plug'],
+			['ingresses', 'Ingress', kubernetes.ingresses.length, 'globe'],
+			['config', 'ConfigMaps & Secrets', kubernetes.configMaps.length + kubernetes.secrets.length, 'key'],
+			['overlays', 'Kustomize Overlays', kubernetes.overlays.length, 'layers'],
+			['charts', 'Helm Charts', kubernetes.charts.length, 'package']
+		];
+
+		return groups.filter(([, , count]) => count > 0).map(([group, label, count, icon]) => {
+			const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Collapsed) as RulesTreeItem;
+			item.category = 'kubernetesGroup';
+			item.project = project;
+			item.stateItem = kubernetes;
+			item.kubernetesGroup = group;
+			item.description = `${count}`;
+			item.iconPath = new vscode.ThemeIcon(icon);
+			return item;
+		});
+	}
+
+	/**
+	 * Build the resources of one Kubernetes group; items with a file open it
+	 */
+	private getKubernetesResourceItems(kubernetes: KubernetesInfo, group: KubernetesGroup, project: ProjectDefinition): RulesTreeItem[] {
+		const resource = (label: string, description: string, tooltip: string, file?: string): RulesTreeItem => {
+			const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None) as RulesTreeItem;
+			item.category = 'kubernetesResource';
+			item.project = project;
+			item.description = description;
+			item.tooltip = tooltip;
+			if (file) {
+				item.command = {
+					command: 'vscode.open',
+					title: 'Open Manifest',
+					arguments: [vscode.Uri.joinPath(vscode.Uri.file(project.path), ...file.split('/'))]
+				};
+			}
+			return item;
+		};
+		const quantities = (values?: Record<string, string>) => Object.entries(values || {}).map(([key, value]) => `${key}=${value}`).join(', ');
+
+		switch (group) {
+			case 'workloads':
+				return kubernetes.workloads.map(workload => resource(
+					workload.name,
+					[workload.kind, ...(workload.replicas !== undefined ? [`${workload.replicas} replicas`] : [])].join(' · '),
+					[
+						`${workload.kind}: ${workload.name}${workload.namespace ? ` (${workload.namespace})` : ''}`,
+						workload.file,
+						...workload.containers.map(container => [
+							`${container.name}: ${container.image || 'no image'}`,
+							...(container.requests ? [`  requests ${quantities(container.requests)}`] : []),
+							...(container.limits ? [`  limits ${quantities(container.limits)}`] : ['  ⚠️ no resource limits'])
+						].join('\n'))
+					].join('\n'),
+					workload.file
+				));
+			case 'services':
+				return kubernetes.services.map(service => resource(
+					service.name,
+					[service.type, ...service.ports].join(' · '),
+					`Service: ${service.name}\n${service.file}`,
+					service.file
+				));
+			case 'ingresses':
+				return kubernetes.ingresses.map(ingress => resource(
+					ingress.name,
+					ingress.hosts.join(', '),
+					`${ingress.kind}: ${ingress.name}\n${ingress.file}${ingress.hosts.length > 0 ? `\nHosts: ${ingress.hosts.join(', ')}` : ''}`,
+					ingress.file
+				));
+			case 'config':
+				return [
+					...kubernetes.configMaps.map(name => resource(name, 'ConfigMap', `ConfigMap: ${name}`)),
+					...kubernetes.secrets.map(name => resource(name, 'Secret', `Secret: ${name}`))
+				];
+			case 'overlays':
+				return kubernetes.overlays.map(overlay => resource(
+					overlay.name,
+					[overlay.path, ...(overlay.environment ? [`→ ${overlay.environment}`] : [])].join(' · '),
+					[
+						`Kustomization: ${overlay.path}`,
+						...(overlay.namespace ? [`Namespace: ${overlay.namespace}`] : []),
+						...(overlay.resources.length > 0 ? [`Resources: ${overlay.resources.join(', ')}`] : []),
+						...(overlay.images.length > 0 ? [`Images: ${overlay.images.join(', ')}`] : [])
+					].join('\n')
+				));
+			case 'charts':
+				return kubernetes.charts.map(chart => resource(
+					chart.name,
+					[chart.version, ...(chart.environments.length > 0 ? [`→ ${chart.environments.join(', ')}`] : [])].filter(Boolean).join(' · '),
+					[
+						`Helm chart: ${chart.name}${chart.appVersion ? ` (app ${chart.appVersion})` : ''}`,
+						chart.path,
+						...(chart.dependencies.length > 0 ? [`Dependencies: ${chart.dependencies.join(', ')}`] : []),
+						...(chart.valuesFiles.length > 0 ? [`Values: ${chart.valuesFiles.join(', ')}`] : [])
+					].join('\n'),
+					chart.path === '.' ? 'Chart.yaml' : `${chart.path}/Chart.yaml`
+				));
+		}
+	}
+
+	/**
+	 * Build a CI workflow item: provider, triggers and environments in the description, jobs as children
+	 */
+	private getCIWorkflowItem(workflow: CIWorkflowInfo, project: ProjectDefinition): RulesTreeItem {
+		const jobs = workflow.jobs || [];
+		const triggers = workflow.onEvents || [];
+		const environments = workflow.environments || [];
+		// Actions on a branch or without a ref change under the workflow without notice
+		const unpinned = (workflow.actions || []).filter(action => action.pinning === 'branch' || action.pinning === 'none');
+		const matrix = Object.entries(workflow.matrix || {}).map(([key, values]) => `${key}=${values.join('|')}`);
+
+		const item = new vscode.TreeItem(
+			workflow.name,
+			jobs.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+		) as RulesTreeItem;
+		item.category = 'ciWorkflow';
+		item.project = project;
+		item.ciWorkflow = workflow;
+		item.description = [
+			CI_TYPE_LABELS[workflow.type],
+			...(triggers.length > 0 ? [`on ${triggers.join(', ')}`] : []),
+			...(environments.length > 0 ? [`→ ${environments.join(', ')}`] : []),
+			...(unpinned.length > 0 ? [`⚠️ ${unpinned.length} unpinned`] : [])
+		].join(' · ');
+		item.tooltip = [
+			`${CI_TYPE_LABELS[workflow.type]}: ${workflow.name}`,
+			...(workflow.file ? [workflow.file] : []),
+			...(triggers.length > 0 ? [`Triggers: ${triggers.join(', ')}`] : []),
+			...(jobs.length > 0 ? [`Jobs: ${jobs.join(', ')}`] : []),
+			...(environments.length > 0 ? [`Environments: ${environments.join(', ')}`] : []),
+			...(workflow.agents?.length ? [`Runs on: ${workflow.agents.join(', ')}`] : []),
+			...(matrix.length > 0 ? [`Matrix: ${matrix.join(', ')}`] : []),
+			...(workflow.runtimes?.length ? [`Runtimes: ${workflow.runtimes.join(', ')}`] : []),
+			...(workflow.actions?.length ? [`Actions: ${workflow.actions.length}`] : []),
+			...(unpinned.length > 0 ? [`⚠️ Unpinned actions: ${unpinned.map(action => action.ref ? `${action.name}@${action.ref}` : action.name).join(', ')}`] : []),
+			...(workflow.secrets?.length ? [`Secrets: ${workflow.secrets.join(', ')}`] : []),
+			...(workflow.vars?.length ? [`Vars: ${workflow.vars.join(', ')}`] : []),
+			...(workflow.plugins?.length ? [`Plugins: ${workflow.plugins.join(', ')}`] : []),
+			...(workflow.variables?.length ? [`Variables: ${workflow.variables.join(', ')}`] : [])
+		].join('\n');
+		item.iconPath = new vscode.ThemeIcon('github-action');
+
+		if (workflow.file) {
+			item.command = {
+				command: 'vscode.open',
+				title: 'Open Pipeline',
+				arguments: [vscode.Uri.joinPath(vscode.Uri.file(project.path), ...workflow.file.split('/'))]
+			};
+		}
+		return item;
+	}
+
+	/**
+	 * Build job items that open the pipeline file at the job definition
+	 */
+	private getCIJobItems(workflow: CIWorkflowInfo, project: ProjectDefinition): RulesTreeItem[] {
+		return (workflow.jobs || []).map(job => {
+			const item = new vscode.TreeItem(job, vscode.TreeItemCollapsibleState.None) as RulesTreeItem;
+			item.category = 'ciJob';
+			item.project = project;
+			item.ciWorkflow = workflow;
+			item.iconPath = new vscode.ThemeIcon('play');
+
+			const line = workflow.jobLines?.[job];
+			if (workflow.file) {
+				const uri = vscode.Uri.joinPath(vscode.Uri.file(project.path), ...workflow.file.split('/'));
+				item.description = line === undefined ? workflow.file : `${workflow.file}:${line + 1}`;
+				item.command = {
+					command: 'vscode.open',
+					title: 'Open Job Definition',
+					arguments: line === undefined ? [uri] : [uri, { selection: new vscode.Range(line, 0, line, 0) }]
+				};
+			}
+			return item;
+		});
+	}
+
 	/**
 	 * Format enhanced dependencies for display
 	 */
@@ -456,6 +822,12 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeItem>
 			items.push('');
 		}
 
+		// Show resolved versions that no longer satisfy the declared range
+		if (deps.drift?.length > 0) {
+			items.push(`⚠️ Lockfile Drift: ${deps.drift.join('; ')}`);
+			items.push('');
+		}
+
 		// Show by purpose
 		if (deps.byPurpose) {
 			const categories = [
@@ -475,18 +847,219 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeItem>
 					items.push(`${cat.label}:`);
 					for (const dep of categoryDeps) {
 						const critical = dep.critical ? ' 🔴' : '';
-						items.push(`  • ${dep.name} (${dep.version})${critical} - ${dep.purpose}`);
+						const resolved = dep.resolvedVersion && dep.resolvedVersion !== dep.version ? ` → ${dep.resolvedVersion}` : '';
+						const drift = dep.drift ? ' ⚠️' : '';
+						items.push(`  • ${dep.name} (${dep.version}${resolved})${critical}${drift} - ${dep.purpose}`);
 					}
 					items.push('');
 				}
 			}
 		}
 
+		// Show known packages that only arrive through other dependencies
+		if (deps.transitive?.length > 0) {
+			items.push('Transitive:');
+			for (const dep of deps.transitive) {
+				items.push(`  • ${dep.name} (${dep.version}) - ${dep.purpose}`);
+			}
+			items.push('');
+		}
+
+		if (deps.lockfiles?.length > 0) {
+			items.push(`🔒 Lockfiles: ${deps.lockfiles.join(', ')} (${deps.directCount} direct, ${deps.transitiveCount} transitive)`);
+		}
+
 		return items;
 	}
 
+	/**
+	 * Lay out a project's .cursor/rules files according to the current view mode
+	 */
+	private getCursorRuleItems(rules: Rule[], project: ProjectDefinition): RulesTreeItem[] {
+		if (this.viewMode === 'type') {
+			return Array.from(groupRulesByType(rules).entries()).map(([ruleType, groupRules]) => {
+				const item = new vscode.TreeItem(RULE_TYPES[ruleType].label, vscode.TreeItemCollapsibleState.Expanded) as RulesTreeItem;
+				item.category = 'ruleType';
+				item.ruleType = { type: ruleType };
+				item.project = project;
+				item.description = `${groupRules.length} rules`;
+				item.tooltip = RULE_TYPES[ruleType].explanation;
+				item.iconPath = new vscode.ThemeIcon(RULE_TYPES[ruleType].icon);
+				return item;
+			});
+		}
+
+		if (this.viewMode === 'directory') {
+			const projectRoot = vscode.Uri.file(project.path).path;
+			return Array.from(groupRulesByDirectory(rules, projectRoot).entries()).map(([directory, groupRules]) => {
+				const item = new vscode.TreeItem(directory || project.name, vscode.TreeItemCollapsibleState.Expanded) as RulesTreeItem;
+				item.category = 'directory';
+				item.directory = directory;
+				item.project = project;
+				item.description = `${groupRules.length} rules`;
+				item.tooltip = `${directory || '.'}/.cursor/rules`;
+				item.iconPath = new vscode.ThemeIcon(directory ? 'folder' : 'root-folder');
+				return item;
+			});
+		}
+
+		// Show all rules in a flat list
+		return rules.map(rule => this.createRuleItem(rule, project));
+	}
+
+	/**
+	 * Build the tree item for a single rule
+	 * Inside a rule type group the type is already shown by the group, so only the size is described.
+	 */
+	private createRuleItem(rule: Rule, project: ProjectDefinition): RulesTreeItem {
+		const source = getRuleSourceOf(rule);
+		const label = source !== 'cursor'
+			? getProjectRelativePath(rule, vscode.Uri.file(project.path).path)
+			: this.viewMode === 'directory' ? getRulePathInRulesFolder(rule) : rule.fileName;
+		const highlights = this.filterQuery ? getHighlights(label, this.filterQuery) : [];
+		const item = new vscode.TreeItem(
+			highlights.length > 0 ? { label, highlights } : label,
+			rule.references?.length ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+		) as RulesTreeItem;
+		item.rule = rule;
+		item.category = 'rules';
+		item.project = project;
+
+		const size = getRuleSize(rule);
+		const sizeDescription = `~${formatTokens(size.tokens)} · ${formatBytes(size.bytes)}`;
+		item.description = this.viewMode === 'type' && source === 'cursor'
+			? sizeDescription
+			: `${getRuleTypeLabel(resolveRuleType(rule.metadata))} · ${sizeDescription}`;
+		item.tooltip = this.getRuleTooltip(rule);
+		// Enable context menu for individual rules; other assistants' files can be converted,
+		// and legacy .cursorrules files migrated
+		item.contextValue = source === 'cursor' ? 'rule' : source === 'cursorrules' ? 'instructionFile.cursorrules' : 'instructionFile';
+
+		// Show where the filter matched when it wasn't in the visible label
+		const match = this.filterQuery ? searchRule(rule, this.filterQuery) : undefined;
+		if (match && match.fields.length > 0) {
+			item.tooltip.appendMarkdown(`\n\n**Matches:** ${match.fields.join(', ')}`);
+			if (match.snippet) {
+				item.tooltip.appendMarkdown('\n\n');
+				item.tooltip.appendText(match.snippet);
+			}
+		}
+
+		// Context-aware icon based on filename, content, and project context
+		item.iconPath = new vscode.ThemeIcon(this.getContextAwareIcon(rule, project));
+
+		// Open in editor instead of webview
+		item.command = {
+			command: 'vscode.open',
+			title: 'Open Rule',
+			arguments: [rule.uri]
+		};
+		return item;
+	}
+
+	/**
+	 * Build child items for a rule's @file references (one per distinct reference)
+	 */
+	private getReferenceItems(rule: Rule): RulesTreeItem[] {
+		const seen = new Set<string>();
+		const references = (rule.references || []).filter(reference => {
+			if (seen.has(reference.reference)) {
+				return false;
+			}
+			seen.add(reference.reference);
+			return true;
+		});
+
+		return references.map(reference => {
+			const item = new vscode.TreeItem(reference.reference, vscode.TreeItemCollapsibleState.None) as RulesTreeItem;
+			item.category = 'reference';
+			item.reference = reference;
+			item.rule = rule;
+
+			if (reference.resolvedPath) {
+				const target = rule.uri.with({ path: reference.resolvedPath });
+				item.resourceUri = target;
+				item.description = vscode.workspace.asRelativePath(target);
+				item.tooltip = `Referenced by ${rule.fileName}\n${target.fsPath}`;
+				item.iconPath = vscode.ThemeIcon.File;
+				item.command = {
+					command: 'vscode.open',
+					title: 'Open Referenced File',
+					arguments: [target]
+				};
+			} else {
+				item.description = 'Not found';
+				item.tooltip = `Referenced by ${rule.fileName}, but no matching file exists`;
+				item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+			}
+
+			return item;
+		});
+	}
+
+	/**
+	 * Build a tooltip showing the rule's description, type and globs
+	 */
+	private getRuleTooltip(rule: Rule): vscode.MarkdownString {
+		const ruleType = resolveRuleType(rule.metadata);
+		const tooltip = new vscode.MarkdownString();
+		tooltip.appendMarkdown(`**${rule.fileName}**\n\n`);
+		tooltip.appendMarkdown(`${rule.metadata.description || DEFAULT_DESCRIPTION}\n\n`);
+		tooltip.appendMarkdown(`**Type:** ${RULE_TYPES[ruleType].label} — ${RULE_TYPES[ruleType].explanation}`);
+
+		const source = getRuleSourceOf(rule);
+		if (source !== 'cursor') {
+			tooltip.appendMarkdown(`\n\n**Source:** ${RULE_SOURCES[source].label}`);
+		}
+
+		const globs = normalizeGlobs(rule.metadata.globs);
+		if (globs.length > 0) {
+			tooltip.appendMarkdown(`\n\n**Globs:** ${globs.map(glob => `\`${glob}\``).join(', ')}`);
+		}
+
+		const size = getRuleSize(rule);
+		tooltip.appendMarkdown(`\n\n**Size:** ~${formatTokens(size.tokens)} (${formatBytes(size.bytes)})`);
+
+		return tooltip;
+	}
+
+	/**
+	 * Build the summary item showing how many tokens always-apply rules consume on every request
+	 */
+	private getContextBudgetItem(project: ProjectDefinition, rules: Rule[]): RulesTreeItem {
+		const budget = calculateContextBudget(rules, getAlwaysApplyTokenBudget());
+		const item = new vscode.TreeItem('Context Budget', vscode.TreeItemCollapsibleState.None) as RulesTreeItem;
+		item.project = project;
+		item.contextValue = 'contextBudget';
+		item.description = budget.budget > 0
+			? `~${formatTokens(budget.alwaysApplyTokens)} of ${formatTokens(budget.budget)} always applied`
+			: `~${formatTokens(budget.alwaysApplyTokens)} always applied`;
+		item.iconPath = budget.exceeded
+			? new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'))
+			: new vscode.ThemeIcon('dashboard');
+
+		const tooltip = new vscode.MarkdownString();
+		tooltip.appendMarkdown(`**Context Budget**\n\n`);
+		tooltip.appendMarkdown(`${budget.alwaysApplyRules.length} always-apply rules use ~${formatTokens(budget.alwaysApplyTokens)} on every request`);
+		tooltip.appendMarkdown(budget.budget > 0 ? ` (budget: ${formatTokens(budget.budget)}).` : '.');
+		if (budget.exceeded) {
+			tooltip.appendMarkdown(`\n\n$(warning) Over budget by ~${formatTokens(budget.alwaysApplyTokens - budget.budget)}.`);
+		}
+		if (budget.alwaysApplyRules.length > 0) {
+			tooltip.appendMarkdown('\n\n| Rule | Tokens |\n|---|---:|\n');
+			for (const { rule, size } of budget.alwaysApplyRules) {
+				tooltip.appendMarkdown(`| ${rule.fileName} | ~${size.tokens} |\n`);
+			}
+		}
+		tooltip.appendMarkdown(`\n\nAll rules: ~${formatTokens(budget.totalTokens)}`);
+		tooltip.supportThemeIcons = true;
+		item.tooltip = tooltip;
+
+		return item;
+	}
+
 	private getContextAwareIcon(rule: Rule, project?: ProjectDefinition): string {
-		const description = rule.metadata.description.toLowerCase();
+		const description = (rule.metadata.description || '').toLowerCase();
 		const fileName = rule.fileName.toLowerCase();
 
 		// Filename-based icon detection (higher priority)
@@ -609,24 +1182,4 @@ export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeItem>
 		// Default fallback icon
 		return 'file-text';
 	}
-
-	private groupRulesByDirectory(rules: Rule[]): Record<string, Rule[]> {
-		const groups: Record<string, Rule[]> = {};
-
-		for (const rule of rules) {
-			// Extract directory from URI path relative to workspace
-			const relativePath = vscode.workspace.asRelativePath(rule.uri);
-			const directory = relativePath.includes('/')
-				? relativePath.substring(0, relativePath.lastIndexOf('/'))
-				: '';
-
-			if (!groups[directory]) {
-				groups[directory] = [];
-			}
-			groups[directory].push(rule);
-		}
-
-		return groups;
-	}
-
 }
\ No newline at end of file
@@ -181,6 +181,12 @@ export class AgentGuidanceGenerator {
 			warnings.push(`Critical dependencies: ${critical} - changes may break core functionality`);
 		}
 
+		// Lockfile drift: installed APIs may not match the declared major version
+		if (state.dependencies?.drift && state.dependencies.drift.length > 0) {
+			const drift = state.dependencies.drift.slice(0, 3).join('; ');
+			warnings.push(`Lockfile out of sync with manifest (${drift}) - use the resolved versions' APIs`);
+		}
+
 		// Security warnings
 		if (state.platformContext?.vscode) {
 			warnings.push('Be cautious with workspace.fs.readFile - validate paths to prevent directory traversal');
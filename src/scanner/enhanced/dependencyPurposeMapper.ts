@@ -1,6 +1,13 @@
 // Dependency Purpose Mapper - Maps dependencies to their purposes
 import * as vscode from 'vscode';
 import { DependencyInfo, DependencyPurpose, EnhancedDependencies } from './types';
+import { GoParser } from '../parsers/goParser';
+import { RubyParser } from '../parsers/rubyParser';
+import { PhpParser } from '../parsers/phpParser';
+import { PythonParser } from '../parsers/pythonParser';
+import { LockfileParser } from '../parsers/lockfileParser';
+import { LockfileInfo, ResolvedPackage } from '../types';
+import { RangeDialect, satisfiesRange } from '../../utils/versionRanges';
 
 /**
  * Dependency purpose database
@@ -75,6 +82,138 @@ const DEPENDENCY_PURPOSES: Record<string, DependencyPurpose> = {
 	'svelte': { category: 'framework', purpose: 'Compiler framework', critical: true },
 };
 
+/**
+ * Go module purpose database, keyed by module path prefix
+ * A key matches the module and its subpackages / major versions (e.g. github.com/labstack/echo/v4).
+ */
+const GO_DEPENDENCY_PURPOSES: Record<string, DependencyPurpose> = {
+	// Web Frameworks
+	'github.com/gin-gonic/gin': { category: 'framework', purpose: 'HTTP web framework', critical: true },
+	'github.com/labstack/echo': { category: 'framework', purpose: 'HTTP web framework', critical: true },
+	'github.com/gofiber/fiber': { category: 'framework', purpose: 'Fast HTTP web framework', critical: true },
+	'github.com/go-chi/chi': { category: 'framework', purpose: 'HTTP router', critical: true },
+	'github.com/gorilla/mux': { category: 'framework', purpose: 'HTTP router', critical: true },
+	'google.golang.org/grpc': { category: 'framework', purpose: 'gRPC framework', critical: true },
+	'gorm.io/gorm': { category: 'framework', purpose: 'ORM', critical: true },
+	'github.com/spf13/cobra': { category: 'framework', purpose: 'CLI framework', critical: true },
+
+	// Testing
+	'github.com/stretchr/testify': { category: 'testing', purpose: 'Assertions and mocks', critical: false },
+	'github.com/onsi/ginkgo': { category: 'testing', purpose: 'BDD test framework', critical: false },
+	'github.com/onsi/gomega': { category: 'testing', purpose: 'Matcher library', critical: false },
+	'github.com/golang/mock': { category: 'testing', purpose: 'Mock generation', critical: false },
+	'go.uber.org/mock': { category: 'testing', purpose: 'Mock generation', critical: false },
+	'github.com/testcontainers/testcontainers-go': { category: 'testing', purpose: 'Integration tests with containers', critical: false },
+
+	// Parsing
+	'google.golang.org/protobuf': { category: 'parsing', purpose: 'Protocol Buffers', critical: true },
+	'gopkg.in/yaml.v3': { category: 'parsing', purpose: 'Parse/stringify YAML', critical: true },
+	'github.com/BurntSushi/toml': { category: 'parsing', purpose: 'Parse TOML', critical: false },
+
+	// Utility Libraries
+	'github.com/spf13/viper': { category: 'utility', purpose: 'Configuration loading', critical: true },
+	'go.uber.org/zap': { category: 'utility', purpose: 'Structured logging', critical: false },
+	'github.com/sirupsen/logrus': { category: 'utility', purpose: 'Structured logging', critical: false },
+	'github.com/rs/zerolog': { category: 'utility', purpose: 'Structured logging', critical: false },
+	'github.com/google/uuid': { category: 'utility', purpose: 'UUID generation', critical: false },
+
+	// HTTP Clients
+	'github.com/go-resty/resty': { category: 'http', purpose: 'HTTP client', critical: true }
+};
+
+/**
+ * Ruby gem purpose database
+ */
+const RUBY_DEPENDENCY_PURPOSES: Record<string, DependencyPurpose> = {
+	// Web Frameworks
+	'rails': { category: 'framework', purpose: 'Full-stack web framework', critical: true },
+	'sinatra': { category: 'framework', purpose: 'Lightweight web framework', critical: true },
+	'hanami': { category: 'framework', purpose: 'Web framework', critical: true },
+	'grape': { category: 'framework', purpose: 'REST API framework', critical: true },
+	'puma': { category: 'framework', purpose: 'Web server', critical: true },
+	'sidekiq': { category: 'framework', purpose: 'Background job processing', critical: true },
+	'activerecord': { category: 'framework', purpose: 'ORM', critical: true },
+
+	// Testing
+	'rspec-rails': { category: 'testing', purpose: 'RSpec for Rails', critical: false },
+	'rspec': { category: 'testing', purpose: 'BDD test framework', critical: false },
+	'minitest': { category: 'testing', purpose: 'Test framework', critical: false },
+	'capybara': { category: 'testing', purpose: 'Browser integration testing', critical: false },
+	'factory_bot_rails': { category: 'testing', purpose: 'Test data factories', critical: false },
+	'webmock': { category: 'testing', purpose: 'HTTP request stubbing', critical: false },
+
+	// Linting/Quality
+	'rubocop': { category: 'code-quality', purpose: 'Code linting and formatting', critical: false },
+	'standard': { category: 'code-quality', purpose: 'Code linting and formatting', critical: false },
+	'brakeman': { category: 'code-quality', purpose: 'Security static analysis', critical: false },
+	'sorbet': { category: 'code-quality', purpose: 'Type checking', critical: false },
+
+	// Build Tools
+	'bootsnap': { category: 'build', purpose: 'Boot time caching', critical: false },
+	'propshaft': { category: 'build', purpose: 'Asset pipeline', critical: false },
+	'sprockets-rails': { category: 'build', purpose: 'Asset pipeline', critical: false },
+
+	// Parsing
+	'nokogiri': { category: 'parsing', purpose: 'Parse HTML/XML', critical: true },
+	'oj': { category: 'parsing', purpose: 'Fast JSON parsing', critical: false },
+
+	// HTTP Clients
+	'faraday': { category: 'http', purpose: 'HTTP client', critical: true },
+	'httparty': { category: 'http', purpose: 'HTTP client', critical: true },
+
+	// Utility Libraries
+	'dotenv-rails': { category: 'utility', purpose: 'Environment variable loading', critical: false },
+	'pry': { category: 'utility', purpose: 'Debugging console', critical: false },
+	'devise': { category: 'utility', purpose: 'Authentication', critical: true }
+};
+
+/**
+ * Composer package purpose database
+ */
+const PHP_DEPENDENCY_PURPOSES: Record<string, DependencyPurpose> = {
+	// Web Frameworks
+	'laravel/framework': { category: 'framework', purpose: 'Full-stack web framework', critical: true },
+	'laravel/lumen-framework': { category: 'framework', purpose: 'Micro web framework', critical: true },
+	'symfony/framework-bundle': { category: 'framework', purpose: 'Web framework', critical: true },
+	'slim/slim': { category: 'framework', purpose: 'Micro web framework', critical: true },
+	'doctrine/orm': { category: 'framework', purpose: 'ORM', critical: true },
+
+	// Testing
+	'phpunit/phpunit': { category: 'testing', purpose: 'Test framework', critical: false },
+	'pestphp/pest': { category: 'testing', purpose: 'Test framework', critical: false },
+	'mockery/mockery': { category: 'testing', purpose: 'Mocking library', critical: false },
+	'fakerphp/faker': { category: 'testing', purpose: 'Fake test data', critical: false },
+
+	// Linting/Quality
+	'phpstan/phpstan': { category: 'code-quality', purpose: 'Static analysis', critical: false },
+	'vimeo/psalm': { category: 'code-quality', purpose: 'Static analysis', critical: false },
+	'squizlabs/php_codesniffer': { category: 'code-quality', purpose: 'Coding standard checks', critical: false },
+	'friendsofphp/php-cs-fixer': { category: 'code-quality', purpose: 'Code formatting', critical: false },
+	'laravel/pint': { category: 'code-quality', purpose: 'Code formatting', critical: false },
+
+	// Parsing
+	'symfony/yaml': { category: 'parsing', purpose: 'Parse/stringify YAML', critical: true },
+
+	// HTTP Clients
+	'guzzlehttp/guzzle': { category: 'http', purpose: 'HTTP client', critical: true },
+	'symfony/http-client': { category: 'http', purpose: 'HTTP client', critical: true },
+
+	// Utility Libraries
+	'monolog/monolog': { category: 'utility', purpose: 'Logging', critical: false },
+	'nesbot/carbon': { category: 'utility', purpose: 'Date manipulation', critical: false },
+	'vlucas/phpdotenv': { category: 'utility', purpose: 'Environment variable loading', critical: false }
+};
+
+/**
+ * Package from a non-npm manifest (Gemfile, composer.json)
+ */
+interface ManifestPackage {
+	name: string;
+	version?: string;          // Declared requirement
+	resolvedVersion?: string;  // Gemfile.lock / composer.lock version
+	dev: boolean;
+}
+
 interface PackageJson {
 	dependencies?: Record<string, string>;
 	devDependencies?: Record<string, string>;
@@ -89,13 +228,17 @@ export class DependencyPurposeMapper {
 	 */
 	async map(workspaceRoot: vscode.Uri): Promise<EnhancedDependencies> {
 		const packageJsonData = await this.readPackageJson(workspaceRoot);
-		if (!packageJsonData) {
+		const goModules = await this.readGoModules(workspaceRoot);
+		const rubyGems = await this.readRubyGems(workspaceRoot);
+		const composerPackages = await this.readComposerPackages(workspaceRoot);
+		const lockfiles = await this.readLockfiles(workspaceRoot);
+		if (!packageJsonData && goModules.length === 0 && rubyGems.length === 0 && composerPackages.length === 0 && lockfiles.length === 0) {
 			return this.getEmptyDependencies();
 		}
 
 		const allDeps = {
-			...packageJsonData.dependencies,
-			...packageJsonData.devDependencies
+			...packageJsonData?.dependencies,
+			...packageJsonData?.devDependencies
 		};
 
 		const byPurpose: EnhancedDependencies['byPurpose'] = {
@@ -109,12 +252,18 @@ export class DependencyPurposeMapper {
 			framework: []
 		};
 
-		const devOnlyDeps = new Set(Object.keys(packageJsonData.devDependencies || {}));
+		const devOnlyDeps = new Set(Object.keys(packageJsonData?.devDependencies || {}));
 		const criticalPath: string[] = [];
+		const drift: string[] = [];
+
+		// The first npm lockfile wins (package-lock.json, then pnpm-lock.yaml, then yarn.lock)
+		const npmLockfile = lockfiles.find(lockfile => lockfile.ecosystem === 'npm');
 
 		// Map each dependency
 		for (const [name, version] of Object.entries(allDeps)) {
 			const purpose = DEPENDENCY_PURPOSES[name];
+			const resolved = npmLockfile && this.findResolved(npmLockfile.packages, name, version);
+			const drifted = resolved !== undefined && this.checkDrift(name, version, resolved.version, 'npm', drift);
 
 			if (purpose) {
 				const depInfo: DependencyInfo = {
@@ -123,6 +272,10 @@ export class DependencyPurposeMapper {
 					purpose: purpose.purpose,
 					critical: purpose.critical
 				};
+				if (resolved) {
+					depInfo.resolvedVersion = resolved.version;
+					depInfo.drift = drifted;
+				}
 
 				// Add to appropriate category
 				const category = purpose.category as keyof typeof byPurpose;
@@ -137,11 +290,224 @@ export class DependencyPurposeMapper {
 			}
 		}
 
-		return {
+		// Map direct Go requirements; go.mod has no dev-only section
+		for (const module of goModules) {
+			const key = Object.keys(GO_DEPENDENCY_PURPOSES).find(prefix =>
+				module.path === prefix || module.path.startsWith(`${prefix}/`));
+			if (!key) {
+				continue;
+			}
+
+			const purpose = GO_DEPENDENCY_PURPOSES[key];
+			const category = purpose.category as keyof typeof byPurpose;
+			if (byPurpose[category]) {
+				byPurpose[category].push({
+					name: module.path,
+					version: module.version,
+					purpose: purpose.purpose,
+					critical: purpose.critical
+				});
+			}
+			if (purpose.critical) {
+				criticalPath.push(module.path);
+			}
+		}
+
+		// Map gems and Composer packages; development/test groups and require-dev are dev-only
+		const manifests: Array<[ManifestPackage[], Record<string, DependencyPurpose>, RangeDialect]> = [
+			[rubyGems, RUBY_DEPENDENCY_PURPOSES, 'ruby'],
+			[composerPackages, PHP_DEPENDENCY_PURPOSES, 'composer']
+		];
+		for (const [packages, purposes, dialect] of manifests) {
+			for (const pkg of packages) {
+				if (pkg.dev) {
+					devOnlyDeps.add(pkg.name);
+				}
+				const drifted = pkg.version !== undefined && pkg.resolvedVersion !== undefined &&
+					this.checkDrift(pkg.name, pkg.version, pkg.resolvedVersion, dialect, drift);
+
+				const purpose = purposes[pkg.name];
+				if (!purpose) {
+					continue;
+				}
+
+				const category = purpose.category as keyof typeof byPurpose;
+				if (byPurpose[category]) {
+					const depInfo: DependencyInfo = {
+						name: pkg.name,
+						version: pkg.version || pkg.resolvedVersion || '*',
+						purpose: purpose.purpose,
+						critical: purpose.critical
+					};
+					if (pkg.resolvedVersion) {
+						depInfo.resolvedVersion = pkg.resolvedVersion;
+						depInfo.drift = drifted;
+					}
+					byPurpose[category].push(depInfo);
+				}
+				if (purpose.critical && !pkg.dev) {
+					criticalPath.push(pkg.name);
+				}
+			}
+		}
+
+		const enhanced: EnhancedDependencies = {
 			byPurpose,
 			criticalPath,
 			devOnly: Array.from(devOnlyDeps)
 		};
+		if (lockfiles.length > 0) {
+			const pythonDeclared = await this.readPythonDependencies(workspaceRoot);
+			const resolution = this.classifyLockfiles(lockfiles, Object.keys(allDeps), pythonDeclared, drift);
+			enhanced.lockfiles = lockfiles.map(lockfile => lockfile.file);
+			enhanced.transitive = resolution.transitive;
+			enhanced.directCount = resolution.directCount;
+			enhanced.transitiveCount = resolution.transitiveCount;
+		}
+		if (drift.length > 0) {
+			enhanced.drift = Array.from(new Set(drift));
+		}
+		return enhanced;
+	}
+
+	/**
+	 * Count direct and transitive packages per lockfile, list known transitive npm packages,
+	 * and check Python / NuGet ranges recorded in the lockfile itself
+	 */
+	private classifyLockfiles(lockfiles: LockfileInfo[], npmDeclared: string[], pythonDeclared: string[], drift: string[]): {
+		transitive: DependencyInfo[];
+		directCount: number;
+		transitiveCount: number;
+	} {
+		const transitive = new Map<string, DependencyInfo>();
+		let directCount = 0;
+		let transitiveCount = 0;
+		const counted = new Set<string>();
+
+		for (const lockfile of lockfiles) {
+			const declared = new Set(lockfile.ecosystem === 'npm' ? npmDeclared
+				: lockfile.ecosystem === 'python' ? pythonDeclared.map(name => this.normalizePythonName(name))
+					: []);
+			// Without a manifest or lockfile flags, poetry.lock and package-lock v1 can't tell direct from transitive
+			if (declared.size === 0 && !lockfile.packages.some(pkg => pkg.direct !== undefined)) {
+				continue;
+			}
+
+			const directNames = new Set<string>();
+			for (const pkg of lockfile.packages) {
+				const name = lockfile.ecosystem === 'python' ? this.normalizePythonName(pkg.name) : pkg.name;
+				if (pkg.direct || declared.has(name)) {
+					directNames.add(name);
+					if (lockfile.ecosystem !== 'npm' && pkg.range) {
+						this.checkDrift(pkg.name, pkg.range, pkg.version, lockfile.ecosystem, drift);
+					}
+				}
+			}
+
+			for (const pkg of lockfile.packages) {
+				const name = lockfile.ecosystem === 'python' ? this.normalizePythonName(pkg.name) : pkg.name;
+				const key = `${lockfile.ecosystem}:${name}`;
+				if (counted.has(key)) {
+					continue;
+				}
+				counted.add(key);
+
+				if (directNames.has(name)) {
+					directCount++;
+					continue;
+				}
+				transitiveCount++;
+
+				const purpose = lockfile.ecosystem === 'npm' ? DEPENDENCY_PURPOSES[name] : undefined;
+				if (purpose && !transitive.has(name)) {
+					transitive.set(name, {
+						name,
+						version: pkg.version,
+						resolvedVersion: pkg.version,
+						purpose: purpose.purpose,
+						critical: false
+					});
+				}
+			}
+		}
+
+		return { transitive: Array.from(transitive.values()), directCount, transitiveCount };
+	}
+
+	/**
+	 * Find the lockfile entry for a declared dependency: the direct entry, the entry resolved
+	 * for this exact range (yarn.lock), or any entry with the name
+	 */
+	private findResolved(packages: ResolvedPackage[], name: string, range: string): ResolvedPackage | undefined {
+		const candidates = packages.filter(pkg => pkg.name === name);
+		return candidates.find(pkg => pkg.direct) ||
+			candidates.find(pkg => pkg.range === range) ||
+			candidates[0];
+	}
+
+	/**
+	 * Record drift when the resolved version is definitely outside the declared range
+	 */
+	private checkDrift(name: string, range: string, resolved: string, dialect: RangeDialect, drift: string[]): boolean {
+		if (satisfiesRange(resolved, range, dialect) !== false) {
+			return false;
+		}
+		drift.push(`${name}: declared ${range}, resolved ${resolved}`);
+		return true;
+	}
+
+	/**
+	 * PEP 503 name normalization, so Django_REST.framework matches django-rest-framework
+	 */
+	private normalizePythonName(name: string): string {
+		return name.toLowerCase().replace(/[-_.]+/g, '-');
+	}
+
+	/**
+	 * Read all lockfiles in the workspace
+	 */
+	private async readLockfiles(workspaceRoot: vscode.Uri): Promise<LockfileInfo[]> {
+		const result = await new LockfileParser().parseLockfiles(workspaceRoot);
+		return result.data || [];
+	}
+
+	/**
+	 * Read declared Python dependency names from pyproject.toml / requirements files
+	 */
+	private async readPythonDependencies(workspaceRoot: vscode.Uri): Promise<string[]> {
+		const result = await new PythonParser().parseProjects(workspaceRoot);
+		return result.data ? [...result.data.dependencies, ...result.data.devDependencies].map(dep => dep.name) : [];
+	}
+
+	/**
+	 * Read direct requirements from go.mod (and go.work members)
+	 */
+	private async readGoModules(workspaceRoot: vscode.Uri): Promise<Array<{ path: string; version: string }>> {
+		const result = await new GoParser().parseProject(workspaceRoot);
+		return result.data ? result.data.requires.filter(module => !module.indirect) : [];
+	}
+
+	/**
+	 * Read gems from the Gemfile; gems only in development/test groups are dev-only
+	 */
+	private async readRubyGems(workspaceRoot: vscode.Uri): Promise<ManifestPackage[]> {
+		const result = await new RubyParser().parseProject(workspaceRoot);
+		return (result.data?.gems || []).map(gem => ({
+			name: gem.name,
+			version: gem.requirement,
+			resolvedVersion: gem.version,
+			dev: gem.groups.length > 0 && gem.groups.every(group => group === 'development' || group === 'test')
+		}));
+	}
+
+	/**
+	 * Read packages from composer.json, skipping ext-* platform requirements
+	 */
+	private async readComposerPackages(workspaceRoot: vscode.Uri): Promise<ManifestPackage[]> {
+		const result = await new PhpParser().parseProject(workspaceRoot);
+		return (result.data?.packages || [])
+			.filter(pkg => !pkg.name.startsWith('ext-'))
+			.map(pkg => ({ name: pkg.name, version: pkg.constraint, resolvedVersion: pkg.version, dev: pkg.dev }));
 	}
 
 	/**
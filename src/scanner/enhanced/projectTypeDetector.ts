@@ -1,6 +1,7 @@
 // Project Type Detector - Detects the primary type of project
 import * as vscode from 'vscode';
 import { ProjectIdentity } from './types';
+import { RustParser } from '../parsers/rustParser';
 
 interface PackageJson {
 	name?: string;
@@ -100,9 +101,10 @@ export class ProjectTypeDetector {
 				return 'go-application';
 			}
 
-			// Rust project
+			// Rust project: api-server, cli-tool or library from its targets and crates
 			if (await this.fileExists(workspaceRoot, 'Cargo.toml')) {
-				return 'rust-application';
+				const rustResult = await new RustParser().parseProject(workspaceRoot);
+				return rustResult.data?.projectType || 'rust-application';
 			}
 
 			return 'unknown';
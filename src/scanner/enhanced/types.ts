@@ -5,7 +5,9 @@
  */
 export interface DependencyInfo {
 	name: string;
-	version: string;
+	version: string;           // Declared range (exact version for transitive dependencies)
+	resolvedVersion?: string;  // Version pinned by the lockfile
+	drift?: boolean;           // Resolved version falls outside the declared range
 	purpose: string;
 	critical: boolean;
 }
@@ -64,6 +66,11 @@ export interface EnhancedDependencies {
 	};
 	criticalPath: string[];        // Essential dependencies
 	devOnly: string[];             // Development-only
+	lockfiles?: string[];          // Lockfiles versions were resolved from
+	drift?: string[];              // "name: declared ^1.0.0, resolved 2.1.0"
+	transitive?: DependencyInfo[]; // Known packages only pulled in by other dependencies
+	directCount?: number;
+	transitiveCount?: number;
 }
 
 /**
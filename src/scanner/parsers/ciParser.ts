@@ -1,6 +1,12 @@
-// CI/CD Parser - Parse GitHub Actions, Azure Pipelines, GitLab CI
+// CI/CD Parser - Parse GitHub Actions, Azure Pipelines, GitLab CI, Jenkins, CircleCI, Bitbucket Pipelines and Buildkite
 import * as vscode from 'vscode';
-import { CIWorkflowInfo, ParserResult } from '../types';
+import { parse } from 'yaml';
+import { CIActionReference, CIWorkflowInfo, DeploymentEnvironmentPatterns, ParserResult } from '../types';
+
+/**
+ * What GitHub Actions jobs and steps use, collected across a workflow and the local files it calls
+ */
+type GitHubUsage = Required<Pick<CIWorkflowInfo, 'matrix' | 'runtimes' | 'actions' | 'secrets' | 'vars' | 'localReferences'>>;
 
 /**
  * Parser for CI/CD configuration files
@@ -40,6 +46,26 @@ export class CIParser {
 			if (gitlabCI.errors.length > 0) {
 				errors.push(...gitlabCI.errors);
 			}
+
+			// Parse Jenkins, CircleCI, Bitbucket Pipelines and Buildkite
+			const pipelineFiles: Array<[string, (text: string) => CIWorkflowInfo[]]> = [
+				['Jenkinsfile', text => [this.parseJenkinsfile(text)]],
+				['.circleci/config.yml', text => this.parseCircleCIConfig(text)],
+				['bitbucket-pipelines.yml', text => [this.parseBitbucketPipelines(text)]],
+				['.buildkite/pipeline.yml', text => [this.parseBuildkitePipeline(text)]],
+				['.buildkite/pipeline.yaml', text => [this.parseBuildkitePipeline(text)]]
+			];
+			for (const [file, parseFile] of pipelineFiles) {
+				const uri = vscode.Uri.joinPath(workspaceRoot, ...file.split('/'));
+				if (await this.fileExists(uri)) {
+					try {
+						const text = await this.readText(uri);
+						workflows.push(...parseFile(text).map(workflow => this.withLocation(workflow, file, text)));
+					} catch (error) {
+						errors.push(`Failed to parse ${file}: ${error}`);
+					}
+				}
+			}
 		} catch (error) {
 			errors.push(`Failed to scan for CI/CD configurations: ${error}`);
 		}
@@ -70,10 +96,10 @@ export class CIParser {
 						const uri = vscode.Uri.joinPath(workflowsDir, name);
 
 						try {
-							const workflow = await this.parseGitHubWorkflow(uri, name);
-							if (workflow) {
-								workflows.push(workflow);
-							}
+							const text = await this.readText(uri);
+							const workflow = this.parseGitHubWorkflow(text, name.replace(/\.(yml|yaml)$/, ''));
+							await this.followLocalReferences(workspaceRoot, workflow);
+							workflows.push(this.withLocation(workflow, `.github/workflows/${name}`, text));
 						} catch (error) {
 							errors.push(`Failed to parse ${name}: ${error}`);
 						}
@@ -92,57 +118,52 @@ export class CIParser {
 	}
 
 	/**
-	 * Parse a single GitHub Actions workflow file
+	 * Parse a GitHub Actions workflow: events, jobs, environments, runners, matrix, actions and secrets
+	 * Local reusable workflows and composite actions are only listed here; parseConfigurations follows them.
 	 */
-	private async parseGitHubWorkflow(uri: vscode.Uri, fileName: string): Promise<CIWorkflowInfo | null> {
-		try {
-			const content = await vscode.workspace.fs.readFile(uri);
-			const text = Buffer.from(content).toString('utf8');
-
-			const workflow: CIWorkflowInfo = {
-				type: 'github-actions',
-				name: fileName.replace(/\.(yml|yaml)$/, ''),
-				onEvents: [],
-				jobs: []
-			};
-
-			// Parse on: events with improved error handling
-			try {
-				const onMatch = text.match(/on:\s*\n((?:\s+[^:]+:\s*(?:true|\[.*?\]|.*\n?))+)/s);
-				if (onMatch) {
-					const onSection = onMatch[1];
-					const eventMatches = onSection.matchAll(/(\w+):/g);
-					for (const match of eventMatches) {
-						if (match[1] && !match[1].startsWith('-')) {
-							workflow.onEvents?.push(match[1]);
-						}
-					}
-				}
-			} catch (error) {
-				// Continue parsing even if on: events parsing fails
+	parseGitHubWorkflow(text: string, name: string): CIWorkflowInfo {
+		const workflow = parse(text, { merge: true }) || {};
+		const jobs: Record<string, any> = workflow.jobs || {};
+		const usage = this.emptyUsage(text);
+		const agents: string[] = [];
+
+		// on: push / on: [push, pull_request] / on: { push: {...}, workflow_dispatch: }
+		const on = workflow.on;
+		const onEvents = typeof on === 'string' ? [on] : Array.isArray(on) ? on.map(String) : Object.keys(on || {});
+
+		for (const job of Object.values<any>(jobs)) {
+			const matrix = this.matrixValues(job?.strategy?.matrix);
+			this.mergeMatrix(usage.matrix, matrix);
+			agents.push(...this.runnerLabels(job?.['runs-on']).flatMap(label => this.expandMatrix(label, matrix)));
+			// Jobs that call a reusable workflow have `uses` instead of steps
+			if (typeof job?.uses === 'string') {
+				this.addUses(job.uses, usage);
 			}
+			this.collectSteps(job?.steps, matrix, usage);
+		}
 
-			// Parse jobs with improved error handling
-			try {
-				const jobsMatch = text.match(/jobs:\s*\n((?:\s+\w+:\s*\n(?:\s+.*\n?)+)+)/s);
-				if (jobsMatch) {
-					const jobsSection = jobsMatch[1];
-					const jobMatches = jobsSection.matchAll(/(\w+):\s*\n/s);
-					for (const match of jobMatches) {
-						if (match[1]) {
-							workflow.jobs?.push(match[1]);
-						}
-					}
-				}
-			} catch (error) {
-				// Continue parsing even if jobs parsing fails
-			}
+		return {
+			type: 'github-actions',
+			name,
+			onEvents,
+			jobs: Object.keys(jobs),
+			environments: this.unique(Object.values(jobs).map(job => this.environmentName(job?.environment)).filter((env): env is string => !!env)),
+			agents: this.unique(agents),
+			variables: Object.keys(workflow.env || {}),
+			...this.finishUsage(usage)
+		};
+	}
 
-			return workflow;
-		} catch (error) {
-			// Return null if file can't be read, but don't throw
-			return null;
+	/**
+	 * Parse a local action's action.yml; only composite actions have steps to analyze
+	 */
+	parseCompositeAction(text: string): Pick<CIWorkflowInfo, keyof GitHubUsage> {
+		const action = parse(text, { merge: true }) || {};
+		const usage = this.emptyUsage(text);
+		if (action.runs?.using === 'composite') {
+			this.collectSteps(action.runs.steps, {}, usage);
 		}
+		return this.finishUsage(usage);
 	}
 
 	/**
@@ -161,10 +182,8 @@ export class CIParser {
 			for (const uri of pipelineFiles) {
 				if (await this.fileExists(uri)) {
 					try {
-						const pipeline = await this.parseAzurePipeline(uri);
-						if (pipeline) {
-							workflows.push(pipeline);
-						}
+						const text = await this.readText(uri);
+						workflows.push(this.withLocation(this.parseAzurePipeline(text), uri.path.slice(uri.path.lastIndexOf('/') + 1), text));
 					} catch (error) {
 						errors.push(`Failed to parse ${uri.path}: ${error}`);
 					}
@@ -182,31 +201,47 @@ export class CIParser {
 	}
 
 	/**
-	 * Parse a single Azure Pipeline file
+	 * Parse an Azure Pipelines file: triggers, stages (or jobs), deployment environments and pools
 	 */
-	private async parseAzurePipeline(uri: vscode.Uri): Promise<CIWorkflowInfo | null> {
-		const content = await vscode.workspace.fs.readFile(uri);
-		const text = Buffer.from(content).toString('utf8');
+	parseAzurePipeline(text: string): CIWorkflowInfo {
+		const pipeline = parse(text, { merge: true }) || {};
+
+		// CI runs on every push unless `trigger: none`; `pr` and `schedules` add more triggers
+		const onEvents: string[] = [];
+		if (pipeline.trigger !== 'none') {
+			onEvents.push('push');
+		}
+		if (pipeline.pr !== undefined && pipeline.pr !== 'none') {
+			onEvents.push('pull_request');
+		}
+		if (Array.isArray(pipeline.schedules) && pipeline.schedules.length > 0) {
+			onEvents.push('schedule');
+		}
 
-		const pipeline: CIWorkflowInfo = {
+		const stages: any[] = Array.isArray(pipeline.stages) ? pipeline.stages : [];
+		const jobs: any[] = [
+			...(Array.isArray(pipeline.jobs) ? pipeline.jobs : []),
+			...stages.flatMap(stage => Array.isArray(stage?.jobs) ? stage.jobs : [])
+		];
+
+		// Stage names when the pipeline has stages, job names otherwise
+		const names = stages.length > 0
+			? stages.map(stage => stage?.displayName || stage?.stage)
+			: jobs.map(job => job?.displayName || job?.job || job?.deployment);
+		const pool = (value: any): string[] => typeof value === 'string' ? [value] : [value?.vmImage || value?.name].filter(Boolean);
+		const variables = Array.isArray(pipeline.variables)
+			? pipeline.variables.map((variable: any) => variable?.name).filter(Boolean)
+			: Object.keys(pipeline.variables || {});
+
+		return {
 			type: 'azure-pipelines',
 			name: 'azure-pipelines',
-			jobs: []
+			onEvents,
+			jobs: this.unique(names.filter(Boolean)),
+			environments: this.unique(jobs.map(job => this.environmentName(job?.environment)?.split('.')[0]).filter((env): env is string => !!env)),
+			agents: this.unique([pipeline.pool, ...stages.map(stage => stage?.pool), ...jobs.map(job => job?.pool)].flatMap(pool)),
+			variables
 		};
-
-		// Parse stages (jobs in Azure Pipelines)
-		const stagesMatch = text.match(/stages:\s*\n((?:\s*-\s*stage:\s*\n(?:\s+.*\n?)+)+)/s);
-		if (stagesMatch) {
-			const stagesSection = stagesMatch[1];
-			const stageMatches = stagesSection.matchAll(/displayName:\s*['"](.*?)['"]/g);
-			for (const match of stageMatches) {
-				if (match[1]) {
-					pipeline.jobs?.push(match[1]);
-				}
-			}
-		}
-
-		return pipeline;
 	}
 
 	/**
@@ -221,10 +256,8 @@ export class CIParser {
 
 			if (await this.fileExists(ciConfig)) {
 				try {
-					const pipeline = await this.parseGitLabPipeline(ciConfig);
-					if (pipeline) {
-						workflows.push(pipeline);
-					}
+					const text = await this.readText(ciConfig);
+					workflows.push(this.withLocation(this.parseGitLabPipeline(text), '.gitlab-ci.yml', text));
 				} catch (error) {
 					errors.push(`Failed to parse .gitlab-ci.yml: ${error}`);
 				}
@@ -241,27 +274,527 @@ export class CIParser {
 	}
 
 	/**
-	 * Parse a GitLab CI configuration file
+	 * Parse .gitlab-ci.yml: jobs (skipping keywords and hidden `.templates`), environments and images
 	 */
-	private async parseGitLabPipeline(uri: vscode.Uri): Promise<CIWorkflowInfo | null> {
-		const content = await vscode.workspace.fs.readFile(uri);
-		const text = Buffer.from(content).toString('utf8');
+	parseGitLabPipeline(text: string): CIWorkflowInfo {
+		const config = parse(text, { merge: true }) || {};
+		const keywords = ['default', 'include', 'stages', 'variables', 'workflow', 'image', 'services', 'before_script', 'after_script', 'cache'];
+		const jobs = Object.entries<any>(config)
+			.filter(([key, value]) => !key.startsWith('.') && !keywords.includes(key) && value && typeof value === 'object' && !Array.isArray(value));
+
+		// Pipelines run on push unless rules name other sources ($CI_PIPELINE_SOURCE == "merge_request_event")
+		const sources = Array.from(text.matchAll(/\$CI_PIPELINE_SOURCE\s*==\s*["']([\w-]+)["']/g), match => match[1]);
+		const image = (value: any): string | undefined => typeof value === 'string' ? value : value?.name;
 
-		const pipeline: CIWorkflowInfo = {
+		return {
 			type: 'gitlab-ci',
 			name: 'gitlab-ci',
-			jobs: []
+			onEvents: sources.length > 0 ? this.unique(sources) : ['push'],
+			jobs: jobs.map(([key]) => key),
+			environments: this.unique(jobs.map(([, job]) => this.environmentName(job.environment)).filter((env): env is string => !!env)),
+			agents: this.unique([image(config.image), image(config.default?.image), ...jobs.map(([, job]) => image(job.image))].filter((name): name is string => !!name)),
+			variables: Object.keys(config.variables || {})
 		};
+	}
+
+	/**
+	 * Parse a Jenkinsfile: stages, agents, triggers and environment variables (declarative or scripted)
+	 */
+	parseJenkinsfile(text: string): CIWorkflowInfo {
+		// Drop comments so commented-out stages don't count
+		const source = text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/^\s*\/\/.*$/gm, '');
+		const stages = this.unique(Array.from(source.matchAll(/\bstage\s*\(\s*['"]([^'"]+)['"]/g), match => match[1]));
+
+		// triggers { cron('H 4 * * *'); pollSCM('H/5 * * * *') }
+		const triggers = /\btriggers\s*\{([^}]*)\}/.exec(source);
+		const onEvents = triggers ? Array.from(triggers[1].matchAll(/(\w+)\s*[({]/g), match => match[1]) : [];
+
+		// agent any / agent { label 'linux' } / agent { docker { image 'node:20' } } / agent { docker 'maven:3' }
+		const agents: string[] = [];
+		if (/\bagent\s+any\b/.test(source)) {
+			agents.push('any');
+		}
+		for (const match of source.matchAll(/\b(?:label|image|docker)\s+['"]([^'"]+)['"]/g)) {
+			agents.push(match[1]);
+		}
+
+		// environment { NODE_ENV = 'production'; API_KEY = credentials('api-key') }
+		const variables: string[] = [];
+		for (const block of source.matchAll(/\benvironment\s*\{([^}]*)\}/g)) {
+			variables.push(...Array.from(block[1].matchAll(/(?:^|;)\s*(\w+)\s*=/gm), match => match[1]));
+		}
 
-		// Parse jobs
-		const jobMatches = text.matchAll(/^(\w+):\s*$/gm);
-		for (const match of jobMatches) {
-			if (match[1] && !['image', 'services', 'before_script', 'after_script'].includes(match[1])) {
-				pipeline.jobs?.push(match[1]);
+		return {
+			type: 'jenkins',
+			name: 'Jenkinsfile',
+			onEvents: this.unique(onEvents),
+			jobs: stages,
+			environments: this.detectEnvironments(stages, true),
+			agents: this.unique(agents),
+			variables: this.unique(variables)
+		};
+	}
+
+	/**
+	 * Parse .circleci/config.yml; each workflow becomes its own entry
+	 */
+	parseCircleCIConfig(text: string): CIWorkflowInfo[] {
+		const config = parse(text, { merge: true }) || {};
+		const jobs: Record<string, any> = config.jobs || {};
+		const executors: Record<string, any> = config.executors || {};
+		// node: circleci/node@5.1.0 (inline orb definitions are objects)
+		const plugins = Object.values<any>(config.orbs || {}).filter(orb => typeof orb === 'string');
+
+		const workflows = Object.entries<any>(config.workflows || {})
+			.filter(([name, workflow]) => name !== 'version' && workflow && typeof workflow === 'object');
+		if (workflows.length === 0) {
+			// 2.0 configs without workflows run their jobs on every push
+			const names = Object.keys(jobs);
+			return names.length === 0 ? [] : [{
+				type: 'circleci',
+				name: 'circleci',
+				onEvents: ['push'],
+				jobs: names,
+				environments: this.detectEnvironments(names, true),
+				agents: this.unique(names.flatMap(name => this.circleCIAgents(jobs[name], executors))),
+				plugins
+			}];
+		}
+
+		return workflows.map(([name, workflow]) => {
+			// - build  or  - deploy: { name: deploy-prod, context: [aws-prod], requires: [build], filters: {...} }
+			const entries: Array<[string, any]> = (Array.isArray(workflow.jobs) ? workflow.jobs : []).map((entry: any) =>
+				typeof entry === 'string' ? [entry, {}] : Object.entries<any>(entry || {})[0] || ['', {}]
+			).filter(([job]: [string, any]) => job);
+			const jobNames = entries.map(([job, params]) => params?.name || job);
+			const contexts = entries.flatMap(([, params]) => params?.context === undefined ? [] : [].concat(params.context));
+
+			const scheduled = Array.isArray(workflow.triggers) && workflow.triggers.some((trigger: any) => trigger?.schedule);
+			const onEvents = [scheduled ? 'schedule' : 'push'];
+			if (entries.some(([, params]) => params?.filters?.tags)) {
+				onEvents.push('tag');
+			}
+
+			return {
+				type: 'circleci',
+				name,
+				onEvents,
+				jobs: jobNames,
+				environments: this.unique([...this.detectEnvironments(contexts, false), ...this.detectEnvironments(jobNames, true)]),
+				agents: this.unique(entries.flatMap(([job]) => this.circleCIAgents(jobs[job], executors))),
+				plugins
+			};
+		});
+	}
+
+	/**
+	 * Parse bitbucket-pipelines.yml: pipeline triggers, step names and deployment environments
+	 */
+	parseBitbucketPipelines(text: string): CIWorkflowInfo {
+		const config = parse(text, { merge: true }) || {};
+		const onEvents: string[] = [];
+		const steps: any[] = [];
+
+		const triggerNames: Record<string, string> = { branches: 'push', tags: 'tag', 'pull-requests': 'pull_request', custom: 'manual' };
+		for (const [trigger, value] of Object.entries<any>(config.pipelines || {})) {
+			// default: [steps]; branches / tags / pull-requests / custom: { pattern: [steps] }
+			if (trigger === 'default') {
+				onEvents.push('push');
+				steps.push(...this.bitbucketSteps(value));
+				continue;
+			}
+			const patterns = Object.keys(value || {});
+			onEvents.push(`${triggerNames[trigger] || trigger} (${patterns.join(', ')})`);
+			for (const pattern of patterns) {
+				steps.push(...this.bitbucketSteps(value[pattern]));
+			}
+		}
+
+		const imageName = (image: any) => typeof image === 'string' ? image : image?.name;
+		return {
+			type: 'bitbucket-pipelines',
+			name: 'bitbucket-pipelines',
+			onEvents,
+			jobs: this.unique(steps.map(step => step.name).filter(Boolean)),
+			environments: this.unique(steps.map(step => step.deployment).filter(Boolean)),
+			agents: this.unique([imageName(config.image), ...steps.map(step => imageName(step.image))].filter(Boolean))
+		};
+	}
+
+	/**
+	 * Parse .buildkite/pipeline.yml: step labels, agent queues, plugins and pipeline env
+	 */
+	parseBuildkitePipeline(text: string): CIWorkflowInfo {
+		const config = parse(text, { merge: true }) || {};
+		const steps = this.buildkiteSteps(Array.isArray(config) ? config : config.steps);
+
+		// Labels carry emoji shortcodes (":docker: Build"); wait / block / input steps have no work
+		const jobs = this.unique(steps
+			.map(step => step.label || step.name || step.key || (step.trigger ? `trigger ${step.trigger}` : undefined))
+			.filter((label): label is string => typeof label === 'string')
+			.map(label => label.replace(/:[\w+-]+:/g, '').trim())
+			.filter(Boolean));
+
+		// agents: { queue: deploy } or the legacy ["queue=deploy"]
+		const agentTags = (agents: any): string[] => Array.isArray(agents)
+			? agents.map(String)
+			: Object.entries<any>(agents || {}).map(([key, value]) => `${key}=${value}`);
+
+		// plugins: ["docker#v5.9.0"] or [{ "docker#v5.9.0": {...} }] or { "docker#v5.9.0": {...} }
+		const pluginNames = (plugins: any): string[] => Array.isArray(plugins)
+			? plugins.flatMap(plugin => typeof plugin === 'string' ? [plugin] : Object.keys(plugin || {}))
+			: Object.keys(plugins || {});
+
+		// Buildkite triggers live in the pipeline settings; `if` conditions show which build sources run steps
+		const onEvents = Array.from(text.matchAll(/build\.source\s*==\s*["'](\w+)["']/g), match => match[1]);
+
+		return {
+			type: 'buildkite',
+			name: 'buildkite',
+			onEvents: this.unique(onEvents),
+			jobs,
+			environments: this.detectEnvironments(jobs, true),
+			agents: this.unique([...agentTags(config.agents), ...steps.flatMap(step => agentTags(step.agents))]),
+			plugins: this.unique(steps.flatMap(step => pluginNames(step.plugins))),
+			variables: Object.keys(config.env || {})
+		};
+	}
+
+	/**
+	 * Flatten Bitbucket step lists, including parallel groups and stages (whose deployment applies to their steps)
+	 */
+	private bitbucketSteps(items: any): any[] {
+		if (!Array.isArray(items)) {
+			return [];
+		}
+		return items.flatMap(item => {
+			if (item?.step) {
+				return [item.step];
+			}
+			if (item?.parallel) {
+				return this.bitbucketSteps(Array.isArray(item.parallel) ? item.parallel : item.parallel.steps);
+			}
+			if (item?.stage) {
+				return this.bitbucketSteps(item.stage.steps)
+					.map(step => ({ ...step, deployment: step.deployment || item.stage.deployment }));
+			}
+			return [];
+		});
+	}
+
+	/**
+	 * Flatten Buildkite steps and groups, dropping bare "wait" entries
+	 */
+	private buildkiteSteps(items: any): any[] {
+		if (!Array.isArray(items)) {
+			return [];
+		}
+		return items.flatMap(item => {
+			if (!item || typeof item !== 'object' || 'wait' in item || 'block' in item || 'input' in item) {
+				return [];
 			}
+			return Array.isArray(item.steps) ? this.buildkiteSteps(item.steps) : [item];
+		});
+	}
+
+	/**
+	 * Resolve the image, machine or executor a CircleCI job runs on
+	 */
+	private circleCIAgents(definition: any, executors: Record<string, any>): string[] {
+		if (!definition || typeof definition !== 'object') {
+			return [];
+		}
+		const executor = typeof definition.executor === 'string' ? definition.executor : definition.executor?.name;
+		if (executor) {
+			// Orb executors (node/default) aren't defined in the config
+			return executors[executor] ? this.circleCIAgents(executors[executor], {}) : [executor];
 		}
+		if (Array.isArray(definition.docker)) {
+			// The first image is the primary container
+			return definition.docker.slice(0, 1).map((container: any) => container?.image).filter(Boolean);
+		}
+		if (definition.machine) {
+			return [definition.machine.image ? `machine (${definition.machine.image})` : 'machine'];
+		}
+		if (definition.macos) {
+			return [definition.macos.xcode ? `macos (Xcode ${definition.macos.xcode})` : 'macos'];
+		}
+		return [];
+	}
 
-		return pipeline;
+	/**
+	 * Map job, stage or context names to deployment environments
+	 * With deployOnly, only names that mention a deployment count ("Deploy to staging", not "Unit tests (dev)").
+	 */
+	private detectEnvironments(names: string[], deployOnly: boolean): string[] {
+		const environments: string[] = [];
+
+		for (const name of names) {
+			if (deployOnly && !/deploy|release|promot|rollout/i.test(name)) {
+				continue;
+			}
+			// "pre-prod" is one word here, not "pre" + "prod"
+			const words = name.toLowerCase().replace(/pre-prod/g, 'preprod').split(/[^a-z0-9]+/);
+			for (const [environment, aliases] of Object.entries(DeploymentEnvironmentPatterns)) {
+				if (aliases.some(alias => words.includes(alias.replace(/-/g, '')))) {
+					environments.push(environment);
+				}
+			}
+		}
+
+		return this.unique(environments);
+	}
+
+	/**
+	 * Find the line defining each job: a `name:` key first, then a line naming it
+	 * (`displayName: name`, `label: name`, `stage('name')` or a `- name` list entry)
+	 */
+	locateJobs(text: string, jobs: string[]): Record<string, number> {
+		const lines = text.split(/\r?\n/);
+		const locations: Record<string, number> = {};
+
+		for (const job of jobs) {
+			const name = `["']?${job.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}["']?`;
+			const patterns = [
+				new RegExp(`^\\s*(?:-\\s*)?${name}\\s*:`),
+				new RegExp(`^\\s*(?:-\\s*)?(?:name|displayName|label|stage|job|deployment)\\s*:\\s*${name}\\s*$`),
+				new RegExp(`\\bstage\\s*\\(\\s*${name}\\s*\\)`),
+				new RegExp(`^\\s*-\\s*${name}\\s*$`)
+			];
+			for (const pattern of patterns) {
+				const line = lines.findIndex(candidate => pattern.test(candidate));
+				if (line !== -1) {
+					locations[job] = line;
+					break;
+				}
+			}
+		}
+
+		return locations;
+	}
+
+	/**
+	 * Record where a workflow's file lives and where its jobs are defined, from the text just parsed
+	 */
+	private withLocation(workflow: CIWorkflowInfo, file: string, text: string): CIWorkflowInfo {
+		return workflow.jobs && workflow.jobs.length > 0
+			? { ...workflow, file, jobLines: this.locateJobs(text, workflow.jobs) }
+			: { ...workflow, file };
+	}
+
+	/**
+	 * Follow local reusable workflows and composite actions, merging what they use into the workflow
+	 */
+	private async followLocalReferences(workspaceRoot: vscode.Uri, workflow: CIWorkflowInfo): Promise<void> {
+		const visited = new Set<string>();
+		const queue = [...(workflow.localReferences || [])];
+
+		while (queue.length > 0) {
+			const reference = queue.shift() as string;
+			if (visited.has(reference)) {
+				continue;
+			}
+			visited.add(reference);
+
+			// ./.github/workflows/build.yml, or an action directory with action.yml / action.yaml
+			const files = /\.ya?ml$/.test(reference) ? [reference] : [`${reference}/action.yml`, `${reference}/action.yaml`];
+			for (const file of files) {
+				const uri = vscode.Uri.joinPath(workspaceRoot, ...file.split('/'));
+				if (!await this.fileExists(uri)) {
+					continue;
+				}
+				const text = await this.readText(uri);
+				const called = file === reference ? this.parseGitHubWorkflow(text, reference) : this.parseCompositeAction(text);
+				this.mergeUsage(workflow, called);
+				queue.push(...(called.localReferences || []));
+				break;
+			}
+		}
+
+		workflow.localReferences = Array.from(visited);
+	}
+
+	/**
+	 * Record the actions, local references and setup-* runtime versions of a job's steps
+	 */
+	private collectSteps(steps: any, matrix: Record<string, string[]>, usage: GitHubUsage): void {
+		for (const step of Array.isArray(steps) ? steps : []) {
+			if (typeof step?.uses !== 'string') {
+				continue;
+			}
+			this.addUses(step.uses, usage);
+
+			// actions/setup-node with node-version: ${{ matrix.node }} → node 18, node 20
+			for (const [key, value] of Object.entries<any>(step.with || {})) {
+				const runtime = /^(\w+)-version$/.exec(key);
+				if (!runtime || value === undefined || value === null || value === '') {
+					continue;
+				}
+				// dotnet-version and others accept one version per line
+				for (const version of String(value).split('\n').map(line => line.trim()).filter(Boolean)) {
+					usage.runtimes.push(...this.expandMatrix(version, matrix).map(expanded => `${runtime[1]} ${expanded}`));
+				}
+			}
+		}
+	}
+
+	/**
+	 * Record a `uses:` reference: local paths are followed later, remote ones are listed with how they are pinned
+	 */
+	private addUses(uses: string, usage: GitHubUsage): void {
+		if (uses.startsWith('./')) {
+			usage.localReferences.push(uses.slice(2).replace(/\/+$/, ''));
+			return;
+		}
+		// Container actions (docker://image:tag) aren't repositories
+		if (uses.startsWith('docker://')) {
+			return;
+		}
+		const at = uses.lastIndexOf('@');
+		const ref = at === -1 ? undefined : uses.slice(at + 1);
+		usage.actions.push({ name: at === -1 ? uses : uses.slice(0, at), ref, pinning: this.actionPinning(ref) });
+	}
+
+	/**
+	 * Classify an action ref: a full commit SHA, a version tag, or a branch such as main
+	 */
+	private actionPinning(ref: string | undefined): CIActionReference['pinning'] {
+		if (!ref) {
+			return 'none';
+		}
+		if (/^[0-9a-f]{40}$/i.test(ref)) {
+			return 'sha';
+		}
+		return /^v?\d+(\.\d+)*([-+.][\w.-]*)?$/.test(ref) ? 'tag' : 'branch';
+	}
+
+	/**
+	 * Read strategy.matrix axes, including values added by `include` entries
+	 * A matrix built from an expression (`${{ fromJSON(...) }}`) can't be expanded and is skipped.
+	 */
+	private matrixValues(matrix: any): Record<string, string[]> {
+		const values: Record<string, string[]> = {};
+		if (!matrix || typeof matrix !== 'object' || Array.isArray(matrix)) {
+			return values;
+		}
+
+		const add = (key: string, value: any) => {
+			if (value === null || typeof value === 'object') {
+				return;
+			}
+			values[key] = values[key] || [];
+			if (!values[key].includes(String(value))) {
+				values[key].push(String(value));
+			}
+		};
+
+		for (const [key, value] of Object.entries<any>(matrix)) {
+			if (key !== 'include' && key !== 'exclude') {
+				(Array.isArray(value) ? value : [value]).forEach(item => add(key, item));
+			}
+		}
+		for (const entry of Array.isArray(matrix.include) ? matrix.include : []) {
+			for (const [key, value] of Object.entries<any>(entry || {})) {
+				add(key, value);
+			}
+		}
+
+		return values;
+	}
+
+	private mergeMatrix(target: Record<string, string[]>, source: Record<string, string[]>): void {
+		for (const [key, values] of Object.entries(source)) {
+			target[key] = this.unique([...(target[key] || []), ...values]);
+		}
+	}
+
+	/**
+	 * Expand a `${{ matrix.x }}` reference into each value of that axis
+	 */
+	private expandMatrix(value: string, matrix: Record<string, string[]>): string[] {
+		const reference = /\$\{\{\s*matrix\.([\w-]+)\s*\}\}/.exec(value);
+		const values = reference ? matrix[reference[1]] : undefined;
+		return reference && values && values.length > 0 ? values.map(item => value.replace(reference[0], item)) : [value];
+	}
+
+	/**
+	 * Start collecting usage, reading secrets.* and vars.* names straight from the text
+	 */
+	private emptyUsage(text: string): GitHubUsage {
+		const names = (context: string) =>
+			this.unique(Array.from(text.matchAll(new RegExp(`\\b${context}\\.([A-Za-z_][\\w-]*)`, 'g')), match => match[1]));
+		return { matrix: {}, runtimes: [], actions: [], secrets: names('secrets'), vars: names('vars'), localReferences: [] };
+	}
+
+	/**
+	 * Deduplicate collected usage
+	 */
+	private finishUsage(usage: GitHubUsage): GitHubUsage {
+		const seen = new Set<string>();
+		return {
+			matrix: usage.matrix,
+			runtimes: this.unique(usage.runtimes),
+			actions: usage.actions.filter(action => {
+				const key = `${action.name}@${action.ref || ''}`;
+				if (seen.has(key)) {
+					return false;
+				}
+				seen.add(key);
+				return true;
+			}),
+			secrets: usage.secrets,
+			vars: usage.vars,
+			localReferences: this.unique(usage.localReferences)
+		};
+	}
+
+	/**
+	 * Merge what a called workflow or composite action uses into the calling workflow
+	 */
+	private mergeUsage(workflow: CIWorkflowInfo, called: Partial<CIWorkflowInfo>): void {
+		const matrix = { ...(workflow.matrix || {}) };
+		this.mergeMatrix(matrix, called.matrix || {});
+		const merged = this.finishUsage({
+			matrix,
+			runtimes: [...(workflow.runtimes || []), ...(called.runtimes || [])],
+			actions: [...(workflow.actions || []), ...(called.actions || [])],
+			secrets: this.unique([...(workflow.secrets || []), ...(called.secrets || [])]),
+			vars: this.unique([...(workflow.vars || []), ...(called.vars || [])]),
+			localReferences: workflow.localReferences || []
+		});
+		Object.assign(workflow, merged, { agents: this.unique([...(workflow.agents || []), ...(called.agents || [])]) });
+	}
+
+	/**
+	 * Environment name from `environment: production` or `environment: { name: production }`
+	 */
+	private environmentName(environment: any): string | undefined {
+		return typeof environment === 'string' ? environment : environment?.name;
+	}
+
+	/**
+	 * Runner labels from `runs-on: ubuntu-latest`, `[self-hosted, linux]` or `{ group, labels }`
+	 */
+	private runnerLabels(runsOn: any): string[] {
+		if (typeof runsOn === 'string') {
+			return [runsOn];
+		}
+		if (Array.isArray(runsOn)) {
+			return runsOn.map(String);
+		}
+		return [runsOn?.group, ...[].concat(runsOn?.labels || [])].filter(Boolean);
+	}
+
+	private unique(values: string[]): string[] {
+		return Array.from(new Set(values));
+	}
+
+	/**
+	 * Read a file as UTF-8 text
+	 */
+	private async readText(uri: vscode.Uri): Promise<string> {
+		const content = await vscode.workspace.fs.readFile(uri);
+		return Buffer.from(content).toString('utf8');
 	}
 
 	/**
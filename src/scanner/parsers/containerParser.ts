@@ -0,0 +1,314 @@
+// Container Parser - Parse Dockerfiles, Containerfiles and compose files
+import * as vscode from 'vscode';
+import { parse } from 'yaml';
+import {
+	ComposeFileInfo,
+	ComposeImagePatterns,
+	ComposeService,
+	ContainerImage,
+	ContainerInfo,
+	DockerfileInfo,
+	InfrastructureInfo,
+	ParserResult
+} from '../types';
+
+/**
+ * Folders searched for Dockerfiles and compose files besides the root
+ */
+const CONTAINER_DIRECTORIES = ['', 'docker', '.docker', '.devcontainer'];
+
+/**
+ * Parser for Dockerfile / Containerfile and docker-compose / compose files
+ */
+export class ContainerParser {
+	/**
+	 * Parse container configuration at the workspace root and in the usual docker folders
+	 * data is undefined when there are no Dockerfiles or compose files.
+	 */
+	async parseContainers(workspaceRoot: vscode.Uri): Promise<ParserResult<ContainerInfo>> {
+		const errors: string[] = [];
+		const dockerfiles: DockerfileInfo[] = [];
+		const composeFiles: ComposeFileInfo[] = [];
+
+		for (const dir of CONTAINER_DIRECTORIES) {
+			for (const file of await this.listFiles(workspaceRoot, dir)) {
+				const name = file.split('/').pop() as string;
+				const isDockerfile = this.isDockerfile(name);
+				const isComposeFile = this.isComposeFile(name);
+				if (!isDockerfile && !isComposeFile) {
+					continue;
+				}
+
+				const text = await this.readFile(workspaceRoot, file);
+				if (text === undefined) {
+					continue;
+				}
+				try {
+					if (isDockerfile) {
+						dockerfiles.push({ file, ...this.parseDockerfile(text) });
+					} else {
+						composeFiles.push({ file, services: this.parseComposeFile(text) });
+					}
+				} catch (error) {
+					errors.push(`Failed to parse ${file}: ${error}`);
+				}
+			}
+		}
+
+		if (dockerfiles.length === 0 && composeFiles.length === 0) {
+			return { success: errors.length === 0, errors };
+		}
+
+		return {
+			success: errors.length === 0,
+			data: { dockerfiles, composeFiles },
+			errors
+		};
+	}
+
+	/**
+	 * Parse a Dockerfile: base images, named stages, exposed ports, USER and HEALTHCHECK
+	 */
+	parseDockerfile(text: string): Omit<DockerfileInfo, 'file'> {
+		const baseImages: ContainerImage[] = [];
+		const stages: string[] = [];
+		const exposedPorts: string[] = [];
+		const args: Record<string, string> = {};
+		let user: string | undefined;
+		let healthcheck: string | undefined;
+
+		for (const instruction of this.dockerInstructions(text)) {
+			const match = /^(\w+)\s+(.*)$/s.exec(instruction);
+			if (!match) {
+				continue;
+			}
+			const keyword = match[1].toUpperCase();
+			const value = match[2].trim();
+
+			switch (keyword) {
+				case 'ARG': {
+					// ARG NODE_VERSION=20 before FROM is used in FROM node:${NODE_VERSION}
+					const arg = /^(\w+)(?:=(.*))?$/.exec(value);
+					if (arg && arg[2] !== undefined) {
+						args[arg[1]] = this.unquote(arg[2]);
+					}
+					break;
+				}
+				case 'FROM': {
+					const words = value.split(/\s+/).filter(word => !word.startsWith('--'));
+					const image = this.substitute(words[0] || '', args);
+					const stage = words.length >= 3 && words[1].toUpperCase() === 'AS' ? words[2] : undefined;
+					// FROM build / FROM scratch don't pull an image
+					if (image && image !== 'scratch' && !stages.some(name => name.toLowerCase() === image.toLowerCase())) {
+						baseImages.push(this.parseImage(image));
+					}
+					if (stage) {
+						stages.push(stage);
+					}
+					break;
+				}
+				case 'EXPOSE':
+					exposedPorts.push(...value.split(/\s+/).map(port => this.substitute(port, args)).filter(Boolean));
+					break;
+				case 'USER':
+					user = value;
+					break;
+				case 'HEALTHCHECK':
+					healthcheck = /^NONE$/i.test(value)
+						? 'NONE'
+						: value.replace(/^(--\S+\s+)*/, '').replace(/^CMD\s+/i, '');
+					break;
+			}
+		}
+
+		return {
+			baseImages,
+			stages,
+			exposedPorts: Array.from(new Set(exposedPorts)),
+			user,
+			healthcheck
+		};
+	}
+
+	/**
+	 * Parse compose services: image, build context, ports, volumes and depends_on
+	 */
+	parseComposeFile(text: string): ComposeService[] {
+		const compose = parse(text, { merge: true }) || {};
+		const services: Record<string, any> = compose.services || {};
+
+		return Object.entries(services).map(([name, service]) => {
+			const build = typeof service?.build === 'string' ? service.build : service?.build?.context;
+			const dependsOn = service?.depends_on;
+			return {
+				name,
+				image: typeof service?.image === 'string' ? this.substitute(service.image, {}) : undefined,
+				build: build === undefined && service?.build ? '.' : build,
+				ports: this.list(service?.ports).map(port => this.composePort(port)).filter((port): port is string => !!port),
+				volumes: this.list(service?.volumes).map(volume => this.composeVolume(volume)).filter((volume): volume is string => !!volume),
+				dependsOn: Array.isArray(dependsOn) ? dependsOn.map(String) : Object.keys(dependsOn || {})
+			};
+		});
+	}
+
+	/**
+	 * Map compose services to the databases, caches, queues, storage and messaging they run locally
+	 * Services without an image are matched by name (a `postgres` service built from a local Dockerfile).
+	 */
+	mapInfrastructure(services: ComposeService[]): InfrastructureInfo {
+		const infrastructure: InfrastructureInfo = { databases: [], cache: [], queues: [], storage: [], messaging: [] };
+
+		for (const service of services) {
+			const name = service.image ? this.imageRepository(service.image) : service.name.toLowerCase();
+			for (const [category, technologies] of Object.entries(ComposeImagePatterns) as Array<[keyof InfrastructureInfo, Record<string, string[]>]>) {
+				for (const [technology, images] of Object.entries(technologies)) {
+					if (images.includes(name) && !infrastructure[category].includes(technology)) {
+						infrastructure[category].push(technology);
+					}
+				}
+			}
+		}
+
+		return infrastructure;
+	}
+
+	/**
+	 * Split image[:tag][@digest] into its parts
+	 */
+	private parseImage(reference: string): ContainerImage {
+		const [withTag, digest] = reference.split('@');
+		const colon = withTag.lastIndexOf(':');
+		// A colon before the last slash belongs to a registry port (localhost:5000/app)
+		const hasTag = colon > withTag.lastIndexOf('/');
+		return {
+			name: hasTag ? withTag.slice(0, colon) : withTag,
+			tag: hasTag ? withTag.slice(colon + 1) : undefined,
+			digest
+		};
+	}
+
+	/**
+	 * Image repository for pattern matching: no tag, digest, Docker Hub registry or library/ prefix
+	 */
+	private imageRepository(image: string): string {
+		return this.parseImage(image).name
+			.toLowerCase()
+			.replace(/^(docker\.io|index\.docker\.io|registry-1\.docker\.io)\//, '')
+			.replace(/^library\//, '');
+	}
+
+	/**
+	 * Join line continuations and drop comments, one instruction per entry
+	 */
+	private dockerInstructions(text: string): string[] {
+		const instructions: string[] = [];
+		let current = '';
+
+		for (const line of text.split(/\r?\n/)) {
+			const trimmed = line.trim();
+			if (trimmed.startsWith('#')) {
+				continue;
+			}
+			if (trimmed.endsWith('\\')) {
+				current += `${trimmed.slice(0, -1).trim()} `;
+				continue;
+			}
+			current += trimmed;
+			if (current.trim()) {
+				instructions.push(current.trim());
+			}
+			current = '';
+		}
+		if (current.trim()) {
+			instructions.push(current.trim());
+		}
+
+		return instructions;
+	}
+
+	/**
+	 * Replace $VAR / ${VAR} with known values and ${VAR:-default} with its default
+	 */
+	private substitute(value: string, variables: Record<string, string>): string {
+		return value.replace(/\$\{(\w+)(?::?-([^}]*))?\}|\$(\w+)/g, (reference, braced, fallback, bare) => {
+			const name = braced || bare;
+			return variables[name] ?? fallback ?? reference;
+		});
+	}
+
+	/**
+	 * Short syntax '8080:80' or long syntax { published: 8080, target: 80 }
+	 */
+	private composePort(port: any): string | undefined {
+		if (typeof port === 'string' || typeof port === 'number') {
+			return String(port);
+		}
+		if (port?.target === undefined) {
+			return undefined;
+		}
+		const mapping = port.published !== undefined ? `${port.published}:${port.target}` : String(port.target);
+		return port.protocol && port.protocol !== 'tcp' ? `${mapping}/${port.protocol}` : mapping;
+	}
+
+	/**
+	 * Short syntax 'data:/var/lib/postgresql/data' or long syntax { source, target }
+	 */
+	private composeVolume(volume: any): string | undefined {
+		if (typeof volume === 'string') {
+			return volume;
+		}
+		if (volume?.target === undefined) {
+			return undefined;
+		}
+		return volume.source ? `${volume.source}:${volume.target}` : String(volume.target);
+	}
+
+	private list(value: any): any[] {
+		return Array.isArray(value) ? value : [];
+	}
+
+	private unquote(value: string): string {
+		return value.trim().replace(/^(["'])(.*)\1$/, '$2');
+	}
+
+	/**
+	 * Dockerfile, Containerfile, api.Dockerfile, Dockerfile.dev
+	 */
+	private isDockerfile(name: string): boolean {
+		return /^(Dockerfile|Containerfile)(\.[\w.-]+)?$/i.test(name) || /\.(Dockerfile|Containerfile)$/i.test(name);
+	}
+
+	/**
+	 * docker-compose.yml, compose.yaml and overrides such as docker-compose.override.yml
+	 */
+	private isComposeFile(name: string): boolean {
+		return /^(docker-)?compose(\.[\w-]+)*\.ya?ml$/i.test(name);
+	}
+
+	/**
+	 * List files in a workspace-relative folder
+	 */
+	private async listFiles(workspaceRoot: vscode.Uri, dir: string): Promise<string[]> {
+		try {
+			const entries = await vscode.workspace.fs.readDirectory(dir ? vscode.Uri.joinPath(workspaceRoot, dir) : workspaceRoot);
+			return entries
+				.filter(([, type]) => type === vscode.FileType.File)
+				.map(([name]) => dir ? `${dir}/${name}` : name)
+				.sort();
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * Read a workspace-relative file, or undefined when it doesn't exist
+	 */
+	private async readFile(workspaceRoot: vscode.Uri, relativePath: string): Promise<string | undefined> {
+		try {
+			const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(workspaceRoot, ...relativePath.split('/')));
+			return Buffer.from(content).toString('utf8');
+		} catch {
+			return undefined;
+		}
+	}
+}
@@ -1,7 +1,7 @@
-// .NET Project Parser - Parse .csproj, .sln, .fsproj files
+// .NET Project Parser - Parse .csproj, .fsproj, .sln/.slnx, global.json and Directory.*.props files
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { DotNetProjectInfo, PackageReference, ParserResult } from '../types';
+import { DotNetProjectInfo, DotNetSolutionInfo, PackageReference, ParserResult, SolutionProject } from '../types';
 
 /**
  * Parser for .NET project files
@@ -18,10 +18,18 @@ export class DotNetParser {
 			// Find all .csproj and .fsproj files
 			const projectFiles = await this.findProjectFiles(workspaceRoot);
 
+			// Root Directory.*.props apply to every project below them
+			const buildProps = await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'Directory.Build.props'));
+			const packagesProps = await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'Directory.Packages.props'));
+			const buildProperties = buildProps === undefined ? {} : this.parseBuildProps(buildProps);
+			const centralVersions = new Map((packagesProps === undefined ? [] : this.parsePackageVersions(packagesProps))
+				.map(pkg => [pkg.name.toLowerCase(), pkg.version]));
+
 			for (const projectFile of projectFiles) {
 				try {
 					const projectInfo = await this.parseProjectFile(projectFile);
 					if (projectInfo) {
+						this.applyDirectoryProps(projectInfo, buildProperties, centralVersions);
 						projects.push(projectInfo);
 					}
 				} catch (error) {
@@ -172,6 +180,146 @@ export class DotNetParser {
 		return projectInfo;
 	}
 
+	/**
+	 * Parse solution-level configuration at the workspace root
+	 * data is undefined when there is no solution, global.json or Directory.*.props file.
+	 */
+	async parseSolutionInfo(workspaceRoot: vscode.Uri): Promise<ParserResult<DotNetSolutionInfo>> {
+		const errors: string[] = [];
+		const info: DotNetSolutionInfo = { projects: [], centralPackages: [], buildProperties: {} };
+		let found = false;
+
+		// First .sln / .slnx at the root, with each project's references resolved to project names
+		const solutionFile = (await this.listRootFiles(workspaceRoot)).find(name => /\.slnx?$/i.test(name));
+		const solution = solutionFile ? await this.readFile(vscode.Uri.joinPath(workspaceRoot, solutionFile)) : undefined;
+		if (solutionFile && solution !== undefined) {
+			found = true;
+			info.solutionFile = solutionFile;
+			info.projects = this.parseSolution(solution);
+			for (const project of info.projects) {
+				const projectText = await this.readFile(vscode.Uri.joinPath(workspaceRoot, project.path));
+				project.references = projectText === undefined
+					? []
+					: this.resolveReferences(project, this.parseProjectReferences(projectText), info.projects);
+			}
+		}
+
+		const globalJson = await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'global.json'));
+		if (globalJson !== undefined) {
+			try {
+				const sdk = this.parseGlobalJson(globalJson);
+				found = found || sdk.sdkVersion !== undefined || sdk.sdkRollForward !== undefined;
+				Object.assign(info, sdk);
+			} catch (error) {
+				errors.push(`Failed to parse global.json: ${error}`);
+			}
+		}
+
+		const buildProps = await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'Directory.Build.props'));
+		if (buildProps !== undefined) {
+			found = true;
+			info.buildProperties = this.parseBuildProps(buildProps);
+		}
+
+		const packagesProps = await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'Directory.Packages.props'));
+		if (packagesProps !== undefined) {
+			found = true;
+			info.centralPackages = this.parsePackageVersions(packagesProps);
+		}
+
+		return {
+			success: errors.length === 0,
+			data: found ? info : undefined,
+			errors
+		};
+	}
+
+	/**
+	 * Parse .sln or .slnx text into its project entries, skipping solution folders
+	 */
+	parseSolution(text: string): SolutionProject[] {
+		const projects: SolutionProject[] = [];
+
+		// .slnx: <Project Path="src/Name/Name.csproj" />, optionally nested in <Folder>
+		if (/<Solution[\s>]/.test(text)) {
+			for (const match of text.matchAll(/<Project\s[^>]*Path=["']([^"']+)["']/g)) {
+				const projectPath = match[1].replace(/\\/g, '/');
+				projects.push({ name: path.posix.basename(projectPath).replace(/\.\w+proj$/i, ''), path: projectPath });
+			}
+			return projects;
+		}
+
+		// Project("{type-guid}") = "Name", "src\Name\Name.csproj", "{project-guid}"
+		const projectPattern = /^Project\("\{[^}]+\}"\)\s*=\s*"([^"]+)",\s*"([^"]+)"/gm;
+		for (const match of text.matchAll(projectPattern)) {
+			const projectPath = match[2].replace(/\\/g, '/');
+			if (/\.(cs|fs|vb)proj$/i.test(projectPath)) {
+				projects.push({ name: match[1], path: projectPath });
+			}
+		}
+
+		return projects;
+	}
+
+	/**
+	 * Read the SDK pin from global.json (which allows line and block comments)
+	 */
+	parseGlobalJson(text: string): Pick<DotNetSolutionInfo, 'sdkVersion' | 'sdkRollForward'> {
+		const json = JSON.parse(this.stripJsonComments(text));
+		return {
+			sdkVersion: json.sdk?.version,
+			sdkRollForward: json.sdk?.rollForward
+		};
+	}
+
+	/**
+	 * Read properties from the unconditional <PropertyGroup>s of Directory.Build.props
+	 */
+	parseBuildProps(text: string): Record<string, string> {
+		const properties: Record<string, string> = {};
+
+		for (const group of text.matchAll(/<PropertyGroup(\s[^>]*)?>([\s\S]*?)<\/PropertyGroup>/g)) {
+			if (group[1]?.includes('Condition')) {
+				continue;
+			}
+			for (const property of group[2].matchAll(/<(\w+)(?:\s[^>]*)?>([^<]*)<\/\1>/g)) {
+				properties[property[1]] = property[2].trim();
+			}
+		}
+
+		return properties;
+	}
+
+	/**
+	 * Read centrally managed versions (<PackageVersion> and <GlobalPackageReference>) from Directory.Packages.props
+	 */
+	parsePackageVersions(text: string): PackageReference[] {
+		const packages: PackageReference[] = [];
+
+		for (const match of text.matchAll(/<(?:PackageVersion|GlobalPackageReference)\s[^>]*>/g)) {
+			const name = /Include=["'](.*?)["']/.exec(match[0]);
+			const version = /\sVersion=["'](.*?)["']/.exec(match[0]);
+			if (name) {
+				packages.push(version ? { name: name[1], version: version[1] } : { name: name[1] });
+			}
+		}
+
+		return packages;
+	}
+
+	/**
+	 * Read <ProjectReference> paths from a project file, with forward slashes
+	 */
+	parseProjectReferences(text: string): string[] {
+		const references: string[] = [];
+
+		for (const match of text.matchAll(/<ProjectReference\s[^>]*Include=["']([^"']+)["']/g)) {
+			references.push(match[1].replace(/\\/g, '/'));
+		}
+
+		return references;
+	}
+
 	/**
 	 * Get framework versions from project info
 	 */
@@ -222,6 +370,95 @@ export class DotNetParser {
 		return dependencies;
 	}
 
+	/**
+	 * Inherit the target framework from Directory.Build.props and fill in centrally managed package versions
+	 */
+	private applyDirectoryProps(project: DotNetProjectInfo, buildProperties: Record<string, string>, centralVersions: Map<string, string | undefined>): void {
+		if (!project.targetFramework && !project.targetFrameworks) {
+			if (buildProperties.TargetFramework) {
+				project.targetFramework = buildProperties.TargetFramework;
+			} else if (buildProperties.TargetFrameworks) {
+				project.targetFrameworks = buildProperties.TargetFrameworks.split(';');
+			}
+		}
+
+		for (const pkg of project.packages) {
+			const central = centralVersions.get(pkg.name.toLowerCase());
+			if (!pkg.version && central) {
+				pkg.version = central;
+			}
+		}
+	}
+
+	/**
+	 * Map a project's reference paths to the names of solution projects
+	 */
+	private resolveReferences(project: SolutionProject, references: string[], projects: SolutionProject[]): string[] {
+		const byPath = new Map(projects.map(candidate => [path.posix.normalize(candidate.path).toLowerCase(), candidate.name]));
+
+		return references.map(reference => {
+			const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(project.path), reference));
+			return byPath.get(resolved.toLowerCase()) || path.posix.basename(resolved).replace(/\.\w+proj$/i, '');
+		});
+	}
+
+	/**
+	 * List file names at the workspace root
+	 */
+	private async listRootFiles(workspaceRoot: vscode.Uri): Promise<string[]> {
+		try {
+			const entries = await vscode.workspace.fs.readDirectory(workspaceRoot);
+			return entries
+				.filter(([, type]) => type === vscode.FileType.File)
+				.map(([name]) => name)
+				.sort();
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * Read a file, or undefined when it doesn't exist
+	 */
+	private async readFile(uri: vscode.Uri): Promise<string | undefined> {
+		try {
+			const content = await vscode.workspace.fs.readFile(uri);
+			return Buffer.from(content).toString('utf8');
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Remove line and block comments outside of strings, so "https://..." values survive
+	 */
+	private stripJsonComments(text: string): string {
+		let result = '';
+		let index = 0;
+		while (index < text.length) {
+			const char = text[index];
+			if (char === '"') {
+				// Copy the string, skipping escaped characters
+				let end = index + 1;
+				while (end < text.length && text[end] !== '"') {
+					end += text[end] === '\\' ? 2 : 1;
+				}
+				result += text.slice(index, end + 1);
+				index = end + 1;
+			} else if (text.startsWith('//', index)) {
+				const newline = text.indexOf('\n', index);
+				index = newline === -1 ? text.length : newline;
+			} else if (text.startsWith('/*', index)) {
+				const close = text.indexOf('*/', index + 2);
+				index = close === -1 ? text.length : close + 2;
+			} else {
+				result += char;
+				index++;
+			}
+		}
+		return result;
+	}
+
 	/**
 	 * Format version string to major.x
 	 */
@@ -0,0 +1,283 @@
+// Go Module Parser - Parse go.mod and go.work
+import * as vscode from 'vscode';
+import { GoModule, GoProjectInfo, GoReplace, GoModulePatterns, ParserResult } from '../types';
+
+/**
+ * Parsed go.mod contents
+ */
+export interface GoModFile {
+	modulePath?: string;
+	goVersion?: string;
+	toolchain?: string;
+	requires: GoModule[];
+	replaces: GoReplace[];
+}
+
+/**
+ * Parsed go.work contents
+ */
+export interface GoWorkFile {
+	goVersion?: string;
+	toolchain?: string;
+	use: string[];
+	replaces: GoReplace[];
+}
+
+/**
+ * Parser for Go modules and workspaces
+ */
+export class GoParser {
+	/**
+	 * Parse the Go module (and go.work workspace members) at the workspace root
+	 * data is undefined when there is neither a go.mod nor a go.work.
+	 */
+	async parseProject(workspaceRoot: vscode.Uri): Promise<ParserResult<GoProjectInfo>> {
+		const errors: string[] = [];
+		let goMod: GoModFile | undefined;
+		let goWork: GoWorkFile | undefined;
+
+		try {
+			const goWorkText = await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'go.work'));
+			if (goWorkText !== undefined) {
+				goWork = this.parseGoWork(goWorkText);
+			}
+		} catch (error) {
+			errors.push(`Failed to parse go.work: ${error}`);
+		}
+
+		try {
+			const goModText = await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'go.mod'));
+			if (goModText !== undefined) {
+				goMod = this.parseGoMod(goModText);
+			}
+		} catch (error) {
+			errors.push(`Failed to parse go.mod: ${error}`);
+		}
+
+		if (!goMod && !goWork) {
+			return { success: errors.length === 0, errors };
+		}
+
+		const projectInfo: GoProjectInfo = {
+			modulePath: goMod?.modulePath,
+			goVersion: goWork?.goVersion || goMod?.goVersion,
+			toolchain: goWork?.toolchain || goMod?.toolchain,
+			requires: [...(goMod?.requires || [])],
+			replaces: [...(goWork?.replaces || []), ...(goMod?.replaces || [])],
+			workspaceMembers: goWork?.use || [],
+			frameworks: [],
+			testingFrameworks: [],
+			cloudSDKs: [],
+			infrastructure: { databases: [], cache: [], queues: [], storage: [], messaging: [] }
+		};
+
+		// Workspace members contribute their requirements; the root module (use .) is already read
+		for (const member of projectInfo.workspaceMembers) {
+			if (member === '.' || member === './') {
+				continue;
+			}
+			try {
+				const memberText = await this.readFile(vscode.Uri.joinPath(workspaceRoot, member, 'go.mod'));
+				if (memberText === undefined) {
+					continue;
+				}
+				const memberMod = this.parseGoMod(memberText);
+				for (const module of memberMod.requires) {
+					if (!projectInfo.requires.some(existing => existing.path === module.path)) {
+						projectInfo.requires.push(module);
+					}
+				}
+				projectInfo.replaces.push(...memberMod.replaces);
+			} catch (error) {
+				errors.push(`Failed to parse ${member}/go.mod: ${error}`);
+			}
+		}
+
+		this.detectModules(projectInfo);
+
+		return {
+			success: errors.length === 0,
+			data: projectInfo,
+			errors
+		};
+	}
+
+	/**
+	 * Parse go.mod text: module, go, toolchain, require and replace directives
+	 */
+	parseGoMod(text: string): GoModFile {
+		const goMod: GoModFile = { requires: [], replaces: [] };
+
+		for (const { directive, args, comment } of this.parseDirectives(text)) {
+			switch (directive) {
+				case 'module':
+					goMod.modulePath = args[0];
+					break;
+				case 'go':
+					goMod.goVersion = args[0];
+					break;
+				case 'toolchain':
+					goMod.toolchain = args[0]?.replace(/^go/, '');
+					break;
+				case 'require':
+					if (args.length >= 2) {
+						goMod.requires.push({
+							path: args[0],
+							version: args[1],
+							indirect: /^\s*indirect\b/.test(comment)
+						});
+					}
+					break;
+				case 'replace': {
+					const replace = this.parseReplace(args);
+					if (replace) {
+						goMod.replaces.push(replace);
+					}
+					break;
+				}
+			}
+		}
+
+		return goMod;
+	}
+
+	/**
+	 * Parse go.work text: go, toolchain, use and replace directives
+	 */
+	parseGoWork(text: string): GoWorkFile {
+		const goWork: GoWorkFile = { use: [], replaces: [] };
+
+		for (const { directive, args } of this.parseDirectives(text)) {
+			switch (directive) {
+				case 'go':
+					goWork.goVersion = args[0];
+					break;
+				case 'toolchain':
+					goWork.toolchain = args[0]?.replace(/^go/, '');
+					break;
+				case 'use':
+					if (args[0]) {
+						goWork.use.push(args[0].replace(/\/$/, ''));
+					}
+					break;
+				case 'replace': {
+					const replace = this.parseReplace(args);
+					if (replace) {
+						goWork.replaces.push(replace);
+					}
+					break;
+				}
+			}
+		}
+
+		return goWork;
+	}
+
+	/**
+	 * Get important dependencies (direct requirements only)
+	 */
+	getImportantDependencies(projectInfo: GoProjectInfo): string[] {
+		return projectInfo.requires
+			.filter(module => !module.indirect)
+			.map(module => {
+				const replace = projectInfo.replaces.find(r => r.path === module.path);
+				return replace
+					? `${module.path} ${module.version} (replaced by ${replace.replacement})`
+					: `${module.path} ${module.version}`;
+			});
+	}
+
+	/**
+	 * Split go.mod / go.work text into directives, expanding `directive ( ... )` blocks
+	 */
+	private parseDirectives(text: string): Array<{ directive: string; args: string[]; comment: string }> {
+		const directives: Array<{ directive: string; args: string[]; comment: string }> = [];
+		let block: string | undefined;
+
+		for (const rawLine of text.split(/\r?\n/)) {
+			const commentIndex = rawLine.indexOf('//');
+			const comment = commentIndex >= 0 ? rawLine.substring(commentIndex + 2) : '';
+			const line = (commentIndex >= 0 ? rawLine.substring(0, commentIndex) : rawLine).trim();
+			if (!line) {
+				continue;
+			}
+
+			if (block) {
+				if (line === ')') {
+					block = undefined;
+				} else {
+					directives.push({ directive: block, args: this.splitArgs(line), comment });
+				}
+				continue;
+			}
+
+			const [directive, ...args] = this.splitArgs(line);
+			if (args.length === 1 && args[0] === '(') {
+				block = directive;
+			} else {
+				directives.push({ directive, args, comment });
+			}
+		}
+
+		return directives;
+	}
+
+	/**
+	 * Split a directive line into arguments, unquoting quoted paths
+	 */
+	private splitArgs(line: string): string[] {
+		return (line.match(/"[^"]*"|`[^`]*`|\S+/g) || []).map(arg => arg.replace(/^["`]|["`]$/g, ''));
+	}
+
+	/**
+	 * Parse replace arguments: `old [version] => new [version]`
+	 */
+	private parseReplace(args: string[]): GoReplace | undefined {
+		const arrow = args.indexOf('=>');
+		if (arrow < 1 || arrow === args.length - 1) {
+			return undefined;
+		}
+		return {
+			path: args[0],
+			version: arrow > 1 ? args[1] : undefined,
+			replacement: args[arrow + 1],
+			replacementVersion: args[arrow + 2]
+		};
+	}
+
+	/**
+	 * Map known modules to frameworks, testing tools, cloud SDKs and infrastructure
+	 */
+	private detectModules(projectInfo: GoProjectInfo): void {
+		const paths = projectInfo.requires.map(module => module.path);
+		const matches = (prefixes: string[]) => paths.some(path =>
+			prefixes.some(prefix => path === prefix || path.startsWith(`${prefix}/`)));
+		const collect = (patterns: Record<string, string[]>) =>
+			Object.entries(patterns).filter(([, prefixes]) => matches(prefixes)).map(([name]) => name);
+
+		projectInfo.frameworks = collect(GoModulePatterns.frameworks);
+		projectInfo.testingFrameworks = collect(GoModulePatterns.testing);
+		projectInfo.cloudSDKs = collect(GoModulePatterns.cloudSDKs);
+
+		projectInfo.infrastructure = {
+			databases: collect(GoModulePatterns.databases),
+			cache: collect(GoModulePatterns.cache),
+			queues: collect(GoModulePatterns.queues),
+			storage: [],
+			messaging: collect(GoModulePatterns.messaging)
+		};
+	}
+
+	/**
+	 * Read a file, or undefined when it doesn't exist
+	 */
+	private async readFile(uri: vscode.Uri): Promise<string | undefined> {
+		try {
+			await vscode.workspace.fs.stat(uri);
+		} catch {
+			return undefined;
+		}
+		const content = await vscode.workspace.fs.readFile(uri);
+		return Buffer.from(content).toString('utf8');
+	}
+}
@@ -0,0 +1,427 @@
+// JVM Project Parser - Parse Maven pom.xml and Gradle build/settings scripts
+import * as vscode from 'vscode';
+import { JvmDependency, JvmFrameworkPatterns, JvmProjectInfo, ParserResult } from '../types';
+
+/**
+ * Parsed pom.xml contents
+ */
+export interface MavenPom {
+	artifactId?: string;
+	version?: string;
+	parent?: JvmDependency;
+	properties: Record<string, string>;
+	modules: string[];
+	dependencies: JvmDependency[];
+	managedDependencies: JvmDependency[];  // <dependencyManagement>, e.g. imported BOMs
+	plugins: string[];
+}
+
+/**
+ * Parsed build.gradle / build.gradle.kts contents
+ */
+export interface GradleBuild {
+	plugins: Array<{ id: string; version?: string }>;
+	dependencies: JvmDependency[];
+	javaVersion?: string;
+}
+
+/**
+ * Parsed settings.gradle / settings.gradle.kts contents
+ */
+export interface GradleSettings {
+	rootProjectName?: string;
+	includes: string[];  // Project paths as directories (":app:core" -> "app/core")
+}
+
+const GRADLE_BUILD_FILES = ['build.gradle.kts', 'build.gradle'];
+const GRADLE_SETTINGS_FILES = ['settings.gradle.kts', 'settings.gradle'];
+const MAX_MAVEN_DEPTH = 3;
+
+/**
+ * Parser for Maven and Gradle projects
+ */
+export class JvmParser {
+	/**
+	 * Parse the Maven or Gradle build at the workspace root, including modules / subprojects
+	 * data is undefined when there is no pom.xml or Gradle build.
+	 */
+	async parseProject(workspaceRoot: vscode.Uri): Promise<ParserResult<JvmProjectInfo>> {
+		const errors: string[] = [];
+		let projectInfo: JvmProjectInfo | undefined;
+
+		try {
+			if (await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'pom.xml')) !== undefined) {
+				projectInfo = await this.parseMavenProject(workspaceRoot, errors);
+			} else if (await this.findFile(workspaceRoot, [...GRADLE_BUILD_FILES, ...GRADLE_SETTINGS_FILES])) {
+				projectInfo = await this.parseGradleProject(workspaceRoot, errors);
+			}
+		} catch (error) {
+			errors.push(`Failed to scan for JVM projects: ${error}`);
+		}
+
+		if (projectInfo) {
+			this.detectFrameworks(projectInfo);
+		}
+
+		return {
+			success: errors.length === 0,
+			data: projectInfo,
+			errors
+		};
+	}
+
+	/**
+	 * Parse pom.xml text; ${property} references in versions are resolved from <properties>
+	 */
+	parsePom(text: string): MavenPom {
+		const xml = text.replace(/<!--[\s\S]*?-->/g, '');
+		const properties: Record<string, string> = {};
+		const propertiesBlock = this.getBlock(xml, 'properties');
+		if (propertiesBlock) {
+			for (const match of propertiesBlock.matchAll(/<([\w.-]+)>([^<]*)<\/\1>/g)) {
+				properties[match[1]] = match[2].trim();
+			}
+		}
+
+		const parentBlock = this.getBlock(xml, 'parent');
+		const dependencyManagement = this.getBlock(xml, 'dependencyManagement') || '';
+		const build = this.getBlock(xml, 'build') || '';
+
+		// Project-level tags, with nested sections removed so their artifactId/version don't match
+		const projectLevel = ['parent', 'dependencyManagement', 'dependencies', 'build', 'profiles', 'reporting', 'properties']
+			.reduce((rest, tag) => rest.replace(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, 'g'), ''), xml);
+		const dependencies = xml
+			.replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '')
+			.replace(/<build>[\s\S]*?<\/build>/g, '');
+
+		const pom: MavenPom = {
+			artifactId: this.getTag(projectLevel, 'artifactId'),
+			version: this.getTag(projectLevel, 'version'),
+			parent: parentBlock ? this.parseMavenCoordinates(parentBlock) : undefined,
+			properties,
+			modules: Array.from((this.getBlock(xml, 'modules') || '').matchAll(/<module>([^<]+)<\/module>/g), match => match[1].trim()),
+			dependencies: this.getMavenDependencies(dependencies),
+			managedDependencies: this.getMavenDependencies(dependencyManagement),
+			plugins: Array.from(build.matchAll(/<plugin>([\s\S]*?)<\/plugin>/g), match => this.getTag(match[1], 'artifactId'))
+				.filter((artifact): artifact is string => !!artifact)
+		};
+
+		// Resolve ${...} versions; ${project.parent.version} is common in multi-module builds
+		const resolve = (value: string | undefined) => value?.replace(/\$\{([^}]+)\}/g, (placeholder, key: string) =>
+			properties[key] ?? (key === 'project.version' ? pom.version : key === 'project.parent.version' ? pom.parent?.version : undefined) ?? placeholder);
+		for (const dependency of [...pom.dependencies, ...pom.managedDependencies]) {
+			dependency.version = resolve(dependency.version);
+		}
+		pom.version = resolve(pom.version) || pom.parent?.version;
+
+		return pom;
+	}
+
+	/**
+	 * Parse build.gradle (Groovy) or build.gradle.kts (Kotlin) text
+	 */
+	parseGradleBuild(text: string): GradleBuild {
+		const script = this.stripComments(text);
+		const build: GradleBuild = { plugins: [], dependencies: [] };
+
+		// plugins { id 'x' version 'y' } / id("x") version "y" / kotlin("jvm") version "y"
+		const pluginsBlock = this.getBraceBlock(script, 'plugins') || '';
+		for (const match of pluginsBlock.matchAll(/\b(id|kotlin)\s*\(?\s*["']([^"']+)["']\s*\)?(?:\s*version\s*\(?\s*["']([^"']+)["'])?/g)) {
+			build.plugins.push({
+				id: match[1] === 'kotlin' ? `org.jetbrains.kotlin.${match[2]}` : match[2],
+				version: match[3]
+			});
+		}
+		// Kotlin DSL core plugins: java, application, `java-library`
+		for (const match of pluginsBlock.matchAll(/^\s*(java|application|`java-library`)\s*$/gm)) {
+			build.plugins.push({ id: match[1].replace(/`/g, '') });
+		}
+		// Legacy: apply plugin: 'x'
+		for (const match of script.matchAll(/apply\s+plugin\s*:\s*["']([^"']+)["']/g)) {
+			build.plugins.push({ id: match[1] });
+		}
+
+		// implementation 'g:a:v', testImplementation("g:a:v"), implementation(platform("g:a:v"))
+		const configurations = 'implementation|api|compileOnly|runtimeOnly|annotationProcessor|kapt|ksp|testImplementation|testRuntimeOnly|testCompileOnly|compile|testCompile|developmentOnly';
+		const stringNotation = new RegExp(`\\b(${configurations})\\s*\\(?\\s*(?:(?:enforcedPlatform|platform)\\s*\\(\\s*)?["']([^"':\\s]+):([^"':\\s]+)(?::([^"'\\s]+))?["']`, 'g');
+		for (const match of script.matchAll(stringNotation)) {
+			build.dependencies.push({ group: match[2], artifact: match[3], version: match[4], scope: match[1] });
+		}
+		// implementation group: 'g', name: 'a', version: 'v'
+		const mapNotation = new RegExp(`\\b(${configurations})\\s*\\(?\\s*group\\s*[:=]\\s*["']([^"']+)["']\\s*,\\s*name\\s*[:=]\\s*["']([^"']+)["'](?:\\s*,\\s*version\\s*[:=]\\s*["']([^"']+)["'])?`, 'g');
+		for (const match of script.matchAll(mapNotation)) {
+			build.dependencies.push({ group: match[2], artifact: match[3], version: match[4], scope: match[1] });
+		}
+
+		// sourceCompatibility = JavaVersion.VERSION_17 / '17', languageVersion.set(JavaLanguageVersion.of(21)), jvmToolchain(17)
+		const javaVersion = /JavaLanguageVersion\.of\(\s*(\d+)\s*\)/.exec(script) ||
+			/jvmToolchain\s*\(\s*(\d+)\s*\)/.exec(script) ||
+			/sourceCompatibility\s*=\s*(?:JavaVersion\.VERSION_)?["']?([\d._]+)["']?/.exec(script);
+		if (javaVersion) {
+			build.javaVersion = javaVersion[1].replace(/^1[._](\d+)$/, '$1').replace(/_/g, '.');
+		}
+
+		return build;
+	}
+
+	/**
+	 * Parse settings.gradle / settings.gradle.kts text
+	 */
+	parseGradleSettings(text: string): GradleSettings {
+		const script = this.stripComments(text);
+		const includes: string[] = [];
+		// include ":app" or include(":app"), but not includeBuild("../plugins")
+		for (const match of script.matchAll(/\binclude(?:\s+|\s*\()([^\n)]*)\)?/g)) {
+			for (const project of match[1].matchAll(/["']([^"']+)["']/g)) {
+				includes.push(project[1].replace(/^:/, '').replace(/:/g, '/'));
+			}
+		}
+
+		return {
+			rootProjectName: /rootProject\.name\s*=\s*["']([^"']+)["']/.exec(script)?.[1],
+			includes
+		};
+	}
+
+	/**
+	 * Get important dependencies as group:artifact version
+	 */
+	getImportantDependencies(projectInfo: JvmProjectInfo): string[] {
+		return projectInfo.dependencies.map(dependency => dependency.version
+			? `${dependency.group}:${dependency.artifact} ${dependency.version}`
+			: `${dependency.group}:${dependency.artifact}`);
+	}
+
+	/**
+	 * Check whether any dependency matches one of the patterns from src/scanner/types.ts
+	 * A pattern matches an artifact exactly or as a prefix (`hibernate` matches `hibernate-core`).
+	 */
+	hasDependency(projectInfo: JvmProjectInfo, patterns: string[]): boolean {
+		return projectInfo.dependencies.some(dependency => {
+			const artifact = dependency.artifact.toLowerCase();
+			return patterns.some(pattern => {
+				const lowerPattern = pattern.toLowerCase();
+				return artifact === lowerPattern || artifact.startsWith(`${lowerPattern}-`);
+			});
+		});
+	}
+
+	/**
+	 * Parse a Maven project and its modules
+	 */
+	private async parseMavenProject(workspaceRoot: vscode.Uri, errors: string[]): Promise<JvmProjectInfo> {
+		const projectInfo: JvmProjectInfo = {
+			buildTool: 'maven',
+			usesKotlin: false,
+			modules: [],
+			dependencies: [],
+			managedDependencies: [],
+			plugins: [],
+			frameworks: [],
+			testingFrameworks: []
+		};
+
+		const visit = async (relativeDir: string, depth: number, inherited: Record<string, string>) => {
+			const pomUri = relativeDir ? vscode.Uri.joinPath(workspaceRoot, relativeDir, 'pom.xml') : vscode.Uri.joinPath(workspaceRoot, 'pom.xml');
+			const text = await this.readFile(pomUri);
+			if (text === undefined) {
+				return;
+			}
+
+			let pom: MavenPom;
+			try {
+				pom = this.parsePom(text);
+			} catch (error) {
+				errors.push(`Failed to parse ${relativeDir ? `${relativeDir}/` : ''}pom.xml: ${error}`);
+				return;
+			}
+
+			// Child modules inherit properties (java.version, kotlin.version) from the parent
+			const properties = { ...inherited, ...pom.properties };
+			if (!relativeDir) {
+				projectInfo.name = pom.artifactId;
+				projectInfo.version = pom.version;
+				projectInfo.parent = pom.parent;
+			}
+			const property = (key: string) => properties[key]?.replace(/\$\{([^}]+)\}/g, (placeholder, name: string) => properties[name] ?? placeholder);
+			projectInfo.javaVersion = projectInfo.javaVersion || property('java.version') || property('maven.compiler.release') ||
+				property('maven.compiler.source') || property('maven.compiler.target');
+			projectInfo.kotlinVersion = projectInfo.kotlinVersion || property('kotlin.version');
+
+			// The parent and BOMs only manage versions; they stay out of the dependency list
+			this.mergeDependencies(projectInfo.dependencies, pom.dependencies);
+			this.mergeDependencies(projectInfo.managedDependencies, pom.managedDependencies);
+			projectInfo.plugins.push(...pom.plugins.filter(plugin => !projectInfo.plugins.includes(plugin)));
+			if (pom.plugins.includes('kotlin-maven-plugin') || pom.dependencies.some(d => d.artifact.startsWith('kotlin-stdlib'))) {
+				projectInfo.usesKotlin = true;
+			}
+
+			if (depth >= MAX_MAVEN_DEPTH) {
+				return;
+			}
+			for (const module of pom.modules) {
+				const modulePath = relativeDir ? `${relativeDir}/${module}` : module;
+				projectInfo.modules.push(modulePath);
+				await visit(modulePath, depth + 1, properties);
+			}
+		};
+
+		await visit('', 0, {});
+		return projectInfo;
+	}
+
+	/**
+	 * Parse a Gradle build and the subprojects included from settings.gradle(.kts)
+	 */
+	private async parseGradleProject(workspaceRoot: vscode.Uri, errors: string[]): Promise<JvmProjectInfo> {
+		const projectInfo: JvmProjectInfo = {
+			buildTool: 'gradle',
+			usesKotlin: false,
+			modules: [],
+			dependencies: [],
+			managedDependencies: [],
+			plugins: [],
+			frameworks: [],
+			testingFrameworks: []
+		};
+
+		const settingsFile = await this.findFile(workspaceRoot, GRADLE_SETTINGS_FILES);
+		if (settingsFile) {
+			const settings = this.parseGradleSettings(settingsFile.text);
+			projectInfo.name = settings.rootProjectName;
+			projectInfo.modules = settings.includes;
+		}
+
+		for (const projectDir of ['', ...projectInfo.modules]) {
+			const dir = projectDir ? vscode.Uri.joinPath(workspaceRoot, projectDir) : workspaceRoot;
+			const buildFile = await this.findFile(dir, GRADLE_BUILD_FILES);
+			if (!buildFile) {
+				continue;
+			}
+
+			try {
+				const build = this.parseGradleBuild(buildFile.text);
+				this.mergeDependencies(projectInfo.dependencies, build.dependencies);
+				for (const plugin of build.plugins) {
+					if (!projectInfo.plugins.includes(plugin.id)) {
+						projectInfo.plugins.push(plugin.id);
+					}
+					if (plugin.id.startsWith('org.jetbrains.kotlin.')) {
+						projectInfo.kotlinVersion = projectInfo.kotlinVersion || plugin.version;
+					}
+				}
+				projectInfo.javaVersion = projectInfo.javaVersion || build.javaVersion;
+				projectInfo.usesKotlin = projectInfo.usesKotlin || build.plugins.some(plugin => plugin.id.startsWith('org.jetbrains.kotlin.'));
+			} catch (error) {
+				errors.push(`Failed to parse ${projectDir ? `${projectDir}/` : ''}${buildFile.name}: ${error}`);
+			}
+		}
+
+		return projectInfo;
+	}
+
+	/**
+	 * Map dependencies and plugins to frameworks and test libraries
+	 */
+	private detectFrameworks(projectInfo: JvmProjectInfo): void {
+		// A spring-boot-starter-parent or an imported quarkus-bom identifies the framework too
+		const boms = projectInfo.managedDependencies.filter(dependency => dependency.scope === 'import');
+		const coordinates = [
+			...[...(projectInfo.parent ? [projectInfo.parent] : []), ...boms, ...projectInfo.dependencies]
+				.map(dependency => `${dependency.group}:${dependency.artifact}`),
+			// Gradle plugin ids look like groups: org.springframework.boot, io.quarkus, io.micronaut.application
+			...projectInfo.plugins.map(plugin => `${plugin}:`)
+		];
+		const matches = (patterns: string[]) => coordinates.some(coordinate => patterns.some(pattern => pattern.includes(':')
+			? coordinate.startsWith(pattern)
+			: coordinate.startsWith(`${pattern}:`) || coordinate.startsWith(`${pattern}.`)));
+		const collect = (patterns: Record<string, string[]>) =>
+			Object.entries(patterns).filter(([, values]) => matches(values)).map(([name]) => name);
+
+		projectInfo.frameworks = collect(JvmFrameworkPatterns.frameworks);
+		// Spring Boot implies Spring; only report the more specific one
+		if (projectInfo.frameworks.includes('Spring Boot')) {
+			projectInfo.frameworks = projectInfo.frameworks.filter(framework => framework !== 'Spring');
+		}
+		projectInfo.testingFrameworks = collect(JvmFrameworkPatterns.testing);
+	}
+
+	private getMavenDependencies(xml: string): JvmDependency[] {
+		return Array.from(xml.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g), match => this.parseMavenCoordinates(match[1]))
+			.filter(dependency => dependency.group && dependency.artifact);
+	}
+
+	private parseMavenCoordinates(xml: string): JvmDependency {
+		return {
+			group: this.getTag(xml, 'groupId') || '',
+			artifact: this.getTag(xml, 'artifactId') || '',
+			version: this.getTag(xml, 'version'),
+			scope: this.getTag(xml, 'scope')
+		};
+	}
+
+	private mergeDependencies(target: JvmDependency[], dependencies: JvmDependency[]): void {
+		for (const dependency of dependencies) {
+			const existing = target.find(d => d.group === dependency.group && d.artifact === dependency.artifact);
+			if (!existing) {
+				target.push({ ...dependency });
+			} else if (!existing.version && dependency.version) {
+				existing.version = dependency.version;
+			}
+		}
+	}
+
+	private getTag(xml: string, tag: string): string | undefined {
+		return new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`).exec(xml)?.[1] || undefined;
+	}
+
+	private getBlock(xml: string, tag: string): string | undefined {
+		return new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml)?.[1];
+	}
+
+	/**
+	 * Get the body of `name { ... }`, matching nested braces
+	 */
+	private getBraceBlock(script: string, name: string): string | undefined {
+		const start = new RegExp(`(^|\\n)\\s*${name}\\s*\\{`).exec(script);
+		if (!start) {
+			return undefined;
+		}
+		let depth = 0;
+		const open = start.index + start[0].length - 1;
+		for (let index = open; index < script.length; index++) {
+			if (script[index] === '{') {
+				depth++;
+			} else if (script[index] === '}' && --depth === 0) {
+				return script.substring(open + 1, index);
+			}
+		}
+		return script.substring(open + 1);
+	}
+
+	private stripComments(script: string): string {
+		return script.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:])\/\/.*$/gm, '$1');
+	}
+
+	private async findFile(dir: vscode.Uri, names: string[]): Promise<{ name: string; text: string } | undefined> {
+		for (const name of names) {
+			const text = await this.readFile(vscode.Uri.joinPath(dir, name));
+			if (text !== undefined) {
+				return { name, text };
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Read a file, or undefined when it doesn't exist
+	 */
+	private async readFile(uri: vscode.Uri): Promise<string | undefined> {
+		try {
+			const content = await vscode.workspace.fs.readFile(uri);
+			return Buffer.from(content).toString('utf8');
+		} catch {
+			return undefined;
+		}
+	}
+}
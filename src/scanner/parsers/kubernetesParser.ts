@@ -0,0 +1,333 @@
+// Kubernetes Parser - Parse Kubernetes manifests, Kustomize overlays and Helm charts
+import * as vscode from 'vscode';
+import { parse, parseAllDocuments } from 'yaml';
+import {
+	DeploymentEnvironmentPatterns,
+	HelmChart,
+	KubernetesContainer,
+	KubernetesInfo,
+	KustomizeOverlay,
+	ParserResult
+} from '../types';
+
+/**
+ * Folders searched for manifests, overlays and charts besides the root
+ */
+const KUBERNETES_DIRECTORIES = ['k8s', '.k8s', 'kubernetes', 'kube', 'deploy', 'deployment', 'deployments', 'manifests', 'kustomize', 'helm', 'charts', 'chart', 'infra'];
+
+/**
+ * How deep the search goes below each of those folders (overlays/production/patches is three levels)
+ */
+const MAX_DEPTH = 4;
+
+const WORKLOAD_KINDS = ['Deployment', 'StatefulSet', 'DaemonSet', 'ReplicaSet', 'Job', 'CronJob', 'Pod'];
+const SECRET_KINDS = ['Secret', 'SealedSecret', 'ExternalSecret'];
+const KUSTOMIZATION_FILES = ['kustomization.yaml', 'kustomization.yml', 'Kustomization'];
+
+/**
+ * YAML files that are never manifests: lockfiles, CI pipelines and tool configuration (compose files are matched by pattern)
+ */
+const NON_MANIFEST_FILES = [
+	'pnpm-lock.yaml', 'pnpm-workspace.yaml', '.yarnrc.yml', 'pubspec.yaml', 'environment.yml',
+	'.gitlab-ci.yml', 'azure-pipelines.yml', 'bitbucket-pipelines.yml', '.travis.yml', 'appveyor.yml', 'cloudbuild.yaml',
+	'codecov.yml', '.codecov.yml', '.pre-commit-config.yaml', '.golangci.yml', '.golangci.yaml', 'mkdocs.yml', '.readthedocs.yaml',
+	'buf.yaml', 'buf.gen.yaml', 'serverless.yml', 'openapi.yaml', 'openapi.yml', 'swagger.yaml', 'swagger.yml'
+];
+
+/**
+ * Larger YAML files are skipped without reading them; hand-written manifests are far smaller
+ */
+const MAX_MANIFEST_SIZE = 1024 * 1024;
+
+/**
+ * Resources read from manifest files
+ */
+type KubernetesResources = Omit<KubernetesInfo, 'overlays' | 'charts'>;
+
+/**
+ * Parser for Kubernetes YAML, Kustomize and Helm
+ */
+export class KubernetesParser {
+	/**
+	 * Parse Kubernetes configuration at the workspace root and in the usual deployment folders
+	 * data is undefined when there are no manifests, overlays or charts.
+	 */
+	async parseKubernetes(workspaceRoot: vscode.Uri): Promise<ParserResult<KubernetesInfo>> {
+		const errors: string[] = [];
+		const info: KubernetesInfo = { workloads: [], services: [], ingresses: [], configMaps: [], secrets: [], overlays: [], charts: [] };
+
+		const visit = async (dir: string, depth: number): Promise<void> => {
+			const entries = await this.readDirectory(workspaceRoot, dir);
+			const files = entries.filter(([, type]) => type === vscode.FileType.File).map(([name]) => name);
+			const join = (name: string) => dir ? `${dir}/${name}` : name;
+
+			// A chart's templates are Go templates, not YAML; only Chart.yaml, values files and subcharts are read
+			if (files.includes('Chart.yaml')) {
+				await this.collect(workspaceRoot, join('Chart.yaml'), errors, text => {
+					info.charts.push(this.parseChart(text, dir || '.', files.filter(name => /^values.*\.ya?ml$/i.test(name))));
+				});
+				if (depth < MAX_DEPTH && entries.some(([name, type]) => name === 'charts' && type === vscode.FileType.Directory)) {
+					await visit(join('charts'), depth + 1);
+				}
+				return;
+			}
+
+			for (const name of files) {
+				if (KUSTOMIZATION_FILES.includes(name)) {
+					await this.collect(workspaceRoot, join(name), errors, text => {
+						info.overlays.push(this.parseKustomization(text, dir || '.'));
+					});
+				} else if (/\.ya?ml$/i.test(name) && !this.isNonManifestFile(name)) {
+					const text = await this.readManifest(workspaceRoot, join(name));
+					// Skip other YAML (workflows, tool configuration) without parsing it
+					if (text !== undefined && /^apiVersion:/m.test(text) && /^kind:/m.test(text)) {
+						this.mergeResources(info, this.parseManifests(text, join(name)));
+					}
+				}
+			}
+
+			// Only the deployment folders are searched below the root
+			const folders = entries
+				.filter(([name, type]) => type === vscode.FileType.Directory && (dir ? !name.startsWith('.') && name !== 'node_modules' : KUBERNETES_DIRECTORIES.includes(name)))
+				.map(([name]) => name);
+			if (depth < MAX_DEPTH) {
+				for (const folder of folders) {
+					await visit(join(folder), depth + 1);
+				}
+			}
+		};
+
+		await visit('', 0);
+
+		const found = info.workloads.length + info.services.length + info.ingresses.length + info.configMaps.length +
+			info.secrets.length + info.overlays.length + info.charts.length;
+		if (found === 0) {
+			return { success: errors.length === 0, errors };
+		}
+
+		return { success: errors.length === 0, data: info, errors };
+	}
+
+	/**
+	 * Parse a (multi-document) manifest file: workloads, services, ingress hosts, configmaps and secrets
+	 * Documents without apiVersion and kind, that aren't valid YAML or that expand too many aliases are ignored.
+	 */
+	parseManifests(text: string, file: string): KubernetesResources {
+		const resources: KubernetesResources = { workloads: [], services: [], ingresses: [], configMaps: [], secrets: [] };
+
+		const add = (doc: any) => {
+			if (!doc || typeof doc !== 'object' || typeof doc.kind !== 'string' || typeof doc.apiVersion !== 'string') {
+				return;
+			}
+			// kind: List wraps other resources
+			if (doc.kind === 'List' || doc.kind.endsWith('List')) {
+				(Array.isArray(doc.items) ? doc.items : []).forEach(add);
+				return;
+			}
+
+			const name = String(doc.metadata?.name ?? '');
+			const spec = doc.spec || {};
+
+			if (WORKLOAD_KINDS.includes(doc.kind)) {
+				const podSpec = doc.kind === 'Pod' ? spec
+					: doc.kind === 'CronJob' ? spec.jobTemplate?.spec?.template?.spec
+					: spec.template?.spec;
+				resources.workloads.push({
+					kind: doc.kind,
+					name,
+					namespace: doc.metadata?.namespace,
+					replicas: typeof spec.replicas === 'number' ? spec.replicas : undefined,
+					containers: (Array.isArray(podSpec?.containers) ? podSpec.containers : []).map((container: any) => this.container(container)),
+					file
+				});
+			} else if (doc.kind === 'Service') {
+				resources.services.push({
+					name,
+					type: spec.type || 'ClusterIP',
+					ports: (Array.isArray(spec.ports) ? spec.ports : []).map((port: any) => this.servicePort(port)),
+					file
+				});
+			} else if (doc.kind === 'Ingress' || doc.kind === 'Route' || doc.kind === 'HTTPRoute') {
+				const hosts = [
+					...(Array.isArray(spec.rules) ? spec.rules.map((rule: any) => rule?.host) : []),
+					...(Array.isArray(spec.tls) ? spec.tls.flatMap((tls: any) => tls?.hosts || []) : []),
+					...(Array.isArray(spec.hostnames) ? spec.hostnames : []),
+					spec.host
+				];
+				resources.ingresses.push({ kind: doc.kind, name, hosts: this.unique(hosts.filter((host): host is string => typeof host === 'string')), file });
+			} else if (doc.kind === 'ConfigMap') {
+				resources.configMaps.push(name);
+			} else if (SECRET_KINDS.includes(doc.kind)) {
+				resources.secrets.push(name);
+			}
+		};
+
+		for (const document of parseAllDocuments(text)) {
+			if (document.errors.length === 0) {
+				try {
+					add(document.toJS());
+				} catch (error) {
+					// Too many aliases to expand safely; the other documents are still read
+				}
+			}
+		}
+
+		return resources;
+	}
+
+	/**
+	 * Parse a kustomization.yaml; the folder name tells which environment an overlay deploys to
+	 */
+	parseKustomization(text: string, path: string): KustomizeOverlay {
+		const kustomization = parse(text, { merge: true }) || {};
+		const name = path === '.' ? '.' : path.split('/').pop() as string;
+
+		return {
+			name,
+			path,
+			environment: this.environmentFor(name),
+			namespace: kustomization.namespace,
+			resources: [...this.strings(kustomization.resources), ...this.strings(kustomization.bases)],
+			images: (Array.isArray(kustomization.images) ? kustomization.images : [])
+				.filter((image: any) => image?.name)
+				.map((image: any) => {
+					const tag = image.digest ? `@${image.digest}` : image.newTag !== undefined ? `:${image.newTag}` : '';
+					return `${image.name}=${image.newName || image.name}${tag}`;
+				})
+		};
+	}
+
+	/**
+	 * Parse a Chart.yaml; values-<env>.yaml files tell which environments the chart is deployed to
+	 */
+	parseChart(text: string, path: string, valuesFiles: string[]): HelmChart {
+		const chart = parse(text) || {};
+		const environments = valuesFiles
+			.map(file => this.environmentFor(file.replace(/\.ya?ml$/i, '').replace(/^values/i, '')))
+			.filter((environment): environment is string => !!environment);
+
+		return {
+			name: chart.name || (path === '.' ? 'chart' : path.split('/').pop() as string),
+			version: chart.version !== undefined ? String(chart.version) : undefined,
+			appVersion: chart.appVersion !== undefined ? String(chart.appVersion) : undefined,
+			path,
+			dependencies: (Array.isArray(chart.dependencies) ? chart.dependencies : [])
+				.filter((dependency: any) => dependency?.name)
+				.map((dependency: any) => dependency.version ? `${dependency.name} ${dependency.version}` : dependency.name),
+			valuesFiles,
+			environments: this.unique(environments)
+		};
+	}
+
+	private container(container: any): KubernetesContainer {
+		const quantities = (values: any) => values && typeof values === 'object'
+			? Object.fromEntries(Object.entries(values).map(([key, value]) => [key, String(value)]))
+			: undefined;
+		return {
+			name: String(container?.name ?? ''),
+			image: container?.image,
+			requests: quantities(container?.resources?.requests),
+			limits: quantities(container?.resources?.limits)
+		};
+	}
+
+	/**
+	 * port[:targetPort][/protocol], leaving out the defaults
+	 */
+	private servicePort(port: any): string {
+		const target = port?.targetPort !== undefined && port.targetPort !== port.port ? `:${port.targetPort}` : '';
+		const protocol = port?.protocol && port.protocol !== 'TCP' ? `/${port.protocol}` : '';
+		return `${port?.port}${target}${protocol}`;
+	}
+
+	/**
+	 * Deployment environment for a folder or file name such as 'prod', 'overlays-staging' or '-uat'
+	 */
+	private environmentFor(name: string): string | undefined {
+		// "pre-prod" is one word here, not "pre" + "prod"
+		const words = name.toLowerCase().replace(/pre-prod/g, 'preprod').split(/[^a-z0-9]+/);
+		for (const [environment, aliases] of Object.entries(DeploymentEnvironmentPatterns)) {
+			if (aliases.some(alias => words.includes(alias.replace(/-/g, '')))) {
+				return environment;
+			}
+		}
+		return undefined;
+	}
+
+	private mergeResources(info: KubernetesInfo, resources: KubernetesResources): void {
+		info.workloads.push(...resources.workloads);
+		info.services.push(...resources.services);
+		info.ingresses.push(...resources.ingresses);
+		info.configMaps = this.unique([...info.configMaps, ...resources.configMaps]);
+		info.secrets = this.unique([...info.secrets, ...resources.secrets]);
+	}
+
+	/**
+	 * Read a file and hand it to a parse step, recording failures
+	 */
+	private async collect(workspaceRoot: vscode.Uri, relativePath: string, errors: string[], work: (text: string) => void): Promise<void> {
+		const text = await this.readFile(workspaceRoot, relativePath);
+		if (text === undefined) {
+			return;
+		}
+		try {
+			work(text);
+		} catch (error) {
+			errors.push(`Failed to parse ${relativePath}: ${error}`);
+		}
+	}
+
+	/**
+	 * Lockfiles, CI pipelines, compose files and other well-known YAML that isn't Kubernetes
+	 */
+	private isNonManifestFile(name: string): boolean {
+		return NON_MANIFEST_FILES.includes(name.toLowerCase()) || /^(docker-)?compose(\.[\w-]+)*\.ya?ml$/i.test(name);
+	}
+
+	private strings(value: any): string[] {
+		return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+	}
+
+	private unique(values: string[]): string[] {
+		return Array.from(new Set(values));
+	}
+
+	/**
+	 * List a workspace-relative folder, or nothing when it doesn't exist
+	 */
+	private async readDirectory(workspaceRoot: vscode.Uri, dir: string): Promise<[string, vscode.FileType][]> {
+		try {
+			const entries = await vscode.workspace.fs.readDirectory(dir ? vscode.Uri.joinPath(workspaceRoot, ...dir.split('/')) : workspaceRoot);
+			return entries.sort(([a], [b]) => a.localeCompare(b));
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * Read a possible manifest, or undefined when it doesn't exist or is over MAX_MANIFEST_SIZE
+	 */
+	private async readManifest(workspaceRoot: vscode.Uri, relativePath: string): Promise<string | undefined> {
+		try {
+			const stat = await vscode.workspace.fs.stat(vscode.Uri.joinPath(workspaceRoot, ...relativePath.split('/')));
+			if (stat.size > MAX_MANIFEST_SIZE) {
+				return undefined;
+			}
+		} catch {
+			return undefined;
+		}
+		return this.readFile(workspaceRoot, relativePath);
+	}
+
+	/**
+	 * Read a workspace-relative file, or undefined when it doesn't exist
+	 */
+	private async readFile(workspaceRoot: vscode.Uri, relativePath: string): Promise<string | undefined> {
+		try {
+			const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(workspaceRoot, ...relativePath.split('/')));
+			return Buffer.from(content).toString('utf8');
+		} catch {
+			return undefined;
+		}
+	}
+}
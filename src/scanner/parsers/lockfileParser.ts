@@ -0,0 +1,264 @@
+// Lockfile Parser - Read resolved dependency versions from npm, Yarn, pnpm, Poetry, uv and NuGet lockfiles
+import * as vscode from 'vscode';
+import { parse } from 'yaml';
+import { LockfileInfo, ParserResult, ResolvedPackage } from '../types';
+
+/**
+ * Parser for package manager lockfiles
+ */
+export class LockfileParser {
+	/**
+	 * Read every lockfile at the workspace root (and NuGet lockfiles next to projects one level down)
+	 * data is empty when the workspace has no lockfiles.
+	 */
+	async parseLockfiles(workspaceRoot: vscode.Uri): Promise<ParserResult<LockfileInfo[]>> {
+		const errors: string[] = [];
+		const lockfiles: LockfileInfo[] = [];
+
+		const readers: Array<[string, LockfileInfo['ecosystem'], (text: string) => ResolvedPackage[]]> = [
+			['package-lock.json', 'npm', text => this.parsePackageLock(text)],
+			['pnpm-lock.yaml', 'npm', text => this.parsePnpmLock(text)],
+			['yarn.lock', 'npm', text => this.parseYarnLock(text)],
+			['poetry.lock', 'python', text => this.parsePoetryLock(text)],
+			['uv.lock', 'python', text => this.parseUvLock(text)],
+			['packages.lock.json', 'nuget', text => this.parseNuGetLock(text)]
+		];
+
+		const nugetDirectories = await this.findProjectDirectories(workspaceRoot);
+		for (const [file, ecosystem, read] of readers) {
+			const paths = ecosystem === 'nuget' ? ['', ...nugetDirectories].map(dir => dir ? `${dir}/${file}` : file) : [file];
+			for (const path of paths) {
+				const text = await this.readFile(vscode.Uri.joinPath(workspaceRoot, path));
+				if (text === undefined) {
+					continue;
+				}
+				try {
+					lockfiles.push({ file: path, ecosystem, packages: read(text) });
+				} catch (error) {
+					errors.push(`Failed to parse ${path}: ${error}`);
+				}
+			}
+		}
+
+		return {
+			success: errors.length === 0,
+			data: lockfiles,
+			errors
+		};
+	}
+
+	/**
+	 * Parse package-lock.json (lockfileVersion 2/3 `packages`, or version 1 `dependencies`)
+	 */
+	parsePackageLock(text: string): ResolvedPackage[] {
+		const lock = JSON.parse(text);
+		const packages: ResolvedPackage[] = [];
+
+		if (!lock.packages) {
+			// Version 1 hoists transitive packages to the top level, so direct-ness is unknown
+			for (const [name, entry] of Object.entries<any>(lock.dependencies || {})) {
+				if (entry?.version) {
+					packages.push({ name, version: entry.version });
+				}
+			}
+			return packages;
+		}
+
+		const root = lock.packages[''] || {};
+		const declared: Record<string, string> = {
+			...root.optionalDependencies,
+			...root.devDependencies,
+			...root.dependencies
+		};
+
+		for (const [key, entry] of Object.entries<any>(lock.packages)) {
+			// Skip the root, workspace folders and symlinked workspace packages
+			const marker = key.lastIndexOf('node_modules/');
+			if (marker === -1 || !entry?.version || entry.link) {
+				continue;
+			}
+			const name = key.slice(marker + 'node_modules/'.length);
+			const direct = key === `node_modules/${name}` && name in declared;
+			packages.push({ name, version: entry.version, range: direct ? declared[name] : undefined, direct });
+		}
+
+		return packages;
+	}
+
+	/**
+	 * Parse yarn.lock (classic v1 and Berry); one entry per descriptor, so every declared range resolves
+	 */
+	parseYarnLock(text: string): ResolvedPackage[] {
+		const packages: ResolvedPackage[] = [];
+		let descriptors: string[] = [];
+
+		for (const line of text.split(/\r?\n/)) {
+			if (!line.trim() || line.startsWith('#')) {
+				continue;
+			}
+
+			// "@scope/a@^1.0.0", a@npm:^1.1.0:
+			if (!/^\s/.test(line) && line.endsWith(':')) {
+				descriptors = line.slice(0, -1).split(/,\s*/).map(descriptor => descriptor.replace(/^"|"$/g, ''));
+				continue;
+			}
+
+			const version = /^ {2}version:?\s+"?([^"\s]+)"?/.exec(line);
+			if (version && descriptors.length > 0) {
+				for (const descriptor of descriptors) {
+					const at = descriptor.indexOf('@', 1);
+					if (at > 0) {
+						packages.push({
+							name: descriptor.slice(0, at),
+							version: version[1],
+							range: descriptor.slice(at + 1).replace(/^npm:/, '')
+						});
+					}
+				}
+				descriptors = [];
+			}
+		}
+
+		return packages;
+	}
+
+	/**
+	 * Parse pnpm-lock.yaml: root importer dependencies are direct, `packages` holds the rest
+	 */
+	parsePnpmLock(text: string): ResolvedPackage[] {
+		const lock = parse(text) || {};
+		const packages: ResolvedPackage[] = [];
+
+		// lockfileVersion 6+ nests the root project under importers['.'] in workspaces
+		const importer = lock.importers?.['.'] || lock;
+		const legacy = parseFloat(String(lock.lockfileVersion)) < 6;
+		for (const section of ['dependencies', 'devDependencies', 'optionalDependencies']) {
+			for (const [name, entry] of Object.entries<any>(importer[section] || {})) {
+				// Version 6+: { specifier, version }; version 5: a version string with `specifiers` alongside
+				const version = typeof entry === 'string' ? entry : entry?.version;
+				const range = typeof entry === 'string' ? lock.specifiers?.[name] : entry?.specifier;
+				if (version) {
+					packages.push({ name, version: this.stripPnpmPeers(String(version), legacy), range, direct: true });
+				}
+			}
+		}
+
+		const direct = new Set(packages.map(pkg => `${pkg.name}@${pkg.version}`));
+		for (const key of Object.keys(lock.packages || {})) {
+			// Version 5: /name/1.2.3_peer@1; version 6: /name@1.2.3(peer@1); version 9: name@1.2.3(peer@1)
+			const spec = key.replace(/^\//, '').replace(/\(.*$/, '');
+			const separator = legacy ? spec.lastIndexOf('/') : spec.lastIndexOf('@');
+			if (separator <= 0) {
+				continue;
+			}
+			const name = spec.slice(0, separator);
+			const version = this.stripPnpmPeers(spec.slice(separator + 1), legacy);
+			if (!direct.has(`${name}@${version}`)) {
+				packages.push({ name, version, direct: false });
+			}
+		}
+
+		return packages;
+	}
+
+	/**
+	 * Parse poetry.lock; direct-ness comes from pyproject.toml, which poetry.lock doesn't record
+	 */
+	parsePoetryLock(text: string): ResolvedPackage[] {
+		return this.parseTomlPackages(text).map(({ name, version }) => ({ name, version }));
+	}
+
+	/**
+	 * Parse uv.lock; the project's own entry lists its direct dependencies and their specifiers
+	 */
+	parseUvLock(text: string): ResolvedPackage[] {
+		const entries = this.parseTomlPackages(text);
+		const root = entries.find(entry => /^source\s*=\s*\{\s*(?:editable|virtual)\s*=\s*"\."/m.test(entry.body));
+		if (!root) {
+			return entries.map(({ name, version }) => ({ name, version }));
+		}
+
+		// { name = "httpx", marker = "...", specifier = ">=0.27" }
+		const ranges = new Map<string, string | undefined>();
+		for (const match of root.body.matchAll(/\{\s*name\s*=\s*"([^"]+)"([^}]*)\}/g)) {
+			const specifier = /specifier\s*=\s*"([^"]+)"/.exec(match[2]);
+			ranges.set(match[1], ranges.get(match[1]) || specifier?.[1]);
+		}
+
+		return entries
+			.filter(entry => entry !== root)
+			.map(({ name, version }) => ({ name, version, range: ranges.get(name), direct: ranges.has(name) }));
+	}
+
+	/**
+	 * Parse NuGet packages.lock.json; the first target framework wins for multi-targeted projects
+	 */
+	parseNuGetLock(text: string): ResolvedPackage[] {
+		const lock = JSON.parse(text);
+		const packages = new Map<string, ResolvedPackage>();
+
+		for (const framework of Object.values<any>(lock.dependencies || {})) {
+			for (const [name, entry] of Object.entries<any>(framework || {})) {
+				if (!entry?.resolved || entry.type === 'Project' || packages.has(name)) {
+					continue;
+				}
+				const direct = entry.type === 'Direct';
+				packages.set(name, { name, version: entry.resolved, range: direct ? entry.requested : undefined, direct });
+			}
+		}
+
+		return Array.from(packages.values());
+	}
+
+	/**
+	 * Split a TOML lockfile into its [[package]] entries
+	 */
+	private parseTomlPackages(text: string): Array<{ name: string; version: string; body: string }> {
+		const entries: Array<{ name: string; version: string; body: string }> = [];
+
+		for (const body of text.split(/^\[\[package\]\]\s*$/m).slice(1)) {
+			const name = /^name\s*=\s*"([^"]+)"/m.exec(body);
+			const version = /^version\s*=\s*"([^"]+)"/m.exec(body);
+			if (name && version) {
+				entries.push({ name: name[1], version: version[1], body });
+			}
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Drop pnpm peer dependency suffixes: 1.2.3(react@18.2.0), or 1.2.3_react@18.2.0 before version 6
+	 */
+	private stripPnpmPeers(version: string, legacy: boolean): string {
+		const stripped = version.replace(/\(.*$/, '');
+		return legacy ? stripped.replace(/_.*$/, '') : stripped;
+	}
+
+	/**
+	 * List top-level directories that may hold .NET projects
+	 */
+	private async findProjectDirectories(workspaceRoot: vscode.Uri): Promise<string[]> {
+		try {
+			const entries = await vscode.workspace.fs.readDirectory(workspaceRoot);
+			return entries
+				.filter(([name, type]) => type === vscode.FileType.Directory &&
+					!name.startsWith('.') && !['node_modules', 'bin', 'obj', 'packages'].includes(name))
+				.map(([name]) => name);
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * Read a file, or undefined when it doesn't exist
+	 */
+	private async readFile(uri: vscode.Uri): Promise<string | undefined> {
+		try {
+			const content = await vscode.workspace.fs.readFile(uri);
+			return Buffer.from(content).toString('utf8');
+		} catch {
+			return undefined;
+		}
+	}
+}
@@ -0,0 +1,131 @@
+// PHP Project Parser - Parse composer.json and composer.lock
+import * as vscode from 'vscode';
+import { ComposerPackagePatterns, ParserResult, PhpPackage, PhpProjectInfo } from '../types';
+
+/**
+ * Parser for PHP (Composer) projects
+ */
+export class PhpParser {
+	/**
+	 * Parse the Composer project at the workspace root
+	 * data is undefined when there is no composer.json.
+	 */
+	async parseProject(workspaceRoot: vscode.Uri): Promise<ParserResult<PhpProjectInfo>> {
+		const errors: string[] = [];
+
+		const composerText = await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'composer.json'));
+		if (composerText === undefined) {
+			return { success: true, errors };
+		}
+
+		let projectInfo: PhpProjectInfo = {
+			packages: [],
+			frameworks: [],
+			testingFrameworks: [],
+			codeQuality: [],
+			infrastructure: { databases: [], cache: [], queues: [], storage: [], messaging: [] }
+		};
+
+		try {
+			projectInfo = this.parseComposerJson(composerText);
+		} catch (error) {
+			errors.push(`Failed to parse composer.json: ${error}`);
+		}
+
+		try {
+			const lockText = await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'composer.lock'));
+			if (lockText !== undefined) {
+				const versions = this.parseComposerLock(lockText);
+				for (const pkg of projectInfo.packages) {
+					pkg.version = versions[pkg.name];
+				}
+			}
+		} catch (error) {
+			errors.push(`Failed to parse composer.lock: ${error}`);
+		}
+
+		return {
+			success: errors.length === 0,
+			data: projectInfo,
+			errors
+		};
+	}
+
+	/**
+	 * Parse composer.json text into project info with detected frameworks and tools
+	 */
+	parseComposerJson(text: string): PhpProjectInfo {
+		const composer = JSON.parse(text);
+		const require: Record<string, string> = composer.require || {};
+		const requireDev: Record<string, string> = composer['require-dev'] || {};
+
+		// The php requirement is a constraint, not a package
+		const packages: PhpPackage[] = [
+			...Object.entries(require).map(([name, constraint]) => ({ name, constraint, dev: false })),
+			...Object.entries(requireDev).map(([name, constraint]) => ({ name, constraint, dev: true }))
+		].filter(pkg => pkg.name !== 'php');
+
+		const names = new Set(packages.map(pkg => pkg.name.toLowerCase()));
+		const collect = (patterns: Record<string, string[]>) =>
+			Object.entries(patterns).filter(([, packageNames]) => packageNames.some(name => names.has(name))).map(([name]) => name);
+
+		return {
+			name: composer.name,
+			type: composer.type,
+			phpVersion: require.php || composer.config?.platform?.php,
+			packages,
+			frameworks: collect(ComposerPackagePatterns.frameworks),
+			testingFrameworks: collect(ComposerPackagePatterns.testing),
+			codeQuality: collect(ComposerPackagePatterns.codeQuality),
+			infrastructure: {
+				databases: collect(ComposerPackagePatterns.databases),
+				cache: collect(ComposerPackagePatterns.cache),
+				queues: collect(ComposerPackagePatterns.queues),
+				storage: [],
+				messaging: collect(ComposerPackagePatterns.messaging)
+			}
+		};
+	}
+
+	/**
+	 * Parse composer.lock text into package name -> locked version
+	 */
+	parseComposerLock(text: string): Record<string, string> {
+		const lock = JSON.parse(text);
+		const versions: Record<string, string> = {};
+
+		for (const pkg of [...(lock.packages || []), ...(lock['packages-dev'] || [])]) {
+			if (pkg?.name && pkg.version) {
+				versions[pkg.name] = String(pkg.version).replace(/^v(?=\d)/, '');
+			}
+		}
+
+		return versions;
+	}
+
+	/**
+	 * Get important dependencies (production packages first, then require-dev)
+	 */
+	getImportantDependencies(projectInfo: PhpProjectInfo): string[] {
+		return [...projectInfo.packages]
+			.filter(pkg => !pkg.name.startsWith('ext-'))
+			.sort((a, b) => Number(a.dev) - Number(b.dev))
+			.map(pkg => {
+				const version = pkg.version || pkg.constraint;
+				const name = version ? `${pkg.name} ${version}` : pkg.name;
+				return pkg.dev ? `${name} (dev)` : name;
+			});
+	}
+
+	/**
+	 * Read a file, or undefined when it doesn't exist
+	 */
+	private async readFile(uri: vscode.Uri): Promise<string | undefined> {
+		try {
+			const content = await vscode.workspace.fs.readFile(uri);
+			return Buffer.from(content).toString('utf8');
+		} catch {
+			return undefined;
+		}
+	}
+}
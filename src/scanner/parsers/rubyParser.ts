@@ -0,0 +1,219 @@
+// Ruby Project Parser - Parse Gemfile, Gemfile.lock and .ruby-version
+import * as vscode from 'vscode';
+import { ParserResult, RubyGem, RubyGemPatterns, RubyProjectInfo } from '../types';
+
+/**
+ * Parsed Gemfile.lock contents
+ */
+export interface GemfileLock {
+	versions: Record<string, string>;  // Top-level specs: gem name -> locked version
+	rubyVersion?: string;
+	bundlerVersion?: string;
+}
+
+/**
+ * Parser for Ruby (Bundler) projects
+ */
+export class RubyParser {
+	/**
+	 * Parse the Bundler project at the workspace root
+	 * data is undefined when there is no Gemfile.
+	 */
+	async parseProject(workspaceRoot: vscode.Uri): Promise<ParserResult<RubyProjectInfo>> {
+		const errors: string[] = [];
+
+		const gemfileText = await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'Gemfile'));
+		if (gemfileText === undefined) {
+			return { success: true, errors };
+		}
+
+		const projectInfo: RubyProjectInfo = {
+			gems: [],
+			frameworks: [],
+			testingFrameworks: [],
+			codeQuality: [],
+			infrastructure: { databases: [], cache: [], queues: [], storage: [], messaging: [] }
+		};
+
+		try {
+			const gemfile = this.parseGemfile(gemfileText);
+			projectInfo.gems = gemfile.gems;
+			projectInfo.rubyVersion = gemfile.rubyVersion;
+		} catch (error) {
+			errors.push(`Failed to parse Gemfile: ${error}`);
+		}
+
+		try {
+			const lockText = await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'Gemfile.lock'));
+			if (lockText !== undefined) {
+				const lock = this.parseGemfileLock(lockText);
+				for (const gem of projectInfo.gems) {
+					gem.version = lock.versions[gem.name];
+				}
+				projectInfo.rubyVersion = projectInfo.rubyVersion || lock.rubyVersion;
+				projectInfo.bundlerVersion = lock.bundlerVersion;
+			}
+		} catch (error) {
+			errors.push(`Failed to parse Gemfile.lock: ${error}`);
+		}
+
+		// .ruby-version is what rbenv / rvm / asdf actually install
+		const rubyVersionText = await this.readFile(vscode.Uri.joinPath(workspaceRoot, '.ruby-version'));
+		if (rubyVersionText !== undefined && rubyVersionText.trim()) {
+			projectInfo.rubyVersion = rubyVersionText.trim().replace(/^ruby-/, '');
+		}
+
+		this.detectGems(projectInfo);
+
+		return {
+			success: errors.length === 0,
+			data: projectInfo,
+			errors
+		};
+	}
+
+	/**
+	 * Parse Gemfile text: gem declarations, groups and the ruby directive
+	 */
+	parseGemfile(text: string): { gems: RubyGem[]; rubyVersion?: string } {
+		const gems: RubyGem[] = [];
+		const groupStack: string[][] = [];
+		let rubyVersion: string | undefined;
+
+		for (const rawLine of text.split(/\r?\n/)) {
+			const line = rawLine.replace(/\s+#.*$/, '').trim();
+			if (!line || line.startsWith('#')) {
+				continue;
+			}
+
+			// group :development, :test do
+			const group = /^group\s+(.+?)\s+do\b/.exec(line);
+			if (group) {
+				groupStack.push(this.getSymbols(group[1]));
+				continue;
+			}
+			// Other blocks (platforms, source, git) also end with `end`
+			if (/\bdo(\s*\|.*\|)?$/.test(line)) {
+				groupStack.push([]);
+				continue;
+			}
+			// So do conditionals such as `if ENV["CI"]`; the modifier form `gem "x" if cond` opens nothing
+			if (/^(if|unless|case|begin|while|until)\b/.test(line) && !/\bend$/.test(line)) {
+				groupStack.push([]);
+			}
+			if (line === 'end') {
+				groupStack.pop();
+				continue;
+			}
+
+			const ruby = /^ruby\s+["']([^"']+)["']/.exec(line);
+			if (ruby) {
+				rubyVersion = ruby[1];
+				continue;
+			}
+
+			// gem "name", "~> 1.0", ">= 1.0.1", group: :test, require: false
+			const gem = /^gem\s*\(?\s*["']([^"']+)["'](.*)$/.exec(line);
+			if (gem) {
+				const args = gem[2];
+				const requirements = Array.from(args.matchAll(/,\s*["']([~><=!]*\s*[\d][^"']*)["']/g), match => match[1]);
+				const inlineGroups = /\bgroups?\s*(?::|=>)\s*(\[[^\]]*\]|:\w+|["']\w+["'])/.exec(args);
+				const groups = [
+					...groupStack.flat(),
+					...(inlineGroups ? this.getSymbols(inlineGroups[1]) : [])
+				];
+				gems.push({
+					name: gem[1],
+					requirement: requirements.length > 0 ? requirements.join(', ') : undefined,
+					groups: Array.from(new Set(groups))
+				});
+			}
+		}
+
+		return { gems, rubyVersion };
+	}
+
+	/**
+	 * Parse Gemfile.lock text: locked versions of top-level specs, RUBY VERSION and BUNDLED WITH
+	 */
+	parseGemfileLock(text: string): GemfileLock {
+		const lock: GemfileLock = { versions: {} };
+		let section = '';
+
+		for (const line of text.split(/\r?\n/)) {
+			if (/^[A-Z]/.test(line)) {
+				section = line.trim();
+				continue;
+			}
+
+			// Specs are indented four spaces; their own dependencies six
+			const spec = /^ {4}([^\s(]+) \(([^)]+)\)$/.exec(line);
+			if (spec && ['GEM', 'GIT', 'PATH'].includes(section)) {
+				// Platform-specific builds look like "1.16.0-x86_64-linux"
+				lock.versions[spec[1]] = lock.versions[spec[1]] || spec[2].replace(/-(?:x86|arm|aarch|universal|java|x64).*$/, '');
+				continue;
+			}
+
+			if (section === 'RUBY VERSION') {
+				const ruby = /^\s+ruby\s+([\d.]+)/.exec(line);
+				if (ruby) {
+					lock.rubyVersion = ruby[1];
+				}
+			} else if (section === 'BUNDLED WITH' && line.trim()) {
+				lock.bundlerVersion = line.trim();
+			}
+		}
+
+		return lock;
+	}
+
+	/**
+	 * Get important dependencies (gems with locked versions and their groups)
+	 */
+	getImportantDependencies(projectInfo: RubyProjectInfo): string[] {
+		return projectInfo.gems.map(gem => {
+			const version = gem.version || gem.requirement;
+			const name = version ? `${gem.name} ${version}` : gem.name;
+			return gem.groups.length > 0 ? `${name} (${gem.groups.join(', ')})` : name;
+		});
+	}
+
+	/**
+	 * Map known gems to frameworks, testing tools, code quality tools and infrastructure
+	 */
+	private detectGems(projectInfo: RubyProjectInfo): void {
+		const names = new Set(projectInfo.gems.map(gem => gem.name));
+		const collect = (patterns: Record<string, string[]>) =>
+			Object.entries(patterns).filter(([, gems]) => gems.some(gem => names.has(gem))).map(([name]) => name);
+
+		projectInfo.frameworks = collect(RubyGemPatterns.frameworks);
+		projectInfo.testingFrameworks = collect(RubyGemPatterns.testing);
+		projectInfo.codeQuality = collect(RubyGemPatterns.codeQuality);
+		projectInfo.infrastructure = {
+			databases: collect(RubyGemPatterns.databases),
+			cache: collect(RubyGemPatterns.cache),
+			queues: collect(RubyGemPatterns.queues),
+			storage: [],
+			messaging: collect(RubyGemPatterns.messaging)
+		};
+	}
+
+	/**
+	 * Read symbols and strings from `:development, :test` or `[:development, "test"]`
+	 */
+	private getSymbols(text: string): string[] {
+		return Array.from(text.matchAll(/:(\w+)|["'](\w+)["']/g), match => match[1] || match[2]);
+	}
+
+	/**
+	 * Read a file, or undefined when it doesn't exist
+	 */
+	private async readFile(uri: vscode.Uri): Promise<string | undefined> {
+		try {
+			const content = await vscode.workspace.fs.readFile(uri);
+			return Buffer.from(content).toString('utf8');
+		} catch {
+			return undefined;
+		}
+	}
+}
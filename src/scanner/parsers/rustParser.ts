@@ -0,0 +1,514 @@
+// Rust Project Parser - Parse Cargo.toml, workspace members and rust-toolchain
+import * as vscode from 'vscode';
+import {
+	InfrastructureInfo,
+	ParserResult,
+	RustCrate,
+	RustCratePatterns,
+	RustDatabaseFeatures,
+	RustProjectInfo
+} from '../types';
+
+/**
+ * Parsed Cargo.toml contents
+ */
+export interface CargoManifest {
+	name?: string;
+	version?: string;
+	edition?: string;
+	rustVersion?: string;
+	features: string[];
+	dependencies: RustCrate[];
+	devDependencies: RustCrate[];
+	buildDependencies: RustCrate[];
+	binaries: string[];     // [[bin]] names
+	hasLibTable: boolean;   // [lib] section present
+	workspace?: {
+		members: string[];
+		exclude: string[];
+		dependencies: RustCrate[];
+	};
+}
+
+/**
+ * A TOML table with its raw (unparsed) values
+ */
+interface TomlTable {
+	name: string;
+	isArray: boolean;
+	values: Record<string, string>;
+}
+
+/**
+ * Parser for Rust (Cargo) projects
+ */
+export class RustParser {
+	/**
+	 * Parse the Cargo package or workspace at the workspace root
+	 * data is undefined when there is no Cargo.toml.
+	 */
+	async parseProject(workspaceRoot: vscode.Uri): Promise<ParserResult<RustProjectInfo>> {
+		const errors: string[] = [];
+
+		const manifestText = await this.readFile(vscode.Uri.joinPath(workspaceRoot, 'Cargo.toml'));
+		if (manifestText === undefined) {
+			return { success: true, errors };
+		}
+
+		let manifest: CargoManifest;
+		try {
+			manifest = this.parseCargoToml(manifestText);
+		} catch (error) {
+			return { success: false, errors: [`Failed to parse Cargo.toml: ${error}`] };
+		}
+
+		const projectInfo: RustProjectInfo = {
+			name: manifest.name,
+			version: manifest.version,
+			edition: manifest.edition,
+			rustVersion: manifest.rustVersion,
+			workspaceMembers: [],
+			features: [...manifest.features],
+			dependencies: [...manifest.dependencies],
+			devDependencies: [...manifest.devDependencies],
+			buildDependencies: [...manifest.buildDependencies],
+			binaries: [...manifest.binaries],
+			hasLibrary: manifest.hasLibTable,
+			projectType: 'rust-application',
+			frameworks: [],
+			testingFrameworks: [],
+			infrastructure: { databases: [], cache: [], queues: [], storage: [], messaging: [] }
+		};
+
+		// Implicit targets of the root package
+		if (manifest.name) {
+			await this.addImplicitTargets(workspaceRoot, manifest, projectInfo);
+		}
+
+		// rust-toolchain.toml takes precedence over the legacy rust-toolchain file
+		for (const toolchainFile of ['rust-toolchain.toml', 'rust-toolchain']) {
+			const toolchainText = await this.readFile(vscode.Uri.joinPath(workspaceRoot, toolchainFile));
+			if (toolchainText !== undefined) {
+				projectInfo.toolchainChannel = this.parseToolchain(toolchainText);
+				break;
+			}
+		}
+
+		// Workspace members contribute their dependencies and targets
+		if (manifest.workspace) {
+			projectInfo.workspaceMembers = await this.expandMembers(workspaceRoot, manifest.workspace.members, manifest.workspace.exclude);
+			for (const member of projectInfo.workspaceMembers) {
+				try {
+					const memberText = await this.readFile(vscode.Uri.joinPath(workspaceRoot, member, 'Cargo.toml'));
+					if (memberText === undefined) {
+						continue;
+					}
+					const memberManifest = this.parseCargoToml(memberText);
+					this.mergeCrates(projectInfo.dependencies, memberManifest.dependencies);
+					this.mergeCrates(projectInfo.devDependencies, memberManifest.devDependencies);
+					this.mergeCrates(projectInfo.buildDependencies, memberManifest.buildDependencies);
+					projectInfo.binaries.push(...memberManifest.binaries);
+					projectInfo.hasLibrary = projectInfo.hasLibrary || memberManifest.hasLibTable;
+					if (memberManifest.name) {
+						await this.addImplicitTargets(vscode.Uri.joinPath(workspaceRoot, member), memberManifest, projectInfo);
+					}
+				} catch (error) {
+					errors.push(`Failed to parse ${member}/Cargo.toml: ${error}`);
+				}
+			}
+
+			// Resolve `crate.workspace = true` against [workspace.dependencies]
+			for (const crate of [...projectInfo.dependencies, ...projectInfo.devDependencies, ...projectInfo.buildDependencies]) {
+				const shared = crate.workspace && manifest.workspace.dependencies.find(dep => dep.name === crate.name);
+				if (shared) {
+					crate.version = crate.version || shared.version;
+					crate.path = crate.path || shared.path;
+					crate.git = crate.git || shared.git;
+					crate.features = Array.from(new Set([...shared.features, ...crate.features]));
+				}
+			}
+		}
+
+		projectInfo.binaries = Array.from(new Set(projectInfo.binaries));
+		this.detectCrates(projectInfo);
+		projectInfo.projectType = this.getProjectType(projectInfo);
+
+		return {
+			success: errors.length === 0,
+			data: projectInfo,
+			errors
+		};
+	}
+
+	/**
+	 * Parse Cargo.toml text
+	 */
+	parseCargoToml(text: string): CargoManifest {
+		const tables = this.parseTomlTables(text);
+		const table = (name: string) => tables.find(t => t.name === name && !t.isArray)?.values || {};
+		const packageValues = table('package');
+		const workspacePackage = table('workspace.package');
+
+		// `edition.workspace = true` inherits from [workspace.package]; virtual manifests only have the latter
+		const isVirtual = !tables.some(t => t.name === 'package');
+		const inherited = (key: string) => this.tomlString(packageValues[key]) ||
+			(isVirtual || packageValues[`${key}.workspace`] === 'true' ? this.tomlString(workspacePackage[key]) : undefined);
+
+		const manifest: CargoManifest = {
+			name: this.tomlString(packageValues.name),
+			version: inherited('version'),
+			edition: inherited('edition'),
+			rustVersion: inherited('rust-version'),
+			features: Object.keys(table('features')).map(key => this.unquoteKey(key)),
+			dependencies: this.getCrates(tables, name => name === 'dependencies' || /^target\..+\.dependencies$/.test(name)),
+			devDependencies: this.getCrates(tables, name => name === 'dev-dependencies' || /^target\..+\.dev-dependencies$/.test(name)),
+			buildDependencies: this.getCrates(tables, name => name === 'build-dependencies' || /^target\..+\.build-dependencies$/.test(name)),
+			binaries: tables
+				.filter(t => t.name === 'bin' && t.isArray)
+				.map(t => this.tomlString(t.values.name))
+				.filter((name): name is string => !!name),
+			hasLibTable: tables.some(t => t.name === 'lib')
+		};
+
+		if (tables.some(t => t.name === 'workspace')) {
+			const workspace = table('workspace');
+			manifest.workspace = {
+				members: this.tomlStringArray(workspace.members),
+				exclude: this.tomlStringArray(workspace.exclude),
+				dependencies: this.getCrates(tables, name => name === 'workspace.dependencies')
+			};
+		}
+
+		return manifest;
+	}
+
+	/**
+	 * Parse the channel from rust-toolchain.toml or a legacy rust-toolchain file
+	 */
+	parseToolchain(text: string): string | undefined {
+		const channel = this.tomlString(this.parseTomlTables(text).find(t => t.name === 'toolchain')?.values.channel);
+		if (channel) {
+			return channel;
+		}
+		// Legacy format: the file contains only the channel name
+		const legacy = text.trim();
+		return legacy && !legacy.includes('=') && !legacy.includes('\n') ? legacy : undefined;
+	}
+
+	/**
+	 * Get important dependencies (runtime dependencies with versions)
+	 */
+	getImportantDependencies(projectInfo: RustProjectInfo): string[] {
+		return projectInfo.dependencies.map(crate => {
+			const source = crate.version || (crate.path ? `path ${crate.path}` : crate.git ? `git ${crate.git}` : '*');
+			return crate.features.length > 0
+				? `${crate.name} ${source} (features: ${crate.features.join(', ')})`
+				: `${crate.name} ${source}`;
+		});
+	}
+
+	/**
+	 * Map known crates to frameworks, testing tools and infrastructure
+	 */
+	private detectCrates(projectInfo: RustProjectInfo): void {
+		const allCrates = [...projectInfo.dependencies, ...projectInfo.devDependencies];
+		const has = (names: string[]) => allCrates.some(crate => names.includes(crate.name));
+		const collect = (patterns: Record<string, string[]>) =>
+			Object.entries(patterns).filter(([, names]) => has(names)).map(([name]) => name);
+
+		projectInfo.frameworks = [...collect(RustCratePatterns.webFrameworks), ...collect(RustCratePatterns.frameworks)];
+		projectInfo.testingFrameworks = collect(RustCratePatterns.testing);
+
+		const infrastructure: InfrastructureInfo = {
+			databases: collect(RustCratePatterns.databases),
+			cache: collect(RustCratePatterns.cache),
+			queues: collect(RustCratePatterns.queues),
+			storage: [],
+			messaging: collect(RustCratePatterns.messaging)
+		};
+
+		// sqlx, sea-orm and diesel select their database through features
+		for (const crate of allCrates.filter(c => ['sqlx', 'sea-orm', 'diesel'].includes(c.name))) {
+			for (const feature of crate.features) {
+				const database = RustDatabaseFeatures[feature];
+				if (database && !infrastructure.databases.includes(database)) {
+					infrastructure.databases.push(database);
+				}
+			}
+		}
+
+		projectInfo.infrastructure = infrastructure;
+	}
+
+	/**
+	 * Classify the project from its targets and web framework crates
+	 */
+	private getProjectType(projectInfo: RustProjectInfo): RustProjectInfo['projectType'] {
+		const hasWebFramework = projectInfo.dependencies.some(crate =>
+			Object.values(RustCratePatterns.webFrameworks).some(names => names.includes(crate.name)));
+
+		if (projectInfo.binaries.length > 0) {
+			return hasWebFramework ? 'api-server' : 'cli-tool';
+		}
+		if (projectInfo.hasLibrary) {
+			return 'library';
+		}
+		return 'rust-application';
+	}
+
+	/**
+	 * Add the targets Cargo infers from src/main.rs and src/lib.rs
+	 */
+	private async addImplicitTargets(packageRoot: vscode.Uri, manifest: CargoManifest, projectInfo: RustProjectInfo): Promise<void> {
+		if (manifest.binaries.length === 0 && await this.fileExists(vscode.Uri.joinPath(packageRoot, 'src', 'main.rs'))) {
+			projectInfo.binaries.push(manifest.name!);
+		}
+		if (!projectInfo.hasLibrary && await this.fileExists(vscode.Uri.joinPath(packageRoot, 'src', 'lib.rs'))) {
+			projectInfo.hasLibrary = true;
+		}
+	}
+
+	/**
+	 * Expand workspace members, including `dir/*` globs
+	 */
+	private async expandMembers(workspaceRoot: vscode.Uri, members: string[], exclude: string[]): Promise<string[]> {
+		const expanded: string[] = [];
+		for (const member of members) {
+			const normalized = member.replace(/^\.\//, '').replace(/\/$/, '');
+			if (!normalized.endsWith('/*')) {
+				expanded.push(normalized);
+				continue;
+			}
+
+			const parent = normalized.slice(0, -2);
+			try {
+				const entries = await vscode.workspace.fs.readDirectory(vscode.Uri.joinPath(workspaceRoot, parent));
+				for (const [name, type] of entries) {
+					if (type === vscode.FileType.Directory) {
+						expanded.push(`${parent}/${name}`);
+					}
+				}
+			} catch {
+				// Member folder doesn't exist
+			}
+		}
+
+		const excluded = new Set(exclude.map(dir => dir.replace(/^\.\//, '').replace(/\/$/, '')));
+		return Array.from(new Set(expanded)).filter(member => !excluded.has(member));
+	}
+
+	/**
+	 * Read crates from dependency tables, including `[dependencies.name]` tables
+	 */
+	private getCrates(tables: TomlTable[], isDependencyTable: (name: string) => boolean): RustCrate[] {
+		const fields = new Map<string, Record<string, string>>();
+		const entry = (name: string) => {
+			const existing = fields.get(name);
+			if (existing) {
+				return existing;
+			}
+			const created: Record<string, string> = {};
+			fields.set(name, created);
+			return created;
+		};
+
+		for (const table of tables) {
+			if (isDependencyTable(table.name)) {
+				for (const [key, raw] of Object.entries(table.values)) {
+					// `serde = "1"`, `serde = { ... }` or dotted `serde.workspace = true`
+					const dot = key.indexOf('.');
+					if (dot > 0) {
+						entry(this.unquoteKey(key.substring(0, dot)))[key.substring(dot + 1)] = raw;
+					} else if (raw.startsWith('{')) {
+						Object.assign(entry(this.unquoteKey(key)), this.parseInlineTable(raw));
+					} else {
+						entry(this.unquoteKey(key)).version = raw;
+					}
+				}
+				continue;
+			}
+
+			// [dependencies.serde]
+			const dot = table.name.lastIndexOf('.');
+			if (dot > 0 && isDependencyTable(table.name.substring(0, dot))) {
+				Object.assign(entry(this.unquoteKey(table.name.substring(dot + 1))), table.values);
+			}
+		}
+
+		return Array.from(fields.entries()).map(([key, values]) => ({
+			name: this.tomlString(values.package) || key,
+			version: this.tomlString(values.version),
+			features: this.tomlStringArray(values.features),
+			optional: values.optional === 'true',
+			path: this.tomlString(values.path),
+			git: this.tomlString(values.git),
+			workspace: values.workspace === 'true'
+		}));
+	}
+
+	private mergeCrates(target: RustCrate[], crates: RustCrate[]): void {
+		for (const crate of crates) {
+			const existing = target.find(c => c.name === crate.name);
+			if (existing) {
+				existing.features = Array.from(new Set([...existing.features, ...crate.features]));
+				existing.workspace = existing.workspace || crate.workspace;
+			} else {
+				target.push({ ...crate, features: [...crate.features] });
+			}
+		}
+	}
+
+	/**
+	 * Minimal TOML reader: tables, array tables and key = value pairs with raw values
+	 * Multi-line arrays and inline tables are joined onto one line.
+	 */
+	private parseTomlTables(text: string): TomlTable[] {
+		const tables: TomlTable[] = [{ name: '', isArray: false, values: {} }];
+		let pending: { key: string; value: string } | undefined;
+
+		for (const rawLine of text.split(/\r?\n/)) {
+			const line = this.stripComment(rawLine).trim();
+			if (pending) {
+				pending.value += ` ${line}`;
+				if (this.isBalanced(pending.value)) {
+					tables[tables.length - 1].values[pending.key] = pending.value.trim();
+					pending = undefined;
+				}
+				continue;
+			}
+			if (!line) {
+				continue;
+			}
+
+			const header = /^(\[\[?)\s*(.+?)\s*\]\]?$/.exec(line);
+			if (header) {
+				tables.push({ name: header[2].replace(/\s*\.\s*/g, '.'), isArray: header[1] === '[[', values: {} });
+				continue;
+			}
+
+			const equals = line.indexOf('=');
+			if (equals <= 0) {
+				continue;
+			}
+			const key = line.substring(0, equals).trim().replace(/\s*\.\s*/g, '.');
+			const value = line.substring(equals + 1).trim();
+			if (this.isBalanced(value)) {
+				tables[tables.length - 1].values[key] = value;
+			} else {
+				pending = { key, value };
+			}
+		}
+
+		return tables;
+	}
+
+	/**
+	 * Parse `{ version = "1", features = ["derive"] }` into raw values
+	 */
+	private parseInlineTable(raw: string): Record<string, string> {
+		const values: Record<string, string> = {};
+		for (const pair of this.splitTopLevel(raw.trim().replace(/^\{|\}$/g, ''))) {
+			const equals = pair.indexOf('=');
+			if (equals > 0) {
+				values[pair.substring(0, equals).trim()] = pair.substring(equals + 1).trim();
+			}
+		}
+		return values;
+	}
+
+	/**
+	 * Split on commas that aren't inside strings, arrays or inline tables
+	 */
+	private splitTopLevel(text: string): string[] {
+		const parts: string[] = [];
+		let depth = 0;
+		let quote: string | undefined;
+		let current = '';
+		for (const char of text) {
+			if (quote) {
+				quote = char === quote ? undefined : quote;
+			} else if (char === '"' || char === '\'') {
+				quote = char;
+			} else if (char === '[' || char === '{') {
+				depth++;
+			} else if (char === ']' || char === '}') {
+				depth--;
+			} else if (char === ',' && depth === 0) {
+				parts.push(current);
+				current = '';
+				continue;
+			}
+			current += char;
+		}
+		if (current.trim()) {
+			parts.push(current);
+		}
+		return parts;
+	}
+
+	private isBalanced(value: string): boolean {
+		let depth = 0;
+		let quote: string | undefined;
+		for (const char of value) {
+			if (quote) {
+				quote = char === quote ? undefined : quote;
+			} else if (char === '"' || char === '\'') {
+				quote = char;
+			} else if (char === '[' || char === '{') {
+				depth++;
+			} else if (char === ']' || char === '}') {
+				depth--;
+			}
+		}
+		return depth <= 0;
+	}
+
+	private stripComment(line: string): string {
+		let quote: string | undefined;
+		for (let index = 0; index < line.length; index++) {
+			const char = line[index];
+			if (quote) {
+				quote = char === quote ? undefined : quote;
+			} else if (char === '"' || char === '\'') {
+				quote = char;
+			} else if (char === '#') {
+				return line.substring(0, index);
+			}
+		}
+		return line;
+	}
+
+	private tomlString(raw: string | undefined): string | undefined {
+		const match = raw ? /^"(.*)"$|^'(.*)'$/.exec(raw.trim()) : null;
+		return match ? (match[1] ?? match[2]) : undefined;
+	}
+
+	private tomlStringArray(raw: string | undefined): string[] {
+		return raw ? Array.from(raw.matchAll(/"([^"]*)"|'([^']*)'/g), match => match[1] ?? match[2]) : [];
+	}
+
+	private unquoteKey(key: string): string {
+		return key.replace(/^["']|["']$/g, '');
+	}
+
+	/**
+	 * Read a file, or undefined when it doesn't exist
+	 */
+	private async readFile(uri: vscode.Uri): Promise<string | undefined> {
+		try {
+			const content = await vscode.workspace.fs.readFile(uri);
+			return Buffer.from(content).toString('utf8');
+		} catch {
+			return undefined;
+		}
+	}
+
+	private async fileExists(uri: vscode.Uri): Promise<boolean> {
+		try {
+			await vscode.workspace.fs.stat(uri);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+}
@@ -0,0 +1,304 @@
+// Workspace Parser - Detect monorepo tools and the packages they declare
+import * as vscode from 'vscode';
+import { parse } from 'yaml';
+import { ParserResult, WorkspaceInfo, WorkspacePackage } from '../types';
+import { GoParser } from './goParser';
+import { RustParser } from './rustParser';
+import { DotNetParser } from './dotnetParser';
+
+/**
+ * Directories never treated as workspace packages
+ */
+const IGNORED_DIRECTORIES = ['node_modules', '.git', 'bin', 'obj', 'target', 'dist', 'out'];
+
+/**
+ * How deep `**` patterns search below their base directory
+ */
+const MAX_GLOBSTAR_DEPTH = 3;
+
+/**
+ * Parser for npm / Yarn / pnpm workspaces, Lerna, Nx, Turborepo, go.work, Cargo workspaces and .NET solutions
+ */
+export class WorkspaceParser {
+	private goParser = new GoParser();
+	private rustParser = new RustParser();
+	private dotnetParser = new DotNetParser();
+
+	/**
+	 * Parse the workspace layout at the workspace root
+	 * data is undefined when no monorepo tool or workspace manifest is present.
+	 */
+	async parseWorkspace(workspaceRoot: vscode.Uri): Promise<ParserResult<WorkspaceInfo>> {
+		const errors: string[] = [];
+		const tools: string[] = [];
+		const packages: WorkspacePackage[] = [];
+
+		const collect = async (label: string, work: () => Promise<void>) => {
+			try {
+				await work();
+			} catch (error) {
+				errors.push(`Failed to read ${label}: ${error}`);
+			}
+		};
+
+		// npm / Yarn workspaces from package.json
+		await collect('package.json', async () => {
+			const text = await this.readFile(workspaceRoot, 'package.json');
+			const workspaces = text === undefined ? undefined : JSON.parse(text).workspaces;
+			const patterns: string[] = Array.isArray(workspaces) ? workspaces : workspaces?.packages || [];
+			if (patterns.length > 0) {
+				const source = await this.readFile(workspaceRoot, 'yarn.lock') !== undefined ? 'Yarn' : 'npm';
+				tools.push(`${source} workspaces`);
+				packages.push(...await this.findNodePackages(workspaceRoot, patterns, source));
+			}
+		});
+
+		// pnpm-workspace.yaml
+		await collect('pnpm-workspace.yaml', async () => {
+			const text = await this.readFile(workspaceRoot, 'pnpm-workspace.yaml');
+			if (text !== undefined) {
+				tools.push('pnpm workspaces');
+				packages.push(...await this.findNodePackages(workspaceRoot, parse(text)?.packages || [], 'pnpm'));
+			}
+		});
+
+		// Lerna defaults to packages/*
+		await collect('lerna.json', async () => {
+			const text = await this.readFile(workspaceRoot, 'lerna.json');
+			if (text !== undefined) {
+				tools.push('Lerna');
+				packages.push(...await this.findNodePackages(workspaceRoot, JSON.parse(text).packages || ['packages/*'], 'Lerna'));
+			}
+		});
+
+		// Nx projects are folders with a project.json under the apps / libs layout
+		await collect('nx.json', async () => {
+			const text = await this.readFile(workspaceRoot, 'nx.json');
+			if (text !== undefined) {
+				tools.push('Nx');
+				const layout = JSON.parse(text).workspaceLayout || {};
+				const folders = Array.from(new Set([layout.appsDir || 'apps', layout.libsDir || 'libs', 'packages']));
+				for (const dir of await this.expandPatterns(workspaceRoot, folders.map(folder => `${folder}/*`))) {
+					const project = await this.readFile(workspaceRoot, `${dir}/project.json`);
+					if (project !== undefined) {
+						packages.push({ name: JSON.parse(project).name || this.baseName(dir), path: dir, source: 'Nx' });
+					}
+				}
+			}
+		});
+
+		// Turborepo runs tasks over the package manager's workspaces
+		if (await this.readFile(workspaceRoot, 'turbo.json') !== undefined) {
+			tools.push('Turborepo');
+		}
+
+		// go.work modules
+		await collect('go.work', async () => {
+			const text = await this.readFile(workspaceRoot, 'go.work');
+			if (text !== undefined) {
+				tools.push('Go workspace');
+				for (const member of this.goParser.parseGoWork(text).use.map(dir => this.normalizePath(dir))) {
+					const goMod = member ? await this.readFile(workspaceRoot, `${member}/go.mod`) : undefined;
+					if (goMod !== undefined) {
+						const modulePath = this.goParser.parseGoMod(goMod).modulePath;
+						packages.push({ name: modulePath || this.baseName(member), path: member, source: 'Go' });
+					}
+				}
+			}
+		});
+
+		// Cargo workspace members
+		await collect('Cargo.toml', async () => {
+			const text = await this.readFile(workspaceRoot, 'Cargo.toml');
+			const workspace = text === undefined ? undefined : this.rustParser.parseCargoToml(text).workspace;
+			if (workspace) {
+				tools.push('Cargo workspace');
+				const excluded = new Set(workspace.exclude.map(dir => this.normalizePath(dir)));
+				for (const member of await this.expandPatterns(workspaceRoot, workspace.members)) {
+					const manifest = excluded.has(member) ? undefined : await this.readFile(workspaceRoot, `${member}/Cargo.toml`);
+					if (manifest !== undefined) {
+						const name = this.rustParser.parseCargoToml(manifest).name;
+						packages.push({ name: name || this.baseName(member), path: member, source: 'Cargo' });
+					}
+				}
+			}
+		});
+
+		// .NET solutions (.sln / .slnx) at the root
+		await collect('solution', async () => {
+			for (const solution of await this.listFiles(workspaceRoot, '', name => /\.slnx?$/i.test(name))) {
+				const text = await this.readFile(workspaceRoot, solution);
+				const projects = text === undefined ? [] : this.dotnetParser.parseSolution(text);
+				// A solution around a single project isn't a monorepo
+				if (projects.length < 2) {
+					continue;
+				}
+				tools.push(`.NET solution (${solution})`);
+				for (const project of projects) {
+					const dir = this.normalizePath(project.path.split('/').slice(0, -1).join('/'));
+					if (dir) {
+						packages.push({ name: project.name, path: dir, source: '.NET' });
+					}
+				}
+			}
+		});
+
+		if (tools.length === 0) {
+			return { success: errors.length === 0, errors };
+		}
+
+		// The same folder can be declared by several tools (npm workspaces + Nx + Lerna)
+		const unique = new Map<string, WorkspacePackage>();
+		for (const pkg of packages) {
+			if (!unique.has(pkg.path)) {
+				unique.set(pkg.path, pkg);
+			}
+		}
+
+		return {
+			success: errors.length === 0,
+			data: { tools, packages: Array.from(unique.values()) },
+			errors
+		};
+	}
+
+	/**
+	 * Expand package.json-style workspace patterns to folders containing a package.json
+	 */
+	private async findNodePackages(workspaceRoot: vscode.Uri, patterns: string[], source: string): Promise<WorkspacePackage[]> {
+		const packages: WorkspacePackage[] = [];
+		for (const dir of await this.expandPatterns(workspaceRoot, patterns)) {
+			const manifest = await this.readFile(workspaceRoot, `${dir}/package.json`);
+			if (manifest !== undefined) {
+				let name: string | undefined;
+				try {
+					name = JSON.parse(manifest).name;
+				} catch {
+					// Keep the folder name for unreadable manifests
+				}
+				packages.push({ name: name || this.baseName(dir), path: dir, source });
+			}
+		}
+		return packages;
+	}
+
+	/**
+	 * Expand folder globs (`packages/*`, `apps/**`, `tools/cli`) and drop `!negated` matches
+	 */
+	private async expandPatterns(workspaceRoot: vscode.Uri, patterns: string[]): Promise<string[]> {
+		const included: string[] = [];
+		const negated: RegExp[] = [];
+
+		for (const pattern of patterns) {
+			if (pattern.startsWith('!')) {
+				negated.push(this.globToRegExp(this.normalizePath(pattern.slice(1))));
+				continue;
+			}
+			const normalized = this.normalizePath(pattern);
+			if (normalized) {
+				included.push(...await this.expandSegments(workspaceRoot, '', normalized.split('/'), 0));
+			}
+		}
+
+		return Array.from(new Set(included)).filter(dir => !negated.some(regex => regex.test(dir)));
+	}
+
+	/**
+	 * Walk one pattern segment at a time
+	 */
+	private async expandSegments(workspaceRoot: vscode.Uri, base: string, segments: string[], depth: number): Promise<string[]> {
+		if (segments.length === 0) {
+			return base ? [base] : [];
+		}
+
+		const [segment, ...rest] = segments;
+		const join = (name: string) => base ? `${base}/${name}` : name;
+
+		if (segment === '**') {
+			// Zero or more folders
+			const results = await this.expandSegments(workspaceRoot, base, rest, depth);
+			if (depth < MAX_GLOBSTAR_DEPTH) {
+				for (const dir of await this.listDirectories(workspaceRoot, base)) {
+					results.push(...await this.expandSegments(workspaceRoot, join(dir), segments, depth + 1));
+				}
+			}
+			return results;
+		}
+
+		if (segment.includes('*')) {
+			const regex = this.globToRegExp(segment);
+			const results: string[] = [];
+			for (const dir of (await this.listDirectories(workspaceRoot, base)).filter(name => regex.test(name))) {
+				results.push(...await this.expandSegments(workspaceRoot, join(dir), rest, depth));
+			}
+			return results;
+		}
+
+		return this.expandSegments(workspaceRoot, join(segment), rest, depth);
+	}
+
+	/**
+	 * Convert a folder glob to a regular expression (`**` spans folders, `*` doesn't)
+	 */
+	private globToRegExp(glob: string): RegExp {
+		const source = glob
+			.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+			.replace(/\*\*\/?/g, '\u0000')
+			.replace(/\*/g, '[^/]*')
+			.replace(/\u0000/g, '.*');
+		return new RegExp(`^${source}$`);
+	}
+
+	/**
+	 * Strip ./ prefixes and trailing slashes
+	 */
+	private normalizePath(dir: string): string {
+		return dir.trim().replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/\/+$/, '').replace(/^\.$/, '');
+	}
+
+	private baseName(dir: string): string {
+		return dir.split('/').pop() || dir;
+	}
+
+	/**
+	 * List subfolders of a workspace-relative folder, skipping build output and dependencies
+	 */
+	private async listDirectories(workspaceRoot: vscode.Uri, dir: string): Promise<string[]> {
+		try {
+			const entries = await vscode.workspace.fs.readDirectory(dir ? vscode.Uri.joinPath(workspaceRoot, dir) : workspaceRoot);
+			return entries
+				.filter(([name, type]) => type === vscode.FileType.Directory && !name.startsWith('.') && !IGNORED_DIRECTORIES.includes(name))
+				.map(([name]) => name)
+				.sort();
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * List files in a workspace-relative folder that match a filter
+	 */
+	private async listFiles(workspaceRoot: vscode.Uri, dir: string, filter: (name: string) => boolean): Promise<string[]> {
+		try {
+			const entries = await vscode.workspace.fs.readDirectory(dir ? vscode.Uri.joinPath(workspaceRoot, dir) : workspaceRoot);
+			return entries
+				.filter(([name, type]) => type === vscode.FileType.File && filter(name))
+				.map(([name]) => dir ? `${dir}/${name}` : name)
+				.sort();
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * Read a workspace-relative file, or undefined when it doesn't exist
+	 */
+	private async readFile(workspaceRoot: vscode.Uri, relativePath: string): Promise<string | undefined> {
+		try {
+			const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(workspaceRoot, relativePath));
+			return Buffer.from(content).toString('utf8');
+		} catch {
+			return undefined;
+		}
+	}
+}
@@ -1,11 +1,19 @@
-// Rules Scanner - Scan for .cursor/rules/*.mdc files in workspace
+// Rules Scanner - Scan for .cursor/rules/*.mdc files and other assistants' instruction files in workspace
 import * as vscode from 'vscode';
 import { MDCParser } from '../utils/mdcParser';
+import { RuleType } from '../utils/ruleTypes';
+import { ResolvedFileReference, extractFileReferences } from '../utils/fileReferences';
+import { FileReferenceResolver } from '../utils/fileReferenceResolver';
+import { RULE_FILES_GLOB, RuleSource, getRuleSource, parseInstructionFile } from '../utils/ruleSources';
 
 export interface RuleMetadata {
-	description: string;
+	description?: string;
 	globs?: string[];
 	alwaysApply?: boolean;
+	// Derived from the frontmatter combination; never written back to the file
+	ruleType?: RuleType;
+	// Frontmatter keys Cursor doesn't define, preserved when the rule is regenerated
+	extra?: Record<string, unknown>;
 }
 
 export interface Rule {
@@ -13,6 +21,10 @@ export interface Rule {
 	metadata: RuleMetadata;
 	content: string;
 	fileName: string;
+	// @file references in the content, resolved relative to the project
+	references?: ResolvedFileReference[];
+	// Assistant ecosystem the file belongs to (Cursor when unset)
+	source?: RuleSource;
 }
 
 export class RulesScanner {
@@ -22,30 +34,32 @@ export class RulesScanner {
 		const rules: Rule[] = [];
 
 		try {
-			// Find all .mdc files in .cursor/rules directories
-			const pattern = new vscode.RelativePattern(this.workspaceRoot, '**/.cursor/rules/**/*.mdc');
-			const files = await vscode.workspace.findFiles(pattern);
+			// Find .cursor/rules files (.mdc, with .md as a fallback) and other assistants' instruction files
+			const pattern = new vscode.RelativePattern(this.workspaceRoot, RULE_FILES_GLOB);
+			const files = await vscode.workspace.findFiles(pattern, '**/node_modules/**');
 
-			// Also check for .md files (fallback for non-MDC format)
-			const mdPattern = new vscode.RelativePattern(this.workspaceRoot, '**/.cursor/rules/**/*.md');
-			const mdFiles = await vscode.workspace.findFiles(mdPattern);
-
-			// Combine and deduplicate files
-			const allFiles = [...files, ...mdFiles].filter((file, index, self) =>
+			// Deduplicate files
+			const allFiles = files.filter((file, index, self) =>
 				index === self.findIndex(f => f.fsPath === file.fsPath)
 			);
 
 			// Parse each file
 			for (const file of allFiles) {
+				const source = getRuleSource(file.path) || 'cursor';
 				try {
-					const { metadata, content } = await MDCParser.parseMDC(file);
+					const { metadata, content } = source === 'cursor'
+						? await MDCParser.parseMDC(file)
+						: parseInstructionFile(Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8'));
 					const fileName = file.path.split('/').pop() || 'unknown';
+					const references = await FileReferenceResolver.resolve(file, extractFileReferences(content));
 
 					rules.push({
 						uri: file,
 						metadata,
 						content,
-						fileName
+						fileName,
+						references,
+						source
 					});
 				} catch (error) {
 				// Add a placeholder rule for files that can't be parsed
@@ -53,10 +67,12 @@ export class RulesScanner {
 				rules.push({
 					uri: file,
 					metadata: {
-						description: 'Error parsing file'
+						description: 'Error parsing file',
+						ruleType: 'manual'
 					},
 					content: 'Error reading file content',
-					fileName
+					fileName,
+					source
 				});
 				}
 			}
@@ -68,22 +84,9 @@ export class RulesScanner {
 	}
 
 	async watchRules(): Promise<vscode.FileSystemWatcher> {
-		// Create watcher for .mdc files
-		const mdcPattern = new vscode.RelativePattern(this.workspaceRoot, '**/.cursor/rules/**/*.mdc');
-		const mdcWatcher = vscode.workspace.createFileSystemWatcher(mdcPattern);
-
-		// Create watcher for .md files
-		const mdPattern = new vscode.RelativePattern(this.workspaceRoot, '**/.cursor/rules/**/*.md');
-		const mdWatcher = vscode.workspace.createFileSystemWatcher(mdPattern);
-
-		// Return a combined watcher (we'll handle both in the extension)
-		return {
-			...mdcWatcher,
-			dispose: () => {
-				mdcWatcher.dispose();
-				mdWatcher.dispose();
-			}
-		} as vscode.FileSystemWatcher;
+		// Create watcher for rule and instruction files
+		const pattern = new vscode.RelativePattern(this.workspaceRoot, RULE_FILES_GLOB);
+		return vscode.workspace.createFileSystemWatcher(pattern);
 	}
 
 	async createRuleFile(directory: string, fileName: string, metadata: RuleMetadata, content: string): Promise<vscode.Uri> {
@@ -4,12 +4,33 @@ import { DotNetParser } from './parsers/dotnetParser';
 import { PythonParser } from './parsers/pythonParser';
 import { CIParser } from './parsers/ciParser';
 import { NodeParser } from './parsers/nodeParser';
+import { GoParser } from './parsers/goParser';
+import { RustParser } from './parsers/rustParser';
+import { JvmParser } from './parsers/jvmParser';
+import { RubyParser } from './parsers/rubyParser';
+import { PhpParser } from './parsers/phpParser';
+import { WorkspaceParser } from './parsers/workspaceParser';
+import { ContainerParser } from './parsers/containerParser';
+import { KubernetesParser } from './parsers/kubernetesParser';
 import {
 	InfrastructureInfo,
 	SecurityInfo,
 	APIInfo,
 	DeploymentInfo,
 	ProjectMetrics,
+	WorkspacePackage,
+	CIWorkflowInfo,
+	ContainerInfo,
+	ParserResult,
+	DotNetProjectInfo,
+	DotNetSolutionInfo,
+	PythonProjectInfo,
+	NodeProjectInfo,
+	GoProjectInfo,
+	RustProjectInfo,
+	JvmProjectInfo,
+	RubyProjectInfo,
+	PhpProjectInfo,
 	DatabasePatterns,
 	ORMPatterns,
 	QueuePatterns,
@@ -38,6 +59,42 @@ import {
 	AgentGuidance
 } from './enhanced/types';
 
+/**
+ * Upper bound on workspace packages scanned individually
+ */
+const MAX_WORKSPACE_PACKAGES = 50;
+
+/**
+ * Language manifests of the scanned folder, parsed once per scan
+ */
+interface ParsedManifests {
+	dotnet: ParserResult<DotNetProjectInfo[]>;
+	solution: ParserResult<DotNetSolutionInfo>;
+	python: ParserResult<PythonProjectInfo>;
+	node: NodeProjectInfo | null;
+	go: ParserResult<GoProjectInfo>;
+	rust: ParserResult<RustProjectInfo>;
+	jvm: ParserResult<JvmProjectInfo>;
+	ruby: ParserResult<RubyProjectInfo>;
+	php: ParserResult<PhpProjectInfo>;
+}
+
+/**
+ * Workspace package with its own scanned state
+ */
+export interface WorkspacePackageState extends WorkspacePackage {
+	state: ProjectState;
+}
+
+/**
+ * Monorepo tools and per-package states
+ */
+export interface WorkspaceState {
+	tools: string[];
+	packages: WorkspacePackageState[];
+	truncated?: boolean;  // More packages than MAX_WORKSPACE_PACKAGES
+}
+
 export interface ProjectState {
 	// Technology Stack
 	languages: string[];
@@ -61,6 +118,8 @@ export interface ProjectState {
 	api?: APIInfo;
 	deployment?: DeploymentInfo;
 	projectMetrics?: ProjectMetrics;
+	ciPipelines?: CIWorkflowInfo[];
+	containers?: ContainerInfo;
 
 	// Enhanced State Detection (v0.4.0+)
 	identity?: ProjectIdentity;
@@ -69,6 +128,9 @@ export interface ProjectState {
 	enhancedDependencies?: EnhancedDependencies;
 	platformContext?: PlatformContext;
 	agentGuidance?: AgentGuidance;
+
+	// Monorepo packages; root sections aggregate their stacks
+	workspace?: WorkspaceState;
 }
 
 export class StateScanner {
@@ -76,54 +138,58 @@ export class StateScanner {
 	private pythonParser: PythonParser;
 	private ciParser: CIParser;
 	private nodeParser: NodeParser;
+	private goParser: GoParser;
+	private rustParser: RustParser;
+	private jvmParser: JvmParser;
+	private rubyParser: RubyParser;
+	private phpParser: PhpParser;
+	private workspaceParser: WorkspaceParser;
+	private containerParser: ContainerParser;
+	private kubernetesParser: KubernetesParser;
 
 	constructor(private workspaceRoot: vscode.Uri) {
 		this.dotnetParser = new DotNetParser();
 		this.pythonParser = new PythonParser();
 		this.ciParser = new CIParser();
 		this.nodeParser = new NodeParser();
+		this.goParser = new GoParser();
+		this.rustParser = new RustParser();
+		this.jvmParser = new JvmParser();
+		this.rubyParser = new RubyParser();
+		this.phpParser = new PhpParser();
+		this.workspaceParser = new WorkspaceParser();
+		this.containerParser = new ContainerParser();
+		this.kubernetesParser = new KubernetesParser();
 	}
 
 	async scanState(): Promise<ProjectState> {
-		const state: ProjectState = {
-			// Technology Stack
-			languages: [],
-			frameworks: [],
-			dependencies: [],
-
-			// Development Environment
-			buildTools: [],
-			testing: [],
-			codeQuality: [],
-			developmentTools: [],
-
-			// Project Structure
-			architecture: [],
-			configuration: [],
-			documentation: []
-		};
+		const state = this.createEmptyState();
 
 		try {
+			const manifests = await this.parseManifests();
+			const ciWorkflows = (await this.ciParser.parseConfigurations(this.workspaceRoot)).data || [];
+			const containers = (await this.containerParser.parseContainers(this.workspaceRoot)).data;
+
 			// Technology Stack - Enhanced with parsers
-			state.languages = await this.detectLanguages();
-			state.frameworks = await this.detectFrameworks();
+			state.languages = await this.detectLanguages(manifests);
+			state.frameworks = await this.detectFrameworks(manifests);
 			// Note: Legacy dependencies field deprecated in favor of enhancedDependencies
 			// state.dependencies is now populated from enhancedDependencies in detectEnhancedState()
 
 			// Development Environment - Enhanced with parsers
-			state.buildTools = await this.detectBuildTools();
-			state.testing = await this.detectTesting();
-			state.codeQuality = await this.detectCodeQuality();
-			state.developmentTools = await this.detectDevelopmentTools();
+			state.buildTools = await this.detectBuildTools(manifests);
+			state.testing = await this.detectTesting(manifests);
+			state.codeQuality = await this.detectCodeQuality(manifests);
+			state.developmentTools = await this.detectDevelopmentTools(containers);
 
 			// Project Structure
-			state.architecture = await this.detectArchitecture();
+			state.architecture = await this.detectArchitecture(manifests);
 			state.configuration = await this.detectConfiguration();
 			state.documentation = await this.detectDocumentation();
 
 			// Enhanced Detection (v0.3.3+)
 			// Only include sections with actual content
-			const infrastructure = await this.detectDatabases();
+			const infrastructure = await this.detectDatabases(manifests, containers);
 			if (this.hasInfrastructureContent(infrastructure)) {
 				state.infrastructure = infrastructure;
 			}
@@ -138,12 +204,27 @@ export class StateScanner {
 				state.api = api;
 			}
 
-			const deployment = await this.detectDeployment();
+			const deployment = await this.detectDeployment(ciWorkflows.flatMap(workflow => workflow.environments || []), containers);
 			if (this.hasDeploymentContent(deployment)) {
 				state.deployment = deployment;
 			}
 
-			state.projectMetrics = await this.detectProjectMetrics();
+			if (ciWorkflows.length > 0) {
+				state.ciPipelines = ciWorkflows;
+			}
+
+			if (containers) {
+				state.containers = containers;
+			}
+
+			state.projectMetrics = await this.detectProjectMetrics(state.languages);
+
+			// Monorepo packages, aggregated into the root state
+			const workspace = await this.detectWorkspace();
+			if (workspace) {
+				state.workspace = workspace;
+				this.aggregateWorkspaceState(state, workspace);
+			}
 
 			// Enhanced State Detection (v0.4.0+)
 			await this.detectEnhancedState(state);
@@ -154,6 +235,117 @@ export class StateScanner {
 		}
 	}
 
+	/**
+	 * Scan a monorepo package for the sections aggregated into the root state
+	 * CI, containers, metrics and the enhanced analysis describe the repository, so they're left to scanState.
+	 */
+	async scanPackageState(): Promise<ProjectState> {
+		const state = this.createEmptyState();
+
+		try {
+			const manifests = await this.parseManifests();
+			const containers = (await this.containerParser.parseContainers(this.workspaceRoot)).data;
+			state.languages = await this.detectLanguages(manifests);
+			state.frameworks = await this.detectFrameworks(manifests);
+			state.buildTools = await this.detectBuildTools(manifests);
+			state.testing = await this.detectTesting(manifests);
+			state.codeQuality = await this.detectCodeQuality(manifests);
+
+			const infrastructure = await this.detectDatabases(manifests, containers);
+			if (this.hasInfrastructureContent(infrastructure)) {
+				state.infrastructure = infrastructure;
+			}
+		} catch (error) {
+			// Keep whatever was detected before the failure
+		}
+
+		return state;
+	}
+
+	/**
+	 * Parse the language manifests once; every detector reads from the result
+	 */
+	private async parseManifests(): Promise<ParsedManifests> {
+		return {
+			dotnet: await this.dotnetParser.parseProjects(this.workspaceRoot),
+			solution: await this.dotnetParser.parseSolutionInfo(this.workspaceRoot),
+			python: await this.pythonParser.parseProjects(this.workspaceRoot),
+			node: await this.nodeParser.parseProject(this.workspaceRoot),
+			go: await this.goParser.parseProject(this.workspaceRoot),
+			rust: await this.rustParser.parseProject(this.workspaceRoot),
+			jvm: await this.jvmParser.parseProject(this.workspaceRoot),
+			ruby: await this.rubyParser.parseProject(this.workspaceRoot),
+			php: await this.phpParser.parseProject(this.workspaceRoot)
+		};
+	}
+
+	private createEmptyState(): ProjectState {
+		return {
+			// Technology Stack
+			languages: [],
+			frameworks: [],
+			dependencies: [],
+
+			// Development Environment
+			buildTools: [],
+			testing: [],
+			codeQuality: [],
+			developmentTools: [],
+
+			// Project Structure
+			architecture: [],
+			configuration: [],
+			documentation: []
+		};
+	}
+
+	/**
+	 * Detect monorepo tools and scan each declared package on its own
+	 */
+	private async detectWorkspace(): Promise<WorkspaceState | undefined> {
+		const result = await this.workspaceParser.parseWorkspace(this.workspaceRoot);
+		if (!result.data || result.data.packages.length === 0) {
+			return undefined;
+		}
+
+		const packages: WorkspacePackageState[] = [];
+		for (const pkg of result.data.packages.slice(0, MAX_WORKSPACE_PACKAGES)) {
+			const scanner = new StateScanner(vscode.Uri.joinPath(this.workspaceRoot, pkg.path));
+			packages.push({ ...pkg, state: await scanner.scanPackageState() });
+		}
+
+		return {
+			tools: result.data.tools,
+			packages,
+			truncated: result.data.packages.length > MAX_WORKSPACE_PACKAGES || undefined
+		};
+	}
+
+	/**
+	 * Fold package stacks into the root state so the monorepo isn't described by its root folder alone
+	 */
+	private aggregateWorkspaceState(state: ProjectState, workspace: WorkspaceState): void {
+		const merge = (root: string[], pick: (pkg: ProjectState) => string[]) =>
+			[...new Set([...root, ...workspace.packages.flatMap(pkg => pick(pkg.state))])];
+
+		state.languages = merge(state.languages, pkg => pkg.languages);
+		state.frameworks = merge(state.frameworks, pkg => pkg.frameworks);
+		state.buildTools = merge(state.buildTools, pkg => pkg.buildTools);
+		state.testing = merge(state.testing, pkg => pkg.testing);
+		state.codeQuality = merge(state.codeQuality, pkg => pkg.codeQuality);
+
+		const infrastructure: InfrastructureInfo = state.infrastructure || { databases: [], cache: [], queues: [], storage: [], messaging: [] };
+		for (const key of ['databases', 'cache', 'queues', 'storage', 'messaging'] as const) {
+			infrastructure[key] = merge(infrastructure[key], pkg => pkg.infrastructure?.[key] || []);
+		}
+		if (this.hasInfrastructureContent(infrastructure)) {
+			state.infrastructure = infrastructure;
+		}
+
+		const count = `${workspace.packages.length}${workspace.truncated ? '+' : ''} packages`;
+		state.architecture.push(`Monorepo: ${workspace.tools.join(', ')} (${count})`);
+	}
+
 	/**
 	 * Check if infrastructure info has any content
 	 */
@@ -258,18 +450,18 @@ export class StateScanner {
 		// Extract all dependencies from byPurpose
 		for (const category of Object.values(enhanced.byPurpose)) {
 			for (const dep of category) {
-				legacyDeps.push(`${dep.name} (${dep.version})`);
+				legacyDeps.push(`${dep.name} (${dep.resolvedVersion || dep.version})`);
 			}
 		}
 
 		return legacyDeps;
 	}
 
-	private async detectLanguages(): Promise<string[]> {
+	private async detectLanguages(manifests: ParsedManifests): Promise<string[]> {
 		const languages: string[] = [];
 
 		// Check for .NET projects with version detection
-		const dotnetResult = await this.dotnetParser.parseProjects(this.workspaceRoot);
+		const dotnetResult = manifests.dotnet;
 		if (dotnetResult.success && dotnetResult.data && dotnetResult.data.length > 0) {
 			const frameworkVersions = this.dotnetParser.getFrameworkVersions(dotnetResult.data);
 			if (frameworkVersions.length > 0) {
@@ -281,7 +473,7 @@ export class StateScanner {
 
 		// Check for Python projects with version detection
 		if (await this.fileExists('requirements.txt') || await this.fileExists('pyproject.toml')) {
-			const pythonResult = await this.pythonParser.parseProjects(this.workspaceRoot);
+			const pythonResult = manifests.python;
 			if (pythonResult.success && pythonResult.data) {
 				const pythonVersion = pythonResult.data.requiresPython || '';
 				if (pythonVersion) {
@@ -296,7 +488,7 @@ export class StateScanner {
 
 		// Check for Node.js projects with version detection
 		if (await this.fileExists('package.json')) {
-			const nodeResult = await this.nodeParser.parseProject(this.workspaceRoot);
+			const nodeResult = manifests.node;
 			if (nodeResult && nodeResult.engines && nodeResult.engines.node) {
 				languages.push(`JavaScript/TypeScript (${nodeResult.engines.node})`);
 			} else {
@@ -304,21 +496,52 @@ export class StateScanner {
 			}
 		}
 
-		// Check for other language indicators
-		if (await this.fileExists('Cargo.toml')) {languages.push('Rust');}
-		if (await this.fileExists('go.mod')) {languages.push('Go');}
-		if (await this.fileExists('composer.json')) {languages.push('PHP');}
-		if (await this.fileExists('Gemfile')) {languages.push('Ruby');}
-		if (await this.fileExists('pom.xml') || await this.fileExists('build.gradle')) {languages.push('Java');}
+		// Check for Go modules with version detection
+		const goResult = manifests.go;
+		if (goResult.data) {
+			languages.push(goResult.data.goVersion ? `Go ${goResult.data.goVersion}` : 'Go');
+		}
+
+		// Check for Rust crates with toolchain / edition detection
+		const rustResult = manifests.rust;
+		if (rustResult.data) {
+			const rustVersion = rustResult.data.toolchainChannel || rustResult.data.rustVersion;
+			const rust = rustVersion ? `Rust ${rustVersion}` : 'Rust';
+			languages.push(rustResult.data.edition ? `${rust} (edition ${rustResult.data.edition})` : rust);
+		} else if (await this.fileExists('Cargo.toml')) {
+			languages.push('Rust');
+		}
+
+		// Check for Composer projects with the PHP constraint
+		const phpResult = manifests.php;
+		if (phpResult.data) {
+			languages.push(phpResult.data.phpVersion ? `PHP ${phpResult.data.phpVersion}` : 'PHP');
+		}
+
+		// Check for Bundler projects with .ruby-version / Gemfile.lock versions
+		const rubyResult = manifests.ruby;
+		if (rubyResult.data) {
+			languages.push(rubyResult.data.rubyVersion ? `Ruby ${rubyResult.data.rubyVersion}` : 'Ruby');
+		}
+
+		// Check for Maven / Gradle projects with Java and Kotlin versions
+		const jvmResult = manifests.jvm;
+		if (jvmResult.data) {
+			const { javaVersion, kotlinVersion, usesKotlin } = jvmResult.data;
+			languages.push(javaVersion ? `Java ${javaVersion}` : 'Java');
+			if (usesKotlin) {
+				languages.push(kotlinVersion ? `Kotlin ${kotlinVersion}` : 'Kotlin');
+			}
+		}
 
 		return languages;
 	}
 
-	private async detectFrameworks(): Promise<string[]> {
+	private async detectFrameworks(manifests: ParsedManifests): Promise<string[]> {
 		const frameworks: string[] = [];
 
 		// Check for .NET frameworks with enhanced detection
-		const dotnetResult = await this.dotnetParser.parseProjects(this.workspaceRoot);
+		const dotnetResult = manifests.dotnet;
 		if (dotnetResult.success && dotnetResult.data && dotnetResult.data.length > 0) {
 			for (const project of dotnetResult.data) {
 				if (project.isWebProject) {
@@ -335,7 +558,7 @@ export class StateScanner {
 
 		// Check for Node.js frameworks with enhanced detection
 		if (await this.fileExists('package.json')) {
-			const nodeResult = await this.nodeParser.parseProject(this.workspaceRoot);
+			const nodeResult = manifests.node;
 			if (nodeResult) {
 				frameworks.push('Node.js');
 				if (nodeResult.frameworks.length > 0) {
@@ -365,13 +588,43 @@ export class StateScanner {
 			}
 		}
 
-		// Check for other frameworks
-		if (await this.fileExists('Cargo.toml')) {frameworks.push('Rust');}
-		if (await this.fileExists('go.mod')) {frameworks.push('Go');}
-		if (await this.fileExists('composer.json')) {frameworks.push('PHP');}
-		if (await this.fileExists('Gemfile')) {frameworks.push('Ruby');}
-		if (await this.fileExists('pom.xml')) {frameworks.push('Java');}
-		if (await this.fileExists('build.gradle')) {frameworks.push('Java/Gradle');}
+		// Check for Go frameworks from go.mod requirements
+		const goResult = manifests.go;
+		if (goResult.data) {
+			frameworks.push('Go');
+			frameworks.push(...goResult.data.frameworks);
+			frameworks.push(...goResult.data.cloudSDKs);
+		}
+
+		// Check for Rust frameworks from Cargo dependencies
+		if (await this.fileExists('Cargo.toml')) {
+			frameworks.push('Rust');
+			const rustResult = manifests.rust;
+			if (rustResult.data) {
+				frameworks.push(...rustResult.data.frameworks);
+			}
+		}
+
+		// Check for PHP frameworks from Composer packages
+		const phpResult = manifests.php;
+		if (phpResult.data) {
+			frameworks.push('PHP');
+			frameworks.push(...phpResult.data.frameworks);
+		}
+
+		// Check for Ruby frameworks from Gemfile gems
+		const rubyResult = manifests.ruby;
+		if (rubyResult.data) {
+			frameworks.push('Ruby');
+			frameworks.push(...rubyResult.data.frameworks);
+		}
+
+		// Check for JVM frameworks from Maven / Gradle dependencies
+		const jvmResult = manifests.jvm;
+		if (jvmResult.data) {
+			frameworks.push(jvmResult.data.buildTool === 'maven' ? 'Java' : 'Java/Gradle');
+			frameworks.push(...jvmResult.data.frameworks);
+		}
 
 		return [...new Set(frameworks)]; // Remove duplicates
 	}
@@ -401,7 +654,7 @@ export class StateScanner {
 		return configFiles;
 	}
 
-	private async detectArchitecture(): Promise<string[]> {
+	private async detectArchitecture(manifests: ParsedManifests): Promise<string[]> {
 		const architecture: string[] = [];
 
 		// Detect primary project structure
@@ -443,6 +696,13 @@ export class StateScanner {
 		if (await this.fileExists('nuxt.config.js')) {architecture.push('Nuxt.js framework (Vue SSR/SSG)');}
 		if (await this.fileExists('angular.json')) {architecture.push('Angular framework (component-based)');}
 
+		// .NET solution project graph
+		for (const project of manifests.solution.data?.projects || []) {
+			if (project.references && project.references.length > 0) {
+				architecture.push(`${project.name} → ${project.references.join(', ')}`);
+			}
+		}
+
 		return architecture;
 	}
 
@@ -484,12 +744,17 @@ export class StateScanner {
 		return keyFiles;
 	}
 
-	private async detectBuildTools(): Promise<string[]> {
+	private async detectBuildTools(manifests: ParsedManifests): Promise<string[]> {
 		const buildTools: string[] = [];
 
-		// Get .NET SDK from parsed projects
-		const dotnetResult = await this.dotnetParser.parseProjects(this.workspaceRoot);
-		if (dotnetResult.success && dotnetResult.data && dotnetResult.data.length > 0) {
+		// Get .NET SDK from global.json, falling back to the parsed projects' target frameworks
+		const dotnetResult = manifests.dotnet;
+		const solution = manifests.solution.data;
+		if (solution?.sdkVersion) {
+			buildTools.push(solution.sdkRollForward
+				? `.NET SDK ${solution.sdkVersion} (global.json, rollForward ${solution.sdkRollForward})`
+				: `.NET SDK ${solution.sdkVersion} (global.json)`);
+		} else if (dotnetResult.success && dotnetResult.data && dotnetResult.data.length > 0) {
 			const frameworkVersions = this.dotnetParser.getFrameworkVersions(dotnetResult.data);
 			if (frameworkVersions.length > 0) {
 				buildTools.push(`.NET SDK ${frameworkVersions[0]}`);
@@ -497,21 +762,54 @@ export class StateScanner {
 				buildTools.push('.NET SDK');
 			}
 		}
+		if (solution?.solutionFile) {
+			buildTools.push(`${solution.solutionFile} (${solution.projects.length} projects)`);
+		}
+		if (solution && solution.centralPackages.length > 0) {
+			buildTools.push(`Central Package Management (${solution.centralPackages.length} packages)`);
+		}
+
+		// Go modules / workspaces
+		const goResult = manifests.go;
+		if (goResult.data) {
+			const goTool = goResult.data.workspaceMembers.length > 0
+				? `Go Workspace (${goResult.data.workspaceMembers.length} modules)`
+				: 'Go Modules';
+			buildTools.push(goResult.data.toolchain ? `${goTool}, toolchain ${goResult.data.toolchain}` : goTool);
+		}
+
+		// Cargo packages / workspaces
+		const rustResult = manifests.rust;
+		if (rustResult.data) {
+			const cargo = rustResult.data.workspaceMembers.length > 0
+				? `Cargo Workspace (${rustResult.data.workspaceMembers.length} crates)`
+				: 'Cargo';
+			buildTools.push(rustResult.data.toolchainChannel ? `${cargo}, toolchain ${rustResult.data.toolchainChannel}` : cargo);
+		}
+
+		// Maven / Gradle builds
+		const jvmResult = manifests.jvm;
+		if (jvmResult.data) {
+			const jvmTool = jvmResult.data.buildTool === 'maven' ? 'Maven' : 'Gradle';
+			buildTools.push(jvmResult.data.modules.length > 0 ? `${jvmTool} (${jvmResult.data.modules.length} modules)` : jvmTool);
+		}
+
+		// Bundler / Composer
+		const rubyResult = manifests.ruby;
+		if (rubyResult.data) {
+			buildTools.push(rubyResult.data.bundlerVersion ? `Bundler ${rubyResult.data.bundlerVersion}` : 'Bundler');
+		}
+		const phpResult = manifests.php;
+		if (phpResult.data) {
+			buildTools.push('Composer');
+		}
 
 		// Get Python build system from parsed projects
-		const pythonResult = await this.pythonParser.parseProjects(this.workspaceRoot);
+		const pythonResult = manifests.python;
 		if (pythonResult.success && pythonResult.data && pythonResult.data.buildSystem) {
 			buildTools.push(`Python Build: ${pythonResult.data.buildSystem}`);
 		}
 
-		// Detect CI/CD configurations
-		const ciResult = await this.ciParser.parseConfigurations(this.workspaceRoot);
-		if (ciResult.success && ciResult.data && ciResult.data.length > 0) {
-			for (const workflow of ciResult.data) {
-				buildTools.push(`${workflow.type} (${workflow.name})`);
-			}
-		}
-
 		// Build tools (existing logic)
 		if (await this.fileExists('webpack.config.js')) {buildTools.push('Webpack');}
 		if (await this.fileExists('vite.config.js')) {buildTools.push('Vite');}
@@ -524,19 +822,19 @@ export class StateScanner {
 		return buildTools;
 	}
 
-	private async detectTesting(): Promise<string[]> {
+	private async detectTesting(manifests: ParsedManifests): Promise<string[]> {
 		const testing: string[] = [];
 
 		// Get testing frameworks from Node.js parser
 		if (await this.fileExists('package.json')) {
-			const nodeResult = await this.nodeParser.parseProject(this.workspaceRoot);
+			const nodeResult = manifests.node;
 			if (nodeResult && nodeResult.testingFrameworks.length > 0) {
 				testing.push(...nodeResult.testingFrameworks);
 			}
 		}
 
 		// .NET test projects
-		const dotnetResult = await this.dotnetParser.parseProjects(this.workspaceRoot);
+		const dotnetResult = manifests.dotnet;
 		if (dotnetResult.success && dotnetResult.data && dotnetResult.data.length > 0) {
 			for (const project of dotnetResult.data) {
 				if (project.isTestProject) {
@@ -545,6 +843,34 @@ export class StateScanner {
 			}
 		}
 
+		// Go testing libraries
+		const goResult = manifests.go;
+		if (goResult.data && goResult.data.testingFrameworks.length > 0) {
+			testing.push(...goResult.data.testingFrameworks);
+		}
+
+		// Rust testing crates
+		const rustResult = manifests.rust;
+		if (rustResult.data && rustResult.data.testingFrameworks.length > 0) {
+			testing.push(...rustResult.data.testingFrameworks);
+		}
+
+		// JVM test libraries
+		const jvmResult = manifests.jvm;
+		if (jvmResult.data && jvmResult.data.testingFrameworks.length > 0) {
+			testing.push(...jvmResult.data.testingFrameworks);
+		}
+
+		// Ruby and PHP test libraries
+		const rubyResult = manifests.ruby;
+		if (rubyResult.data && rubyResult.data.testingFrameworks.length > 0) {
+			testing.push(...rubyResult.data.testingFrameworks);
+		}
+		const phpResult = manifests.php;
+		if (phpResult.data && phpResult.data.testingFrameworks.length > 0) {
+			testing.push(...phpResult.data.testingFrameworks);
+		}
+
 		// Testing frameworks (existing logic)
 		if (await this.fileExists('jest.config.js')) {testing.push('Jest');}
 		if (await this.fileExists('vitest.config.js')) {testing.push('Vitest');}
@@ -558,7 +884,7 @@ export class StateScanner {
 		return [...new Set(testing)]; // Remove duplicates
 	}
 
-	private async detectCodeQuality(): Promise<string[]> {
+	private async detectCodeQuality(manifests: ParsedManifests): Promise<string[]> {
 		const codeQuality: string[] = [];
 
 		// Code quality tools
@@ -580,7 +906,17 @@ export class StateScanner {
 		if (await this.fileExists('tsconfig.json')) {codeQuality.push('TypeScript');}
 		if (await this.fileExists('.editorconfig')) {codeQuality.push('EditorConfig');}
 
-		return codeQuality;
+		// Linters and static analysis from Gemfile / composer.json
+		const rubyResult = manifests.ruby;
+		if (rubyResult.data) {
+			codeQuality.push(...rubyResult.data.codeQuality);
+		}
+		const phpResult = manifests.php;
+		if (phpResult.data) {
+			codeQuality.push(...phpResult.data.codeQuality);
+		}
+
+		return [...new Set(codeQuality)];
 	}
 
 	private async detectConfiguration(): Promise<string[]> {
@@ -605,7 +941,7 @@ export class StateScanner {
 		return configuration;
 	}
 
-	private async detectDevelopmentTools(): Promise<string[]> {
+	private async detectDevelopmentTools(containers: ContainerInfo | undefined): Promise<string[]> {
 		const tools: string[] = [];
 
 		// Package managers
@@ -619,8 +955,8 @@ export class StateScanner {
 		if (await this.fileExists('.gitignore')) {tools.push('Git ignore configured');}
 
 		// Docker
-		if (await this.fileExists('Dockerfile')) {tools.push('Docker');}
-		if (await this.fileExists('docker-compose.yml')) {tools.push('Docker Compose');}
+		if (containers?.dockerfiles.length) {tools.push('Docker');}
+		if (containers?.composeFiles.length) {tools.push('Docker Compose');}
 
 		return tools;
 	}
@@ -665,11 +1001,11 @@ export class StateScanner {
 		return JSON.parse(content);
 	}
 
-	private async detectDependencies(): Promise<string[]> {
+	private async detectDependencies(manifests: ParsedManifests): Promise<string[]> {
 		const dependencies: string[] = [];
 
 		// Get .NET dependencies with enhanced parsing
-		const dotnetResult = await this.dotnetParser.parseProjects(this.workspaceRoot);
+		const dotnetResult = manifests.dotnet;
 		if (dotnetResult.success && dotnetResult.data && dotnetResult.data.length > 0) {
 			const dotnetDeps = this.dotnetParser.getImportantDependencies(dotnetResult.data);
 			dependencies.push(...dotnetDeps);
@@ -677,13 +1013,41 @@ export class StateScanner {
 
 		// Get Python dependencies with enhanced parsing
 		if (await this.fileExists('requirements.txt') || await this.fileExists('pyproject.toml')) {
-			const pythonResult = await this.pythonParser.parseProjects(this.workspaceRoot);
+			const pythonResult = manifests.python;
 			if (pythonResult.success && pythonResult.data) {
 				const pythonDeps = this.pythonParser.getImportantDependencies(pythonResult.data);
 				dependencies.push(...pythonDeps);
 			}
 		}
 
+		// Get Go direct requirements
+		const goResult = manifests.go;
+		if (goResult.data) {
+			dependencies.push(...this.goParser.getImportantDependencies(goResult.data));
+		}
+
+		// Get Rust dependencies
+		const rustResult = manifests.rust;
+		if (rustResult.data) {
+			dependencies.push(...this.rustParser.getImportantDependencies(rustResult.data));
+		}
+
+		// Get Maven / Gradle dependencies
+		const jvmResult = manifests.jvm;
+		if (jvmResult.data) {
+			dependencies.push(...this.jvmParser.getImportantDependencies(jvmResult.data));
+		}
+
+		// Get Ruby gems and Composer packages
+		const rubyResult = manifests.ruby;
+		if (rubyResult.data) {
+			dependencies.push(...this.rubyParser.getImportantDependencies(rubyResult.data));
+		}
+		const phpResult = manifests.php;
+		if (phpResult.data) {
+			dependencies.push(...this.phpParser.getImportantDependencies(phpResult.data));
+		}
+
 		// Analyze package.json dependencies (existing logic as fallback)
 		if (await this.fileExists('package.json')) {
 			try {
@@ -740,21 +1104,12 @@ export class StateScanner {
 		return dependencies;
 	}
 
-	private async detectInfrastructure(): Promise<string[]> {
+	private async detectInfrastructure(containers: ContainerInfo | undefined): Promise<string[]> {
 		const infrastructure: string[] = [];
 
-		// Database indicators
-		if (await this.fileExists('docker-compose.yml')) {
-			try {
-				const content = await this.readFile('docker-compose.yml');
-				if (content.includes('postgres') || content.includes('postgresql')) {infrastructure.push('PostgreSQL');}
-				if (content.includes('mysql')) {infrastructure.push('MySQL');}
-				if (content.includes('redis')) {infrastructure.push('Redis');}
-				if (content.includes('mongodb')) {infrastructure.push('MongoDB');}
-				if (content.includes('elasticsearch')) {infrastructure.push('Elasticsearch');}
-			} catch (error) {
-			}
-		}
+		// Services in compose files
+		const services = this.containerParser.mapInfrastructure(containers?.composeFiles.flatMap(compose => compose.services) || []);
+		infrastructure.push(...services.databases, ...services.cache, ...services.queues, ...services.storage, ...services.messaging);
 
 		// Environment files
 		if (await this.fileExists('.env') || await this.fileExists('.env.local')) {
@@ -775,8 +1130,8 @@ export class StateScanner {
 		}
 
 		// Docker
-		if (await this.fileExists('Dockerfile')) {infrastructure.push('Docker');}
-		if (await this.fileExists('docker-compose.yml')) {infrastructure.push('Docker Compose');}
+		if (containers?.dockerfiles.length) {infrastructure.push('Docker');}
+		if (containers?.composeFiles.length) {infrastructure.push('Docker Compose');}
 		if (await this.fileExists('k8s') || await this.directoryExists('k8s')) {infrastructure.push('Kubernetes');}
 
 		return infrastructure;
@@ -819,7 +1174,7 @@ export class StateScanner {
 	 * Detect database technologies and ORMs
 	 * Phase 1 (v0.3.3): Database Detection
 	 */
-	private async detectDatabases(): Promise<InfrastructureInfo> {
+	private async detectDatabases(manifests: ParsedManifests, containers: ContainerInfo | undefined): Promise<InfrastructureInfo> {
 		const databases: string[] = [];
 		const cache: string[] = [];
 		const queues: string[] = [];
@@ -957,37 +1312,62 @@ export class StateScanner {
 			}
 		}
 
-		// Check docker-compose.yml for database services
-		if (await this.fileExists('docker-compose.yml') || await this.fileExists('docker-compose.yaml')) {
-			try {
-				const content = await this.readFile(await this.fileExists('docker-compose.yml') ? 'docker-compose.yml' : 'docker-compose.yaml');
+		// Check Go modules for database drivers, caches and message brokers
+		const goResult = manifests.go;
+		if (goResult.data) {
+			databases.push(...goResult.data.infrastructure.databases);
+			cache.push(...goResult.data.infrastructure.cache);
+			queues.push(...goResult.data.infrastructure.queues);
+			messaging.push(...goResult.data.infrastructure.messaging);
+		}
 
-				if (content.includes('postgres:') || content.includes('postgresql:')) {
-					databases.push('PostgreSQL (Docker)');
-				}
-				if (content.includes('mysql:') || content.includes('mariadb:')) {
-					databases.push('MySQL/MariaDB (Docker)');
-				}
-				if (content.includes('mongo:') || content.includes('mongodb:')) {
-					databases.push('MongoDB (Docker)');
-				}
-				if (content.includes('redis:')) {
-					cache.push('Redis (Docker)');
-				}
-				if (content.includes('rabbitmq:')) {
-					queues.push('RabbitMQ (Docker)');
-				}
-				if (content.includes('kafka:')) {
-					messaging.push('Apache Kafka (Docker)');
-				}
-				if (content.includes('elasticsearch:')) {
-					databases.push('Elasticsearch (Docker)');
-				}
-			} catch (error) {
-				// Continue with other detection methods
+		// Check Rust crates (and sqlx / diesel / sea-orm features) for databases
+		const rustResult = manifests.rust;
+		if (rustResult.data) {
+			databases.push(...rustResult.data.infrastructure.databases);
+			cache.push(...rustResult.data.infrastructure.cache);
+			queues.push(...rustResult.data.infrastructure.queues);
+			messaging.push(...rustResult.data.infrastructure.messaging);
+		}
+
+		// Check Maven / Gradle dependencies against the shared pattern tables
+		const jvmResult = manifests.jvm;
+		if (jvmResult.data) {
+			const jvm = jvmResult.data;
+			const has = (patterns: string[]) => this.jvmParser.hasDependency(jvm, patterns);
+
+			if (has(DatabasePatterns.postgres)) {databases.push('PostgreSQL');}
+			if (has(DatabasePatterns.mysql)) {databases.push('MySQL/MariaDB');}
+			if (has(DatabasePatterns.mongodb)) {databases.push('MongoDB');}
+			if (has(DatabasePatterns.oracle)) {databases.push('Oracle');}
+			if (has(DatabasePatterns.cassandra)) {databases.push('Cassandra');}
+			if (has(DatabasePatterns.elasticsearch)) {databases.push('Elasticsearch');}
+			if (has(DatabasePatterns.redis)) {cache.push('Redis');}
+			if (has(ORMPatterns.hibernate)) {databases.push('Hibernate (ORM)');}
+			if (has(QueuePatterns.rabbitmq)) {queues.push('RabbitMQ');}
+			if (has(QueuePatterns.kafka)) {messaging.push('Apache Kafka');}
+		}
+
+		// Check Ruby gems and Composer packages (including ext-* requirements)
+		const rubyResult = manifests.ruby;
+		const phpResult = manifests.php;
+		for (const infrastructure of [rubyResult.data?.infrastructure, phpResult.data?.infrastructure]) {
+			if (infrastructure) {
+				databases.push(...infrastructure.databases);
+				cache.push(...infrastructure.cache);
+				queues.push(...infrastructure.queues);
+				messaging.push(...infrastructure.messaging);
 			}
 		}
 
+		// Services in docker-compose.yml / compose.yaml and their overrides
+		const composeServices = this.containerParser.mapInfrastructure(containers?.composeFiles.flatMap(compose => compose.services) || []);
+		databases.push(...composeServices.databases.map(name => `${name} (Docker)`));
+		cache.push(...composeServices.cache.map(name => `${name} (Docker)`));
+		queues.push(...composeServices.queues.map(name => `${name} (Docker)`));
+		storage.push(...composeServices.storage.map(name => `${name} (Docker)`));
+		messaging.push(...composeServices.messaging.map(name => `${name} (Docker)`));
+
 		// Check .env files for database connection strings
 		const envFiles = ['.env', '.env.local', '.env.example'];
 		for (const envFile of envFiles) {
@@ -1161,26 +1541,41 @@ export class StateScanner {
 	 * Detect deployment platforms and orchestration
 	 * Phase 3 (v0.3.5): Deployment Detection
 	 */
-	private async detectDeployment(): Promise<DeploymentInfo> {
+	private async detectDeployment(ciEnvironments: string[], containers: ContainerInfo | undefined): Promise<DeploymentInfo> {
 		const environments: string[] = [];
 		const platforms: string[] = [];
 		const orchestration: string[] = [];
 
-		// Check for Docker
-		if (await this.fileExists('Dockerfile')) {
+		// Check for Dockerfiles and compose files
+		if (containers?.dockerfiles.length) {
 			orchestration.push('Docker');
 		}
-		if (await this.fileExists('docker-compose.yml') || await this.fileExists('docker-compose.yaml')) {
+		if (containers?.composeFiles.length) {
 			orchestration.push('Docker Compose');
 		}
 
-		// Check for Kubernetes
-		if (await this.directoryExists('k8s') || await this.directoryExists('kubernetes')) {
+		// Check for Kubernetes manifests, Kustomize overlays and Helm charts
+		const kubernetes = (await this.kubernetesParser.parseKubernetes(this.workspaceRoot)).data;
+		if (kubernetes) {
+			const { workloads, services, ingresses, configMaps, secrets, overlays } = kubernetes;
+			if ([workloads, services, ingresses, configMaps, secrets, overlays].some(resources => resources.length > 0)) {
+				orchestration.push('Kubernetes');
+			}
+			if (kubernetes.overlays.length > 0) {
+				orchestration.push('Kustomize');
+			}
+			if (kubernetes.charts.length > 0) {
+				orchestration.push('Helm');
+			}
+			for (const overlay of kubernetes.overlays) {
+				if (overlay.environment) {
+					environments.push(overlay.environment);
+				}
+			}
+			environments.push(...kubernetes.charts.flatMap(chart => chart.environments));
+		} else if (await this.directoryExists('k8s') || await this.directoryExists('kubernetes')) {
 			orchestration.push('Kubernetes');
 		}
-		if (await this.fileExists('helm')) {
-			orchestration.push('Helm');
-		}
 
 		// Check for cloud platforms from package.json
 		if (await this.fileExists('package.json')) {
@@ -1227,10 +1622,14 @@ export class StateScanner {
 			environments.push('production');
 		}
 
+		// Deployment environments from CI pipelines
+		environments.push(...ciEnvironments);
+
 		return {
 			environments: deduplicateArray(environments),
 			platforms: deduplicateArray(platforms),
-			orchestration: deduplicateArray(orchestration)
+			orchestration: deduplicateArray(orchestration),
+			kubernetes
 		};
 	}
 
@@ -1238,7 +1637,7 @@ export class StateScanner {
 	 * Calculate project metrics
 	 * Phase 4 (v0.4.0): Project Metrics
 	 */
-	private async detectProjectMetrics(): Promise<ProjectMetrics> {
+	private async detectProjectMetrics(languages: string[]): Promise<ProjectMetrics> {
 		let filesAnalyzed = 0;
 		let estimatedSize: 'small' | 'medium' | 'large' = 'small';
 		let complexity: 'low' | 'medium' | 'high' = 'low';
@@ -1267,7 +1666,7 @@ export class StateScanner {
 			const hasTests = await this.directoryExists('test') || await this.directoryExists('tests') || await this.directoryExists('__tests__');
 			const hasDocker = await this.fileExists('Dockerfile');
 			const hasCI = await this.fileExists('.github/workflows') || await this.fileExists('azure-pipelines.yml');
-			const hasMultipleLanguages = (await this.detectLanguages()).length > 1;
+			const hasMultipleLanguages = languages.length > 1;
 
 			const complexityScore =
 				(hasTests ? 1 : 0) +
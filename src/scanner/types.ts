@@ -23,6 +23,27 @@ export interface DotNetProjectInfo {
 	sdk?: string;
 }
 
+/**
+ * Project listed in a .sln / .slnx solution
+ */
+export interface SolutionProject {
+	name: string;
+	path: string;           // Project file path relative to the solution, with forward slashes
+	references?: string[];  // Names of <ProjectReference> targets, once the project file has been read
+}
+
+/**
+ * Solution-level .NET configuration from .sln/.slnx, global.json, Directory.Build.props and Directory.Packages.props
+ */
+export interface DotNetSolutionInfo {
+	solutionFile?: string;
+	projects: SolutionProject[];
+	sdkVersion?: string;                      // global.json sdk.version
+	sdkRollForward?: string;                  // global.json sdk.rollForward
+	centralPackages: PackageReference[];      // Directory.Packages.props <PackageVersion> (central package management)
+	buildProperties: Record<string, string>;  // Unconditional Directory.Build.props properties
+}
+
 /**
  * Python dependency information
  */
@@ -59,15 +80,347 @@ export interface NodeProjectInfo {
 	testingFrameworks: string[];
 }
 
+/**
+ * Go module requirement from go.mod
+ */
+export interface GoModule {
+	path: string;
+	version: string;
+	indirect: boolean;
+}
+
+/**
+ * Go replace directive (`replace old [version] => new [version]`)
+ */
+export interface GoReplace {
+	path: string;
+	version?: string;
+	replacement: string;
+	replacementVersion?: string;
+}
+
+/**
+ * Go project information from go.mod and go.work
+ */
+export interface GoProjectInfo {
+	modulePath?: string;
+	goVersion?: string;
+	toolchain?: string;
+	requires: GoModule[];
+	replaces: GoReplace[];
+	workspaceMembers: string[];  // Directories listed in go.work `use` directives
+	frameworks: string[];
+	testingFrameworks: string[];
+	cloudSDKs: string[];
+	infrastructure: InfrastructureInfo;
+}
+
+/**
+ * Rust crate dependency from Cargo.toml
+ */
+export interface RustCrate {
+	name: string;
+	version?: string;
+	features: string[];
+	optional: boolean;
+	path?: string;       // Local path dependency
+	git?: string;        // Git dependency
+	workspace: boolean;  // Inherited from [workspace.dependencies]
+}
+
+/**
+ * Rust project information from Cargo.toml, workspace members and rust-toolchain
+ */
+export interface RustProjectInfo {
+	name?: string;
+	version?: string;
+	edition?: string;
+	rustVersion?: string;        // package.rust-version (minimum supported Rust version)
+	toolchainChannel?: string;   // rust-toolchain(.toml) channel
+	workspaceMembers: string[];  // Member directories, with globs expanded
+	features: string[];          // Names declared in [features]
+	dependencies: RustCrate[];
+	devDependencies: RustCrate[];
+	buildDependencies: RustCrate[];
+	binaries: string[];          // [[bin]] targets and src/main.rs
+	hasLibrary: boolean;         // [lib] or src/lib.rs
+	projectType: 'api-server' | 'cli-tool' | 'library' | 'rust-application';
+	frameworks: string[];
+	testingFrameworks: string[];
+	infrastructure: InfrastructureInfo;
+}
+
+/**
+ * Maven / Gradle dependency coordinates
+ */
+export interface JvmDependency {
+	group: string;
+	artifact: string;
+	version?: string;
+	scope?: string;  // Maven scope or Gradle configuration (implementation, testImplementation, ...)
+}
+
+/**
+ * JVM project information from Maven or Gradle builds
+ */
+export interface JvmProjectInfo {
+	buildTool: 'maven' | 'gradle';
+	name?: string;
+	version?: string;
+	javaVersion?: string;
+	kotlinVersion?: string;
+	usesKotlin: boolean;
+	modules: string[];           // Maven <modules> / Gradle `include` paths, relative to the root
+	parent?: JvmDependency;      // Maven <parent> of the root pom
+	dependencies: JvmDependency[];
+	managedDependencies: JvmDependency[];  // Maven <dependencyManagement>: version pins and imported BOMs
+	plugins: string[];           // Maven plugin artifacts / Gradle plugin ids
+	frameworks: string[];
+	testingFrameworks: string[];
+}
+
+/**
+ * Ruby gem from Gemfile, with the locked version from Gemfile.lock
+ */
+export interface RubyGem {
+	name: string;
+	requirement?: string;  // Gemfile constraint, e.g. "~> 7.1"
+	version?: string;      // Locked version
+	groups: string[];      // Bundler groups; empty means the default group
+}
+
+/**
+ * Ruby project information from Gemfile, Gemfile.lock and .ruby-version
+ */
+export interface RubyProjectInfo {
+	rubyVersion?: string;
+	bundlerVersion?: string;
+	gems: RubyGem[];
+	frameworks: string[];
+	testingFrameworks: string[];
+	codeQuality: string[];
+	infrastructure: InfrastructureInfo;
+}
+
+/**
+ * Composer package from composer.json, with the locked version from composer.lock
+ */
+export interface PhpPackage {
+	name: string;
+	constraint?: string;  // composer.json constraint, e.g. "^10.0"
+	version?: string;     // Locked version
+	dev: boolean;         // require-dev
+}
+
+/**
+ * PHP project information from composer.json and composer.lock
+ */
+export interface PhpProjectInfo {
+	name?: string;
+	type?: string;        // Composer package type: project, library, ...
+	phpVersion?: string;  // require.php constraint or config.platform.php
+	packages: PhpPackage[];
+	frameworks: string[];
+	testingFrameworks: string[];
+	codeQuality: string[];
+	infrastructure: InfrastructureInfo;
+}
+
+/**
+ * Package version pinned by a lockfile
+ */
+export interface ResolvedPackage {
+	name: string;
+	version: string;
+	range?: string;    // Declared range this entry resolves, when the lockfile records it
+	direct?: boolean;  // Set when the lockfile itself tells direct from transitive dependencies
+}
+
+/**
+ * Lockfile contents (package-lock.json, yarn.lock, pnpm-lock.yaml, poetry.lock, uv.lock, packages.lock.json)
+ */
+export interface LockfileInfo {
+	file: string;      // Path relative to the workspace root
+	ecosystem: 'npm' | 'python' | 'nuget';
+	packages: ResolvedPackage[];
+}
+
+/**
+ * Package or project inside a monorepo
+ */
+export interface WorkspacePackage {
+	name: string;
+	path: string;    // Directory relative to the workspace root
+	source: string;  // What declares it: 'npm', 'Yarn', 'pnpm', 'Lerna', 'Nx', 'Go', 'Cargo', '.NET'
+}
+
+/**
+ * Monorepo layout from workspace manifests and tool configuration
+ */
+export interface WorkspaceInfo {
+	tools: string[];  // e.g. 'pnpm workspaces', 'Turborepo', 'Nx', 'Go workspace', '.NET solution (Shop.sln)'
+	packages: WorkspacePackage[];
+}
+
+/**
+ * Action or reusable workflow referenced by a GitHub Actions `uses:`
+ */
+export interface CIActionReference {
+	name: string;  // owner/repo[/path]
+	ref?: string;
+	pinning: 'sha' | 'tag' | 'branch' | 'none';  // branch and none refs can change under the workflow
+}
+
 /**
  * CI/CD workflow information
  */
 export interface CIWorkflowInfo {
-	type: 'github-actions' | 'azure-pipelines' | 'gitlab-ci' | 'jenkins' | 'circleci';
+	type: 'github-actions' | 'azure-pipelines' | 'gitlab-ci' | 'jenkins' | 'circleci' | 'bitbucket-pipelines' | 'buildkite';
 	name: string;
 	onEvents?: string[];
 	environments?: string[];
 	jobs?: string[];
+	agents?: string[];     // Agents, executors, images or queues the jobs run on
+	plugins?: string[];    // CircleCI orbs and Buildkite plugins, with their versions
+	variables?: string[];  // Pipeline-level environment variable names
+	// GitHub Actions, including local reusable workflows and composite actions
+	matrix?: Record<string, string[]>;  // strategy.matrix values by axis, e.g. { os: [...], node: ['18', '20'] }
+	runtimes?: string[];                // `*-version` inputs of setup actions, e.g. 'node 20'
+	actions?: CIActionReference[];
+	secrets?: string[];                 // secrets.* names
+	vars?: string[];                    // vars.* names
+	localReferences?: string[];         // Local reusable workflows and composite actions that were followed
+	file?: string;         // Configuration file relative to the scanned root
+	jobLines?: Record<string, number>;  // Zero-based line where each job is defined in `file`
+}
+
+/**
+ * Container image reference, e.g. node:20-alpine or postgres@sha256:...
+ */
+export interface ContainerImage {
+	name: string;    // Repository without the tag, e.g. 'node' or 'ghcr.io/acme/api'
+	tag?: string;
+	digest?: string;
+}
+
+/**
+ * Dockerfile or Containerfile
+ */
+export interface DockerfileInfo {
+	file: string;                // Path relative to the scanned root
+	baseImages: ContainerImage[];  // FROM images; stages built FROM an earlier stage are left out
+	stages: string[];            // Named build stages (FROM ... AS name)
+	exposedPorts: string[];      // e.g. '8080', '53/udp'
+	user?: string;               // Last USER, the user the final image runs as
+	healthcheck?: string;        // HEALTHCHECK command, or 'NONE'
+}
+
+/**
+ * Service in a compose file
+ */
+export interface ComposeService {
+	name: string;
+	image?: string;
+	build?: string;       // Build context
+	ports: string[];      // '[host:]container[/protocol]'
+	volumes: string[];
+	dependsOn: string[];
+}
+
+/**
+ * docker-compose.yml / compose.yaml file
+ */
+export interface ComposeFileInfo {
+	file: string;  // Path relative to the scanned root
+	services: ComposeService[];
+}
+
+/**
+ * Container build and local stack configuration
+ */
+export interface ContainerInfo {
+	dockerfiles: DockerfileInfo[];
+	composeFiles: ComposeFileInfo[];
+}
+
+/**
+ * Container in a Kubernetes pod template, with its resource requests and limits
+ */
+export interface KubernetesContainer {
+	name: string;
+	image?: string;
+	requests?: Record<string, string>;  // e.g. { cpu: '100m', memory: '128Mi' }
+	limits?: Record<string, string>;
+}
+
+/**
+ * Deployment, StatefulSet, DaemonSet, Job, CronJob, ReplicaSet or Pod
+ */
+export interface KubernetesWorkload {
+	kind: string;
+	name: string;
+	namespace?: string;
+	replicas?: number;
+	containers: KubernetesContainer[];
+	file: string;  // Manifest path relative to the scanned root
+}
+
+/**
+ * Kubernetes Service
+ */
+export interface KubernetesService {
+	name: string;
+	type: string;     // ClusterIP when not set
+	ports: string[];  // 'port[:targetPort][/protocol]'
+	file: string;
+}
+
+/**
+ * Ingress, OpenShift Route or Gateway API HTTPRoute with the hosts it serves
+ */
+export interface KubernetesIngress {
+	kind: string;
+	name: string;
+	hosts: string[];
+	file: string;
+}
+
+/**
+ * Kustomize base or overlay (a folder with kustomization.yaml)
+ */
+export interface KustomizeOverlay {
+	name: string;          // Folder name, e.g. 'production' for overlays/production
+	path: string;          // Folder relative to the scanned root
+	environment?: string;  // Deployment environment the folder name maps to
+	namespace?: string;
+	resources: string[];   // resources and bases, as written
+	images: string[];      // Image overrides, e.g. 'api=ghcr.io/acme/api:1.4.0'
+}
+
+/**
+ * Helm chart (a folder with Chart.yaml)
+ */
+export interface HelmChart {
+	name: string;
+	version?: string;
+	appVersion?: string;
+	path: string;            // Chart folder relative to the scanned root
+	dependencies: string[];  // Subcharts, e.g. 'postgresql 15.x.x'
+	valuesFiles: string[];   // values.yaml and per-environment values-*.yaml
+	environments: string[];  // Deployment environments the values files map to
+}
+
+/**
+ * Kubernetes manifests, Kustomize overlays and Helm charts found in the workspace
+ */
+export interface KubernetesInfo {
+	workloads: KubernetesWorkload[];
+	services: KubernetesService[];
+	ingresses: KubernetesIngress[];
+	configMaps: string[];
+	secrets: string[];  // Secret, SealedSecret and ExternalSecret names
+	overlays: KustomizeOverlay[];
+	charts: HelmChart[];
 }
 
 /**
@@ -115,6 +468,239 @@ export const FrameworkPatterns = {
 	koa: ['koa']
 };
 
+/**
+ * Go module path prefixes for detection
+ * Prefixes match the module and its major-version paths (e.g. github.com/labstack/echo/v4).
+ */
+export const GoModulePatterns = {
+	frameworks: {
+		Gin: ['github.com/gin-gonic/gin'],
+		Echo: ['github.com/labstack/echo'],
+		Fiber: ['github.com/gofiber/fiber'],
+		Chi: ['github.com/go-chi/chi'],
+		'Gorilla Mux': ['github.com/gorilla/mux'],
+		gRPC: ['google.golang.org/grpc'],
+		GORM: ['gorm.io/gorm'],
+		Cobra: ['github.com/spf13/cobra']
+	},
+	testing: {
+		Testify: ['github.com/stretchr/testify'],
+		Ginkgo: ['github.com/onsi/ginkgo'],
+		Gomega: ['github.com/onsi/gomega'],
+		GoMock: ['github.com/golang/mock', 'go.uber.org/mock'],
+		Testcontainers: ['github.com/testcontainers/testcontainers-go']
+	},
+	cloudSDKs: {
+		'AWS SDK': ['github.com/aws/aws-sdk-go'],
+		'Azure SDK': ['github.com/Azure/azure-sdk-for-go'],
+		'Google Cloud SDK': ['cloud.google.com/go']
+	},
+	databases: {
+		PostgreSQL: ['github.com/jackc/pgx', 'github.com/lib/pq', 'gorm.io/driver/postgres'],
+		'MySQL/MariaDB': ['github.com/go-sql-driver/mysql', 'gorm.io/driver/mysql'],
+		SQLite: ['github.com/mattn/go-sqlite3', 'modernc.org/sqlite', 'gorm.io/driver/sqlite'],
+		MongoDB: ['go.mongodb.org/mongo-driver'],
+		'GORM (ORM)': ['gorm.io/gorm']
+	},
+	cache: {
+		Redis: ['github.com/redis/go-redis', 'github.com/go-redis/redis']
+	},
+	queues: {
+		RabbitMQ: ['github.com/rabbitmq/amqp091-go', 'github.com/streadway/amqp']
+	},
+	messaging: {
+		'Apache Kafka': ['github.com/segmentio/kafka-go', 'github.com/IBM/sarama', 'github.com/Shopify/sarama', 'github.com/confluentinc/confluent-kafka-go'],
+		NATS: ['github.com/nats-io/nats.go']
+	}
+};
+
+/**
+ * Rust crate names for detection
+ * Database entries can also come from sqlx / sea-orm / diesel features (see RustDatabaseFeatures).
+ */
+export const RustCratePatterns = {
+	webFrameworks: {
+		Axum: ['axum'],
+		'Actix Web': ['actix-web'],
+		Rocket: ['rocket'],
+		Warp: ['warp'],
+		Poem: ['poem'],
+		Tonic: ['tonic']
+	},
+	frameworks: {
+		Tokio: ['tokio'],
+		'async-std': ['async-std'],
+		Serde: ['serde'],
+		Clap: ['clap'],
+		Tauri: ['tauri'],
+		Bevy: ['bevy'],
+		Leptos: ['leptos'],
+		Yew: ['yew']
+	},
+	testing: {
+		Proptest: ['proptest'],
+		Criterion: ['criterion'],
+		Mockall: ['mockall'],
+		rstest: ['rstest'],
+		Insta: ['insta']
+	},
+	databases: {
+		SQLx: ['sqlx'],
+		'Diesel (ORM)': ['diesel'],
+		'SeaORM (ORM)': ['sea-orm'],
+		PostgreSQL: ['postgres', 'tokio-postgres', 'deadpool-postgres'],
+		'MySQL/MariaDB': ['mysql', 'mysql_async'],
+		SQLite: ['rusqlite'],
+		MongoDB: ['mongodb']
+	},
+	cache: {
+		Redis: ['redis', 'deadpool-redis', 'bb8-redis']
+	},
+	queues: {
+		RabbitMQ: ['lapin']
+	},
+	messaging: {
+		'Apache Kafka': ['rdkafka'],
+		NATS: ['async-nats', 'nats']
+	}
+};
+
+/**
+ * Database features of sqlx, sea-orm and diesel mapped to the database they connect to
+ */
+export const RustDatabaseFeatures: Record<string, string> = {
+	postgres: 'PostgreSQL',
+	'sqlx-postgres': 'PostgreSQL',
+	mysql: 'MySQL/MariaDB',
+	'sqlx-mysql': 'MySQL/MariaDB',
+	sqlite: 'SQLite',
+	'sqlx-sqlite': 'SQLite'
+};
+
+/**
+ * JVM framework and test library coordinates
+ * Entries are a group (matching the group and its subgroups) or a `group:artifact` prefix.
+ */
+export const JvmFrameworkPatterns = {
+	frameworks: {
+		'Spring Boot': ['org.springframework.boot'],
+		Spring: ['org.springframework'],
+		Quarkus: ['io.quarkus'],
+		Micronaut: ['io.micronaut'],
+		Ktor: ['io.ktor'],
+		'Vert.x': ['io.vertx'],
+		Dropwizard: ['io.dropwizard']
+	},
+	testing: {
+		'JUnit 5': ['org.junit.jupiter', 'org.springframework.boot:spring-boot-starter-test'],
+		'JUnit 4': ['junit:junit'],
+		TestNG: ['org.testng'],
+		Mockito: ['org.mockito'],
+		Spock: ['org.spockframework'],
+		Kotest: ['io.kotest'],
+		Testcontainers: ['org.testcontainers']
+	}
+};
+
+/**
+ * Ruby gem names for detection
+ */
+export const RubyGemPatterns = {
+	frameworks: {
+		Rails: ['rails'],
+		Sinatra: ['sinatra'],
+		Hanami: ['hanami'],
+		Grape: ['grape']
+	},
+	testing: {
+		RSpec: ['rspec', 'rspec-rails'],
+		Minitest: ['minitest'],
+		Capybara: ['capybara'],
+		Cucumber: ['cucumber', 'cucumber-rails'],
+		FactoryBot: ['factory_bot', 'factory_bot_rails']
+	},
+	codeQuality: {
+		RuboCop: ['rubocop'],
+		StandardRB: ['standard'],
+		Brakeman: ['brakeman'],
+		Sorbet: ['sorbet', 'sorbet-runtime']
+	},
+	databases: {
+		PostgreSQL: ['pg'],
+		'MySQL/MariaDB': ['mysql2', 'trilogy'],
+		SQLite: ['sqlite3'],
+		MongoDB: ['mongoid', 'mongo'],
+		'ActiveRecord (ORM)': ['rails', 'activerecord'],
+		'Sequel (ORM)': ['sequel']
+	},
+	cache: {
+		Redis: ['redis', 'redis-rails'],
+		Memcached: ['dalli']
+	},
+	queues: {
+		Sidekiq: ['sidekiq'],
+		Resque: ['resque'],
+		GoodJob: ['good_job'],
+		'Solid Queue': ['solid_queue'],
+		'Delayed Job': ['delayed_job', 'delayed_job_active_record']
+	},
+	messaging: {
+		RabbitMQ: ['bunny', 'sneakers'],
+		'Apache Kafka': ['ruby-kafka', 'rdkafka', 'karafka']
+	}
+};
+
+/**
+ * Composer package names for detection
+ * `ext-*` platform requirements count too (ext-pgsql means PostgreSQL).
+ */
+export const ComposerPackagePatterns = {
+	frameworks: {
+		Laravel: ['laravel/framework'],
+		Lumen: ['laravel/lumen-framework'],
+		Symfony: ['symfony/framework-bundle', 'symfony/symfony'],
+		Slim: ['slim/slim'],
+		CakePHP: ['cakephp/cakephp'],
+		Yii: ['yiisoft/yii2'],
+		Laminas: ['laminas/laminas-mvc']
+	},
+	testing: {
+		PHPUnit: ['phpunit/phpunit'],
+		Pest: ['pestphp/pest'],
+		Behat: ['behat/behat'],
+		Codeception: ['codeception/codeception'],
+		Mockery: ['mockery/mockery']
+	},
+	codeQuality: {
+		PHPStan: ['phpstan/phpstan', 'larastan/larastan', 'nunomaduro/larastan'],
+		Psalm: ['vimeo/psalm'],
+		PHP_CodeSniffer: ['squizlabs/php_codesniffer'],
+		'PHP CS Fixer': ['friendsofphp/php-cs-fixer'],
+		'Laravel Pint': ['laravel/pint'],
+		Rector: ['rector/rector']
+	},
+	databases: {
+		PostgreSQL: ['ext-pgsql', 'ext-pdo_pgsql'],
+		'MySQL/MariaDB': ['ext-mysqli', 'ext-pdo_mysql'],
+		SQLite: ['ext-sqlite3', 'ext-pdo_sqlite'],
+		MongoDB: ['mongodb/mongodb', 'ext-mongodb'],
+		'Doctrine (ORM)': ['doctrine/orm'],
+		'Eloquent (ORM)': ['laravel/framework', 'illuminate/database']
+	},
+	cache: {
+		Redis: ['predis/predis', 'ext-redis'],
+		Memcached: ['ext-memcached']
+	},
+	queues: {
+		RabbitMQ: ['php-amqplib/php-amqplib', 'ext-amqp'],
+		'Laravel Horizon': ['laravel/horizon'],
+		'Symfony Messenger': ['symfony/messenger']
+	},
+	messaging: {
+		'Apache Kafka': ['ext-rdkafka']
+	}
+};
+
 /**
  * Security-critical dependency patterns
  */
@@ -198,6 +784,7 @@ export interface DeploymentInfo {
 	environments: string[];
 	platforms: string[];
 	orchestration: string[];
+	kubernetes?: KubernetesInfo;
 }
 
 export interface ProjectMetrics {
@@ -214,7 +801,7 @@ export const DatabasePatterns = {
 	postgres: ['pg', 'postgres', 'pg-promise', 'postgresql', 'psycopg2', 'asyncpg'],
 	mysql: ['mysql', 'mysql2', 'mariadb', 'pymysql', 'mysqlclient'],
 	mongodb: ['mongodb', 'mongoose', '@azure/cosmos', 'pymongo', 'motor'],
-	redis: ['redis', 'ioredis', '@azure/redis-cache', 'redis-py', 'aioredis'],
+	redis: ['redis', 'ioredis', '@azure/redis-cache', 'redis-py', 'aioredis', 'jedis', 'lettuce-core', 'spring-boot-starter-data-redis'],
 	sqlite: ['sqlite', 'sqlite3', 'better-sqlite3'],
 	sqlserver: ['mssql', 'tedious', 'pyodbc', 'pymssql'],
 	oracle: ['oracledb', 'cx_oracle'],
@@ -223,6 +810,59 @@ export const DatabasePatterns = {
 	dynamodb: ['@aws-sdk/client-dynamodb', 'dynamodb', 'boto3']
 };
 
+/**
+ * Deployment environment names in CI job, stage and context names
+ */
+export const DeploymentEnvironmentPatterns = {
+	development: ['dev', 'development'],
+	qa: ['qa'],
+	uat: ['uat'],
+	staging: ['staging', 'stg'],
+	preprod: ['preprod', 'pre-prod'],
+	production: ['prod', 'production', 'live']
+};
+
+/**
+ * Compose service images by infrastructure category
+ * Matched against the image name without registry, `library/` prefix or tag.
+ */
+export const ComposeImagePatterns: Record<keyof InfrastructureInfo, Record<string, string[]>> = {
+	databases: {
+		PostgreSQL: ['postgres', 'postgis/postgis', 'bitnami/postgresql', 'timescale/timescaledb', 'supabase/postgres'],
+		'MySQL/MariaDB': ['mysql', 'mariadb', 'bitnami/mysql', 'bitnami/mariadb', 'percona'],
+		MongoDB: ['mongo', 'mongodb/mongodb-community-server', 'bitnami/mongodb'],
+		'SQL Server': ['mcr.microsoft.com/mssql/server', 'mcr.microsoft.com/azure-sql-edge'],
+		Elasticsearch: ['elasticsearch', 'docker.elastic.co/elasticsearch/elasticsearch', 'opensearchproject/opensearch'],
+		Cassandra: ['cassandra', 'scylladb/scylla'],
+		ClickHouse: ['clickhouse/clickhouse-server', 'yandex/clickhouse-server'],
+		Neo4j: ['neo4j'],
+		CockroachDB: ['cockroachdb/cockroach'],
+		'DynamoDB Local': ['amazon/dynamodb-local'],
+		'Cosmos DB Emulator': ['mcr.microsoft.com/cosmosdb/linux/azure-cosmos-emulator']
+	},
+	cache: {
+		Redis: ['redis', 'redis/redis-stack', 'redis/redis-stack-server', 'bitnami/redis'],
+		Valkey: ['valkey/valkey'],
+		Memcached: ['memcached', 'bitnami/memcached']
+	},
+	queues: {
+		RabbitMQ: ['rabbitmq', 'bitnami/rabbitmq'],
+		ActiveMQ: ['apache/activemq-classic', 'apache/activemq-artemis', 'rmohr/activemq'],
+		'SQS (ElasticMQ)': ['softwaremill/elasticmq', 'softwaremill/elasticmq-native']
+	},
+	storage: {
+		MinIO: ['minio/minio', 'bitnami/minio'],
+		Azurite: ['mcr.microsoft.com/azure-storage/azurite'],
+		LocalStack: ['localstack/localstack']
+	},
+	messaging: {
+		'Apache Kafka': ['apache/kafka', 'confluentinc/cp-kafka', 'bitnami/kafka', 'wurstmeister/kafka'],
+		Redpanda: ['redpandadata/redpanda', 'vectorized/redpanda'],
+		NATS: ['nats'],
+		'Apache Pulsar': ['apachepulsar/pulsar']
+	}
+};
+
 /**
  * ORM patterns
  */
@@ -233,15 +873,15 @@ export const ORMPatterns = {
 	mongoose: ['mongoose'],
 	sqlalchemy: ['sqlalchemy'],
 	django: ['django'],
-	hibernate: ['hibernate']
+	hibernate: ['hibernate', 'spring-boot-starter-data-jpa', 'quarkus-hibernate-orm']
 };
 
 /**
  * Queue/Messaging patterns
  */
 export const QueuePatterns = {
-	rabbitmq: ['amqplib', 'rabbitmq', 'pika', 'aio-pika'],
-	kafka: ['kafkajs', 'kafka-python', 'confluent-kafka'],
+	rabbitmq: ['amqplib', 'rabbitmq', 'pika', 'aio-pika', 'amqp-client', 'spring-rabbit'],
+	kafka: ['kafkajs', 'kafka-python', 'confluent-kafka', 'kafka-clients', 'spring-kafka'],
 	sqs: ['@aws-sdk/client-sqs', 'boto3'],
 	azureServiceBus: ['@azure/service-bus'],
 	googlePubSub: ['@google-cloud/pubsub'],
@@ -0,0 +1,28 @@
+// Configuration - Typed access to the extension's settings
+import * as vscode from 'vscode';
+import { DEFAULT_ALWAYS_APPLY_TOKEN_BUDGET } from './ruleBudget';
+
+const SECTION = 'projectRules';
+
+/**
+ * Token budget for always-apply rules per project (0 disables the warning)
+ */
+export function getAlwaysApplyTokenBudget(): number {
+	const budget = vscode.workspace.getConfiguration(SECTION).get<number>('alwaysApplyTokenBudget', DEFAULT_ALWAYS_APPLY_TOKEN_BUDGET);
+	return typeof budget === 'number' && budget >= 0 ? budget : DEFAULT_ALWAYS_APPLY_TOKEN_BUDGET;
+}
+
+/**
+ * Check whether a configuration change affects one of our settings
+ * @param setting Setting name without the projectRules. prefix
+ */
+export function affectsSetting(event: vscode.ConfigurationChangeEvent, setting: string): boolean {
+	return event.affectsConfiguration(`${SECTION}.${setting}`);
+}
+
+/**
+ * Folder containing user rule templates, relative to the project root unless absolute
+ */
+export function getTemplatesFolder(): string {
+	return vscode.workspace.getConfiguration(SECTION).get<string>('templatesFolder', '.cursor/rule-templates').trim();
+}
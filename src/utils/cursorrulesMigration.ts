@@ -0,0 +1,172 @@
+// Cursorrules Migration - Split a legacy .cursorrules file into .mdc rules
+import { RuleMetadata } from '../scanner/rulesScanner';
+import { shiftHeadings, splitMarkdownSections, toKebabCase } from './markdownSections';
+
+/**
+ * A rule proposed from one section of a .cursorrules file
+ */
+export interface MigratedRule {
+	fileName: string;
+	title: string;
+	metadata: RuleMetadata;
+	content: string;
+}
+
+// Extensions worth scoping a rule to when a section mentions them
+const KNOWN_EXTENSIONS = new Set([
+	'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'vue', 'svelte', 'astro',
+	'py', 'cs', 'fs', 'go', 'rs', 'java', 'kt', 'scala', 'rb', 'php', 'swift', 'dart', 'ex', 'exs',
+	'css', 'scss', 'less', 'html', 'sql', 'graphql', 'proto', 'tf', 'sh', 'ps1',
+	'yml', 'yaml', 'toml', 'json', 'md', 'mdx', 'prisma', 'ipynb'
+]);
+
+const MAX_GLOBS = 6;
+
+/**
+ * Split a .cursorrules file into one rule per section
+ * Sections start at the shallowest heading level used more than once, so a file with a single
+ * "# Project" title and several "## Topic" headings splits at the "##" headings. Text before the
+ * first section (or under the title) becomes a "General" rule. Sections that mention files or
+ * extensions are scoped with globs; the rest stay always applied, like the original file.
+ */
+export function splitCursorrules(text: string): MigratedRule[] {
+	const level = getSplitLevel(text);
+	const sections = level > 0
+		? splitMarkdownSections(text, level)
+		: [{ title: undefined, level: 0, body: text.trim(), line: 0 }];
+
+	const rules: MigratedRule[] = [];
+	const usedNames = new Set<string>();
+	for (const section of sections) {
+		if (!section.body) {
+			continue;
+		}
+
+		const title = section.level === level && section.title ? section.title : 'General';
+		const stem = uniqueName(toKebabCase(title) || 'rule', usedNames);
+		const globs = inferGlobs(section.body);
+		const description = generateDescription(title, section.body);
+
+		rules.push({
+			fileName: `${stem}.mdc`,
+			title,
+			metadata: globs.length > 0
+				? { description, globs, alwaysApply: false }
+				: { description, alwaysApply: true },
+			content: `# ${title}\n\n${shiftHeadings(section.body, 2)}`
+		});
+	}
+
+	return rules;
+}
+
+/**
+ * Suggest globs from the files, folders and extensions a section mentions
+ * - explicit globs (`src/**`, `*.test.ts`) are kept as written
+ * - folders (`src/api/`) and files in folders (`src/db/client.ts`) scope to the folder
+ * - extensions (`.tsx`, `*.py`) scope to all files with that extension
+ * Fenced code blocks and URLs are ignored.
+ */
+export function inferGlobs(body: string): string[] {
+	const globs: string[] = [];
+	const add = (glob: string) => {
+		if (!globs.includes(glob) && globs.length < MAX_GLOBS) {
+			globs.push(glob);
+		}
+	};
+
+	for (const token of getProseTokens(body)) {
+		if (/:\/\//.test(token) || token.startsWith('@') || token.includes('node_modules')) {
+			continue;
+		}
+
+		const cleaned = token.replace(/^\.\//, '').replace(/[.:,]+$/, '');
+		const extension = /^\*?\.([a-z0-9]+)$/i.exec(cleaned);
+		if (extension) {
+			if (KNOWN_EXTENSIONS.has(extension[1].toLowerCase())) {
+				add(`**/*.${extension[1]}`);
+			}
+			continue;
+		}
+
+		if (cleaned.includes('*')) {
+			// Skip markdown emphasis like **Note**; globs have a folder or an extension
+			if (/^[\w./{},*-]+$/.test(cleaned) && (cleaned.includes('/') || cleaned.includes('*.'))) {
+				add(cleaned);
+			}
+			continue;
+		}
+
+		if (!cleaned.includes('/') || !/^[\w./-]+$/.test(cleaned)) {
+			continue;
+		}
+		if (cleaned.endsWith('/')) {
+			add(`${cleaned}**`);
+			continue;
+		}
+		const slash = cleaned.lastIndexOf('/');
+		const fileExtension = /\.([a-z0-9]+)$/i.exec(cleaned.substring(slash + 1));
+		if (fileExtension && KNOWN_EXTENSIONS.has(fileExtension[1].toLowerCase()) && slash > 0) {
+			add(`${cleaned.substring(0, slash)}/**`);
+		}
+	}
+
+	return globs;
+}
+
+/**
+ * Build a description from the section title and its first sentence
+ */
+export function generateDescription(title: string, body: string): string {
+	let inCodeFence = false;
+	const firstLine = body
+		.split(/\r?\n/)
+		.filter(line => {
+			if (/^\s*(```|~~~)/.test(line)) {
+				inCodeFence = !inCodeFence;
+				return false;
+			}
+			return !inCodeFence && !/^\s*#/.test(line);
+		})
+		.map(line => line.replace(/^\s*(?:[-*+]|\d+\.)\s+/, '').replace(/[*_`]/g, '').trim())
+		.find(line => line.length > 0);
+	const sentence = firstLine ? /^(.+?[.!?])(\s|$)/.exec(firstLine)?.[1] || firstLine : '';
+
+	const description = sentence && sentence.toLowerCase() !== title.toLowerCase() ? `${title}: ${sentence}` : title;
+	return description.length > 120 ? `${description.substring(0, 117)}...` : description;
+}
+
+/**
+ * Pick the heading level to split at: the shallowest level used more than once,
+ * otherwise the shallowest level present. 0 when the file has no headings.
+ */
+function getSplitLevel(text: string): number {
+	const counts = new Map<number, number>();
+	for (const section of splitMarkdownSections(text, 6)) {
+		if (section.level > 0) {
+			counts.set(section.level, (counts.get(section.level) || 0) + 1);
+		}
+	}
+	const levels = Array.from(counts.keys()).sort((a, b) => a - b);
+	return levels.find(level => counts.get(level)! > 1) || levels[0] || 0;
+}
+
+function getProseTokens(body: string): string[] {
+	let inCodeFence = false;
+	return body.split(/\r?\n/).flatMap(line => {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inCodeFence = !inCodeFence;
+			return [];
+		}
+		return inCodeFence ? [] : line.split(/[\s`'"();[\]]+/).filter(token => token.length > 0);
+	});
+}
+
+function uniqueName(stem: string, used: Set<string>): string {
+	let name = stem;
+	for (let index = 2; used.has(name); index++) {
+		name = `${stem}-${index}`;
+	}
+	used.add(name);
+	return name;
+}
@@ -0,0 +1,61 @@
+// File Reference Resolver - Resolve @file references in rules to files on disk
+import * as vscode from 'vscode';
+import { FileReference, ResolvedFileReference, getReferenceCandidates } from './fileReferences';
+import { getRuleBasePath } from './ruleApplicability';
+
+const SEARCH_EXCLUDE = '**/{node_modules,.git}/**';
+
+export class FileReferenceResolver {
+	/**
+	 * Resolve references found in a rule
+	 * @param ruleUri URI of the rule file the references come from
+	 * @param references References from extractFileReferences()
+	 * @returns The same references with resolvedPath set when the target exists
+	 */
+	static async resolve(ruleUri: vscode.Uri, references: FileReference[]): Promise<ResolvedFileReference[]> {
+		const resolvedPaths = new Map<string, string | undefined>();
+
+		for (const reference of references) {
+			if (!resolvedPaths.has(reference.reference)) {
+				resolvedPaths.set(reference.reference, await FileReferenceResolver.resolvePath(ruleUri, reference.reference));
+			}
+		}
+
+		return references.map(reference => ({
+			...reference,
+			resolvedPath: resolvedPaths.get(reference.reference)
+		}));
+	}
+
+	/**
+	 * Resolve a single reference
+	 * Paths are tried against the project root and the rule's folder; bare file names
+	 * (e.g. @service-template.ts) fall back to a search of the project, like Cursor's @ picker.
+	 * @returns Absolute forward-slash path, or undefined when nothing matches
+	 */
+	static async resolvePath(ruleUri: vscode.Uri, reference: string): Promise<string | undefined> {
+		for (const candidate of getReferenceCandidates(reference, ruleUri.path)) {
+			try {
+				const stat = await vscode.workspace.fs.stat(ruleUri.with({ path: candidate }));
+				if (stat.type & vscode.FileType.File) {
+					return candidate;
+				}
+			} catch {
+				// Try the next candidate
+			}
+		}
+
+		const basePath = getRuleBasePath(ruleUri.path);
+		if (reference.includes('/') || basePath === undefined) {
+			return undefined;
+		}
+
+		try {
+			const pattern = new vscode.RelativePattern(ruleUri.with({ path: basePath }), `**/${reference}`);
+			const [match] = await vscode.workspace.findFiles(pattern, SEARCH_EXCLUDE, 1);
+			return match?.path;
+		} catch {
+			return undefined;
+		}
+	}
+}
@@ -0,0 +1,95 @@
+// File References - Extract @file references from rule bodies
+import * as path from 'path';
+import { getRuleBasePath } from './ruleApplicability';
+
+/**
+ * A file referenced from a rule body
+ */
+export interface FileReference {
+	reference: string;   // Path as written, without the @ or mdc: prefix
+	line: number;        // 0-based line within the text that was scanned
+	column: number;      // 0-based column of the first character of the reference token
+	length: number;      // Length of the whole token (including @ or the markdown link)
+	pathColumn: number;  // 0-based column where the path itself starts
+}
+
+/**
+ * A file reference with the path it resolved to
+ */
+export interface ResolvedFileReference extends FileReference {
+	resolvedPath?: string;  // Absolute forward-slash path; undefined when the file doesn't exist
+}
+
+// @path/to/file.ext - must have an extension so decorators (@Injectable) and npm scopes (@types/node) are skipped
+const AT_REFERENCE_PATTERN = /(^|[^\w@/`.])@((?:\.{1,2}\/)?[\w.-]+(?:\/[\w.-]+)*\.[A-Za-z0-9]+)(?![\w/])/g;
+
+// [label](mdc:path/to/file) - Cursor's markdown link form
+const MDC_LINK_PATTERN = /\[[^\]]*\]\(mdc:([^)\s]+)\)/g;
+
+/**
+ * Extract file references from markdown text
+ * Fenced code blocks are skipped so code samples aren't treated as references.
+ * @param text Rule body (or any markdown)
+ */
+export function extractFileReferences(text: string): FileReference[] {
+	const references: FileReference[] = [];
+	const lines = text.split(/\r?\n/);
+	let inCodeFence = false;
+
+	lines.forEach((line, lineIndex) => {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inCodeFence = !inCodeFence;
+			return;
+		}
+		if (inCodeFence) {
+			return;
+		}
+
+		for (const match of line.matchAll(AT_REFERENCE_PATTERN)) {
+			const column = (match.index ?? 0) + match[1].length;
+			references.push({
+				reference: match[2],
+				line: lineIndex,
+				column,
+				length: match[2].length + 1,
+				pathColumn: column + 1
+			});
+		}
+
+		for (const match of line.matchAll(MDC_LINK_PATTERN)) {
+			const column = match.index ?? 0;
+			references.push({
+				reference: match[1],
+				line: lineIndex,
+				column,
+				length: match[0].length,
+				pathColumn: column + match[0].indexOf('mdc:') + 4
+			});
+		}
+	});
+
+	return references;
+}
+
+/**
+ * Get the paths a reference may point to, most likely first
+ * References starting with ./ or ../ are relative to the rule file; anything else is
+ * tried against the project root (the folder containing .cursor) and then the rule's folder.
+ * @param reference Reference as written in the rule
+ * @param rulePath Forward-slash path of the rule file (Uri.path)
+ * @returns Absolute forward-slash paths
+ */
+export function getReferenceCandidates(reference: string, rulePath: string): string[] {
+	const ruleDirectory = path.posix.dirname(rulePath);
+	if (reference.startsWith('./') || reference.startsWith('../')) {
+		return [path.posix.join(ruleDirectory, reference)];
+	}
+
+	const candidates: string[] = [];
+	const basePath = getRuleBasePath(rulePath);
+	if (basePath !== undefined) {
+		candidates.push(path.posix.join(basePath, reference.replace(/^\/+/, '')));
+	}
+	candidates.push(path.posix.join(ruleDirectory, reference));
+	return Array.from(new Set(candidates));
+}
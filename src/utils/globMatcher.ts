@@ -0,0 +1,139 @@
+// Glob Matcher - Match rule globs against workspace-relative paths
+
+/**
+ * Cache of compiled glob patterns
+ */
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Convert a glob pattern to a regular expression
+ * Supports **, *, ?, {a,b} alternation and [abc] character classes.
+ * Patterns without a slash match the file name at any depth (e.g. "*.ts").
+ * @param pattern Glob pattern as written in rule frontmatter
+ * @returns Anchored regular expression for a forward-slash separated path
+ */
+export function globToRegExp(pattern: string): RegExp {
+	const cached = compiledPatterns.get(pattern);
+	if (cached) {
+		return cached;
+	}
+
+	let normalized = pattern.trim().replace(/\\/g, '/');
+	if (normalized.startsWith('./')) {
+		normalized = normalized.substring(2);
+	} else if (normalized.startsWith('/')) {
+		normalized = normalized.substring(1);
+	}
+	if (normalized.endsWith('/')) {
+		normalized = `${normalized}**`;
+	}
+	if (!normalized.includes('/')) {
+		normalized = `**/${normalized}`;
+	}
+
+	const regex = new RegExp(`^${translate(normalized)}$`);
+	compiledPatterns.set(pattern, regex);
+	return regex;
+}
+
+/**
+ * Check whether a relative path matches a glob pattern
+ * @param relativePath Path relative to the glob's base directory
+ * @param pattern Glob pattern
+ */
+export function matchGlob(relativePath: string, pattern: string): boolean {
+	if (!pattern || pattern.trim().length === 0) {
+		return false;
+	}
+
+	const normalizedPath = relativePath.replace(/\\/g, '/').replace(/^\.\//, '');
+	try {
+		return globToRegExp(pattern).test(normalizedPath);
+	} catch {
+		// Malformed pattern (e.g. unbalanced brackets) never matches
+		return false;
+	}
+}
+
+/**
+ * Find the first glob that matches a relative path
+ * @param relativePath Path relative to the globs' base directory
+ * @param globs Glob patterns to try in order
+ * @returns The matching glob, or undefined when none match
+ */
+export function findMatchingGlob(relativePath: string, globs: string[]): string | undefined {
+	return globs.find(glob => matchGlob(relativePath, glob));
+}
+
+/**
+ * Translate glob syntax into regular expression source
+ */
+function translate(glob: string): string {
+	let source = '';
+	let inGroup = 0;
+
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+
+		switch (char) {
+			case '*': {
+				if (glob[i + 1] === '*') {
+					const atSegmentStart = i === 0 || glob[i - 1] === '/';
+					const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === '/';
+					if (atSegmentStart && atSegmentEnd) {
+						if (glob[i + 2] === '/') {
+							// "**/" matches zero or more directories
+							source += '(?:[^/]*/)*';
+							i += 2;
+						} else {
+							// Trailing "**" matches everything below
+							source += '.*';
+							i += 1;
+						}
+						break;
+					}
+					// "**" inside a segment behaves like "*"
+					i += 1;
+				}
+				source += '[^/]*';
+				break;
+			}
+			case '?':
+				source += '[^/]';
+				break;
+			case '{':
+				inGroup++;
+				source += '(?:';
+				break;
+			case '}':
+				if (inGroup > 0) {
+					inGroup--;
+					source += ')';
+				} else {
+					source += '\\}';
+				}
+				break;
+			case ',':
+				source += inGroup > 0 ? '|' : ',';
+				break;
+			case '[': {
+				const close = glob.indexOf(']', i + 1);
+				if (close === -1) {
+					source += '\\[';
+					break;
+				}
+				let range = glob.substring(i + 1, close);
+				if (range.startsWith('!')) {
+					range = `^${range.substring(1)}`;
+				}
+				source += `[${range.replace(/\\/g, '\\\\')}]`;
+				i = close;
+				break;
+			}
+			default:
+				source += char.replace(/[.+^$()|\\]/g, '\\$&');
+		}
+	}
+
+	return source;
+}
@@ -0,0 +1,105 @@
+// Markdown Sections - Split instruction files by heading and adjust heading levels
+
+/**
+ * A section of a markdown document
+ */
+export interface MarkdownSection {
+	title?: string;  // Heading text; undefined for text before the first heading
+	level: number;   // Heading level (0 for text before the first heading)
+	body: string;    // Text under the heading, without the heading line
+	line: number;    // 0-based line of the heading (or of the first line for the preamble)
+}
+
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Split markdown into sections at headings of the given level or higher (fewer #)
+ * Headings inside fenced code blocks are ignored. Empty preambles are dropped.
+ * @param maxLevel Deepest heading level that starts a section (2 splits at # and ##)
+ */
+export function splitMarkdownSections(text: string, maxLevel = 2): MarkdownSection[] {
+	const sections: MarkdownSection[] = [];
+	let current: MarkdownSection & { lines: string[] } = { level: 0, body: '', line: 0, lines: [] };
+	let inCodeFence = false;
+
+	const finish = () => {
+		const body = current.lines.join('\n').trim();
+		if (current.title !== undefined || body.length > 0) {
+			sections.push({ title: current.title, level: current.level, body, line: current.line });
+		}
+	};
+
+	text.split(/\r?\n/).forEach((line, index) => {
+		if (FENCE_PATTERN.test(line)) {
+			inCodeFence = !inCodeFence;
+		}
+		const heading = inCodeFence ? null : HEADING_PATTERN.exec(line);
+		if (heading && heading[1].length <= maxLevel) {
+			finish();
+			current = { title: heading[2].trim(), level: heading[1].length, body: '', line: index, lines: [] };
+			return;
+		}
+		current.lines.push(line);
+	});
+	finish();
+
+	return sections;
+}
+
+/**
+ * Shift every heading so the shallowest one ends up at the given level
+ * Levels are capped at 6. Headings inside fenced code blocks are left alone.
+ */
+export function shiftHeadings(text: string, topLevel: number): string {
+	const lines = text.split(/\r?\n/);
+	let inCodeFence = false;
+	const levels: number[] = [];
+	for (const line of lines) {
+		if (FENCE_PATTERN.test(line)) {
+			inCodeFence = !inCodeFence;
+		}
+		const heading = inCodeFence ? null : HEADING_PATTERN.exec(line);
+		if (heading) {
+			levels.push(heading[1].length);
+		}
+	}
+	if (levels.length === 0) {
+		return text;
+	}
+
+	const offset = topLevel - Math.min(...levels);
+	inCodeFence = false;
+	return lines.map(line => {
+		if (FENCE_PATTERN.test(line)) {
+			inCodeFence = !inCodeFence;
+		}
+		if (inCodeFence || !HEADING_PATTERN.test(line)) {
+			return line;
+		}
+		return line.replace(/^#{1,6}/, hashes => '#'.repeat(Math.max(1, Math.min(6, hashes.length + offset))));
+	}).join('\n');
+}
+
+/**
+ * Turn a heading into a kebab-case file name stem (e.g. "API & Errors" -> "api-errors")
+ */
+export function toKebabCase(title: string): string {
+	return title
+		.toLowerCase()
+		.replace(/[`*_]/g, '')
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Turn a file or rule name into a title (e.g. "code-review.mdc" -> "Code Review")
+ */
+export function toTitle(name: string): string {
+	return name
+		.replace(/\.(mdc|md)$/, '')
+		.split(/[-_\s.]+/)
+		.filter(word => word.length > 0)
+		.map(word => word.charAt(0).toUpperCase() + word.substring(1))
+		.join(' ');
+}
@@ -2,6 +2,7 @@
 import * as vscode from 'vscode';
 import matter from 'gray-matter';
 import { RuleMetadata } from '../scanner/rulesScanner';
+import { classifyRuleType, extractExtraFrontmatter } from './ruleTypes';
 
 export class MDCParser {
 	static async parseMDC(uri: vscode.Uri): Promise<{ metadata: RuleMetadata; content: string }> {
@@ -12,22 +13,16 @@ export class MDCParser {
 		// Parse frontmatter using gray-matter
 		const parsed = matter(text);
 
-		// Extract metadata with defaults
-		const metadata: RuleMetadata = {
-			description: parsed.data.description || 'No description',
-			globs: parsed.data.globs || [],
-			alwaysApply: parsed.data.alwaysApply || false
-		};
-
 		return {
-			metadata,
+			metadata: MDCParser.extractMetadata(parsed.data),
 			content: parsed.content.trim()
 		};
 	} catch (error) {
 		// Return default metadata if parsing fails
 		return {
 			metadata: {
-				description: 'Error parsing file'
+				description: 'Error parsing file',
+				ruleType: 'manual'
 			},
 			content: 'Error reading file content'
 		};
@@ -36,9 +31,12 @@ export class MDCParser {
 
 	static generateMDC(metadata: RuleMetadata, content: string): string {
 		// Create frontmatter object
-		const frontmatter: any = {
-			description: metadata.description
-		};
+		const frontmatter: any = {};
+
+		// Rules without a description (Always/Manual) keep it out of the frontmatter
+		if (metadata.description) {
+			frontmatter.description = metadata.description;
+		}
 
 		// Add optional fields if they exist
 		if (metadata.globs && metadata.globs.length > 0) {
@@ -49,6 +47,15 @@ export class MDCParser {
 			frontmatter.alwaysApply = metadata.alwaysApply;
 		}
 
+		// Write back any frontmatter keys we don't model, without overriding known ones
+		if (metadata.extra) {
+			for (const [key, value] of Object.entries(metadata.extra)) {
+				if (!(key in frontmatter)) {
+					frontmatter[key] = value;
+				}
+			}
+		}
+
 		// Generate MDC format using gray-matter
 		return matter.stringify(content, frontmatter);
 	}
@@ -58,15 +65,8 @@ export class MDCParser {
 			// Parse frontmatter using gray-matter
 			const parsed = matter(text);
 
-			// Extract metadata with defaults
-			const metadata: RuleMetadata = {
-				description: parsed.data.description || 'No description',
-				globs: parsed.data.globs || [],
-				alwaysApply: parsed.data.alwaysApply || false
-			};
-
 			return {
-				metadata,
+				metadata: MDCParser.extractMetadata(parsed.data),
 				content: parsed.content.trim()
 			};
 		} catch (error) {
@@ -74,6 +74,30 @@ export class MDCParser {
 		}
 	}
 
+	/**
+	 * Build rule metadata from raw frontmatter, classifying the rule type
+	 * and keeping unknown keys for round-tripping through generateMDC
+	 */
+	static extractMetadata(data: Record<string, any>): RuleMetadata {
+		const metadata: RuleMetadata = {
+			globs: data.globs || [],
+			alwaysApply: data.alwaysApply || false,
+			ruleType: classifyRuleType(data)
+		};
+
+		// Left unset when missing; the UI shows DEFAULT_DESCRIPTION in its place
+		if (data.description) {
+			metadata.description = data.description;
+		}
+
+		const extra = extractExtraFrontmatter(data);
+		if (extra) {
+			metadata.extra = extra;
+		}
+
+		return metadata;
+	}
+
 	static validateMDC(text: string): { valid: boolean; errors: string[] } {
 		const errors: string[] = [];
 
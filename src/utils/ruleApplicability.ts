@@ -0,0 +1,104 @@
+// Rule Applicability - Determine which rules Cursor attaches to a given file
+import { Rule } from '../scanner/rulesScanner';
+import { findMatchingGlob } from './globMatcher';
+
+/**
+ * A rule that applies to a file, with the reason it was attached
+ */
+export interface ApplicableRule {
+	rule: Rule;
+	reason: 'alwaysApply' | 'glob';
+	matchedGlob?: string;
+	relativePath: string;
+}
+
+const RULES_SEGMENT = '/.cursor/rules/';
+
+/**
+ * Sources Cursor applies to every file under the folder that contains them (.cursorrules, AGENTS.md)
+ */
+const ALWAYS_APPLIED_SOURCES = ['cursorrules', 'agents'];
+
+/**
+ * Get the directory a rule's globs are relative to
+ * Nested rules (e.g. packages/api/.cursor/rules/x.mdc) resolve against their own folder.
+ * @param rulePath Forward-slash path of the rule file (Uri.path)
+ * @returns Directory containing the .cursor folder, or undefined when not under .cursor/rules
+ */
+export function getRuleBasePath(rulePath: string): string | undefined {
+	const index = rulePath.lastIndexOf(RULES_SEGMENT);
+	if (index === -1) {
+		return undefined;
+	}
+	return rulePath.substring(0, index);
+}
+
+/**
+ * Normalize the globs frontmatter value into an array of patterns
+ * Accepts arrays as well as comma-separated strings written by hand.
+ */
+export function normalizeGlobs(globs: unknown): string[] {
+	if (Array.isArray(globs)) {
+		return globs
+			.filter((glob): glob is string => typeof glob === 'string')
+			.map(glob => glob.trim())
+			.filter(glob => glob.length > 0);
+	}
+	if (typeof globs === 'string') {
+		return globs.split(',').map(glob => glob.trim()).filter(glob => glob.length > 0);
+	}
+	return [];
+}
+
+/**
+ * Check a single rule against a file
+ * @param rule Scanned rule
+ * @param filePath Forward-slash path of the file (Uri.path)
+ * @returns Applicability details, or null when the rule is not attached
+ */
+export function getRuleApplicability(rule: Rule, filePath: string): ApplicableRule | null {
+	const alwaysApplied = rule.source !== undefined && ALWAYS_APPLIED_SOURCES.includes(rule.source);
+	const basePath = alwaysApplied
+		? rule.uri.path.substring(0, rule.uri.path.lastIndexOf('/'))
+		: getRuleBasePath(rule.uri.path);
+	if (basePath === undefined || !filePath.startsWith(`${basePath}/`)) {
+		return null;
+	}
+
+	const relativePath = filePath.substring(basePath.length + 1);
+
+	if (alwaysApplied || rule.metadata.alwaysApply === true) {
+		return { rule, reason: 'alwaysApply', relativePath };
+	}
+
+	const matchedGlob = findMatchingGlob(relativePath, normalizeGlobs(rule.metadata.globs));
+	if (matchedGlob) {
+		return { rule, reason: 'glob', matchedGlob, relativePath };
+	}
+
+	return null;
+}
+
+/**
+ * Get every rule that would be attached to a file
+ * @param rules Rules from RulesScanner.scanRules()
+ * @param filePath Forward-slash path of the file (Uri.path)
+ * @returns Always-apply rules first, then glob matches, each sorted by file name
+ */
+export function getApplicableRules(rules: Rule[], filePath: string): ApplicableRule[] {
+	const applicable: ApplicableRule[] = [];
+
+	for (const rule of rules) {
+		const match = getRuleApplicability(rule, filePath);
+		if (match) {
+			applicable.push(match);
+		}
+	}
+
+	return applicable.sort((a, b) => {
+		if (a.reason !== b.reason) {
+			return a.reason === 'alwaysApply' ? -1 : 1;
+		}
+		return a.rule.fileName.localeCompare(b.rule.fileName);
+	});
+}
@@ -0,0 +1,96 @@
+// Rule Budget - Estimate how much of the context window rules consume
+import { Rule } from '../scanner/rulesScanner';
+import { isReadByCursor } from './ruleSources';
+
+/**
+ * Default token budget for always-apply rules (projectRules.alwaysApplyTokenBudget)
+ */
+export const DEFAULT_ALWAYS_APPLY_TOKEN_BUDGET = 4000;
+
+/**
+ * Average characters per token for English prose and code; close enough for budgeting
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimated size of a single rule
+ */
+export interface RuleSize {
+	tokens: number;
+	bytes: number;
+}
+
+/**
+ * Tokens consumed on every request by a project's always-apply rules
+ */
+export interface ContextBudget {
+	alwaysApplyRules: Array<{ rule: Rule; size: RuleSize }>;  // Largest first
+	alwaysApplyTokens: number;
+	totalTokens: number;     // All rules, for comparison
+	budget: number;
+	exceeded: boolean;
+}
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export function estimateTokens(text: string): number {
+	return text.length === 0 ? 0 : Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate what a rule costs when it is included in context
+ * Counts the rule body plus its description, which Cursor sends alongside it.
+ */
+export function getRuleSize(rule: Rule): RuleSize {
+	const text = `${rule.metadata.description || ''}\n${rule.content || ''}`.trim();
+	return {
+		tokens: estimateTokens(text),
+		bytes: Buffer.byteLength(text, 'utf8')
+	};
+}
+
+/**
+ * Calculate the always-apply context budget for a set of rules
+ * Only rules Cursor loads count; other assistants' instruction files are ignored.
+ * @param rules Rules from a single project
+ * @param budget Token budget for always-apply rules
+ */
+export function calculateContextBudget(rules: Rule[], budget: number = DEFAULT_ALWAYS_APPLY_TOKEN_BUDGET): ContextBudget {
+	const sized = rules.filter(isReadByCursor).map(rule => ({ rule, size: getRuleSize(rule) }));
+	const alwaysApplyRules = sized
+		.filter(({ rule }) => rule.metadata.alwaysApply === true)
+		.sort((a, b) => b.size.tokens - a.size.tokens);
+	const alwaysApplyTokens = alwaysApplyRules.reduce((sum, { size }) => sum + size.tokens, 0);
+
+	return {
+		alwaysApplyRules,
+		alwaysApplyTokens,
+		totalTokens: sized.reduce((sum, { size }) => sum + size.tokens, 0),
+		budget,
+		exceeded: budget > 0 && alwaysApplyTokens > budget
+	};
+}
+
+/**
+ * Format a token count for display (e.g. "850 tokens", "1.2k tokens")
+ */
+export function formatTokens(tokens: number): string {
+	if (tokens < 1000) {
+		return `${tokens} tokens`;
+	}
+	return `${(tokens / 1000).toFixed(1).replace(/\.0$/, '')}k tokens`;
+}
+
+/**
+ * Format a byte count for display (e.g. "512 B", "3.4 KB")
+ */
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${(bytes / 1024).toFixed(1)} KB`;
+	}
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,180 @@
+// Rule Conversion - Convert rules between Cursor, Copilot, AGENTS.md and CLAUDE.md formats
+import matter from 'gray-matter';
+import { Rule, RuleMetadata } from '../scanner/rulesScanner';
+import { RULE_TYPES, resolveRuleType } from './ruleTypes';
+import { normalizeGlobs } from './ruleApplicability';
+import { extractFileReferences } from './fileReferences';
+import { MarkdownSection, shiftHeadings, splitMarkdownSections, toKebabCase, toTitle } from './markdownSections';
+import { RuleSource, getRuleSourceOf } from './ruleSources';
+
+/**
+ * Formats a rule can be converted to
+ */
+export type ConversionTarget = 'cursor' | 'copilot' | 'agents' | 'claude';
+
+/**
+ * A converted rule for a non-Cursor target
+ */
+export interface ConvertedRule {
+	filePath: string;    // Project-relative path of the file to write
+	append: boolean;     // Append to the file (AGENTS.md / CLAUDE.md sections) instead of replacing it
+	text: string;
+	warnings: string[];  // Things the target format can't represent
+}
+
+/**
+ * A rule converted to Cursor's format, rendered with MDCParser.generateMDC
+ */
+export interface ConvertedCursorRule {
+	filePath: string;
+	metadata: RuleMetadata;
+	content: string;
+	warnings: string[];
+}
+
+const APPLIES_TO_PATTERN = /^_?Applies to:[ \t]*(.+?)_?[ \t]*$/m;
+
+/**
+ * Get the formats a rule from the given source can be converted to
+ */
+export function getConversionTargets(source: RuleSource): ConversionTarget[] {
+	return source === 'cursor' ? ['copilot', 'agents', 'claude'] : ['cursor'];
+}
+
+/**
+ * Convert a Cursor rule to a Copilot .instructions.md file
+ * Globs map to `applyTo`; always-apply rules apply to "**".
+ */
+export function convertToCopilot(rule: Rule): ConvertedRule {
+	const ruleType = resolveRuleType(rule.metadata);
+	const globs = normalizeGlobs(rule.metadata.globs);
+	const warnings = getCommonWarnings(rule, 'Copilot');
+
+	const frontmatter: Record<string, unknown> = {};
+	if (rule.metadata.description) {
+		frontmatter.description = rule.metadata.description;
+	}
+	if (ruleType === 'always') {
+		frontmatter.applyTo = '**';
+	} else if (globs.length > 0) {
+		frontmatter.applyTo = globs.join(',');
+	}
+
+	if (ruleType === 'agent') {
+		warnings.push(`${RULE_TYPES.agent.label}: Copilot has no equivalent. Without applyTo, the instructions are only used when attached manually.`);
+	}
+	if (rule.metadata.alwaysApply && globs.length > 0) {
+		warnings.push(`Globs (${globs.join(', ')}) are ignored because the rule is always applied.`);
+	}
+
+	return {
+		filePath: `.github/instructions/${getBaseName(rule.fileName)}.instructions.md`,
+		append: false,
+		text: matter.stringify(`\n${rule.content.trim()}\n`, frontmatter),
+		warnings
+	};
+}
+
+/**
+ * Convert a Cursor rule to a section appended to AGENTS.md or CLAUDE.md
+ * These files are always loaded, so globs are kept as an "Applies to" note that converts back.
+ */
+export function convertToSection(rule: Rule, target: 'agents' | 'claude'): ConvertedRule {
+	const ruleType = resolveRuleType(rule.metadata);
+	const globs = normalizeGlobs(rule.metadata.globs);
+	const fileName = target === 'agents' ? 'AGENTS.md' : 'CLAUDE.md';
+	const warnings = getCommonWarnings(rule, fileName);
+
+	const [first, ...rest] = splitMarkdownSections(rule.content, 1);
+	const hasTitle = first?.level === 1 && rest.length === 0;
+	const title = hasTitle ? first.title! : toTitle(getBaseName(rule.fileName));
+	const body = hasTitle ? first.body : rule.content.trim();
+
+	const lines = [`## ${title}`, ''];
+	if (rule.metadata.description && rule.metadata.description !== title) {
+		lines.push(rule.metadata.description, '');
+	}
+	if (globs.length > 0 && !rule.metadata.alwaysApply) {
+		lines.push(`_Applies to: ${globs.map(glob => `\`${glob}\``).join(', ')}_`, '');
+		warnings.push(`Globs: ${fileName} is always loaded, so the globs (${globs.join(', ')}) were kept as an "Applies to" note.`);
+	}
+	if (body) {
+		lines.push(shiftHeadings(body, 3));
+	}
+
+	if (ruleType === 'agent' || ruleType === 'manual') {
+		warnings.push(`${RULE_TYPES[ruleType].label}: ${fileName} sections are always loaded, so the rule will always apply.`);
+	}
+
+	return {
+		filePath: fileName,
+		append: true,
+		text: `${lines.join('\n').trimEnd()}\n`,
+		warnings
+	};
+}
+
+/**
+ * Convert another assistant's instruction file (or one of its sections) to a Cursor rule
+ * Copilot's applyTo and "Applies to" notes written by convertToSection become globs.
+ * @param section Section of the file to convert; the whole file when omitted
+ */
+export function convertToCursor(rule: Rule, section?: MarkdownSection): ConvertedCursorRule {
+	const source = getRuleSourceOf(rule);
+	const warnings: string[] = [];
+	let content = section ? section.body : rule.content.trim();
+	let globs = section ? [] : normalizeGlobs(rule.metadata.globs);
+
+	const appliesTo = APPLIES_TO_PATTERN.exec(content);
+	if (appliesTo && globs.length === 0) {
+		globs = Array.from(appliesTo[1].matchAll(/`([^`]+)`/g), match => match[1]);
+		content = content.replace(/^_?Applies to:.*(?:\r?\n)*/m, '').trim();
+	}
+
+	const title = section?.title;
+	if (title) {
+		content = `# ${title}\n\n${shiftHeadings(content, 2)}`.trim();
+	}
+
+	const stem = toKebabCase(title || getBaseName(rule.fileName).replace(/\.instructions$/, ''));
+	const description = !section && rule.metadata.description
+		? rule.metadata.description
+		: title || `${toTitle(stem)} instructions`;
+
+	if (source === 'claude' && extractFileReferences(content).length > 0) {
+		warnings.push('@file imports: Cursor attaches @file references as context instead of importing them into the rule.');
+	}
+
+	return {
+		filePath: `.cursor/rules/${stem || 'instructions'}.mdc`,
+		metadata: globs.length > 0
+			? { description, globs, alwaysApply: false }
+			: { description, alwaysApply: true },
+		content,
+		warnings
+	};
+}
+
+/**
+ * Append a section to an existing AGENTS.md / CLAUDE.md, separated by a blank line
+ */
+export function appendSection(existing: string, section: string): string {
+	const trimmed = existing.trimEnd();
+	return trimmed ? `${trimmed}\n\n${section}` : section;
+}
+
+function getCommonWarnings(rule: Rule, targetName: string): string[] {
+	const warnings: string[] = [];
+	const extraKeys = Object.keys(rule.metadata.extra || {});
+	if (extraKeys.length > 0) {
+		warnings.push(`Frontmatter: ${extraKeys.join(', ')} can't be represented in ${targetName} and will be dropped.`);
+	}
+	if (extractFileReferences(rule.content).length > 0 && targetName !== 'CLAUDE.md') {
+		warnings.push(`@file references: ${targetName} doesn't attach referenced files; they will stay as plain text.`);
+	}
+	return warnings;
+}
+
+function getBaseName(fileName: string): string {
+	return fileName.replace(/\.(mdc|md)$/, '');
+}
@@ -0,0 +1,215 @@
+// Rule Generator - Propose starter rules from a scanned project state
+import matter from 'gray-matter';
+import { ProjectState } from '../scanner/stateScanner';
+import { buildTemplateVariables } from './ruleTemplates';
+
+/**
+ * A rule proposed from the project state, not yet written to disk
+ */
+export interface GeneratedRule {
+	id: string;
+	fileName: string;
+	summary: string;  // Why the rule was proposed, shown in the picker
+	text: string;
+}
+
+export interface RuleGenerationOptions {
+	projectName: string;
+	testFolders?: string[];  // Project-relative test folders, e.g. ["test", "packages/api/tests"]
+}
+
+const TEST_FOLDER_NAMES = ['test', 'tests', '__tests__', 'spec', 'specs'];
+
+/**
+ * Propose starter rules for a project: overview, testing, frameworks, code quality and architecture
+ * Rules are only proposed for areas where the scan found something to say.
+ */
+export function generateRulesFromState(state: Partial<ProjectState>, options: RuleGenerationOptions): GeneratedRule[] {
+	const variables = buildTemplateVariables('', options.projectName, state);
+	const rules: GeneratedRule[] = [];
+
+	const overview = generateOverviewRule(state, options.projectName);
+	if (overview) { rules.push(overview); }
+
+	const testing = generateTestingRule(state, options.testFolders || [], variables.testGlob);
+	if (testing) { rules.push(testing); }
+
+	const frameworks = generateFrameworksRule(state);
+	if (frameworks) { rules.push(frameworks); }
+
+	const codeQuality = generateCodeQualityRule(state, variables.sourceGlob);
+	if (codeQuality) { rules.push(codeQuality); }
+
+	const architecture = generateArchitectureRule(state, options.projectName);
+	if (architecture) { rules.push(architecture); }
+
+	return rules;
+}
+
+/**
+ * Reduce project-relative file paths to the test folders that contain them
+ * The outermost test folder wins, so "test/unit/a.ts" and "test/b.ts" both give "test".
+ */
+export function getTestFolders(filePaths: string[]): string[] {
+	const folders = new Set<string>();
+	for (const filePath of filePaths) {
+		const segments = filePath.replace(/\\/g, '/').split('/');
+		const index = segments.slice(0, -1).findIndex(segment => TEST_FOLDER_NAMES.includes(segment.toLowerCase()));
+		if (index >= 0 && !segments.includes('node_modules')) {
+			folders.add(segments.slice(0, index + 1).join('/'));
+		}
+	}
+	return Array.from(folders).sort();
+}
+
+/**
+ * Compare an existing rule file with a generated one, ignoring line ending differences
+ */
+export function isSameRuleText(existing: string, generated: string): boolean {
+	return existing.replace(/\r\n/g, '\n').trim() === generated.replace(/\r\n/g, '\n').trim();
+}
+
+function generateOverviewRule(state: Partial<ProjectState>, projectName: string): GeneratedRule | undefined {
+	const identity = state.identity;
+	const guidance = state.agentGuidance;
+	const description = state.capabilities?.description;
+	if (!identity && !guidance && !description) {
+		return undefined;
+	}
+
+	const lines = [`# ${projectName}`, ''];
+	if (description) {
+		lines.push(description, '');
+	}
+	if (identity) {
+		lines.push(
+			`- **Type**: ${identity.projectType}`,
+			`- **Language**: ${identity.primaryLanguage}`,
+			`- **Maturity**: ${identity.maturityLevel}`,
+			''
+		);
+	}
+	if (guidance?.suggestedApproach) {
+		lines.push('## Approach', '', guidance.suggestedApproach, '');
+	}
+	pushSection(lines, 'Critical Files', (guidance?.criticalFiles || []).map(file => `\`${file}\``));
+	pushSection(lines, 'Common Tasks', guidance?.commonTasks || []);
+	pushSection(lines, 'Watch Out For', guidance?.watchOuts || []);
+
+	return {
+		id: 'project-overview',
+		fileName: 'project-overview.mdc',
+		summary: 'Always applied: project purpose, approach and watch-outs',
+		text: buildRule({ description: `Overview of ${projectName} for every request`, alwaysApply: true }, lines)
+	};
+}
+
+function generateTestingRule(state: Partial<ProjectState>, testFolders: string[], testGlob: string): GeneratedRule | undefined {
+	const frameworks = (state.testing || []).filter(framework => framework !== 'Test directory structure');
+	if (frameworks.length === 0 && testFolders.length === 0) {
+		return undefined;
+	}
+
+	const globs = testFolders.length > 0 ? testFolders.map(folder => `${folder}/**`) : [testGlob];
+	const lines = ['# Testing', ''];
+	if (frameworks.length > 0) {
+		lines.push(`Tests use ${frameworks.join(', ')}.`, '');
+	}
+	if (testFolders.length > 0) {
+		pushSection(lines, 'Test Locations', testFolders.map(folder => `\`${folder}/\``));
+	}
+	pushSection(lines, 'Guidelines', [
+		'Add or update tests alongside every behavior change',
+		'Follow the structure and naming of the existing tests',
+		'Cover error paths and edge cases, not just the happy path'
+	]);
+
+	return {
+		id: 'testing',
+		fileName: 'testing.mdc',
+		summary: `Auto attached to ${globs.join(', ')}`,
+		text: buildRule({ description: 'Testing conventions', globs }, lines)
+	};
+}
+
+function generateFrameworksRule(state: Partial<ProjectState>): GeneratedRule | undefined {
+	const frameworks = state.frameworks || [];
+	if (frameworks.length === 0) {
+		return undefined;
+	}
+
+	const lines = ['# Frameworks', '', `This project is built with ${frameworks.join(', ')}.`, ''];
+	pushSection(lines, 'Build Tools', state.buildTools || []);
+	pushSection(lines, 'Guidelines', [
+		'Use the framework\'s established patterns before adding new abstractions',
+		'Match the versions and APIs already used in the codebase',
+		'Prefer existing dependencies over adding new ones'
+	]);
+
+	return {
+		id: 'frameworks',
+		fileName: 'frameworks.mdc',
+		summary: 'Auto attached to src/**',
+		text: buildRule({ description: `Working with ${frameworks.join(', ')}`, globs: ['src/**'] }, lines)
+	};
+}
+
+function generateCodeQualityRule(state: Partial<ProjectState>, sourceGlob: string): GeneratedRule | undefined {
+	const tools = state.codeQuality || [];
+	if (tools.length === 0) {
+		return undefined;
+	}
+
+	const lines = ['# Code Quality', ''];
+	pushSection(lines, 'Tools', tools);
+	pushSection(lines, 'Guidelines', [
+		'Keep code free of linter and type-checker warnings',
+		'Don\'t disable rules inline without a comment explaining why',
+		'Let the formatter decide formatting'
+	]);
+
+	return {
+		id: 'code-quality',
+		fileName: 'code-quality.mdc',
+		summary: `Auto attached to ${sourceGlob}`,
+		text: buildRule({ description: 'Code quality tools and conventions', globs: [sourceGlob] }, lines)
+	};
+}
+
+function generateArchitectureRule(state: Partial<ProjectState>, projectName: string): GeneratedRule | undefined {
+	const architecture = state.enhancedArchitecture;
+	if (!architecture) {
+		return undefined;
+	}
+
+	const lines = ['# Architecture', '', `- **Style**: ${architecture.style}`, `- **Organization**: ${architecture.organization}`, ''];
+	pushSection(lines, 'Patterns', architecture.patterns);
+	pushSection(lines, 'Entry Points', architecture.entryPoints.map(entryPoint => `\`${entryPoint}\``));
+	pushSection(lines, 'Guidelines', [
+		'Place new code in the layer and folder that matches its responsibility',
+		'Follow the patterns above instead of introducing new ones'
+	]);
+
+	return {
+		id: 'architecture',
+		fileName: 'architecture.mdc',
+		summary: 'Agent requested: style, patterns and entry points',
+		text: buildRule({ description: `Architecture of ${projectName}: style, patterns and entry points` }, lines)
+	};
+}
+
+function pushSection(lines: string[], title: string, items: string[]): void {
+	if (items.length === 0) {
+		return;
+	}
+	lines.push(`## ${title}`, '', ...items.map(item => `- ${item}`), '');
+}
+
+function buildRule(frontmatter: { description?: string; globs?: string[]; alwaysApply?: boolean }, lines: string[]): string {
+	const data = {
+		...(frontmatter.description ? { description: frontmatter.description } : {}),
+		...(frontmatter.globs ? { globs: frontmatter.globs } : {}),
+		alwaysApply: frontmatter.alwaysApply || false
+	};
+	return matter.stringify(`\n${lines.join('\n').trimEnd()}\n`, data);
+}
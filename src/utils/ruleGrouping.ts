@@ -0,0 +1,81 @@
+// Rule Grouping - Group rules for the hierarchical tree view modes
+import { Rule } from '../scanner/rulesScanner';
+import { RuleType, resolveRuleType } from './ruleTypes';
+import { getRuleBasePath } from './ruleApplicability';
+
+/**
+ * How the Rules section of each project is laid out
+ * - flat: every rule in one list
+ * - directory: grouped by the folder containing each .cursor/rules (monorepo packages)
+ * - type: grouped by rule type (Always/Auto Attached/Agent Requested/Manual)
+ */
+export type RulesViewMode = 'flat' | 'directory' | 'type';
+
+export const RULES_VIEW_MODES: Record<RulesViewMode, { label: string; description: string }> = {
+	flat: { label: 'Flat List', description: 'Show every rule in a single list' },
+	directory: { label: 'Group by Directory', description: 'Group rules by the package that owns each .cursor/rules folder' },
+	type: { label: 'Group by Rule Type', description: 'Group rules into Always, Auto Attached, Agent Requested and Manual' }
+};
+
+const RULE_TYPE_ORDER: RuleType[] = ['always', 'auto', 'agent', 'manual'];
+
+/**
+ * Check whether a stored value is a known view mode
+ */
+export function isRulesViewMode(value: unknown): value is RulesViewMode {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RULES_VIEW_MODES, value);
+}
+
+/**
+ * Group rules by the directory that contains their .cursor/rules folder
+ * @param rules Rules of a single project
+ * @param projectRoot Forward-slash path of the project root (Uri.path)
+ * @returns Directory relative to the project root ('' for the root) to rules, root first then alphabetical
+ */
+export function groupRulesByDirectory(rules: Rule[], projectRoot: string): Map<string, Rule[]> {
+	const root = projectRoot.replace(/\/+$/, '');
+	const groups = new Map<string, Rule[]>();
+
+	for (const rule of rules) {
+		const basePath = getRuleBasePath(rule.uri.path) ?? root;
+		const directory = basePath === root
+			? ''
+			: basePath.startsWith(`${root}/`) ? basePath.substring(root.length + 1) : basePath;
+
+		const group = groups.get(directory) || [];
+		group.push(rule);
+		groups.set(directory, group);
+	}
+
+	return new Map(Array.from(groups.entries()).sort(([a], [b]) => {
+		if (a === '' || b === '') {
+			return a === '' ? -1 : 1;
+		}
+		return a.localeCompare(b);
+	}));
+}
+
+/**
+ * Group rules by rule type, in Cursor's documented order, omitting empty groups
+ */
+export function groupRulesByType(rules: Rule[]): Map<RuleType, Rule[]> {
+	const groups = new Map<RuleType, Rule[]>();
+
+	for (const ruleType of RULE_TYPE_ORDER) {
+		const matching = rules.filter(rule => resolveRuleType(rule.metadata) === ruleType);
+		if (matching.length > 0) {
+			groups.set(ruleType, matching);
+		}
+	}
+
+	return groups;
+}
+
+/**
+ * Get a rule's path inside its .cursor/rules folder (e.g. "security/auth.mdc")
+ */
+export function getRulePathInRulesFolder(rule: Rule): string {
+	const marker = '/.cursor/rules/';
+	const index = rule.uri.path.lastIndexOf(marker);
+	return index === -1 ? rule.fileName : rule.uri.path.substring(index + marker.length);
+}
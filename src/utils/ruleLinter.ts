@@ -0,0 +1,288 @@
+// Rule Linter - Check MDC rule files for mistakes Cursor silently ignores
+import { parseDocument, isMap, isScalar, isSeq, Node, Pair } from 'yaml';
+import { normalizeGlobs } from './ruleApplicability';
+import { matchGlob } from './globMatcher';
+import { extractFileReferences } from './fileReferences';
+
+export type RuleLintCode =
+	| 'invalid-frontmatter'
+	| 'missing-description'
+	| 'globs-comma-string'
+	| 'invalid-globs'
+	| 'glob-no-match'
+	| 'always-apply-not-boolean'
+	| 'always-apply-with-globs'
+	| 'empty-body'
+	| 'oversized-rule'
+	| 'broken-reference';
+
+export type RuleLintSeverity = 'error' | 'warning' | 'information';
+
+/**
+ * A lint problem with a 0-based position in the rule text
+ */
+export interface RuleLintIssue {
+	code: RuleLintCode;
+	message: string;
+	severity: RuleLintSeverity;
+	line: number;
+	column: number;
+	endLine: number;
+	endColumn: number;
+	target?: string;  // Offending glob or reference, when the issue is about one value
+}
+
+/**
+ * Project information the linter can't compute from the text alone
+ */
+export interface RuleLintContext {
+	projectFiles?: string[];          // Paths relative to the rule's base directory; glob checks are skipped without it
+	missingReferences?: Set<string>;  // References (as written) that don't resolve to a file
+}
+
+/**
+ * Rule files longer than this (body lines) eat a large share of the context window
+ */
+export const MAX_RULE_LINES = 500;
+
+/**
+ * A rule file split into its frontmatter and body, with offsets into the original text
+ */
+export interface RuleTextSections {
+	frontmatter?: string;
+	frontmatterStart: number;  // Offset of the first frontmatter character (after the opening ---)
+	closingDelimiter?: number; // Offset of the closing --- line, undefined when unterminated
+	body: string;
+	bodyStart: number;
+}
+
+/**
+ * Split rule text into frontmatter and body
+ */
+export function splitRuleText(text: string): RuleTextSections {
+	const opening = /^---[ \t]*\r?\n/.exec(text);
+	if (!opening) {
+		return { frontmatterStart: 0, body: text, bodyStart: 0 };
+	}
+
+	const frontmatterStart = opening[0].length;
+	const closing = /^---[ \t]*(\r?\n|$)/m.exec(text.substring(frontmatterStart));
+	if (!closing) {
+		return { frontmatter: text.substring(frontmatterStart), frontmatterStart, body: '', bodyStart: text.length };
+	}
+
+	const closingDelimiter = frontmatterStart + closing.index;
+	const bodyStart = closingDelimiter + closing[0].length;
+	return {
+		frontmatter: text.substring(frontmatterStart, closingDelimiter),
+		frontmatterStart,
+		closingDelimiter,
+		body: text.substring(bodyStart),
+		bodyStart
+	};
+}
+
+/**
+ * Lint the full text of an MDC rule file
+ * @param text Rule file contents, including frontmatter
+ * @param context Project files and unresolved references, when known
+ * @returns Issues in document order
+ */
+export function lintRuleText(text: string, context: RuleLintContext = {}): RuleLintIssue[] {
+	const issues: RuleLintIssue[] = [];
+	const positions = new PositionMapper(text);
+	const sections = splitRuleText(text);
+	const headerRange = (): [number, number] => [0, Math.min(3, text.length)];
+
+	const add = (code: RuleLintCode, severity: RuleLintSeverity, message: string, range: [number, number], target?: string) => {
+		const start = positions.at(range[0]);
+		const end = positions.at(range[1]);
+		issues.push({ code, severity, message, line: start.line, column: start.column, endLine: end.line, endColumn: end.column, target });
+	};
+
+	// Frontmatter
+	if (sections.frontmatter === undefined) {
+		add('missing-description', 'warning', 'Rule has no frontmatter; add a description so agents know when to use it', headerRange());
+	} else if (sections.closingDelimiter === undefined) {
+		add('invalid-frontmatter', 'error', 'Frontmatter is not closed with ---', headerRange());
+	} else {
+		lintFrontmatter(sections.frontmatter, sections.frontmatterStart, context, add, headerRange());
+	}
+
+	// Body
+	const bodyLines = sections.body.split(/\r?\n/);
+	if (sections.body.trim().length === 0) {
+		const delimiter = sections.closingDelimiter ?? 0;
+		add('empty-body', 'warning', 'Rule has no content after the frontmatter', [delimiter, delimiter + 3]);
+	} else if (bodyLines.length > MAX_RULE_LINES) {
+		add('oversized-rule', 'warning', `Rule is ${bodyLines.length} lines long (limit ${MAX_RULE_LINES}); consider splitting it into smaller rules`, headerRange());
+	}
+
+	if (context.missingReferences && context.missingReferences.size > 0) {
+		const bodyPosition = positions.at(sections.bodyStart);
+		for (const reference of extractFileReferences(sections.body)) {
+			if (!context.missingReferences.has(reference.reference)) {
+				continue;
+			}
+			const line = bodyPosition.line + reference.line;
+			const column = reference.line === 0 ? bodyPosition.column + reference.column : reference.column;
+			issues.push({
+				code: 'broken-reference',
+				severity: 'warning',
+				message: `Referenced file not found: ${reference.reference}`,
+				line,
+				column,
+				endLine: line,
+				endColumn: column + reference.length,
+				target: reference.reference
+			});
+		}
+	}
+
+	return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Check the YAML frontmatter; offsets reported to add() are relative to the whole file
+ */
+function lintFrontmatter(
+	frontmatter: string,
+	offset: number,
+	context: RuleLintContext,
+	add: (code: RuleLintCode, severity: RuleLintSeverity, message: string, range: [number, number], target?: string) => void,
+	headerRange: [number, number]
+): void {
+	const document = parseDocument(frontmatter);
+	if (document.errors.length > 0) {
+		const error = document.errors[0];
+		add('invalid-frontmatter', 'error', `Invalid frontmatter: ${error.message.split('\n')[0]}`, [offset + error.pos[0], offset + error.pos[1]]);
+		return;
+	}
+
+	const contents = document.contents;
+	if (contents !== null && !isMap(contents)) {
+		add('invalid-frontmatter', 'error', 'Frontmatter must be a set of key: value pairs', rangeOf(contents as Node, offset) ?? headerRange);
+		return;
+	}
+
+	const pairs = getFrontmatterPairs(contents);
+
+	const keyRange = (pair: Pair): [number, number] => rangeOf(pair.key as Node, offset) ?? headerRange;
+	const valueRange = (pair: Pair): [number, number] => rangeOf(pair.value as Node, offset) ?? keyRange(pair);
+
+	// description
+	const description = pairs.get('description');
+	const descriptionValue = description && isScalar(description.value) ? description.value.value : undefined;
+	if (!description) {
+		add('missing-description', 'warning', 'Missing description; agents use it to decide when to apply this rule', headerRange);
+	} else if (typeof descriptionValue !== 'string' || descriptionValue.trim().length === 0) {
+		add('missing-description', 'warning', 'Description is empty; agents use it to decide when to apply this rule', keyRange(description));
+	}
+
+	// globs
+	const globs = pairs.get('globs');
+	let globPatterns: string[] = [];
+	if (globs && globs.value !== null && !(isScalar(globs.value) && globs.value.value === null)) {
+		if (isScalar(globs.value) && typeof globs.value.value === 'string') {
+			add('globs-comma-string', 'warning', 'globs should be a YAML array, not a comma-separated string', valueRange(globs));
+			globPatterns = normalizeGlobs(globs.value.value);
+			if (context.projectFiles) {
+				// Point at each glob inside the string so every unmatched glob gets its own range
+				const [valueStart, valueEnd] = valueRange(globs);
+				const source = frontmatter.substring(valueStart - offset, valueEnd - offset);
+				let searchFrom = 0;
+				for (const glob of globPatterns) {
+					const index = source.indexOf(glob, searchFrom);
+					const globRange: [number, number] = index === -1 ? [valueStart, valueEnd] : [valueStart + index, valueStart + index + glob.length];
+					searchFrom = index === -1 ? searchFrom : index + glob.length;
+					if (!context.projectFiles.some(file => matchGlob(file, glob))) {
+						add('glob-no-match', 'warning', `Glob "${glob}" does not match any files in the project`, globRange, glob);
+					}
+				}
+			}
+		} else if (isSeq(globs.value)) {
+			for (const item of globs.value.items) {
+				if (!isScalar(item) || typeof item.value !== 'string') {
+					add('invalid-globs', 'error', 'Each glob must be a string', rangeOf(item as Node, offset) ?? valueRange(globs));
+					continue;
+				}
+				const glob = item.value.trim();
+				if (glob.length === 0) {
+					continue;
+				}
+				globPatterns.push(glob);
+				if (context.projectFiles && !context.projectFiles.some(file => matchGlob(file, glob))) {
+					add('glob-no-match', 'warning', `Glob "${glob}" does not match any files in the project`, rangeOf(item, offset) ?? valueRange(globs), glob);
+				}
+			}
+		} else {
+			add('invalid-globs', 'error', 'globs must be an array of glob patterns', valueRange(globs));
+		}
+	}
+
+	// alwaysApply
+	const alwaysApply = pairs.get('alwaysApply');
+	if (alwaysApply && alwaysApply.value !== null) {
+		const value = isScalar(alwaysApply.value) ? alwaysApply.value.value : undefined;
+		if (value !== null && typeof value !== 'boolean') {
+			add('always-apply-not-boolean', 'error', 'alwaysApply must be a boolean (true or false)', valueRange(alwaysApply));
+		} else if (value === true && globPatterns.length > 0) {
+			add('always-apply-with-globs', 'warning', 'globs are ignored when alwaysApply is true', keyRange(alwaysApply));
+		}
+	}
+}
+
+/**
+ * Index the top-level frontmatter pairs by key
+ * @param contents Root node of the parsed frontmatter (null for empty frontmatter)
+ */
+export function getFrontmatterPairs(contents: unknown): Map<string, Pair> {
+	const pairs = new Map<string, Pair>();
+	if (isMap(contents)) {
+		for (const pair of contents.items) {
+			if (isScalar(pair.key)) {
+				pairs.set(String(pair.key.value), pair);
+			}
+		}
+	}
+	return pairs;
+}
+
+/**
+ * Get the file offsets of a YAML node's value
+ */
+function rangeOf(node: Node | null | undefined, offset: number): [number, number] | undefined {
+	if (!node || !node.range) {
+		return undefined;
+	}
+	return [offset + node.range[0], offset + node.range[1]];
+}
+
+/**
+ * Convert text offsets into 0-based line/column positions
+ */
+class PositionMapper {
+	private lineStarts: number[] = [0];
+
+	constructor(text: string) {
+		for (let i = 0; i < text.length; i++) {
+			if (text[i] === '\n') {
+				this.lineStarts.push(i + 1);
+			}
+		}
+	}
+
+	at(offset: number): { line: number; column: number } {
+		let low = 0;
+		let high = this.lineStarts.length - 1;
+		while (low < high) {
+			const mid = Math.ceil((low + high) / 2);
+			if (this.lineStarts[mid] <= offset) {
+				low = mid;
+			} else {
+				high = mid - 1;
+			}
+		}
+		return { line: low, column: offset - this.lineStarts[low] };
+	}
+}
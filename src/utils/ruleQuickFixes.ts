@@ -0,0 +1,226 @@
+// Rule Quick Fixes - Compute text edits that repair common frontmatter mistakes
+import { parseDocument, isScalar, isSeq, stringify, Node, Pair } from 'yaml';
+import { getFrontmatterPairs, splitRuleText } from './ruleLinter';
+import { normalizeGlobs } from './ruleApplicability';
+
+/**
+ * Replace text between two offsets of the rule file
+ */
+export interface RuleTextEdit {
+	start: number;
+	end: number;
+	newText: string;
+}
+
+/**
+ * Parsed frontmatter with offsets relative to the whole rule file
+ */
+interface FrontmatterContext {
+	text: string;
+	offset: number;
+	pairs: Map<string, Pair>;
+}
+
+/**
+ * Convert a comma-separated globs string into a YAML array
+ * @returns Edit, or undefined when globs is not a string
+ */
+export function fixCommaGlobs(text: string): RuleTextEdit | undefined {
+	const frontmatter = parseFrontmatter(text);
+	const globs = frontmatter?.pairs.get('globs');
+	if (!frontmatter || !globs || !isScalar(globs.value) || typeof globs.value.value !== 'string') {
+		return undefined;
+	}
+
+	const key = globs.key as Node;
+	const indent = ' '.repeat(columnOf(text, frontmatter.offset + key.range![0]) + 2);
+	const items = normalizeGlobs(globs.value.value).map(glob => `\n${indent}- ${JSON.stringify(glob)}`).join('');
+
+	return {
+		start: frontmatter.offset + key.range![1],
+		end: frontmatter.offset + (globs.value as Node).range![1],
+		newText: items.length > 0 ? `:${items}` : ': []'
+	};
+}
+
+/**
+ * Add a description derived from the rule's first heading (or first line of content)
+ * @returns Edit, or undefined when a description is already set or nothing can be derived
+ */
+export function fixMissingDescription(text: string): RuleTextEdit | undefined {
+	const sections = splitRuleText(text);
+	const description = deriveDescription(sections.body);
+	if (!description) {
+		return undefined;
+	}
+
+	const line = `description: ${formatScalar(description)}`;
+	if (sections.frontmatter === undefined) {
+		return { start: 0, end: 0, newText: `---\n${line}\n---\n` };
+	}
+
+	const frontmatter = parseFrontmatter(text);
+	if (!frontmatter) {
+		return undefined;
+	}
+
+	const existing = frontmatter.pairs.get('description');
+	if (!existing) {
+		return { start: frontmatter.offset, end: frontmatter.offset, newText: `${line}\n` };
+	}
+
+	const value = existing.value as Node | null;
+	if (isScalar(value) && typeof value.value === 'string' && value.value.trim().length > 0) {
+		return undefined;
+	}
+
+	const key = existing.key as Node;
+	return {
+		start: frontmatter.offset + key.range![0],
+		end: frontmatter.offset + (value?.range ? value.range[1] : key.range![1] + 1),
+		newText: line
+	};
+}
+
+/**
+ * Replace "true"/"false" strings in alwaysApply with booleans
+ * @returns Edit, or undefined when alwaysApply isn't a boolean-like string
+ */
+export function fixAlwaysApplyString(text: string): RuleTextEdit | undefined {
+	const frontmatter = parseFrontmatter(text);
+	const alwaysApply = frontmatter?.pairs.get('alwaysApply');
+	if (!frontmatter || !alwaysApply || !isScalar(alwaysApply.value) || typeof alwaysApply.value.value !== 'string') {
+		return undefined;
+	}
+
+	const value = alwaysApply.value.value.trim().toLowerCase();
+	if (value !== 'true' && value !== 'false') {
+		return undefined;
+	}
+
+	const range = (alwaysApply.value as Node).range!;
+	return { start: frontmatter.offset + range[0], end: frontmatter.offset + range[1], newText: value };
+}
+
+/**
+ * Remove globs from the frontmatter, dropping the globs key when none remain
+ * @param globs Patterns to remove, as reported by the linter
+ * @returns Non-overlapping edits (empty when none of the globs were found)
+ */
+export function removeGlobs(text: string, globs: string[]): RuleTextEdit[] {
+	const frontmatter = parseFrontmatter(text);
+	const pair = frontmatter?.pairs.get('globs');
+	if (!frontmatter || !pair) {
+		return [];
+	}
+
+	const toRemove = new Set(globs);
+	const value = pair.value as Node;
+
+	if (isScalar(value) && typeof value.value === 'string') {
+		const current = normalizeGlobs(value.value);
+		const remaining = current.filter(glob => !toRemove.has(glob));
+		if (remaining.length === current.length) {
+			return [];
+		}
+		if (remaining.length === 0) {
+			return [deletePairEdit(frontmatter, pair)];
+		}
+		return [{ start: frontmatter.offset + value.range![0], end: frontmatter.offset + value.range![1], newText: formatScalar(remaining.join(', ')) }];
+	}
+
+	if (!isSeq(value)) {
+		return [];
+	}
+
+	const removed = value.items.filter(item => isScalar(item) && typeof item.value === 'string' && toRemove.has(item.value.trim()));
+	if (removed.length === 0) {
+		return [];
+	}
+	if (removed.length === value.items.length) {
+		return [deletePairEdit(frontmatter, pair)];
+	}
+
+	if (value.flow) {
+		const remaining = value.items.filter(item => !removed.includes(item)).map(item => {
+			const range = (item as Node).range!;
+			return frontmatter.text.substring(range[0], range[1]);
+		});
+		return [{ start: frontmatter.offset + value.range![0], end: frontmatter.offset + value.range![1], newText: `[${remaining.join(', ')}]` }];
+	}
+
+	return removed.map(item => {
+		const range = (item as Node).range!;
+		return lineSpanEdit(frontmatter.text, frontmatter.offset, range[0], range[1]);
+	});
+}
+
+/**
+ * Apply edits to text (edits must not overlap)
+ */
+export function applyTextEdits(text: string, edits: RuleTextEdit[]): string {
+	return [...edits]
+		.sort((a, b) => b.start - a.start)
+		.reduce((result, edit) => result.substring(0, edit.start) + edit.newText + result.substring(edit.end), text);
+}
+
+/**
+ * Derive a description from the first markdown heading, falling back to the first line of content
+ */
+export function deriveDescription(body: string): string | undefined {
+	const heading = /^#{1,6}[ \t]+(.+?)[ \t#]*$/m.exec(body);
+	const candidate = heading
+		? heading[1]
+		: body.split(/\r?\n/).map(line => line.trim()).find(line => line.length > 0 && !line.startsWith('```'));
+	if (!candidate) {
+		return undefined;
+	}
+
+	const description = candidate.replace(/[*_`]/g, '').trim();
+	return description.length > 120 ? `${description.substring(0, 117)}...` : description || undefined;
+}
+
+function parseFrontmatter(text: string): FrontmatterContext | undefined {
+	const sections = splitRuleText(text);
+	if (sections.frontmatter === undefined || sections.closingDelimiter === undefined) {
+		return undefined;
+	}
+
+	const document = parseDocument(sections.frontmatter);
+	if (document.errors.length > 0) {
+		return undefined;
+	}
+
+	return { text: sections.frontmatter, offset: sections.frontmatterStart, pairs: getFrontmatterPairs(document.contents) };
+}
+
+/**
+ * Delete a key: value pair along with the lines it spans
+ */
+function deletePairEdit(frontmatter: FrontmatterContext, pair: Pair): RuleTextEdit {
+	const key = pair.key as Node;
+	const value = pair.value as Node | null;
+	const end = value?.range ? value.range[1] : key.range![1];
+	return lineSpanEdit(frontmatter.text, frontmatter.offset, key.range![0], end);
+}
+
+/**
+ * Delete the whole lines covering [start, end) of the frontmatter
+ */
+function lineSpanEdit(frontmatter: string, offset: number, start: number, end: number): RuleTextEdit {
+	const lineStart = frontmatter.lastIndexOf('\n', start - 1) + 1;
+	const newline = frontmatter.indexOf('\n', Math.max(end - 1, start));
+	const lineEnd = newline === -1 ? frontmatter.length : newline + 1;
+	return { start: offset + lineStart, end: offset + lineEnd, newText: '' };
+}
+
+function columnOf(text: string, offset: number): number {
+	return offset - (text.lastIndexOf('\n', offset - 1) + 1);
+}
+
+/**
+ * Format a string as a single-line YAML scalar, quoting only when needed
+ */
+function formatScalar(value: string): string {
+	return stringify(value, { lineWidth: 0 }).trimEnd();
+}
@@ -0,0 +1,107 @@
+// Rule Search - Match rules against a filter query
+import { Rule } from '../scanner/rulesScanner';
+import { normalizeGlobs } from './ruleApplicability';
+
+export type RuleSearchField = 'fileName' | 'description' | 'globs' | 'content';
+
+/**
+ * Why a rule matched a query
+ */
+export interface RuleSearchMatch {
+	fields: RuleSearchField[];  // Fields containing at least one term
+	snippet?: string;           // First body line containing a term, when the body matched
+}
+
+const SNIPPET_LENGTH = 80;
+
+/**
+ * Split a query into lower-case terms; every term must match somewhere in the rule
+ */
+export function parseSearchTerms(query: string): string[] {
+	return query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+}
+
+/**
+ * Match a rule against a query
+ * Searches the file name, description, globs and body, case-insensitively.
+ * @returns Match details, or undefined when any term is missing from the rule
+ */
+export function searchRule(rule: Rule, query: string): RuleSearchMatch | undefined {
+	const terms = parseSearchTerms(query);
+	if (terms.length === 0) {
+		return { fields: [] };
+	}
+
+	const fieldText: Record<RuleSearchField, string> = {
+		fileName: rule.fileName.toLowerCase(),
+		description: (rule.metadata.description || '').toLowerCase(),
+		globs: normalizeGlobs(rule.metadata.globs).join('\n').toLowerCase(),
+		content: (rule.content || '').toLowerCase()
+	};
+	const fieldNames = Object.keys(fieldText) as RuleSearchField[];
+
+	const fields = new Set<RuleSearchField>();
+	for (const term of terms) {
+		const matching = fieldNames.filter(field => fieldText[field].includes(term));
+		if (matching.length === 0) {
+			return undefined;
+		}
+		matching.forEach(field => fields.add(field));
+	}
+
+	const match: RuleSearchMatch = { fields: fieldNames.filter(field => fields.has(field)) };
+	if (fields.has('content')) {
+		match.snippet = getSnippet(rule.content, terms);
+	}
+	return match;
+}
+
+/**
+ * Get the [start, end) ranges of every term occurrence in a label, merged where they overlap
+ */
+export function getHighlights(label: string, query: string): [number, number][] {
+	const lowerLabel = label.toLowerCase();
+	const ranges: [number, number][] = [];
+
+	for (const term of parseSearchTerms(query)) {
+		let index = lowerLabel.indexOf(term);
+		while (index !== -1) {
+			ranges.push([index, index + term.length]);
+			index = lowerLabel.indexOf(term, index + term.length);
+		}
+	}
+
+	ranges.sort((a, b) => a[0] - b[0]);
+	const merged: [number, number][] = [];
+	for (const range of ranges) {
+		const last = merged[merged.length - 1];
+		if (last && range[0] <= last[1]) {
+			last[1] = Math.max(last[1], range[1]);
+		} else {
+			merged.push([range[0], range[1]]);
+		}
+	}
+	return merged;
+}
+
+/**
+ * Get the first body line containing a term, trimmed around the match
+ */
+function getSnippet(content: string, terms: string[]): string | undefined {
+	for (const line of content.split(/\r?\n/)) {
+		const lowerLine = line.toLowerCase();
+		const index = terms.map(term => lowerLine.indexOf(term)).filter(i => i !== -1).sort((a, b) => a - b)[0];
+		if (index === undefined) {
+			continue;
+		}
+
+		const trimmed = line.trim();
+		if (trimmed.length <= SNIPPET_LENGTH) {
+			return trimmed;
+		}
+		const start = Math.max(0, index - (line.length - line.trimStart().length) - 20);
+		const snippet = trimmed.substring(start, start + SNIPPET_LENGTH);
+		return `${start > 0 ? '…' : ''}${snippet}${start + SNIPPET_LENGTH < trimmed.length ? '…' : ''}`;
+	}
+	return undefined;
+}
@@ -0,0 +1,144 @@
+// Rule Sources - Instruction files from Cursor and other AI assistants
+import matter from 'gray-matter';
+import { Rule, RuleMetadata } from '../scanner/rulesScanner';
+import { normalizeGlobs } from './ruleApplicability';
+
+/**
+ * Where a rule comes from
+ * - cursor: .mdc and .md files in .cursor/rules
+ * - cursorrules: legacy .cursorrules file
+ * - agents: AGENTS.md
+ * - claude: CLAUDE.md
+ * - copilot: .github/copilot-instructions.md and .github/instructions/*.instructions.md
+ * - windsurf: .windsurfrules
+ */
+export type RuleSource = 'cursor' | 'cursorrules' | 'agents' | 'claude' | 'copilot' | 'windsurf';
+
+export interface RuleSourceInfo {
+	label: string;
+	icon: string;
+	patterns: string[];     // Globs relative to the project root
+	readByCursor: boolean;  // Loaded into context by Cursor (counts towards the budget and applicable rules)
+}
+
+/**
+ * Display metadata and file patterns for each source, in the order they are shown
+ */
+export const RULE_SOURCES: Record<RuleSource, RuleSourceInfo> = {
+	cursor: {
+		label: 'Cursor Rules',
+		icon: 'book',
+		patterns: ['**/.cursor/rules/**/*.mdc', '**/.cursor/rules/**/*.md'],
+		readByCursor: true
+	},
+	cursorrules: {
+		label: 'Cursor (.cursorrules)',
+		icon: 'history',
+		patterns: ['**/.cursorrules'],
+		readByCursor: true
+	},
+	agents: {
+		label: 'AGENTS.md',
+		icon: 'robot',
+		patterns: ['**/AGENTS.md'],
+		readByCursor: true
+	},
+	claude: {
+		label: 'Claude',
+		icon: 'comment-discussion',
+		patterns: ['**/CLAUDE.md'],
+		readByCursor: false
+	},
+	copilot: {
+		label: 'GitHub Copilot',
+		icon: 'github',
+		patterns: ['.github/copilot-instructions.md', '.github/instructions/**/*.instructions.md'],
+		readByCursor: false
+	},
+	windsurf: {
+		label: 'Windsurf',
+		icon: 'compass',
+		patterns: ['**/.windsurfrules'],
+		readByCursor: false
+	}
+};
+
+/**
+ * A single glob matching the files of every source, for findFiles and file watchers
+ */
+export const RULE_FILES_GLOB = `{${Object.values(RULE_SOURCES).flatMap(source => source.patterns).join(',')}}`;
+
+/**
+ * Classify a file by its path
+ * @returns The source, or undefined when the file isn't a rule or instruction file
+ */
+export function getRuleSource(filePath: string): RuleSource | undefined {
+	const normalized = filePath.replace(/\\/g, '/');
+	if (/(^|\/)\.cursor\/rules\/.+\.(mdc|md)$/.test(normalized)) { return 'cursor'; }
+	if (/(^|\/)\.cursorrules$/.test(normalized)) { return 'cursorrules'; }
+	if (/(^|\/)AGENTS\.md$/.test(normalized)) { return 'agents'; }
+	if (/(^|\/)CLAUDE\.md$/.test(normalized)) { return 'claude'; }
+	if (/(^|\/)\.github\/(copilot-instructions\.md|instructions\/.+\.instructions\.md)$/.test(normalized)) { return 'copilot'; }
+	if (/(^|\/)\.windsurfrules$/.test(normalized)) { return 'windsurf'; }
+	return undefined;
+}
+
+/**
+ * Get a rule's source; rules scanned before sources existed are Cursor rules
+ */
+export function getRuleSourceOf(rule: Rule): RuleSource {
+	return rule.source || 'cursor';
+}
+
+/**
+ * Check whether Cursor loads a rule into context
+ */
+export function isReadByCursor(rule: Rule): boolean {
+	return RULE_SOURCES[getRuleSourceOf(rule)].readByCursor;
+}
+
+/**
+ * List the sources present in a set of rules, in display order
+ */
+export function getRuleSources(rules: Rule[]): RuleSource[] {
+	const present = new Set(rules.map(getRuleSourceOf));
+	return (Object.keys(RULE_SOURCES) as RuleSource[]).filter(source => present.has(source));
+}
+
+/**
+ * Parse a non-Cursor instruction file
+ * These files are always loaded by their assistant, except Copilot's *.instructions.md,
+ * which are scoped with an `applyTo` glob (comma-separated) in their frontmatter.
+ */
+export function parseInstructionFile(text: string): { metadata: RuleMetadata; content: string } {
+	let data: Record<string, unknown> = {};
+	let content = text;
+	try {
+		const parsed = matter(text);
+		data = parsed.data;
+		content = parsed.content;
+	} catch {
+		// Plain text with something that looks like frontmatter; keep it as-is
+	}
+
+	const globs = normalizeGlobs(data.applyTo).filter(glob => glob !== '**');
+	const description = typeof data.description === 'string' && data.description.trim()
+		? data.description.trim()
+		: undefined;
+
+	return {
+		metadata: globs.length > 0
+			? { description, globs, alwaysApply: false, ruleType: 'auto' }
+			: { description, alwaysApply: true, ruleType: 'always' },
+		content: content.trim()
+	};
+}
+
+/**
+ * Get a rule's path relative to its project root, used to label instruction files
+ * @param projectRoot Project root as a URI path
+ */
+export function getProjectRelativePath(rule: Rule, projectRoot: string): string {
+	const root = projectRoot.endsWith('/') ? projectRoot : `${projectRoot}/`;
+	return rule.uri.path.startsWith(root) ? rule.uri.path.substring(root.length) : rule.fileName;
+}
@@ -0,0 +1,46 @@
+// Rule Template Loader - Load user rule templates from the configured folder
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RuleTemplate, parseUserTemplate } from './ruleTemplates';
+import { getTemplatesFolder } from './configuration';
+
+export class RuleTemplateLoader {
+	/**
+	 * Load user templates for a project
+	 * @param projectUri Project root, used to resolve a relative templates folder
+	 * @returns Templates sorted by name; empty when the folder doesn't exist
+	 */
+	static async loadUserTemplates(projectUri: vscode.Uri): Promise<RuleTemplate[]> {
+		const folder = getTemplatesFolder();
+		if (!folder) {
+			return [];
+		}
+
+		const folderUri = path.isAbsolute(folder)
+			? vscode.Uri.file(folder)
+			: vscode.Uri.joinPath(projectUri, folder);
+
+		let entries: [string, vscode.FileType][];
+		try {
+			entries = await vscode.workspace.fs.readDirectory(folderUri);
+		} catch {
+			return [];
+		}
+
+		const templates: RuleTemplate[] = [];
+		for (const [name, type] of entries) {
+			if (type !== vscode.FileType.File || !/\.(mdc|md)$/.test(name)) {
+				continue;
+			}
+			try {
+				const fileUri = vscode.Uri.joinPath(folderUri, name);
+				const content = await vscode.workspace.fs.readFile(fileUri);
+				templates.push(parseUserTemplate(name, Buffer.from(content).toString('utf8'), fileUri.fsPath));
+			} catch {
+				// Skip unreadable template files
+			}
+		}
+
+		return templates.sort((a, b) => a.name.localeCompare(b.name));
+	}
+}
@@ -0,0 +1,448 @@
+// Rule Templates - Built-in and user templates for new rules
+import { ProjectState } from '../scanner/stateScanner';
+import { isScalar, parseDocument } from 'yaml';
+import { getFrontmatterPairs, splitRuleText } from './ruleLinter';
+import { toTitle } from './markdownSections';
+
+export type RuleTemplateCategory = 'general' | 'standards' | 'testing' | 'security' | 'framework' | 'user';
+
+/**
+ * A rule template: MDC text with {{variable}} or {{variable|fallback}} placeholders
+ */
+export interface RuleTemplate {
+	id: string;
+	name: string;
+	description: string;
+	category: RuleTemplateCategory;
+	frameworks?: string[];  // Detected frameworks that make this template a recommendation
+	text: string;
+	path?: string;          // Source file for user templates
+}
+
+/**
+ * Values substituted into templates
+ */
+export type TemplateVariables = Record<string, string>;
+
+export const RULE_TEMPLATE_CATEGORIES: Record<RuleTemplateCategory, string> = {
+	general: 'General',
+	standards: 'Coding Standards',
+	testing: 'Testing',
+	security: 'Security',
+	framework: 'Framework',
+	user: 'Your Templates'
+};
+
+/**
+ * Templates shipped with the extension
+ */
+export const BUILTIN_RULE_TEMPLATES: RuleTemplate[] = [
+	{
+		id: 'blank',
+		name: 'Blank Rule',
+		description: 'Empty rule with basic frontmatter',
+		category: 'general',
+		text: `---
+description: "New rule"
+globs: ["{{sourceGlob}}"]
+alwaysApply: false
+---
+
+# {{ruleName}}
+
+Describe your rule here.
+
+## Guidelines
+
+- Add specific guidelines
+- Include examples
+- Explain when to apply this rule
+`
+	},
+	{
+		id: 'coding-standards',
+		name: 'Coding Standards',
+		description: 'Naming, structure and style conventions for the codebase',
+		category: 'standards',
+		text: `---
+description: "Coding standards for {{projectName}}"
+globs:
+  - "{{sourceGlob}}"
+alwaysApply: false
+---
+
+# {{ruleTitle}}
+
+Coding standards for {{primaryLanguage|this project}}.
+
+## Style
+
+- Follow the existing formatting enforced by {{codeQuality|the project's formatter}}
+- Prefer small, focused functions and modules
+- Name things for what they do; avoid abbreviations
+
+## Structure
+
+- Keep new code consistent with the surrounding files
+- Put shared helpers in existing utility modules instead of duplicating them
+
+## Error Handling
+
+- Surface errors with actionable messages
+- Never swallow exceptions silently
+`
+	},
+	{
+		id: 'testing-conventions',
+		name: 'Testing Conventions',
+		description: 'How tests are written, named and organized',
+		category: 'testing',
+		text: `---
+description: "Testing conventions using {{testFramework|the project's test framework}}"
+globs:
+  - "{{testGlob}}"
+alwaysApply: false
+---
+
+# {{ruleTitle}}
+
+Tests use {{testFramework|the project's test framework}}.
+
+## Writing Tests
+
+- Test behavior, not implementation details
+- One concern per test; name tests after the behavior they verify
+- Cover edge cases and error paths, not just the happy path
+
+## Organization
+
+- Place tests next to the existing tests matching \`{{testGlob}}\`
+- Share fixtures and helpers instead of copying setup code
+
+## Before Committing
+
+- Run the full test suite and make sure it passes
+`
+	},
+	{
+		id: 'security-guidelines',
+		name: 'Security Guidelines',
+		description: 'Input validation, secrets and dependency hygiene',
+		category: 'security',
+		text: `---
+description: "Security guidelines for {{projectName}}"
+alwaysApply: true
+---
+
+# {{ruleTitle}}
+
+## Input Handling
+
+- Validate and sanitize all external input
+- Use parameterized queries; never build queries with string concatenation
+
+## Secrets
+
+- Never commit credentials, tokens or keys
+- Read secrets from environment variables or the configured secrets manager
+
+## Dependencies
+
+- Prefer well-maintained dependencies and keep them up to date
+- Review new dependencies before adding them
+`
+	},
+	{
+		id: 'react',
+		name: 'React Components',
+		description: 'Component structure, hooks and state management',
+		category: 'framework',
+		frameworks: ['react', 'next.js'],
+		text: `---
+description: "React component conventions"
+globs:
+  - "**/*.{tsx,jsx}"
+alwaysApply: false
+---
+
+# {{ruleTitle}}
+
+## Components
+
+- Use function components and hooks
+- Keep components small; extract subcomponents when markup grows
+- Type props explicitly
+
+## State
+
+- Keep state as local as possible; lift it only when it is shared
+- Derive values during render instead of duplicating them in state
+
+## Effects
+
+- Every effect lists its full dependency array
+- Clean up subscriptions and timers in the effect's return function
+`
+	},
+	{
+		id: 'express',
+		name: 'Express API',
+		description: 'Route handlers, middleware and error handling',
+		category: 'framework',
+		frameworks: ['express', 'fastify', 'koa'],
+		text: `---
+description: "HTTP API conventions for {{primaryFramework|the server}}"
+globs:
+  - "{{sourceGlob}}"
+alwaysApply: false
+---
+
+# {{ruleTitle}}
+
+## Routes
+
+- Keep route handlers thin; put business logic in services
+- Validate request bodies and parameters at the edge
+
+## Errors
+
+- Forward errors to the central error-handling middleware
+- Return consistent error response shapes with appropriate status codes
+
+## Middleware
+
+- Register authentication before routes that need it
+`
+	},
+	{
+		id: 'python-web',
+		name: 'Python Web Service',
+		description: 'Views, models and settings for Django, Flask or FastAPI',
+		category: 'framework',
+		frameworks: ['django', 'flask', 'fastapi'],
+		text: `---
+description: "{{primaryFramework|Python web}} conventions"
+globs:
+  - "**/*.py"
+alwaysApply: false
+---
+
+# {{ruleTitle}}
+
+## Views and Endpoints
+
+- Keep views thin; move logic into services or model methods
+- Validate input with the framework's schema or form tools
+
+## Data Access
+
+- Use the ORM; avoid raw SQL unless there is a measured need
+- Add migrations for every model change
+
+## Configuration
+
+- Read settings from environment variables; never hard-code secrets
+`
+	},
+	{
+		id: 'aspnet',
+		name: 'ASP.NET Core',
+		description: 'Controllers, dependency injection and configuration',
+		category: 'framework',
+		frameworks: ['asp.net core'],
+		text: `---
+description: "ASP.NET Core conventions"
+globs:
+  - "**/*.cs"
+alwaysApply: false
+---
+
+# {{ruleTitle}}
+
+## Controllers
+
+- Keep controllers thin; inject services through constructors
+- Return typed results and use model validation attributes
+
+## Dependency Injection
+
+- Register services with the narrowest suitable lifetime
+
+## Configuration
+
+- Bind settings to options classes; never read configuration ad hoc
+`
+	}
+];
+
+/**
+ * Build template variables from a rule name and the scanned project state
+ */
+export function buildTemplateVariables(ruleName: string, projectName: string, state?: Partial<ProjectState>): TemplateVariables {
+	const languages = (state?.languages || []).map(language => language.replace(/\s*\(.*\)$/, ''));
+	const frameworks = state?.frameworks || [];
+	const testing = (state?.testing || []).filter(framework => framework !== 'Test directory structure');
+	const primaryLanguage = state?.identity?.primaryLanguage || languages[0] || '';
+
+	return {
+		ruleName,
+		ruleTitle: toTitle(ruleName),
+		projectName,
+		languages: unique(languages).join(', '),
+		primaryLanguage,
+		frameworks: unique(frameworks).join(', '),
+		primaryFramework: frameworks.find(framework => !/^(Node\.js|Python|\.NET)/.test(framework)) || frameworks[0] || '',
+		testFramework: testing[0] || '',
+		testFrameworks: unique(testing).join(', '),
+		codeQuality: unique(state?.codeQuality || []).join(', '),
+		sourceGlob: getSourceGlob(primaryLanguage),
+		testGlob: getTestGlob(primaryLanguage),
+		date: new Date().toISOString().substring(0, 10)
+	};
+}
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Fill in {{variable}} and {{variable|fallback}} placeholders
+ * Unknown variables without a fallback are left in place so they are easy to spot.
+ * Values in the frontmatter are escaped so they can't break its YAML.
+ */
+export function renderRuleTemplate(template: RuleTemplate, variables: TemplateVariables): string {
+	const { frontmatter, frontmatterStart } = splitRuleText(template.text);
+	if (frontmatter === undefined) {
+		return fillPlaceholders(template.text, variables);
+	}
+
+	const frontmatterEnd = frontmatterStart + frontmatter.length;
+	const renderedFrontmatter = frontmatter.split('\n').map(line => renderFrontmatterLine(line, variables)).join('\n');
+	return template.text.substring(0, frontmatterStart) + renderedFrontmatter + fillPlaceholders(template.text.substring(frontmatterEnd), variables);
+}
+
+/**
+ * Create a template from a user template file
+ * The file's frontmatter description (if any) describes the template in the picker.
+ */
+export function parseUserTemplate(fileName: string, text: string, path?: string): RuleTemplate {
+	const baseName = fileName.replace(/\.(mdc|md)$/, '');
+	const { frontmatter } = splitRuleText(text);
+	const description = frontmatter ? getFrontmatterPairs(parseDocument(frontmatter).contents).get('description')?.value : undefined;
+
+	return {
+		id: `user:${baseName}`,
+		name: toTitle(baseName),
+		description: isScalar(description) && typeof description.value === 'string' && description.value.trim() ? description.value : fileName,
+		category: 'user',
+		text,
+		path
+	};
+}
+
+/**
+ * Check whether a template targets one of the detected frameworks
+ */
+export function isTemplateRecommended(template: RuleTemplate, frameworks: string[]): boolean {
+	const detected = frameworks.map(framework => framework.toLowerCase());
+	return (template.frameworks || []).some(framework => detected.includes(framework));
+}
+
+/**
+ * Order templates for the picker: recommended framework templates, then everything else in category order
+ */
+export function sortTemplates(templates: RuleTemplate[], frameworks: string[]): RuleTemplate[] {
+	const categoryOrder = Object.keys(RULE_TEMPLATE_CATEGORIES);
+	return [...templates].sort((a, b) => {
+		const recommended = Number(isTemplateRecommended(b, frameworks)) - Number(isTemplateRecommended(a, frameworks));
+		return recommended || categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category);
+	});
+}
+
+/**
+ * Source and test globs by language, keyed by the words of detected language names
+ * ('JavaScript/TypeScript (>=18)' → javascript, typescript; 'Go 1.22' → go)
+ */
+const LANGUAGE_GLOBS: Record<string, { source: string; test: string }> = {
+	typescript: { source: 'src/**/*.{ts,tsx,js,jsx}', test: '**/*.{test,spec}.{ts,tsx,js,jsx}' },
+	javascript: { source: 'src/**/*.{ts,tsx,js,jsx}', test: '**/*.{test,spec}.{ts,tsx,js,jsx}' },
+	python: { source: '**/*.py', test: '**/test_*.py' },
+	'c#': { source: '**/*.cs', test: '**/*Tests/**/*.cs' },
+	go: { source: '**/*.go', test: '**/*_test.go' },
+	rust: { source: 'src/**/*.rs', test: 'tests/**/*.rs' },
+	java: { source: 'src/main/**/*.java', test: 'src/test/**/*.java' },
+	kotlin: { source: 'src/main/**/*.kt', test: 'src/test/**/*.kt' },
+	ruby: { source: '**/*.rb', test: 'spec/**/*_spec.rb' },
+	php: { source: '**/*.php', test: 'tests/**/*Test.php' }
+};
+
+/**
+ * Find the globs for a language by whole words, so 'Django' or 'MongoDB' never match Go
+ */
+function getLanguageGlobs(language: string): { source: string; test: string } | undefined {
+	const words = language.toLowerCase().split(/[^a-z#+]+/);
+	const word = words.find(candidate => LANGUAGE_GLOBS[candidate]);
+	return word ? LANGUAGE_GLOBS[word] : undefined;
+}
+
+function getSourceGlob(language: string): string {
+	return getLanguageGlobs(language)?.source || 'src/**';
+}
+
+function getTestGlob(language: string): string {
+	return getLanguageGlobs(language)?.test || '**/*test*';
+}
+
+/**
+ * Replace placeholders, passing each resolved value through escape
+ */
+function fillPlaceholders(text: string, variables: TemplateVariables, escape: (value: string, offset: number) => string = value => value): string {
+	return text.replace(PLACEHOLDER, (placeholder: string, name: string, fallback: string | undefined, offset: number) => {
+		const value = variables[name] || (fallback !== undefined ? fallback.trim() : undefined);
+		return value !== undefined ? escape(value, offset) : placeholder;
+	});
+}
+
+/**
+ * Fill in the placeholders of one frontmatter line
+ * An unquoted value is rendered and then quoted as a whole; inside quotes each value is
+ * escaped for that quote style.
+ */
+function renderFrontmatterLine(line: string, variables: TemplateVariables): string {
+	const prefix = /^\s*(?:-\s+)?(?:[\w.-]+:\s+)?/.exec(line)![0];
+	const scalar = line.substring(prefix.length).trimEnd();
+	if (scalar.length > 0 && !/^(["'[#]|\{(?!\{))/.test(scalar)) {
+		const value = fillPlaceholders(scalar, variables);
+		return value === scalar ? line : `${prefix}${JSON.stringify(value)}${line.substring(prefix.length + scalar.length)}`;
+	}
+
+	return fillPlaceholders(line, variables, (value, offset) => {
+		const quote = getOpenQuote(line.substring(0, offset));
+		if (quote === "'") {
+			return value.replace(/'/g, "''").replace(/\s*\n\s*/g, ' ');
+		}
+		return quote === '"' ? JSON.stringify(value).slice(1, -1) : JSON.stringify(value);
+	});
+}
+
+/**
+ * Get the YAML quote a position on a line is inside of, if any
+ */
+function getOpenQuote(prefix: string): string | undefined {
+	let quote: string | undefined;
+	for (let i = 0; i < prefix.length; i++) {
+		const char = prefix[i];
+		if (quote === '"' && char === '\\') {
+			i++;
+		} else if (quote === "'" && char === "'" && prefix[i + 1] === "'") {
+			i++;
+		} else if (char === quote) {
+			quote = undefined;
+		} else if (!quote && (char === '"' || char === "'")) {
+			quote = char;
+		}
+	}
+	return quote;
+}
+
+function unique(values: string[]): string[] {
+	return Array.from(new Set(values));
+}
@@ -0,0 +1,92 @@
+// Rule Types - Classify Cursor rules from their frontmatter
+import { normalizeGlobs } from './ruleApplicability';
+
+/**
+ * How Cursor decides to include a rule in context
+ * - always: included in every request (alwaysApply: true)
+ * - auto: attached when a file matching one of the globs is referenced
+ * - agent: offered to the agent, which decides from the description
+ * - manual: only included when explicitly mentioned with @ruleName
+ */
+export type RuleType = 'always' | 'auto' | 'agent' | 'manual';
+
+/**
+ * Description shown for rules whose frontmatter has none
+ */
+export const DEFAULT_DESCRIPTION = 'No description';
+
+/**
+ * Frontmatter keys understood by Cursor; everything else is preserved as-is
+ */
+export const KNOWN_FRONTMATTER_KEYS = ['description', 'globs', 'alwaysApply'];
+
+/**
+ * Display metadata for each rule type, in Cursor's documented order
+ */
+export const RULE_TYPES: Record<RuleType, { label: string; icon: string; explanation: string }> = {
+	always: {
+		label: 'Always',
+		icon: 'star',
+		explanation: 'Always included in the model context'
+	},
+	auto: {
+		label: 'Auto Attached',
+		icon: 'wrench',
+		explanation: 'Included when files matching a glob pattern are referenced'
+	},
+	agent: {
+		label: 'Agent Requested',
+		icon: 'symbol-function',
+		explanation: 'Available to the agent, which decides whether to include it based on the description'
+	},
+	manual: {
+		label: 'Manual',
+		icon: 'symbol-keyword',
+		explanation: 'Only included when explicitly mentioned using @ruleName'
+	}
+};
+
+/**
+ * Classify a rule from its raw frontmatter
+ * @param frontmatter Parsed YAML frontmatter (before defaults are applied)
+ */
+export function classifyRuleType(frontmatter: Record<string, unknown>): RuleType {
+	if (frontmatter.alwaysApply === true) {
+		return 'always';
+	}
+	if (normalizeGlobs(frontmatter.globs).length > 0) {
+		return 'auto';
+	}
+	const description = typeof frontmatter.description === 'string' ? frontmatter.description.trim() : '';
+	if (description.length > 0) {
+		return 'agent';
+	}
+	return 'manual';
+}
+
+/**
+ * Get a rule's type, classifying its metadata when the parser didn't set one
+ */
+export function resolveRuleType(metadata: { ruleType?: RuleType; description?: string; globs?: unknown; alwaysApply?: boolean }): RuleType {
+	return metadata.ruleType || classifyRuleType(metadata);
+}
+
+/**
+ * Get the human-readable label for a rule type
+ */
+export function getRuleTypeLabel(ruleType: RuleType | undefined): string {
+	return RULE_TYPES[ruleType || 'manual'].label;
+}
+
+/**
+ * Collect frontmatter keys Cursor doesn't define so they can be written back unchanged
+ */
+export function extractExtraFrontmatter(frontmatter: Record<string, unknown>): Record<string, unknown> | undefined {
+	const extra: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(frontmatter)) {
+		if (!KNOWN_FRONTMATTER_KEYS.includes(key)) {
+			extra[key] = value;
+		}
+	}
+	return Object.keys(extra).length > 0 ? extra : undefined;
+}
@@ -0,0 +1,199 @@
+// Version Ranges - Check resolved versions against declared ranges across package managers
+
+/**
+ * Range dialect; they disagree mainly on what `~` means
+ * - npm: `^1.2.3`, `~1.2`, `1.x`, `>=1 <2`, `a - b`, `||` (also Poetry's `^` / `~`)
+ * - python: PEP 440 `>=1.0,<2`, `~=1.4`, `==1.2.*`, `!=1.3`
+ * - ruby: `~> 1.2`, `>= 1.0, < 2`
+ * - composer: `^1.2`, `~1.2` (same as `~>`), `1.*`, `|` / `||`
+ * - nuget: `1.0` (minimum), `[1.0, 2.0)`, `[1.0]`
+ */
+export type RangeDialect = 'npm' | 'python' | 'ruby' | 'composer' | 'nuget';
+
+interface ParsedVersion {
+	parts: number[];
+	prerelease: boolean;
+}
+
+/**
+ * Check whether a resolved version satisfies a declared range
+ * Returns undefined when either side can't be interpreted (git URLs, workspace:, tags),
+ * so callers only flag drift they are sure about.
+ */
+export function satisfiesRange(version: string, range: string, dialect: RangeDialect = 'npm'): boolean | undefined {
+	const resolved = parseVersion(version);
+	const trimmed = range.trim();
+	if (!resolved) {
+		return undefined;
+	}
+	if (trimmed === '' || trimmed === '*' || trimmed === 'x' || trimmed === 'latest') {
+		return true;
+	}
+
+	if (dialect === 'nuget') {
+		return satisfiesNuGetRange(resolved, trimmed);
+	}
+
+	let result: boolean | undefined = false;
+	for (const alternative of trimmed.split(/\s*\|\|?\s*/)) {
+		const satisfied = satisfiesComparatorSet(resolved, alternative, dialect);
+		if (satisfied === true) {
+			return true;
+		}
+		if (satisfied === undefined) {
+			result = undefined;
+		}
+	}
+	return result;
+}
+
+/**
+ * Check a whitespace / comma separated set of comparators (all must hold)
+ */
+function satisfiesComparatorSet(version: ParsedVersion, range: string, dialect: RangeDialect): boolean | undefined {
+	// Hyphen range: 1.2.3 - 2.3.4
+	const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(range);
+	if (hyphen) {
+		const low = parseVersion(hyphen[1]);
+		const high = parseVersion(hyphen[2]);
+		if (!low || !high) {
+			return undefined;
+		}
+		return compareParsed(version, low) >= 0 && compareParsed(version, high) <= 0;
+	}
+
+	// Join operators to their operands ("~> 1.2", ">= 1.0") before splitting
+	const comparators = range
+		.replace(/(===|==|~=|~>|!=|>=|<=|>|<|\^|~|=)\s+/g, '$1')
+		.split(/[\s,]+/)
+		.filter(comparator => comparator.length > 0);
+
+	for (const comparator of comparators) {
+		const satisfied = satisfiesComparator(version, comparator, dialect);
+		if (satisfied !== true) {
+			return satisfied;
+		}
+	}
+	return true;
+}
+
+/**
+ * Check a single comparator such as ^1.2.3, ~=1.4, <2 or 1.x
+ */
+function satisfiesComparator(version: ParsedVersion, comparator: string, dialect: RangeDialect): boolean | undefined {
+	const match = /^(===|==|~=|~>|!=|>=|<=|>|<|\^|~|=)?v?(.+)$/.exec(comparator);
+	if (!match) {
+		return undefined;
+	}
+
+	const operator = match[1] || '';
+	const operand = match[2];
+	const wildcard = /^(\d+(?:\.\d+)*)(?:\.[x*X])+$|^[x*X]$/.exec(operand);
+	const base = parseVersion(wildcard ? (wildcard[1] || '0') : operand);
+	if (!base) {
+		return undefined;
+	}
+	const precision = wildcard ? (wildcard[1] ? wildcard[1].split('.').length : 0) : operand.split(/[-+]/)[0].split('.').length;
+	const compared = compareParsed(version, base);
+
+	switch (operator) {
+		case '>=': return compared >= 0;
+		case '<=': return compared <= 0;
+		case '>': return compared > 0;
+		case '<': return compared < 0;
+		case '!=': return !matchesPrefix(version, base, precision);
+		case '^': return compared >= 0 && matchesPrefix(version, base, caretIndex(base, precision) + 1);
+		case '~=':
+		case '~>':
+			return compared >= 0 && matchesPrefix(version, base, Math.max(precision - 1, 1));
+		case '~':
+			// Composer's ~1.2 means >=1.2 <2.0; npm and Poetry mean >=1.2 <1.3
+			if (dialect === 'composer') {
+				return compared >= 0 && matchesPrefix(version, base, Math.max(precision - 1, 1));
+			}
+			return compared >= 0 && matchesPrefix(version, base, Math.min(precision, 2));
+		default:
+			// Bare NuGet versions are minimums; partial npm / Composer versions are x-ranges
+			if (dialect === 'nuget') {
+				return compared >= 0;
+			}
+			if (wildcard || (precision < 3 && (dialect === 'npm' || dialect === 'composer'))) {
+				return matchesPrefix(version, base, precision);
+			}
+			return compared === 0;
+	}
+}
+
+/**
+ * Check NuGet interval notation: [1.0, 2.0), (,1.0], [1.0]; a bare version is a minimum
+ */
+function satisfiesNuGetRange(version: ParsedVersion, range: string): boolean | undefined {
+	const interval = /^([[(])\s*([^,\])]*)\s*(?:,\s*([^\])]*))?\s*([\])])$/.exec(range);
+	if (!interval) {
+		return satisfiesComparator(version, range, 'nuget');
+	}
+
+	const [, open, lowText, highText, close] = interval;
+	const low = lowText ? parseVersion(lowText) : undefined;
+	const high = highText === undefined ? low : highText ? parseVersion(highText) : undefined;
+	if ((lowText && !low) || (highText && !high)) {
+		return undefined;
+	}
+	if (low && (open === '[' ? compareParsed(version, low) < 0 : compareParsed(version, low) <= 0)) {
+		return false;
+	}
+	if (high && (close === ']' ? compareParsed(version, high) > 0 : compareParsed(version, high) >= 0)) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Index of the first non-zero part, which ^ keeps fixed (^0.2.3 allows 0.2.x only)
+ */
+function caretIndex(base: ParsedVersion, precision: number): number {
+	const index = base.parts.findIndex((part, position) => part !== 0 && position < precision);
+	return index === -1 ? Math.max(precision - 1, 0) : index;
+}
+
+/**
+ * Check that the first `length` parts of both versions are equal
+ */
+function matchesPrefix(version: ParsedVersion, base: ParsedVersion, length: number): boolean {
+	for (let index = 0; index < length; index++) {
+		if ((version.parts[index] || 0) !== (base.parts[index] || 0)) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * Compare two versions numerically; a prerelease sorts before its release
+ */
+function compareParsed(a: ParsedVersion, b: ParsedVersion): number {
+	const length = Math.max(a.parts.length, b.parts.length);
+	for (let index = 0; index < length; index++) {
+		const difference = (a.parts[index] || 0) - (b.parts[index] || 0);
+		if (difference !== 0) {
+			return difference;
+		}
+	}
+	return Number(!a.prerelease) - Number(!b.prerelease);
+}
+
+/**
+ * Parse 1.2.3, v1.2, 1.2.3-beta.1, 2.0.0rc1 or 1.2.3+build; undefined for anything else
+ */
+function parseVersion(text: string): ParsedVersion | undefined {
+	const match = /^\s*v?(\d+(?:\.\d+)*)(?:[-.]?([a-zA-Z][\w.-]*))?(?:\+[\w.-]*)?\s*$/.exec(text);
+	if (!match) {
+		return undefined;
+	}
+	// Python post-releases (1.0.post1) come after the release, not before
+	const suffix = match[2] || '';
+	return {
+		parts: match[1].split('.').map(part => parseInt(part, 10)),
+		prerelease: suffix !== '' && !/^post/i.test(suffix)
+	};
+}
@@ -7,6 +7,15 @@ describe('CIParser Tests', () => {
 			const parser = new CIParser();
 
 			assert.ok(typeof parser.parseConfigurations === 'function');
+			assert.ok(typeof parser.parseGitHubWorkflow === 'function');
+			assert.ok(typeof parser.parseCompositeAction === 'function');
+			assert.ok(typeof parser.parseAzurePipeline === 'function');
+			assert.ok(typeof parser.parseGitLabPipeline === 'function');
+			assert.ok(typeof parser.parseJenkinsfile === 'function');
+			assert.ok(typeof parser.parseCircleCIConfig === 'function');
+			assert.ok(typeof parser.parseBitbucketPipelines === 'function');
+			assert.ok(typeof parser.parseBuildkitePipeline === 'function');
+			assert.ok(typeof parser.locateJobs === 'function');
 		});
 	});
 
@@ -60,5 +69,457 @@ describe('CIParser Tests', () => {
 			assert.ok(testWorkflows[0].type === 'gitlab-ci');
 		});
 	});
+
+	describe('YAML Workflows', () => {
+		it('should read GitHub Actions events, jobs, environments and runners', () => {
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const workflow = new CIParser().parseGitHubWorkflow([
+				'name: CI',
+				'on:',
+				'  push:',
+				'    branches: [main]',
+				'  pull_request:',
+				'env:',
+				'  NODE_VERSION: 20',
+				'jobs:',
+				'  build:',
+				'    runs-on: ubuntu-latest',
+				'  deploy:',
+				'    needs: build',
+				'    runs-on: [self-hosted, linux]',
+				'    environment:',
+				'      name: production',
+				'      url: https://example.com'
+			].join('\n'), 'ci');
+
+			assert.deepStrictEqual(workflow, {
+				type: 'github-actions',
+				name: 'ci',
+				onEvents: ['push', 'pull_request'],
+				jobs: ['build', 'deploy'],
+				environments: ['production'],
+				agents: ['ubuntu-latest', 'self-hosted', 'linux'],
+				variables: ['NODE_VERSION'],
+				matrix: {},
+				runtimes: [],
+				actions: [],
+				secrets: [],
+				vars: [],
+				localReferences: []
+			});
+		});
+
+		it('should read Azure Pipelines stages, deployment environments and pools', () => {
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const pipeline = new CIParser().parseAzurePipeline([
+				'trigger:',
+				'  - main',
+				'pr: none',
+				'pool:',
+				'  vmImage: ubuntu-latest',
+				'stages:',
+				'  - stage: Build',
+				'    jobs:',
+				'      - job: Compile',
+				'  - stage: Deploy',
+				'    displayName: Deploy to production',
+				'    jobs:',
+				'      - deployment: Web',
+				'        environment: production.web-vm'
+			].join('\n'));
+
+			assert.deepStrictEqual(pipeline, {
+				type: 'azure-pipelines',
+				name: 'azure-pipelines',
+				onEvents: ['push'],
+				jobs: ['Build', 'Deploy to production'],
+				environments: ['production'],
+				agents: ['ubuntu-latest'],
+				variables: []
+			});
+		});
+
+		it('should read GitLab CI jobs without keywords or hidden templates', () => {
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const pipeline = new CIParser().parseGitLabPipeline([
+				'image: node:20',
+				'stages: [test, deploy]',
+				'variables:',
+				'  NPM_CONFIG_CACHE: .npm',
+				'workflow:',
+				'  rules:',
+				'    - if: $CI_PIPELINE_SOURCE == "merge_request_event"',
+				'.deploy-template:',
+				'  script: ./deploy.sh',
+				'unit-tests:',
+				'  stage: test',
+				'  script: npm test',
+				'deploy-staging:',
+				'  extends: .deploy-template',
+				'  environment:',
+				'    name: staging'
+			].join('\n'));
+
+			assert.deepStrictEqual(pipeline, {
+				type: 'gitlab-ci',
+				name: 'gitlab-ci',
+				onEvents: ['merge_request_event'],
+				jobs: ['unit-tests', 'deploy-staging'],
+				environments: ['staging'],
+				agents: ['node:20'],
+				variables: ['NPM_CONFIG_CACHE']
+			});
+		});
+	});
+
+	describe('GitHub Actions Analysis', () => {
+		it('should expand the matrix into runners and setup-* runtime versions', () => {
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const workflow = new CIParser().parseGitHubWorkflow([
+				'on: push',
+				'jobs:',
+				'  test:',
+				'    runs-on: ${{ matrix.os }}',
+				'    strategy:',
+				'      matrix:',
+				'        os: [ubuntu-latest, windows-latest]',
+				'        node: [18, 20]',
+				'        include:',
+				'          - os: macos-latest',
+				'            node: 22',
+				'            experimental: true',
+				'        exclude:',
+				'          - os: windows-latest',
+				'            node: 18',
+				'    steps:',
+				'      - uses: actions/setup-node@v4',
+				'        with:',
+				'          node-version: ${{ matrix.node }}',
+				'      - uses: actions/setup-dotnet@v4',
+				'        with:',
+				'          dotnet-version: |',
+				'            6.0.x',
+				'            8.0.x'
+			].join('\n'), 'test');
+
+			assert.deepStrictEqual(workflow.matrix, {
+				os: ['ubuntu-latest', 'windows-latest', 'macos-latest'],
+				node: ['18', '20', '22'],
+				experimental: ['true']
+			});
+			assert.deepStrictEqual(workflow.agents, ['ubuntu-latest', 'windows-latest', 'macos-latest']);
+			assert.deepStrictEqual(workflow.runtimes, ['node 18', 'node 20', 'node 22', 'dotnet 6.0.x', 'dotnet 8.0.x']);
+		});
+
+		it('should list actions with their pinning, local references, secrets and vars', () => {
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const workflow = new CIParser().parseGitHubWorkflow([
+				'on: push',
+				'jobs:',
+				'  build:',
+				'    runs-on: ubuntu-latest',
+				'    steps:',
+				'      - uses: actions/checkout@v4',
+				'      - uses: actions/checkout@v4',
+				'      - uses: github/codeql-action/init@8fcfedf57053e09257688fce7a0beeb18b1b9ae3',
+				'      - uses: some-org/deploy-action@main',
+				'      - uses: docker://alpine:3.19',
+				'      - uses: ./.github/actions/setup/',
+				'      - run: ./deploy.sh',
+				'        env:',
+				'          TOKEN: ${{ secrets.DEPLOY_TOKEN }}',
+				'          REGION: ${{ vars.AWS_REGION }}',
+				'  release:',
+				'    uses: ./.github/workflows/release.yml',
+				'    secrets:',
+				'      npm: ${{ secrets.NPM_TOKEN }}'
+			].join('\n'), 'build');
+
+			assert.deepStrictEqual(workflow.actions, [
+				{ name: 'actions/checkout', ref: 'v4', pinning: 'tag' },
+				{ name: 'github/codeql-action/init', ref: '8fcfedf57053e09257688fce7a0beeb18b1b9ae3', pinning: 'sha' },
+				{ name: 'some-org/deploy-action', ref: 'main', pinning: 'branch' }
+			]);
+			assert.deepStrictEqual(workflow.localReferences, ['.github/actions/setup', '.github/workflows/release.yml']);
+			assert.deepStrictEqual(workflow.secrets, ['DEPLOY_TOKEN', 'NPM_TOKEN']);
+			assert.deepStrictEqual(workflow.vars, ['AWS_REGION']);
+		});
+
+		it('should read composite action steps', () => {
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const action = new CIParser().parseCompositeAction([
+				'name: Setup',
+				'runs:',
+				'  using: composite',
+				'  steps:',
+				'    - uses: actions/setup-python@v5',
+				'      with:',
+				'        python-version: \'3.12\'',
+				'    - run: pip install -r requirements.txt',
+				'      shell: bash',
+				'      env:',
+				'        PIP_INDEX_URL: ${{ vars.PIP_INDEX }}'
+			].join('\n'));
+
+			assert.deepStrictEqual(action, {
+				matrix: {},
+				runtimes: ['python 3.12'],
+				actions: [{ name: 'actions/setup-python', ref: 'v5', pinning: 'tag' }],
+				secrets: [],
+				vars: ['PIP_INDEX'],
+				localReferences: []
+			});
+		});
+
+		it('should follow local reusable workflows and composite actions', async () => {
+			const fs = require('fs');
+			const os = require('os');
+			const path = require('path');
+			const vscode = require('vscode');
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ci-parser-'));
+			const write = (relativePath: string, content: string) => {
+				fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+				fs.writeFileSync(path.join(root, relativePath), content);
+			};
+
+			try {
+				write('.github/workflows/ci.yml', [
+					'on: push',
+					'jobs:',
+					'  build:',
+					'    uses: ./.github/workflows/build.yml'
+				].join('\n'));
+				write('.github/workflows/build.yml', [
+					'on: workflow_call',
+					'jobs:',
+					'  build:',
+					'    runs-on: ubuntu-latest',
+					'    steps:',
+					'      - uses: ./.github/actions/setup',
+					'      - run: npm publish',
+					'        env:',
+					'          NODE_AUTH_TOKEN: ${{ secrets.NPM_TOKEN }}'
+				].join('\n'));
+				write('.github/actions/setup/action.yml', [
+					'runs:',
+					'  using: composite',
+					'  steps:',
+					'    - uses: actions/setup-node@main',
+					'      with:',
+					'        node-version: 20'
+				].join('\n'));
+
+				const result = await new CIParser().parseConfigurations(vscode.Uri.file(root));
+				const ci = result.data.find((workflow: any) => workflow.name === 'ci');
+
+				assert.deepStrictEqual(ci.agents, ['ubuntu-latest']);
+				assert.deepStrictEqual(ci.runtimes, ['node 20']);
+				assert.deepStrictEqual(ci.actions, [{ name: 'actions/setup-node', ref: 'main', pinning: 'branch' }]);
+				assert.deepStrictEqual(ci.secrets, ['NPM_TOKEN']);
+				assert.deepStrictEqual(ci.localReferences, ['.github/workflows/build.yml', '.github/actions/setup']);
+			} finally {
+				fs.rmSync(root, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe('Jenkins', () => {
+		it('should read declarative stages, agents, triggers and environment', () => {
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const pipeline = new CIParser().parseJenkinsfile([
+				'pipeline {',
+				'    agent { docker { image \'node:20\' } }',
+				'    triggers { cron(\'H 4 * * *\') }',
+				'    environment {',
+				'        NODE_ENV = \'production\'',
+				'        API_KEY = credentials(\'api-key\')',
+				'    }',
+				'    stages {',
+				'        stage(\'Build\') { steps { sh \'npm ci\' } }',
+				'        // stage(\'Lint\') { steps { sh \'npm run lint\' } }',
+				'        stage(\'Deploy to staging\') { steps { sh \'./deploy.sh staging\' } }',
+				'    }',
+				'}'
+			].join('\n'));
+
+			assert.deepStrictEqual(pipeline, {
+				type: 'jenkins',
+				name: 'Jenkinsfile',
+				onEvents: ['cron'],
+				jobs: ['Build', 'Deploy to staging'],
+				environments: ['staging'],
+				agents: ['node:20'],
+				variables: ['NODE_ENV', 'API_KEY']
+			});
+		});
+	});
+
+	describe('CircleCI', () => {
+		it('should return one entry per workflow with orbs, executors and contexts', () => {
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const workflows = new CIParser().parseCircleCIConfig([
+				'version: 2.1',
+				'orbs:',
+				'  node: circleci/node@5.1.0',
+				'executors:',
+				'  default:',
+				'    docker:',
+				'      - image: cimg/node:20.11',
+				'jobs:',
+				'  test:',
+				'    executor: default',
+				'    steps: [checkout]',
+				'  deploy:',
+				'    machine:',
+				'      image: ubuntu-2204:current',
+				'    steps: [checkout]',
+				'workflows:',
+				'  version: 2',
+				'  build-and-deploy:',
+				'    jobs:',
+				'      - test',
+				'      - deploy:',
+				'          requires: [test]',
+				'          context: aws-production',
+				'          filters:',
+				'            tags:',
+				'              only: /^v.*/',
+				'  nightly:',
+				'    triggers:',
+				'      - schedule:',
+				'          cron: "0 0 * * *"',
+				'    jobs:',
+				'      - node/test'
+			].join('\n'));
+
+			assert.deepStrictEqual(workflows, [
+				{
+					type: 'circleci',
+					name: 'build-and-deploy',
+					onEvents: ['push', 'tag'],
+					jobs: ['test', 'deploy'],
+					environments: ['production'],
+					agents: ['cimg/node:20.11', 'machine (ubuntu-2204:current)'],
+					plugins: ['circleci/node@5.1.0']
+				},
+				{
+					type: 'circleci',
+					name: 'nightly',
+					onEvents: ['schedule'],
+					jobs: ['node/test'],
+					environments: [],
+					agents: [],
+					plugins: ['circleci/node@5.1.0']
+				}
+			]);
+		});
+	});
+
+	describe('Bitbucket Pipelines', () => {
+		it('should read triggers, steps in parallel groups and stages, and deployments', () => {
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const pipeline = new CIParser().parseBitbucketPipelines([
+				'image: node:20',
+				'pipelines:',
+				'  default:',
+				'    - parallel:',
+				'        - step:',
+				'            name: Lint',
+				'        - step:',
+				'            name: Test',
+				'  branches:',
+				'    main:',
+				'      - step:',
+				'          name: Test',
+				'      - stage:',
+				'          name: Release',
+				'          deployment: production',
+				'          steps:',
+				'            - step:',
+				'                name: Deploy',
+				'                image: atlassian/pipelines-awscli',
+				'  pull-requests:',
+				'    \'**\':',
+				'      - step:',
+				'          name: Test'
+			].join('\n'));
+
+			assert.deepStrictEqual(pipeline, {
+				type: 'bitbucket-pipelines',
+				name: 'bitbucket-pipelines',
+				onEvents: ['push', 'push (main)', 'pull_request (**)'],
+				jobs: ['Lint', 'Test', 'Deploy'],
+				environments: ['production'],
+				agents: ['node:20', 'atlassian/pipelines-awscli']
+			});
+		});
+	});
+
+	describe('Buildkite', () => {
+		it('should read step labels, groups, agent queues, plugins and env', () => {
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const pipeline = new CIParser().parseBuildkitePipeline([
+				'env:',
+				'  NODE_ENV: test',
+				'steps:',
+				'  - label: ":npm: Test"',
+				'    command: npm test',
+				'    plugins:',
+				'      - docker#v5.9.0:',
+				'          image: node:20',
+				'  - wait',
+				'  - group: ":rocket: Deploy"',
+				'    steps:',
+				'      - block: "Release?"',
+				'      - label: "Deploy to production"',
+				'        command: ./deploy.sh',
+				'        if: build.source == "schedule"',
+				'        agents:',
+				'          queue: deploy'
+			].join('\n'));
+
+			assert.deepStrictEqual(pipeline, {
+				type: 'buildkite',
+				name: 'buildkite',
+				onEvents: ['schedule'],
+				jobs: ['Test', 'Deploy to production'],
+				environments: ['production'],
+				agents: ['queue=deploy'],
+				plugins: ['docker#v5.9.0'],
+				variables: ['NODE_ENV']
+			});
+		});
+	});
+
+	describe('Job Locations', () => {
+		it('should prefer job keys over other mentions of the job name', () => {
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const lines = new CIParser().locateJobs([
+				'name: CI',
+				'jobs:',
+				'  lint:',
+				'    runs-on: ubuntu-latest',
+				'  test:',
+				'    needs: lint',
+				'stage(\'Deploy to staging\') {'
+			].join('\n'), ['test', 'lint', 'Deploy to staging', 'missing']);
+
+			assert.deepStrictEqual(lines, { test: 4, lint: 2, 'Deploy to staging': 6 });
+		});
+
+		it('should not match lines that only mention the job name', () => {
+			const { CIParser } = require('../../src/scanner/parsers/ciParser');
+			const lines = new CIParser().locateJobs([
+				'steps:',
+				'  - run: npm run build',
+				'  - label: ":rocket: build"',
+				'  - name: Deploy',
+				'  - publish'
+			].join('\n'), ['build', 'Deploy', 'publish']);
+
+			assert.deepStrictEqual(lines, { Deploy: 3, publish: 4 });
+		});
+	});
 });
 
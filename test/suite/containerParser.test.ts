@@ -0,0 +1,182 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('ContainerParser Tests', () => {
+	describe('Parser Structure', () => {
+		it('should have parseContainers and a parse method per file format', () => {
+			const { ContainerParser } = require('../../src/scanner/parsers/containerParser');
+			const parser = new ContainerParser();
+
+			assert.ok(typeof parser.parseContainers === 'function');
+			assert.ok(typeof parser.parseDockerfile === 'function');
+			assert.ok(typeof parser.parseComposeFile === 'function');
+			assert.ok(typeof parser.mapInfrastructure === 'function');
+		});
+	});
+
+	describe('Dockerfiles', () => {
+		it('should read base images, stages, ports, user and healthcheck', () => {
+			const { ContainerParser } = require('../../src/scanner/parsers/containerParser');
+			const dockerfile = new ContainerParser().parseDockerfile([
+				'# syntax=docker/dockerfile:1',
+				'ARG NODE_VERSION=20',
+				'FROM --platform=$BUILDPLATFORM node:${NODE_VERSION}-alpine AS build',
+				'WORKDIR /app',
+				'RUN npm ci \\',
+				'    && npm run build',
+				'',
+				'FROM build AS test',
+				'RUN npm test',
+				'',
+				'FROM gcr.io/distroless/nodejs20-debian12@sha256:0123abcd AS runtime',
+				'COPY --from=build /app/dist /app',
+				'EXPOSE 8080 9229/tcp',
+				'USER nonroot:nonroot',
+				'HEALTHCHECK --interval=30s --timeout=3s \\',
+				'  CMD wget -qO- http://localhost:8080/health || exit 1'
+			].join('\n'));
+
+			assert.deepStrictEqual(dockerfile, {
+				baseImages: [
+					{ name: 'node', tag: '20-alpine', digest: undefined },
+					{ name: 'gcr.io/distroless/nodejs20-debian12', tag: undefined, digest: 'sha256:0123abcd' }
+				],
+				stages: ['build', 'test', 'runtime'],
+				exposedPorts: ['8080', '9229/tcp'],
+				user: 'nonroot:nonroot',
+				healthcheck: 'wget -qO- http://localhost:8080/health || exit 1'
+			});
+		});
+
+		it('should keep registry ports apart from tags and skip scratch', () => {
+			const { ContainerParser } = require('../../src/scanner/parsers/containerParser');
+			const dockerfile = new ContainerParser().parseDockerfile([
+				'FROM localhost:5000/base',
+				'FROM scratch',
+				'HEALTHCHECK NONE'
+			].join('\n'));
+
+			assert.deepStrictEqual(dockerfile.baseImages, [{ name: 'localhost:5000/base', tag: undefined, digest: undefined }]);
+			assert.strictEqual(dockerfile.user, undefined);
+			assert.strictEqual(dockerfile.healthcheck, 'NONE');
+		});
+	});
+
+	describe('Compose Files', () => {
+		it('should read services with short and long port and volume syntax', () => {
+			const { ContainerParser } = require('../../src/scanner/parsers/containerParser');
+			const services = new ContainerParser().parseComposeFile([
+				'x-db: &db',
+				'  restart: unless-stopped',
+				'services:',
+				'  api:',
+				'    build:',
+				'      context: ./api',
+				'    ports:',
+				'      - "3000:3000"',
+				'      - target: 9229',
+				'        published: 9229',
+				'    depends_on:',
+				'      db:',
+				'        condition: service_healthy',
+				'      cache:',
+				'  db:',
+				'    <<: *db',
+				'    image: postgres:${POSTGRES_TAG:-16}',
+				'    volumes:',
+				'      - pgdata:/var/lib/postgresql/data',
+				'      - type: bind',
+				'        source: ./init.sql',
+				'        target: /docker-entrypoint-initdb.d/init.sql',
+				'  cache:',
+				'    image: redis:7-alpine',
+				'    depends_on: [db]',
+				'volumes:',
+				'  pgdata:'
+			].join('\n'));
+
+			assert.deepStrictEqual(services, [
+				{ name: 'api', image: undefined, build: './api', ports: ['3000:3000', '9229:9229'], volumes: [], dependsOn: ['db', 'cache'] },
+				{
+					name: 'db',
+					image: 'postgres:16',
+					build: undefined,
+					ports: [],
+					volumes: ['pgdata:/var/lib/postgresql/data', './init.sql:/docker-entrypoint-initdb.d/init.sql'],
+					dependsOn: []
+				},
+				{ name: 'cache', image: 'redis:7-alpine', build: undefined, ports: [], volumes: [], dependsOn: ['db'] }
+			]);
+		});
+
+		it('should map service images to infrastructure categories', () => {
+			const { ContainerParser } = require('../../src/scanner/parsers/containerParser');
+			const parser = new ContainerParser();
+			const service = (name: string, image?: string) => ({ name, image, ports: [], volumes: [], dependsOn: [] });
+
+			const infrastructure = parser.mapInfrastructure([
+				service('db', 'docker.io/library/postgres:16'),
+				service('cache', 'redis/redis-stack:latest'),
+				service('broker', 'confluentinc/cp-kafka:7.6.0'),
+				service('s3', 'minio/minio'),
+				service('rabbitmq'),
+				service('api', 'ghcr.io/acme/api:1.0')
+			]);
+
+			assert.deepStrictEqual(infrastructure, {
+				databases: ['PostgreSQL'],
+				cache: ['Redis'],
+				queues: ['RabbitMQ'],
+				storage: ['MinIO'],
+				messaging: ['Apache Kafka']
+			});
+		});
+	});
+
+	describe('Workspace Scan', () => {
+		let root: string;
+
+		const write = (relativePath: string, content: string) => {
+			const file = path.join(root, relativePath);
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(file, content);
+		};
+
+		beforeEach(() => {
+			root = fs.mkdtempSync(path.join(os.tmpdir(), 'container-parser-'));
+		});
+
+		afterEach(() => {
+			fs.rmSync(root, { recursive: true, force: true });
+		});
+
+		it('should find Dockerfiles and compose files at the root and in docker folders', async () => {
+			const vscode = require('vscode');
+			const { ContainerParser } = require('../../src/scanner/parsers/containerParser');
+			write('Dockerfile', 'FROM python:3.12-slim\n');
+			write('docker/worker.Dockerfile', 'FROM python:3.12-slim\n');
+			write('compose.yaml', 'services:\n  web:\n    build: .\n');
+			write('docker-compose.override.yml', 'services:\n  web:\n    ports: ["8000:8000"]\n');
+			write('.dockerignore', 'node_modules\n');
+
+			const result = await new ContainerParser().parseContainers(vscode.Uri.file(root));
+
+			assert.deepStrictEqual(result.data.dockerfiles.map((dockerfile: any) => dockerfile.file), ['Dockerfile', 'docker/worker.Dockerfile']);
+			assert.deepStrictEqual(result.data.composeFiles.map((compose: any) => compose.file), ['compose.yaml', 'docker-compose.override.yml']);
+			assert.strictEqual(result.data.composeFiles[0].services[0].build, '.');
+		});
+
+		it('should return no data without container files', async () => {
+			const vscode = require('vscode');
+			const { ContainerParser } = require('../../src/scanner/parsers/containerParser');
+			write('package.json', '{}');
+
+			const result = await new ContainerParser().parseContainers(vscode.Uri.file(root));
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(result.data, undefined);
+		});
+	});
+});
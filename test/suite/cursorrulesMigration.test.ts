@@ -0,0 +1,95 @@
+// Unit tests for splitting a legacy .cursorrules file into .mdc rules
+import * as assert from 'assert';
+import { generateDescription, inferGlobs, splitCursorrules } from '../../src/utils/cursorrulesMigration';
+
+describe('Cursorrules Migration', () => {
+	describe('splitCursorrules', () => {
+		const text = [
+			'# My Project',
+			'You are an expert TypeScript developer.',
+			'',
+			'## Testing',
+			'Write tests with Jest. Put them next to the code as `*.test.ts`.',
+			'### Mocks',
+			'Mock the network.',
+			'',
+			'## API',
+			'Handlers live in `src/api/`.',
+			'',
+			'## Style',
+			'- Use tabs.',
+			'```ts',
+			'// src/legacy/old.ts',
+			'## Not a heading',
+			'```'
+		].join('\n');
+
+		it('should split at the repeated heading level and keep the title as a General rule', () => {
+			const rules = splitCursorrules(text);
+			assert.deepStrictEqual(rules.map(rule => rule.fileName), ['general.mdc', 'testing.mdc', 'api.mdc', 'style.mdc']);
+			assert.strictEqual(rules[0].content, '# General\n\nYou are an expert TypeScript developer.');
+		});
+
+		it('should scope sections that mention files and keep the rest always applied', () => {
+			const [general, testing, api, style] = splitCursorrules(text);
+			assert.deepStrictEqual(general.metadata, { description: 'General: You are an expert TypeScript developer.', alwaysApply: true });
+			assert.deepStrictEqual(testing.metadata.globs, ['*.test.ts']);
+			assert.strictEqual(testing.metadata.alwaysApply, false);
+			assert.deepStrictEqual(api.metadata.globs, ['src/api/**']);
+			assert.strictEqual(style.metadata.alwaysApply, true);
+		});
+
+		it('should shift nested headings under the rule title', () => {
+			const testing = splitCursorrules(text)[1];
+			assert.ok(testing.content.startsWith('# Testing\n\n'));
+			assert.ok(testing.content.includes('\n## Mocks\n'));
+		});
+
+		it('should keep a file without headings as a single rule', () => {
+			const rules = splitCursorrules('Always answer briefly.\nPrefer functions.');
+			assert.strictEqual(rules.length, 1);
+			assert.strictEqual(rules[0].fileName, 'general.mdc');
+			assert.strictEqual(rules[0].metadata.alwaysApply, true);
+		});
+
+		it('should make duplicate file names unique', () => {
+			const rules = splitCursorrules('## Notes\nA.\n## Notes\nB.');
+			assert.deepStrictEqual(rules.map(rule => rule.fileName), ['notes.mdc', 'notes-2.mdc']);
+		});
+
+		it('should return nothing for an empty file', () => {
+			assert.deepStrictEqual(splitCursorrules('  \n'), []);
+		});
+	});
+
+	describe('inferGlobs', () => {
+		it('should turn extensions, folders and files into globs', () => {
+			assert.deepStrictEqual(
+				inferGlobs('Components are .tsx files in src/components/, and the client is src/db/client.ts.'),
+				['**/*.tsx', 'src/components/**', 'src/db/**']
+			);
+		});
+
+		it('should keep explicit globs and ignore emphasis, URLs and unknown extensions', () => {
+			assert.deepStrictEqual(
+				inferGlobs('**Note**: see https://example.com/docs/a.ts and use `tests/**/*.py`, e.g. v1.2 or .foo'),
+				['tests/**/*.py']
+			);
+		});
+
+		it('should ignore fenced code and node_modules', () => {
+			assert.deepStrictEqual(inferGlobs('```\nsrc/app.ts\n```\nNever edit node_modules/foo.js'), []);
+		});
+	});
+
+	describe('generateDescription', () => {
+		it('should combine the title with the first sentence', () => {
+			assert.strictEqual(generateDescription('Testing', '- Use **Jest**. Always.'), 'Testing: Use Jest.');
+		});
+
+		it('should fall back to the title and truncate long descriptions', () => {
+			assert.strictEqual(generateDescription('Style', '```\ncode\n```'), 'Style');
+			assert.strictEqual(generateDescription('Long', 'x'.repeat(200)).length, 120);
+		});
+	});
+});
@@ -1,4 +1,7 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 describe('DotNetParser Tests', () => {
 	describe('Parser Structure', () => {
@@ -8,6 +11,7 @@ describe('DotNetParser Tests', () => {
 			const parser = new DotNetParser();
 
 			assert.ok(typeof parser.parseProjects === 'function');
+			assert.ok(typeof parser.parseSolutionInfo === 'function');
 			assert.ok(typeof parser.getFrameworkVersions === 'function');
 			assert.ok(typeof parser.getImportantDependencies === 'function');
 		});
@@ -97,4 +101,157 @@ describe('DotNetParser Tests', () => {
 			assert.ok(deps.length > 0);
 		});
 	});
+
+	describe('Solution Files', () => {
+		it('should list C#, F# and VB projects and skip solution folders', () => {
+			const { DotNetParser } = require('../../src/scanner/parsers/dotnetParser');
+			const projects = new DotNetParser().parseSolution([
+				'Microsoft Visual Studio Solution File, Format Version 12.00',
+				'Project("{2150E333-8FDC-42A3-9474-1A3956D46DE8}") = "src", "src", "{11111111-1111-1111-1111-111111111111}"',
+				'EndProject',
+				'Project("{9A19103F-16F7-4668-BE54-9A1E7A4F7556}") = "Shop.Api", "src\\Shop.Api\\Shop.Api.csproj", "{22222222-2222-2222-2222-222222222222}"',
+				'EndProject',
+				'Project("{F2A71F9B-5D33-465A-A702-920D77279786}") = "Shop.Pricing", "src\\Shop.Pricing\\Shop.Pricing.fsproj", "{33333333-3333-3333-3333-333333333333}"',
+				'EndProject'
+			].join('\n'));
+
+			assert.deepStrictEqual(projects, [
+				{ name: 'Shop.Api', path: 'src/Shop.Api/Shop.Api.csproj' },
+				{ name: 'Shop.Pricing', path: 'src/Shop.Pricing/Shop.Pricing.fsproj' }
+			]);
+		});
+
+		it('should read .slnx project paths', () => {
+			const { DotNetParser } = require('../../src/scanner/parsers/dotnetParser');
+			const projects = new DotNetParser().parseSolution([
+				'<Solution>',
+				'  <Folder Name="/src/">',
+				'    <Project Path="src/Shop.Api/Shop.Api.csproj" />',
+				'  </Folder>',
+				'  <Project Path="tests\\Shop.Tests\\Shop.Tests.csproj" />',
+				'</Solution>'
+			].join('\n'));
+
+			assert.deepStrictEqual(projects, [
+				{ name: 'Shop.Api', path: 'src/Shop.Api/Shop.Api.csproj' },
+				{ name: 'Shop.Tests', path: 'tests/Shop.Tests/Shop.Tests.csproj' }
+			]);
+		});
+	});
+
+	describe('Solution-Level Configuration', () => {
+		it('should read the SDK pin from global.json with comments', () => {
+			const { DotNetParser } = require('../../src/scanner/parsers/dotnetParser');
+			const sdk = new DotNetParser().parseGlobalJson([
+				'{',
+				'  // Pinned for CI',
+				'  "sdk": { "version": "8.0.204", "rollForward": "latestFeature" }',
+				'}'
+			].join('\n'));
+
+			assert.deepStrictEqual(sdk, { sdkVersion: '8.0.204', sdkRollForward: 'latestFeature' });
+		});
+
+		it('should ignore trailing and block comments in global.json but not // inside strings', () => {
+			const { DotNetParser } = require('../../src/scanner/parsers/dotnetParser');
+			const sdk = new DotNetParser().parseGlobalJson([
+				'{',
+				'  /* SDK pin',
+				'     for CI */',
+				'  "sdk": {',
+				'    "version": "8.0.204", // keep in sync with the Dockerfile',
+				'    "rollForward": /* no major updates */ "latestPatch"',
+				'  },',
+				'  "msbuild-sdks": { "My.Sdk": "https://example.com/sdk // 1.0" }',
+				'}'
+			].join('\n'));
+
+			assert.deepStrictEqual(sdk, { sdkVersion: '8.0.204', sdkRollForward: 'latestPatch' });
+		});
+
+		it('should read unconditional Directory.Build.props properties', () => {
+			const { DotNetParser } = require('../../src/scanner/parsers/dotnetParser');
+			const properties = new DotNetParser().parseBuildProps([
+				'<Project>',
+				'  <PropertyGroup>',
+				'    <TargetFramework>net8.0</TargetFramework>',
+				'    <Nullable>enable</Nullable>',
+				'  </PropertyGroup>',
+				'  <PropertyGroup Condition="\'$(Configuration)\' == \'Release\'">',
+				'    <TreatWarningsAsErrors>true</TreatWarningsAsErrors>',
+				'  </PropertyGroup>',
+				'</Project>'
+			].join('\n'));
+
+			assert.deepStrictEqual(properties, { TargetFramework: 'net8.0', Nullable: 'enable' });
+		});
+
+		it('should read central package versions and project references', () => {
+			const { DotNetParser } = require('../../src/scanner/parsers/dotnetParser');
+			const parser = new DotNetParser();
+
+			assert.deepStrictEqual(parser.parsePackageVersions([
+				'<Project>',
+				'  <ItemGroup>',
+				'    <PackageVersion Include="Serilog" Version="3.1.1" />',
+				'    <GlobalPackageReference Include="Nerdbank.GitVersioning" Version="3.6.133" />',
+				'  </ItemGroup>',
+				'</Project>'
+			].join('\n')), [
+				{ name: 'Serilog', version: '3.1.1' },
+				{ name: 'Nerdbank.GitVersioning', version: '3.6.133' }
+			]);
+			assert.deepStrictEqual(
+				parser.parseProjectReferences('<ProjectReference Include="..\\Shop.Core\\Shop.Core.csproj" />'),
+				['../Shop.Core/Shop.Core.csproj']
+			);
+		});
+
+		it('should build the solution project graph and apply central versions to projects', async () => {
+			const vscode = require('vscode');
+			const { DotNetParser } = require('../../src/scanner/parsers/dotnetParser');
+			const root = fs.mkdtempSync(path.join(os.tmpdir(), 'dotnet-parser-'));
+			const write = (relativePath: string, content: string) => {
+				fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+				fs.writeFileSync(path.join(root, relativePath), content);
+			};
+
+			try {
+				write('Shop.sln', [
+					'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Shop.Api", "Shop.Api\\Shop.Api.csproj", "{1}"',
+					'EndProject',
+					'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Shop.Core", "Shop.Core\\Shop.Core.csproj", "{2}"',
+					'EndProject'
+				].join('\n'));
+				write('Shop.Api/Shop.Api.csproj', [
+					'<Project Sdk="Microsoft.NET.Sdk.Web">',
+					'  <ItemGroup>',
+					'    <PackageReference Include="Serilog" />',
+					'    <ProjectReference Include="..\\Shop.Core\\Shop.Core.csproj" />',
+					'  </ItemGroup>',
+					'</Project>'
+				].join('\n'));
+				write('Shop.Core/Shop.Core.csproj', '<Project Sdk="Microsoft.NET.Sdk"></Project>');
+				write('Directory.Build.props', '<Project><PropertyGroup><TargetFramework>net8.0</TargetFramework></PropertyGroup></Project>');
+				write('Directory.Packages.props', '<Project><ItemGroup><PackageVersion Include="Serilog" Version="3.1.1" /></ItemGroup></Project>');
+
+				const parser = new DotNetParser();
+				const solution = await parser.parseSolutionInfo(vscode.Uri.file(root));
+				const projects = await parser.parseProjects(vscode.Uri.file(root));
+
+				assert.strictEqual(solution.data.solutionFile, 'Shop.sln');
+				assert.deepStrictEqual(solution.data.projects.map((project: any) => [project.name, project.references]), [
+					['Shop.Api', ['Shop.Core']],
+					['Shop.Core', []]
+				]);
+				assert.deepStrictEqual(solution.data.centralPackages, [{ name: 'Serilog', version: '3.1.1' }]);
+
+				const api = projects.data.find((project: any) => project.isWebProject);
+				assert.strictEqual(api.targetFramework, 'net8.0');
+				assert.deepStrictEqual(api.packages, [{ name: 'Serilog', version: '3.1.1' }]);
+			} finally {
+				fs.rmSync(root, { recursive: true, force: true });
+			}
+		});
+	});
 });
@@ -1,5 +1,8 @@
 // Unit tests for DependencyPurposeMapper
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { DependencyPurposeMapper } from '../../../src/scanner/enhanced/dependencyPurposeMapper';
 
@@ -139,5 +142,53 @@ describe('DependencyPurposeMapper Test Suite', () => {
 			assert.ok(typeof dep.critical === 'boolean', 'Dependency should have critical flag');
 		}
 	});
+
+	describe('Lockfile Resolution', () => {
+		let root: string;
+
+		const write = (relativePath: string, content: unknown) => {
+			fs.writeFileSync(path.join(root, relativePath), JSON.stringify(content, null, 2));
+		};
+
+		beforeEach(() => {
+			root = fs.mkdtempSync(path.join(os.tmpdir(), 'dependency-purpose-mapper-'));
+			const dependencies = { 'gray-matter': '^4.0.3', 'yaml': '^2.3.0' };
+			write('package.json', { name: 'app', dependencies });
+			write('package-lock.json', {
+				lockfileVersion: 3,
+				packages: {
+					'': { name: 'app', dependencies },
+					'node_modules/gray-matter': { version: '4.0.3' },
+					'node_modules/yaml': { version: '1.10.2' },
+					'node_modules/js-yaml': { version: '3.14.1' },
+					'node_modules/kind-of': { version: '6.0.3' }
+				}
+			});
+		});
+
+		afterEach(() => {
+			fs.rmSync(root, { recursive: true, force: true });
+		});
+
+		it('should flag drift when the resolved version is outside the declared range', async () => {
+			const deps = await mapper.map(vscode.Uri.file(root));
+			const byName = (name: string) => deps.byPurpose.parsing.find(dep => dep.name === name);
+
+			assert.deepStrictEqual(deps.drift, ['yaml: declared ^2.3.0, resolved 1.10.2']);
+			assert.strictEqual(byName('yaml')?.resolvedVersion, '1.10.2');
+			assert.strictEqual(byName('yaml')?.drift, true);
+			assert.strictEqual(byName('gray-matter')?.drift, false);
+		});
+
+		it('should leave transitive packages out of the direct count', async () => {
+			const deps = await mapper.map(vscode.Uri.file(root));
+
+			assert.deepStrictEqual(deps.lockfiles, ['package-lock.json']);
+			assert.strictEqual(deps.directCount, 2);
+			assert.strictEqual(deps.transitiveCount, 2);
+			assert.deepStrictEqual(deps.transitive?.map(dep => dep.name), ['js-yaml']);
+			assert.ok(!deps.byPurpose.parsing.some(dep => dep.name === 'js-yaml'), 'transitive js-yaml should not be listed as direct');
+		});
+	});
 });
 
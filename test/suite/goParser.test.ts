@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+
+describe('GoParser Tests', () => {
+	describe('Parser Structure', () => {
+		it('should have parseProject, parseGoMod, parseGoWork and getImportantDependencies methods', () => {
+			const { GoParser } = require('../../src/scanner/parsers/goParser');
+			const parser = new GoParser();
+
+			assert.ok(typeof parser.parseProject === 'function');
+			assert.ok(typeof parser.parseGoMod === 'function');
+			assert.ok(typeof parser.parseGoWork === 'function');
+			assert.ok(typeof parser.getImportantDependencies === 'function');
+		});
+	});
+
+	describe('go.mod Parsing', () => {
+		const goMod = [
+			'module github.com/acme/shop // the shop service',
+			'',
+			'go 1.22',
+			'',
+			'toolchain go1.22.3',
+			'',
+			'require github.com/spf13/cobra v1.8.0',
+			'',
+			'require (',
+			'\tgithub.com/gin-gonic/gin v1.9.1',
+			'\tgithub.com/labstack/echo/v4 v4.11.4',
+			'\tgithub.com/stretchr/testify v1.9.0',
+			'\tgolang.org/x/sys v0.18.0 // indirect',
+			')',
+			'',
+			'replace github.com/acme/lib v1.0.0 => ../lib',
+			'replace (',
+			'\tgolang.org/x/net => golang.org/x/net v0.20.0',
+			')'
+		].join('\n');
+
+		it('should parse the module path, Go version and toolchain', () => {
+			const { GoParser } = require('../../src/scanner/parsers/goParser');
+			const result = new GoParser().parseGoMod(goMod);
+
+			assert.strictEqual(result.modulePath, 'github.com/acme/shop');
+			assert.strictEqual(result.goVersion, '1.22');
+			assert.strictEqual(result.toolchain, '1.22.3');
+		});
+
+		it('should parse single-line and block requires with indirect markers', () => {
+			const { GoParser } = require('../../src/scanner/parsers/goParser');
+			const result = new GoParser().parseGoMod(goMod);
+
+			assert.deepStrictEqual(result.requires.map((m: any) => m.path), [
+				'github.com/spf13/cobra',
+				'github.com/gin-gonic/gin',
+				'github.com/labstack/echo/v4',
+				'github.com/stretchr/testify',
+				'golang.org/x/sys'
+			]);
+			assert.strictEqual(result.requires[1].version, 'v1.9.1');
+			assert.strictEqual(result.requires[4].indirect, true);
+			assert.strictEqual(result.requires[0].indirect, false);
+		});
+
+		it('should parse replace directives with and without versions', () => {
+			const { GoParser } = require('../../src/scanner/parsers/goParser');
+			const result = new GoParser().parseGoMod(goMod);
+
+			assert.deepStrictEqual(result.replaces, [
+				{ path: 'github.com/acme/lib', version: 'v1.0.0', replacement: '../lib', replacementVersion: undefined },
+				{ path: 'golang.org/x/net', version: undefined, replacement: 'golang.org/x/net', replacementVersion: 'v0.20.0' }
+			]);
+		});
+	});
+
+	describe('go.work Parsing', () => {
+		it('should parse use directives in blocks and single lines', () => {
+			const { GoParser } = require('../../src/scanner/parsers/goParser');
+			const result = new GoParser().parseGoWork('go 1.21\n\nuse (\n\t./api\n\t./worker/\n)\nuse ./tools\n');
+
+			assert.strictEqual(result.goVersion, '1.21');
+			assert.deepStrictEqual(result.use, ['./api', './worker', './tools']);
+		});
+	});
+
+	describe('Dependency Extraction', () => {
+		it('should list direct requirements and note replacements', () => {
+			const { GoParser } = require('../../src/scanner/parsers/goParser');
+			const parser = new GoParser();
+
+			const testProject: any = {
+				requires: [
+					{ path: 'github.com/gin-gonic/gin', version: 'v1.9.1', indirect: false },
+					{ path: 'github.com/acme/lib', version: 'v1.0.0', indirect: false },
+					{ path: 'golang.org/x/sys', version: 'v0.18.0', indirect: true }
+				],
+				replaces: [{ path: 'github.com/acme/lib', replacement: '../lib' }]
+			};
+
+			assert.deepStrictEqual(parser.getImportantDependencies(testProject), [
+				'github.com/gin-gonic/gin v1.9.1',
+				'github.com/acme/lib v1.0.0 (replaced by ../lib)'
+			]);
+		});
+	});
+});
@@ -0,0 +1,25 @@
+// Test Helpers - Typed fixtures shared by the unit tests
+import type * as vscode from 'vscode';
+import type { Rule, RuleMetadata } from '../../src/scanner/rulesScanner';
+import type { RuleSource } from '../../src/utils/ruleSources';
+
+export interface RuleFixture {
+	metadata?: Partial<RuleMetadata>;
+	content?: string;
+	source?: RuleSource;
+}
+
+/**
+ * Create a scanned rule without touching the file system
+ * Only the Uri fields the utilities read (path, fsPath) are set, so vscode isn't loaded.
+ * @param path Forward-slash path of the rule file, e.g. '/repo/.cursor/rules/a.mdc'
+ */
+export function createRule(path: string, fixture: RuleFixture = {}): Rule {
+	return {
+		uri: { path, fsPath: path } as vscode.Uri,
+		metadata: { description: '', ...fixture.metadata },
+		content: fixture.content ?? '',
+		fileName: path.split('/').pop() as string,
+		source: fixture.source
+	};
+}
@@ -0,0 +1,235 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('JvmParser Tests', () => {
+	describe('Parser Structure', () => {
+		it('should have parseProject, parsePom, parseGradleBuild and parseGradleSettings methods', () => {
+			const { JvmParser } = require('../../src/scanner/parsers/jvmParser');
+			const parser = new JvmParser();
+
+			assert.ok(typeof parser.parseProject === 'function');
+			assert.ok(typeof parser.parsePom === 'function');
+			assert.ok(typeof parser.parseGradleBuild === 'function');
+			assert.ok(typeof parser.parseGradleSettings === 'function');
+			assert.ok(typeof parser.getImportantDependencies === 'function');
+		});
+	});
+
+	describe('pom.xml Parsing', () => {
+		const pom = `<?xml version="1.0" encoding="UTF-8"?>
+<project>
+	<modelVersion>4.0.0</modelVersion>
+	<parent>
+		<groupId>org.springframework.boot</groupId>
+		<artifactId>spring-boot-starter-parent</artifactId>
+		<version>3.2.1</version>
+	</parent>
+	<artifactId>orders</artifactId>
+	<version>1.4.0</version>
+	<properties>
+		<java.version>21</java.version>
+		<testcontainers.version>1.19.3</testcontainers.version>
+	</properties>
+	<modules>
+		<module>orders-api</module>
+		<module>orders-core</module>
+	</modules>
+	<dependencies>
+		<dependency>
+			<groupId>org.springframework.boot</groupId>
+			<artifactId>spring-boot-starter-data-jpa</artifactId>
+		</dependency>
+		<!-- <dependency><groupId>commented</groupId><artifactId>out</artifactId></dependency> -->
+		<dependency>
+			<groupId>org.testcontainers</groupId>
+			<artifactId>postgresql</artifactId>
+			<version>\${testcontainers.version}</version>
+			<scope>test</scope>
+		</dependency>
+	</dependencies>
+	<dependencyManagement>
+		<dependencies>
+			<dependency>
+				<groupId>io.quarkus.platform</groupId>
+				<artifactId>quarkus-bom</artifactId>
+				<version>3.6.0</version>
+			</dependency>
+		</dependencies>
+	</dependencyManagement>
+	<build>
+		<plugins>
+			<plugin>
+				<groupId>org.jetbrains.kotlin</groupId>
+				<artifactId>kotlin-maven-plugin</artifactId>
+			</plugin>
+		</plugins>
+	</build>
+</project>`;
+
+		it('should parse project coordinates, parent, properties and modules', () => {
+			const { JvmParser } = require('../../src/scanner/parsers/jvmParser');
+			const result = new JvmParser().parsePom(pom);
+
+			assert.strictEqual(result.artifactId, 'orders');
+			assert.strictEqual(result.version, '1.4.0');
+			assert.strictEqual(result.parent.artifact, 'spring-boot-starter-parent');
+			assert.strictEqual(result.parent.version, '3.2.1');
+			assert.strictEqual(result.properties['java.version'], '21');
+			assert.deepStrictEqual(result.modules, ['orders-api', 'orders-core']);
+		});
+
+		it('should parse dependencies, managed dependencies and plugins separately', () => {
+			const { JvmParser } = require('../../src/scanner/parsers/jvmParser');
+			const result = new JvmParser().parsePom(pom);
+
+			assert.deepStrictEqual(result.dependencies.map((d: any) => `${d.group}:${d.artifact}`), [
+				'org.springframework.boot:spring-boot-starter-data-jpa',
+				'org.testcontainers:postgresql'
+			]);
+			assert.strictEqual(result.dependencies[1].version, '1.19.3');
+			assert.strictEqual(result.dependencies[1].scope, 'test');
+			assert.deepStrictEqual(result.managedDependencies.map((d: any) => d.artifact), ['quarkus-bom']);
+			assert.deepStrictEqual(result.plugins, ['kotlin-maven-plugin']);
+		});
+	});
+
+	describe('Gradle Parsing', () => {
+		it('should parse Kotlin DSL plugins, dependencies and toolchain', () => {
+			const { JvmParser } = require('../../src/scanner/parsers/jvmParser');
+			const build = new JvmParser().parseGradleBuild(`
+plugins {
+	id("org.springframework.boot") version "3.2.1"
+	kotlin("jvm") version "1.9.22"
+	\`java-library\`
+}
+
+java {
+	toolchain {
+		languageVersion.set(JavaLanguageVersion.of(17))
+	}
+}
+
+dependencies {
+	implementation(platform("io.micronaut.platform:micronaut-platform:4.2.0"))
+	implementation("org.postgresql:postgresql:42.7.1")
+	// implementation("commented:out:1.0")
+	testImplementation("org.junit.jupiter:junit-jupiter")
+}
+`);
+
+			assert.deepStrictEqual(build.plugins, [
+				{ id: 'org.springframework.boot', version: '3.2.1' },
+				{ id: 'org.jetbrains.kotlin.jvm', version: '1.9.22' },
+				{ id: 'java-library' }
+			]);
+			assert.deepStrictEqual(build.dependencies.map((d: any) => `${d.scope} ${d.group}:${d.artifact}`), [
+				'implementation io.micronaut.platform:micronaut-platform',
+				'implementation org.postgresql:postgresql',
+				'testImplementation org.junit.jupiter:junit-jupiter'
+			]);
+			assert.strictEqual(build.dependencies[1].version, '42.7.1');
+			assert.strictEqual(build.javaVersion, '17');
+		});
+
+		it('should parse Groovy DSL map notation and sourceCompatibility', () => {
+			const { JvmParser } = require('../../src/scanner/parsers/jvmParser');
+			const build = new JvmParser().parseGradleBuild(`
+apply plugin: 'java'
+sourceCompatibility = JavaVersion.VERSION_1_8
+
+dependencies {
+	implementation group: 'org.hibernate', name: 'hibernate-core', version: '5.6.15.Final'
+	testImplementation 'org.testng:testng:7.8.0'
+}
+`);
+
+			assert.deepStrictEqual(build.plugins, [{ id: 'java' }]);
+			assert.deepStrictEqual(build.dependencies.map((d: any) => d.artifact), ['testng', 'hibernate-core']);
+			assert.strictEqual(build.javaVersion, '8');
+		});
+
+		it('should parse settings includes as directories and skip included builds', () => {
+			const { JvmParser } = require('../../src/scanner/parsers/jvmParser');
+			const settings = new JvmParser().parseGradleSettings(`
+rootProject.name = "shop"
+include(":app", ":libs:core")
+include 'tools'
+includeBuild("build-logic")
+includeBuild '../shared'
+`);
+
+			assert.strictEqual(settings.rootProjectName, 'shop');
+			assert.deepStrictEqual(settings.includes, ['app', 'libs/core', 'tools']);
+		});
+	});
+
+	describe('Workspace Scan', () => {
+		let root: string;
+
+		beforeEach(() => {
+			root = fs.mkdtempSync(path.join(os.tmpdir(), 'jvm-parser-'));
+		});
+
+		afterEach(() => {
+			fs.rmSync(root, { recursive: true, force: true });
+		});
+
+		it('should keep the Maven parent and imported BOMs out of the dependencies', async () => {
+			const vscode = require('vscode');
+			const { JvmParser } = require('../../src/scanner/parsers/jvmParser');
+			fs.writeFileSync(path.join(root, 'pom.xml'), `<project>
+	<parent>
+		<groupId>org.springframework.boot</groupId>
+		<artifactId>spring-boot-starter-parent</artifactId>
+		<version>3.2.1</version>
+	</parent>
+	<artifactId>orders</artifactId>
+	<dependencyManagement>
+		<dependencies>
+			<dependency>
+				<groupId>org.testcontainers</groupId>
+				<artifactId>testcontainers-bom</artifactId>
+				<version>1.19.3</version>
+				<type>pom</type>
+				<scope>import</scope>
+			</dependency>
+		</dependencies>
+	</dependencyManagement>
+	<dependencies>
+		<dependency>
+			<groupId>org.postgresql</groupId>
+			<artifactId>postgresql</artifactId>
+		</dependency>
+	</dependencies>
+</project>`);
+
+			const parser = new JvmParser();
+			const result = await parser.parseProject(vscode.Uri.file(root));
+
+			assert.deepStrictEqual(parser.getImportantDependencies(result.data), ['org.postgresql:postgresql']);
+			assert.strictEqual(result.data.parent.artifact, 'spring-boot-starter-parent');
+			assert.deepStrictEqual(result.data.managedDependencies.map((d: any) => `${d.artifact} ${d.scope}`), ['testcontainers-bom import']);
+			assert.deepStrictEqual(result.data.frameworks, ['Spring Boot']);
+		});
+	});
+
+	describe('Pattern Matching', () => {
+		it('should match artifacts exactly or by prefix', () => {
+			const { JvmParser } = require('../../src/scanner/parsers/jvmParser');
+			const parser = new JvmParser();
+			const project: any = {
+				dependencies: [
+					{ group: 'org.hibernate.orm', artifact: 'hibernate-core' },
+					{ group: 'org.apache.kafka', artifact: 'kafka-clients' }
+				]
+			};
+
+			assert.strictEqual(parser.hasDependency(project, ['hibernate']), true);
+			assert.strictEqual(parser.hasDependency(project, ['kafka-clients']), true);
+			assert.strictEqual(parser.hasDependency(project, ['kafka']), true);
+			assert.strictEqual(parser.hasDependency(project, ['pg']), false);
+		});
+	});
+});
@@ -0,0 +1,259 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('KubernetesParser Tests', () => {
+	describe('Parser Structure', () => {
+		it('should have parseKubernetes and a parse method per file type', () => {
+			const { KubernetesParser } = require('../../src/scanner/parsers/kubernetesParser');
+			const parser = new KubernetesParser();
+
+			assert.ok(typeof parser.parseKubernetes === 'function');
+			assert.ok(typeof parser.parseManifests === 'function');
+			assert.ok(typeof parser.parseKustomization === 'function');
+			assert.ok(typeof parser.parseChart === 'function');
+		});
+	});
+
+	describe('Manifests', () => {
+		it('should read workloads with resources, services, ingress hosts, configmaps and secrets', () => {
+			const { KubernetesParser } = require('../../src/scanner/parsers/kubernetesParser');
+			const resources = new KubernetesParser().parseManifests([
+				'apiVersion: apps/v1',
+				'kind: Deployment',
+				'metadata:',
+				'  name: api',
+				'  namespace: shop',
+				'spec:',
+				'  replicas: 3',
+				'  template:',
+				'    spec:',
+				'      containers:',
+				'        - name: api',
+				'          image: ghcr.io/acme/api:1.4.0',
+				'          resources:',
+				'            requests:',
+				'              cpu: 100m',
+				'              memory: 128Mi',
+				'            limits:',
+				'              cpu: 1',
+				'              memory: 512Mi',
+				'        - name: proxy',
+				'          image: envoyproxy/envoy:v1.30',
+				'---',
+				'apiVersion: batch/v1',
+				'kind: CronJob',
+				'metadata:',
+				'  name: cleanup',
+				'spec:',
+				'  schedule: "0 3 * * *"',
+				'  jobTemplate:',
+				'    spec:',
+				'      template:',
+				'        spec:',
+				'          containers:',
+				'            - name: cleanup',
+				'              image: ghcr.io/acme/cleanup:1.0',
+				'---',
+				'apiVersion: v1',
+				'kind: Service',
+				'metadata:',
+				'  name: api',
+				'spec:',
+				'  ports:',
+				'    - port: 80',
+				'      targetPort: 8080',
+				'    - port: 53',
+				'      protocol: UDP',
+				'---',
+				'apiVersion: networking.k8s.io/v1',
+				'kind: Ingress',
+				'metadata:',
+				'  name: api',
+				'spec:',
+				'  tls:',
+				'    - hosts: [shop.example.com]',
+				'  rules:',
+				'    - host: shop.example.com',
+				'    - host: api.example.com',
+				'---',
+				'apiVersion: v1',
+				'kind: List',
+				'items:',
+				'  - apiVersion: v1',
+				'    kind: ConfigMap',
+				'    metadata:',
+				'      name: api-config',
+				'  - apiVersion: bitnami.com/v1alpha1',
+				'    kind: SealedSecret',
+				'    metadata:',
+				'      name: api-secrets',
+				'---',
+				'just: a value'
+			].join('\n'), 'k8s/api.yaml');
+
+			assert.deepStrictEqual(resources, {
+				workloads: [
+					{
+						kind: 'Deployment',
+						name: 'api',
+						namespace: 'shop',
+						replicas: 3,
+						containers: [
+							{ name: 'api', image: 'ghcr.io/acme/api:1.4.0', requests: { cpu: '100m', memory: '128Mi' }, limits: { cpu: '1', memory: '512Mi' } },
+							{ name: 'proxy', image: 'envoyproxy/envoy:v1.30', requests: undefined, limits: undefined }
+						],
+						file: 'k8s/api.yaml'
+					},
+					{
+						kind: 'CronJob',
+						name: 'cleanup',
+						namespace: undefined,
+						replicas: undefined,
+						containers: [{ name: 'cleanup', image: 'ghcr.io/acme/cleanup:1.0', requests: undefined, limits: undefined }],
+						file: 'k8s/api.yaml'
+					}
+				],
+				services: [{ name: 'api', type: 'ClusterIP', ports: ['80:8080', '53/UDP'], file: 'k8s/api.yaml' }],
+				ingresses: [{ kind: 'Ingress', name: 'api', hosts: ['shop.example.com', 'api.example.com'], file: 'k8s/api.yaml' }],
+				configMaps: ['api-config'],
+				secrets: ['api-secrets']
+			});
+		});
+
+		it('should skip documents that expand too many aliases and keep the others', () => {
+			const { KubernetesParser } = require('../../src/scanner/parsers/kubernetesParser');
+			const levels = ['a', 'b', 'c', 'd', 'e', 'f'];
+			const resources = new KubernetesParser().parseManifests([
+				'apiVersion: v1',
+				'kind: ConfigMap',
+				`metadata: { name: ${levels[levels.length - 1]} }`,
+				...levels.map((level, index) => `${level}: &${level} [${Array(10).fill(index === 0 ? 'lol' : `*${levels[index - 1]}`).join(', ')}]`),
+				'---',
+				'apiVersion: v1',
+				'kind: ConfigMap',
+				'metadata:',
+				'  name: app-config'
+			].join('\n'), 'k8s/config.yaml');
+
+			assert.deepStrictEqual(resources.configMaps, ['app-config']);
+		});
+	});
+
+	describe('Kustomize and Helm', () => {
+		it('should read overlays with their environment, namespace and image overrides', () => {
+			const { KubernetesParser } = require('../../src/scanner/parsers/kubernetesParser');
+			const overlay = new KubernetesParser().parseKustomization([
+				'namespace: shop-prod',
+				'resources:',
+				'  - ../../base',
+				'images:',
+				'  - name: ghcr.io/acme/api',
+				'    newTag: 1.4.0',
+				'  - name: redis',
+				'    newName: registry.acme.io/redis',
+				'    digest: sha256:abc'
+			].join('\n'), 'k8s/overlays/prod');
+
+			assert.deepStrictEqual(overlay, {
+				name: 'prod',
+				path: 'k8s/overlays/prod',
+				environment: 'production',
+				namespace: 'shop-prod',
+				resources: ['../../base'],
+				images: ['ghcr.io/acme/api=ghcr.io/acme/api:1.4.0', 'redis=registry.acme.io/redis@sha256:abc']
+			});
+		});
+
+		it('should read Chart.yaml with dependencies and environments from values files', () => {
+			const { KubernetesParser } = require('../../src/scanner/parsers/kubernetesParser');
+			const chart = new KubernetesParser().parseChart([
+				'apiVersion: v2',
+				'name: shop',
+				'version: 0.3.1',
+				'appVersion: "1.4.0"',
+				'dependencies:',
+				'  - name: postgresql',
+				'    version: 15.x.x',
+				'    repository: oci://registry-1.docker.io/bitnamicharts'
+			].join('\n'), 'charts/shop', ['values.yaml', 'values-staging.yaml', 'values.prod.yaml']);
+
+			assert.deepStrictEqual(chart, {
+				name: 'shop',
+				version: '0.3.1',
+				appVersion: '1.4.0',
+				path: 'charts/shop',
+				dependencies: ['postgresql 15.x.x'],
+				valuesFiles: ['values.yaml', 'values-staging.yaml', 'values.prod.yaml'],
+				environments: ['staging', 'production']
+			});
+		});
+	});
+
+	describe('Workspace Scan', () => {
+		let root: string;
+
+		const write = (relativePath: string, content: string) => {
+			const file = path.join(root, relativePath);
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(file, content);
+		};
+
+		beforeEach(() => {
+			root = fs.mkdtempSync(path.join(os.tmpdir(), 'kubernetes-parser-'));
+		});
+
+		afterEach(() => {
+			fs.rmSync(root, { recursive: true, force: true });
+		});
+
+		it('should find manifests, overlays and charts without reading chart templates', async () => {
+			const vscode = require('vscode');
+			const { KubernetesParser } = require('../../src/scanner/parsers/kubernetesParser');
+			write('k8s/base/kustomization.yaml', 'resources:\n  - deployment.yaml\n');
+			write('k8s/base/deployment.yaml', 'apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: api\n');
+			write('k8s/overlays/staging/kustomization.yaml', 'resources:\n  - ../../base\n');
+			write('charts/shop/Chart.yaml', 'apiVersion: v2\nname: shop\nversion: 0.1.0\n');
+			write('charts/shop/values.yaml', 'replicaCount: 1\n');
+			write('charts/shop/templates/deployment.yaml', 'apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: {{ .Release.Name }}\n');
+			write('docker-compose.yml', 'services:\n  db:\n    image: postgres:16\n');
+			write('src/fixtures/pod.yaml', 'apiVersion: v1\nkind: Pod\nmetadata:\n  name: fixture\n');
+
+			const result = await new KubernetesParser().parseKubernetes(vscode.Uri.file(root));
+
+			assert.deepStrictEqual(result.data.workloads.map((workload: any) => `${workload.kind}/${workload.name}`), ['Deployment/api']);
+			assert.deepStrictEqual(result.data.overlays.map((overlay: any) => [overlay.path, overlay.environment]), [
+				['k8s/base', undefined],
+				['k8s/overlays/staging', 'staging']
+			]);
+			assert.deepStrictEqual(result.data.charts.map((chart: any) => [chart.name, chart.valuesFiles]), [['shop', ['values.yaml']]]);
+		});
+
+		it('should skip lockfiles, compose files and oversized YAML', async () => {
+			const vscode = require('vscode');
+			const { KubernetesParser } = require('../../src/scanner/parsers/kubernetesParser');
+			const manifest = (name: string) => `apiVersion: v1\nkind: Pod\nmetadata:\n  name: ${name}\n`;
+			write('pnpm-lock.yaml', manifest('lockfile'));
+			write('docker-compose.override.yml', manifest('compose'));
+			write('.gitlab-ci.yml', manifest('pipeline'));
+			write('k8s/generated.yaml', manifest('generated') + `# ${'x'.repeat(1024 * 1024)}\n`);
+			write('k8s/pod.yaml', manifest('api'));
+
+			const result = await new KubernetesParser().parseKubernetes(vscode.Uri.file(root));
+
+			assert.deepStrictEqual(result.data.workloads.map((workload: any) => workload.name), ['api']);
+		});
+
+		it('should return no data without Kubernetes configuration', async () => {
+			const vscode = require('vscode');
+			const { KubernetesParser } = require('../../src/scanner/parsers/kubernetesParser');
+			write('docker-compose.yml', 'services:\n  db:\n    image: postgres:16\n');
+
+			const result = await new KubernetesParser().parseKubernetes(vscode.Uri.file(root));
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(result.data, undefined);
+		});
+	});
+});
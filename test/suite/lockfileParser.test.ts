@@ -0,0 +1,173 @@
+import * as assert from 'assert';
+
+describe('LockfileParser Tests', () => {
+	describe('Parser Structure', () => {
+		it('should have parseLockfiles and a parse method per lockfile format', () => {
+			const { LockfileParser } = require('../../src/scanner/parsers/lockfileParser');
+			const parser = new LockfileParser();
+
+			assert.ok(typeof parser.parseLockfiles === 'function');
+			assert.ok(typeof parser.parsePackageLock === 'function');
+			assert.ok(typeof parser.parseYarnLock === 'function');
+			assert.ok(typeof parser.parsePnpmLock === 'function');
+			assert.ok(typeof parser.parsePoetryLock === 'function');
+			assert.ok(typeof parser.parseUvLock === 'function');
+			assert.ok(typeof parser.parseNuGetLock === 'function');
+		});
+	});
+
+	describe('npm Lockfiles', () => {
+		it('should mark root dependencies in package-lock.json as direct with their declared range', () => {
+			const { LockfileParser } = require('../../src/scanner/parsers/lockfileParser');
+			const packages = new LockfileParser().parsePackageLock(JSON.stringify({
+				lockfileVersion: 3,
+				packages: {
+					'': { name: 'app', dependencies: { yaml: '^2.3.0' }, devDependencies: { typescript: '^5.4.0' } },
+					'node_modules/yaml': { version: '2.4.1' },
+					'node_modules/typescript': { version: '5.4.5', dev: true },
+					'node_modules/argparse': { version: '2.0.1' },
+					'node_modules/gray-matter/node_modules/js-yaml': { version: '3.14.1' },
+					'packages/lib': { version: '1.0.0' },
+					'node_modules/lib': { resolved: 'packages/lib', link: true }
+				}
+			}));
+
+			assert.deepStrictEqual(packages, [
+				{ name: 'yaml', version: '2.4.1', range: '^2.3.0', direct: true },
+				{ name: 'typescript', version: '5.4.5', range: '^5.4.0', direct: true },
+				{ name: 'argparse', version: '2.0.1', range: undefined, direct: false },
+				{ name: 'js-yaml', version: '3.14.1', range: undefined, direct: false }
+			]);
+		});
+
+		it('should emit one yarn.lock entry per descriptor', () => {
+			const { LockfileParser } = require('../../src/scanner/parsers/lockfileParser');
+			const packages = new LockfileParser().parseYarnLock([
+				'# yarn lockfile v1',
+				'',
+				'"@babel/core@^7.0.0", "@babel/core@^7.22.0":',
+				'  version "7.24.0"',
+				'  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.24.0.tgz"',
+				'',
+				'lodash@npm:^4.17.21:',
+				'  version: 4.17.21',
+				''
+			].join('\n'));
+
+			assert.deepStrictEqual(packages, [
+				{ name: '@babel/core', version: '7.24.0', range: '^7.0.0' },
+				{ name: '@babel/core', version: '7.24.0', range: '^7.22.0' },
+				{ name: 'lodash', version: '4.17.21', range: '^4.17.21' }
+			]);
+		});
+
+		it('should read pnpm importers and package keys without peer suffixes', () => {
+			const { LockfileParser } = require('../../src/scanner/parsers/lockfileParser');
+			const packages = new LockfileParser().parsePnpmLock([
+				'lockfileVersion: \'9.0\'',
+				'importers:',
+				'  .:',
+				'    dependencies:',
+				'      react-dom:',
+				'        specifier: ^18.2.0',
+				'        version: 18.2.0(react@18.2.0)',
+				'packages:',
+				'  react-dom@18.2.0:',
+				'    resolution: {integrity: sha512-x}',
+				'  string_decoder@1.3.0:',
+				'    resolution: {integrity: sha512-y}',
+				'  \'@types/node@20.11.0\':',
+				'    resolution: {integrity: sha512-z}'
+			].join('\n'));
+
+			assert.deepStrictEqual(packages, [
+				{ name: 'react-dom', version: '18.2.0', range: '^18.2.0', direct: true },
+				{ name: 'string_decoder', version: '1.3.0', direct: false },
+				{ name: '@types/node', version: '20.11.0', direct: false }
+			]);
+		});
+	});
+
+	describe('Python Lockfiles', () => {
+		it('should read poetry.lock packages', () => {
+			const { LockfileParser } = require('../../src/scanner/parsers/lockfileParser');
+			const packages = new LockfileParser().parsePoetryLock([
+				'[[package]]',
+				'name = "django"',
+				'version = "5.0.2"',
+				'',
+				'[package.dependencies]',
+				'asgiref = ">=3.7.0,<4"',
+				'',
+				'[[package]]',
+				'name = "asgiref"',
+				'version = "3.7.2"'
+			].join('\n'));
+
+			assert.deepStrictEqual(packages, [
+				{ name: 'django', version: '5.0.2' },
+				{ name: 'asgiref', version: '3.7.2' }
+			]);
+		});
+
+		it('should take direct dependencies and specifiers from the uv.lock project entry', () => {
+			const { LockfileParser } = require('../../src/scanner/parsers/lockfileParser');
+			const packages = new LockfileParser().parseUvLock([
+				'version = 1',
+				'',
+				'[[package]]',
+				'name = "anyio"',
+				'version = "4.3.0"',
+				'source = { registry = "https://pypi.org/simple" }',
+				'',
+				'[[package]]',
+				'name = "httpx"',
+				'version = "0.27.0"',
+				'source = { registry = "https://pypi.org/simple" }',
+				'dependencies = [',
+				'    { name = "anyio" },',
+				']',
+				'',
+				'[[package]]',
+				'name = "shop"',
+				'version = "0.1.0"',
+				'source = { editable = "." }',
+				'dependencies = [',
+				'    { name = "httpx" },',
+				']',
+				'',
+				'[package.metadata]',
+				'requires-dist = [{ name = "httpx", specifier = ">=0.27" }]'
+			].join('\n'));
+
+			assert.deepStrictEqual(packages, [
+				{ name: 'anyio', version: '4.3.0', range: undefined, direct: false },
+				{ name: 'httpx', version: '0.27.0', range: '>=0.27', direct: true }
+			]);
+		});
+	});
+
+	describe('NuGet Lockfiles', () => {
+		it('should read direct and transitive packages once across target frameworks', () => {
+			const { LockfileParser } = require('../../src/scanner/parsers/lockfileParser');
+			const packages = new LockfileParser().parseNuGetLock(JSON.stringify({
+				version: 1,
+				dependencies: {
+					'net8.0': {
+						'Serilog': { type: 'Direct', requested: '[3.1.1, )', resolved: '3.1.1' },
+						'System.Memory': { type: 'Transitive', resolved: '4.5.5' },
+						'Shop.Core': { type: 'Project' }
+					},
+					'net6.0': {
+						'Serilog': { type: 'Direct', requested: '[3.1.1, )', resolved: '3.1.1' }
+					}
+				}
+			}));
+
+			assert.deepStrictEqual(packages, [
+				{ name: 'Serilog', version: '3.1.1', range: '[3.1.1, )', direct: true },
+				{ name: 'System.Memory', version: '4.5.5', range: undefined, direct: false }
+			]);
+		});
+	});
+});
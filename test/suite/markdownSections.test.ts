@@ -0,0 +1,73 @@
+// Unit tests for splitting markdown into sections
+import * as assert from 'assert';
+import { shiftHeadings, splitMarkdownSections, toKebabCase, toTitle } from '../../src/utils/markdownSections';
+
+describe('Markdown Sections', () => {
+	describe('splitMarkdownSections', () => {
+		const text = [
+			'Intro text',
+			'',
+			'# Project',
+			'Overview',
+			'## Testing',
+			'Use Jest.',
+			'### Details',
+			'More.',
+			'```md',
+			'## Not a heading',
+			'```',
+			'## Style',
+			'Tabs.'
+		].join('\n');
+
+		it('should split at level 1 and 2 headings by default', () => {
+			const sections = splitMarkdownSections(text);
+			assert.deepStrictEqual(sections.map(section => [section.title, section.level, section.line]), [
+				[undefined, 0, 0],
+				['Project', 1, 2],
+				['Testing', 2, 4],
+				['Style', 2, 11]
+			]);
+			assert.strictEqual(sections[2].body, 'Use Jest.\n### Details\nMore.\n```md\n## Not a heading\n```');
+		});
+
+		it('should split only at the requested depth', () => {
+			const sections = splitMarkdownSections(text, 1);
+			assert.deepStrictEqual(sections.map(section => section.title), [undefined, 'Project']);
+		});
+
+		it('should drop an empty preamble', () => {
+			assert.deepStrictEqual(splitMarkdownSections('\n\n## A\nbody').map(section => section.title), ['A']);
+		});
+	});
+
+	describe('shiftHeadings', () => {
+		it('should move the shallowest heading to the given level', () => {
+			assert.strictEqual(shiftHeadings('# A\n## B\ntext', 3), '### A\n#### B\ntext');
+			assert.strictEqual(shiftHeadings('### A\n#### B', 1), '# A\n## B');
+		});
+
+		it('should cap levels and skip code fences', () => {
+			assert.strictEqual(shiftHeadings('# A\n###### B\n```\n# code\n```', 2), '## A\n###### B\n```\n# code\n```');
+		});
+
+		it('should leave text without headings unchanged', () => {
+			assert.strictEqual(shiftHeadings('plain', 2), 'plain');
+		});
+	});
+
+	describe('toKebabCase', () => {
+		it('should build file name stems from headings', () => {
+			assert.strictEqual(toKebabCase('API & Error Handling'), 'api-error-handling');
+			assert.strictEqual(toKebabCase('`React` Components!'), 'react-components');
+		});
+	});
+
+	describe('toTitle', () => {
+		it('should build titles from file names', () => {
+			assert.strictEqual(toTitle('code-review.mdc'), 'Code Review');
+			assert.strictEqual(toTitle('copilot-instructions.md'), 'Copilot Instructions');
+			assert.strictEqual(toTitle('api_v2.style'), 'Api V2 Style');
+		});
+	});
+});
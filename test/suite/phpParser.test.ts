@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+
+describe('PhpParser Tests', () => {
+	describe('Parser Structure', () => {
+		it('should have parseProject, parseComposerJson, parseComposerLock and getImportantDependencies methods', () => {
+			const { PhpParser } = require('../../src/scanner/parsers/phpParser');
+			const parser = new PhpParser();
+
+			assert.ok(typeof parser.parseProject === 'function');
+			assert.ok(typeof parser.parseComposerJson === 'function');
+			assert.ok(typeof parser.parseComposerLock === 'function');
+			assert.ok(typeof parser.getImportantDependencies === 'function');
+		});
+	});
+
+	describe('composer.json Parsing', () => {
+		const composerJson = JSON.stringify({
+			name: 'acme/shop',
+			type: 'project',
+			require: {
+				'php': '^8.2',
+				'ext-pdo_pgsql': '*',
+				'laravel/framework': '^11.0',
+				'predis/predis': '^2.2',
+				'laravel/horizon': '^5.21'
+			},
+			'require-dev': {
+				'phpunit/phpunit': '^10.5',
+				'larastan/larastan': '^2.0',
+				'laravel/pint': '^1.13'
+			}
+		});
+
+		it('should parse metadata, the PHP constraint and packages', () => {
+			const { PhpParser } = require('../../src/scanner/parsers/phpParser');
+			const result = new PhpParser().parseComposerJson(composerJson);
+
+			assert.strictEqual(result.name, 'acme/shop');
+			assert.strictEqual(result.type, 'project');
+			assert.strictEqual(result.phpVersion, '^8.2');
+			assert.deepStrictEqual(result.packages.map((pkg: any) => `${pkg.name}${pkg.dev ? ' (dev)' : ''}`), [
+				'ext-pdo_pgsql',
+				'laravel/framework',
+				'predis/predis',
+				'laravel/horizon',
+				'phpunit/phpunit (dev)',
+				'larastan/larastan (dev)',
+				'laravel/pint (dev)'
+			]);
+		});
+
+		it('should detect frameworks, tools and infrastructure', () => {
+			const { PhpParser } = require('../../src/scanner/parsers/phpParser');
+			const result = new PhpParser().parseComposerJson(composerJson);
+
+			assert.deepStrictEqual(result.frameworks, ['Laravel']);
+			assert.deepStrictEqual(result.testingFrameworks, ['PHPUnit']);
+			assert.deepStrictEqual(result.codeQuality, ['PHPStan', 'Laravel Pint']);
+			assert.deepStrictEqual(result.infrastructure.databases, ['PostgreSQL', 'Eloquent (ORM)']);
+			assert.deepStrictEqual(result.infrastructure.cache, ['Redis']);
+			assert.deepStrictEqual(result.infrastructure.queues, ['Laravel Horizon']);
+		});
+
+		it('should fall back to config.platform.php', () => {
+			const { PhpParser } = require('../../src/scanner/parsers/phpParser');
+			const result = new PhpParser().parseComposerJson(JSON.stringify({ config: { platform: { php: '8.1.0' } } }));
+
+			assert.strictEqual(result.phpVersion, '8.1.0');
+			assert.deepStrictEqual(result.packages, []);
+		});
+	});
+
+	describe('composer.lock Parsing', () => {
+		it('should read versions from packages and packages-dev', () => {
+			const { PhpParser } = require('../../src/scanner/parsers/phpParser');
+			const versions = new PhpParser().parseComposerLock(JSON.stringify({
+				packages: [{ name: 'symfony/console', version: 'v7.0.3' }],
+				'packages-dev': [{ name: 'phpunit/phpunit', version: '10.5.9' }]
+			}));
+
+			assert.deepStrictEqual(versions, { 'symfony/console': '7.0.3', 'phpunit/phpunit': '10.5.9' });
+		});
+	});
+
+	describe('Dependency Extraction', () => {
+		it('should list production packages first and skip extensions', () => {
+			const { PhpParser } = require('../../src/scanner/parsers/phpParser');
+			const parser = new PhpParser();
+
+			const testProject: any = {
+				packages: [
+					{ name: 'phpunit/phpunit', constraint: '^10.5', dev: true },
+					{ name: 'ext-redis', constraint: '*', dev: false },
+					{ name: 'symfony/framework-bundle', constraint: '^7.0', version: '7.0.3', dev: false }
+				]
+			};
+
+			assert.deepStrictEqual(parser.getImportantDependencies(testProject), [
+				'symfony/framework-bundle 7.0.3',
+				'phpunit/phpunit ^10.5 (dev)'
+			]);
+		});
+	});
+});
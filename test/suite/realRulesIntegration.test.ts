@@ -197,7 +197,7 @@ describe('Real Rules Integration Tests', () => {
 			// Check that the rule contains security-related content
 			assert.ok(securityRule.content.includes('Security'), 'Should contain security content');
 			assert.ok(securityRule.content.includes('authentication'), 'Should contain authentication content');
-			assert.ok(securityRule.metadata.description.includes('Security'), 'Description should mention security');
+			assert.ok(securityRule.metadata.description!.includes('Security'), 'Description should mention security');
 		});
 
 		it('should detect testing-related content in testing.mdc', () => {
@@ -207,7 +207,7 @@ describe('Real Rules Integration Tests', () => {
 			// Check that the rule contains testing-related content
 			assert.ok(testingRule.content.includes('Testing'), 'Should contain testing content');
 			assert.ok(testingRule.content.includes('test'), 'Should contain test content');
-			assert.ok(testingRule.metadata.description.includes('Testing'), 'Description should mention testing');
+			assert.ok(testingRule.metadata.description!.includes('Testing'), 'Description should mention testing');
 		});
 
 		it('should detect performance-related content in performance.mdc', () => {
@@ -217,7 +217,7 @@ describe('Real Rules Integration Tests', () => {
 			// Check that the rule contains performance-related content
 			assert.ok(performanceRule.content.includes('Performance'), 'Should contain performance content');
 			assert.ok(performanceRule.content.includes('optimization'), 'Should contain optimization content');
-			assert.ok(performanceRule.metadata.description.includes('Performance'), 'Description should mention performance');
+			assert.ok(performanceRule.metadata.description!.includes('Performance'), 'Description should mention performance');
 		});
 
 		it('should detect TypeScript-related content in typescript-extension.mdc', () => {
@@ -227,7 +227,7 @@ describe('Real Rules Integration Tests', () => {
 			// Check that the rule contains TypeScript-related content
 			assert.ok(typescriptRule.content.includes('TypeScript'), 'Should contain TypeScript content');
 			assert.ok(typescriptRule.content.includes('typescript'), 'Should contain typescript content');
-			assert.ok(typescriptRule.metadata.description.includes('TypeScript'), 'Description should mention TypeScript');
+			assert.ok(typescriptRule.metadata.description!.includes('TypeScript'), 'Description should mention TypeScript');
 		});
 
 		it('should detect UI/UX-related content in ui-ux.mdc', () => {
@@ -237,7 +237,7 @@ describe('Real Rules Integration Tests', () => {
 			// Check that the rule contains UI/UX-related content
 			assert.ok(uiUxRule.content.includes('UI/UX'), 'Should contain UI/UX content');
 			assert.ok(uiUxRule.content.includes('user interface'), 'Should contain user interface content');
-			assert.ok(uiUxRule.metadata.description.includes('UI/UX'), 'Description should mention UI/UX');
+			assert.ok(uiUxRule.metadata.description!.includes('UI/UX'), 'Description should mention UI/UX');
 		});
 	});
 
@@ -316,14 +316,14 @@ describe('Real Rules Integration Tests', () => {
 
 	it('should have valid descriptions for all real rules', () => {
 		realRules.forEach(rule => {
-			assert.ok(rule.metadata.description && rule.metadata.description.length > 0, `Rule ${rule.fileName} should have a valid description`);
+			assert.ok(rule.metadata.description && rule.metadata.description!.length > 0, `Rule ${rule.fileName} should have a valid description`);
 		});
 	});
 
 		it('should have meaningful descriptions for all real rules', () => {
 			realRules.forEach(rule => {
-				assert.ok(rule.metadata.description.length > 10, `Rule ${rule.fileName} should have meaningful description`);
-				assert.ok(!rule.metadata.description.includes('undefined'), `Rule ${rule.fileName} description should not contain undefined`);
+				assert.ok(rule.metadata.description!.length > 10, `Rule ${rule.fileName} should have meaningful description`);
+				assert.ok(!rule.metadata.description!.includes('undefined'), `Rule ${rule.fileName} description should not contain undefined`);
 			});
 		});
 	});
@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+
+describe('RubyParser Tests', () => {
+	describe('Parser Structure', () => {
+		it('should have parseProject, parseGemfile, parseGemfileLock and getImportantDependencies methods', () => {
+			const { RubyParser } = require('../../src/scanner/parsers/rubyParser');
+			const parser = new RubyParser();
+
+			assert.ok(typeof parser.parseProject === 'function');
+			assert.ok(typeof parser.parseGemfile === 'function');
+			assert.ok(typeof parser.parseGemfileLock === 'function');
+			assert.ok(typeof parser.getImportantDependencies === 'function');
+		});
+	});
+
+	describe('Gemfile Parsing', () => {
+		const gemfile = [
+			'source "https://rubygems.org"',
+			'',
+			'ruby "3.2.2"',
+			'',
+			'gem "rails", "~> 7.1.0"',
+			'gem "pg", "~> 1.1", ">= 1.1.4" # database',
+			'gem "sidekiq"',
+			'gem "rubocop", require: false, group: :development',
+			'# gem "commented-out"',
+			'',
+			'group :development, :test do',
+			'  gem "rspec-rails"',
+			'  platforms :mri do',
+			'    gem "debug"',
+			'  end',
+			'end',
+			'',
+			'gem "bootsnap", require: false'
+		].join('\n');
+
+		it('should parse the ruby directive and gem requirements', () => {
+			const { RubyParser } = require('../../src/scanner/parsers/rubyParser');
+			const result = new RubyParser().parseGemfile(gemfile);
+
+			assert.strictEqual(result.rubyVersion, '3.2.2');
+			assert.deepStrictEqual(result.gems.map((gem: any) => gem.name), ['rails', 'pg', 'sidekiq', 'rubocop', 'rspec-rails', 'debug', 'bootsnap']);
+			assert.strictEqual(result.gems[0].requirement, '~> 7.1.0');
+			assert.strictEqual(result.gems[1].requirement, '~> 1.1, >= 1.1.4');
+			assert.strictEqual(result.gems[2].requirement, undefined);
+		});
+
+		it('should track group blocks, nested blocks and inline groups', () => {
+			const { RubyParser } = require('../../src/scanner/parsers/rubyParser');
+			const result = new RubyParser().parseGemfile(gemfile);
+			const byName = (name: string) => result.gems.find((gem: any) => gem.name === name);
+
+			assert.deepStrictEqual(byName('rails').groups, []);
+			assert.deepStrictEqual(byName('rubocop').groups, ['development']);
+			assert.deepStrictEqual(byName('rspec-rails').groups, ['development', 'test']);
+			assert.deepStrictEqual(byName('debug').groups, ['development', 'test']);
+			assert.deepStrictEqual(byName('bootsnap').groups, []);
+		});
+
+		it('should keep groups open across conditionals but not modifier ifs', () => {
+			const { RubyParser } = require('../../src/scanner/parsers/rubyParser');
+			const result = new RubyParser().parseGemfile([
+				'group :test do',
+				'  if ENV["CI"]',
+				'    gem "rspec_junit_formatter"',
+				'  end',
+				'  gem "simplecov", require: false if RUBY_ENGINE == "ruby"',
+				'  unless Gem.win_platform?',
+				'    gem "spring"',
+				'  end',
+				'  gem "capybara"',
+				'end',
+				'gem "puma"'
+			].join('\n'));
+
+			assert.deepStrictEqual(result.gems.map((gem: any) => `${gem.name} ${gem.groups.join(',')}`), [
+				'rspec_junit_formatter test',
+				'simplecov test',
+				'spring test',
+				'capybara test',
+				'puma '
+			]);
+		});
+	});
+
+	describe('Gemfile.lock Parsing', () => {
+		it('should read locked versions, RUBY VERSION and BUNDLED WITH', () => {
+			const { RubyParser } = require('../../src/scanner/parsers/rubyParser');
+			const lock = new RubyParser().parseGemfileLock([
+				'GEM',
+				'  remote: https://rubygems.org/',
+				'  specs:',
+				'    nokogiri (1.16.0-x86_64-linux)',
+				'      racc (~> 1.4)',
+				'    rails (7.1.3)',
+				'      actionpack (= 7.1.3)',
+				'',
+				'PLATFORMS',
+				'  x86_64-linux',
+				'',
+				'RUBY VERSION',
+				'   ruby 3.2.2p53',
+				'',
+				'BUNDLED WITH',
+				'   2.5.4',
+				''
+			].join('\n'));
+
+			assert.deepStrictEqual(lock.versions, { nokogiri: '1.16.0', rails: '7.1.3' });
+			assert.strictEqual(lock.rubyVersion, '3.2.2');
+			assert.strictEqual(lock.bundlerVersion, '2.5.4');
+		});
+	});
+
+	describe('Dependency Extraction', () => {
+		it('should format versions and groups', () => {
+			const { RubyParser } = require('../../src/scanner/parsers/rubyParser');
+			const parser = new RubyParser();
+
+			const testProject: any = {
+				gems: [
+					{ name: 'rails', requirement: '~> 7.1.0', version: '7.1.3', groups: [] },
+					{ name: 'rspec-rails', groups: ['development', 'test'] }
+				]
+			};
+
+			assert.deepStrictEqual(parser.getImportantDependencies(testProject), [
+				'rails 7.1.3',
+				'rspec-rails (development, test)'
+			]);
+		});
+	});
+});
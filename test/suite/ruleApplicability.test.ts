@@ -0,0 +1,127 @@
+// Unit tests for glob matching and rule applicability
+import * as assert from 'assert';
+import { matchGlob, findMatchingGlob } from '../../src/utils/globMatcher';
+import {
+	getApplicableRules,
+	getRuleApplicability,
+	getRuleBasePath,
+	normalizeGlobs
+} from '../../src/utils/ruleApplicability';
+import { createRule } from './helpers';
+
+describe('Glob Matcher', () => {
+	it('should match basename patterns at any depth', () => {
+		assert.ok(matchGlob('index.ts', '*.ts'));
+		assert.ok(matchGlob('src/deep/nested/index.ts', '*.ts'));
+		assert.ok(!matchGlob('src/index.js', '*.ts'));
+	});
+
+	it('should match globstar patterns', () => {
+		assert.ok(matchGlob('src/index.ts', 'src/**/*.ts'));
+		assert.ok(matchGlob('src/a/b/c.ts', 'src/**/*.ts'));
+		assert.ok(matchGlob('app.ts', '**/*.ts'));
+		assert.ok(!matchGlob('lib/index.ts', 'src/**/*.ts'));
+	});
+
+	it('should keep single star within one path segment', () => {
+		assert.ok(matchGlob('src/index.ts', 'src/*.ts'));
+		assert.ok(!matchGlob('src/nested/index.ts', 'src/*.ts'));
+	});
+
+	it('should support brace alternation and character classes', () => {
+		assert.ok(matchGlob('src/App.tsx', '**/*.{ts,tsx}'));
+		assert.ok(matchGlob('src/app.ts', '**/*.{ts,tsx}'));
+		assert.ok(!matchGlob('src/app.js', '**/*.{ts,tsx}'));
+		assert.ok(matchGlob('v1.ts', 'v[0-9].ts'));
+		assert.ok(!matchGlob('vx.ts', 'v[0-9].ts'));
+	});
+
+	it('should treat dots literally and handle leading ./', () => {
+		assert.ok(!matchGlob('srcXts', 'src.ts'));
+		assert.ok(matchGlob('./src/app.ts', './src/*.ts'));
+	});
+
+	it('should match directory patterns with trailing slash', () => {
+		assert.ok(matchGlob('docs/guide/intro.md', 'docs/'));
+	});
+
+	it('should return the first matching glob', () => {
+		assert.strictEqual(findMatchingGlob('src/app.test.ts', ['*.js', '**/*.test.ts', '*.ts']), '**/*.test.ts');
+		assert.strictEqual(findMatchingGlob('README.md', ['*.ts']), undefined);
+	});
+
+	it('should never match empty patterns', () => {
+		assert.ok(!matchGlob('src/app.ts', ''));
+		assert.ok(!matchGlob('src/app.ts', '   '));
+	});
+});
+
+describe('Rule Applicability', () => {
+	it('should resolve the base path of nested rules', () => {
+		assert.strictEqual(getRuleBasePath('/repo/.cursor/rules/a.mdc'), '/repo');
+		assert.strictEqual(getRuleBasePath('/repo/packages/api/.cursor/rules/sub/b.mdc'), '/repo/packages/api');
+		assert.strictEqual(getRuleBasePath('/repo/docs/a.mdc'), undefined);
+	});
+
+	it('should normalize comma-separated globs', () => {
+		assert.deepStrictEqual(normalizeGlobs('*.ts, *.tsx'), ['*.ts', '*.tsx']);
+		assert.deepStrictEqual(normalizeGlobs(['src/**', '']), ['src/**']);
+		assert.deepStrictEqual(normalizeGlobs(undefined), []);
+	});
+
+	it('should attach alwaysApply rules to every file under their folder', () => {
+		const rule = createRule('/repo/.cursor/rules/always.mdc', { metadata: { description: 'Always', alwaysApply: true, globs: [] } });
+		const match = getRuleApplicability(rule, '/repo/src/app.ts');
+
+		assert.ok(match);
+		assert.strictEqual(match?.reason, 'alwaysApply');
+		assert.strictEqual(match?.relativePath, 'src/app.ts');
+	});
+
+	it('should report the glob that matched', () => {
+		const rule = createRule('/repo/.cursor/rules/ts.mdc', { metadata: { description: 'TS', globs: ['*.js', 'src/**/*.ts'] } });
+		const match = getRuleApplicability(rule, '/repo/src/app.ts');
+
+		assert.strictEqual(match?.reason, 'glob');
+		assert.strictEqual(match?.matchedGlob, 'src/**/*.ts');
+	});
+
+	it('should resolve nested rule globs relative to their own folder', () => {
+		const rule = createRule('/repo/packages/api/.cursor/rules/api.mdc', { metadata: { description: 'API', globs: ['src/**/*.ts'] } });
+
+		assert.ok(getRuleApplicability(rule, '/repo/packages/api/src/server.ts'));
+		assert.strictEqual(getRuleApplicability(rule, '/repo/src/server.ts'), null);
+		assert.strictEqual(getRuleApplicability(rule, '/repo/packages/web/src/server.ts'), null);
+	});
+
+	it('should not attach rules without globs or alwaysApply', () => {
+		const rule = createRule('/repo/.cursor/rules/manual.mdc', { metadata: { description: 'Manual', globs: [], alwaysApply: false } });
+		assert.strictEqual(getRuleApplicability(rule, '/repo/src/app.ts'), null);
+	});
+
+	it('should always apply .cursorrules and AGENTS.md under the folder that contains them', () => {
+		const cursorrules = createRule('/repo/.cursorrules', { source: 'cursorrules' });
+		const agents = createRule('/repo/packages/api/AGENTS.md', { source: 'agents' });
+
+		assert.deepStrictEqual(getRuleApplicability(cursorrules, '/repo/src/app.ts'), { rule: cursorrules, reason: 'alwaysApply', relativePath: 'src/app.ts' });
+		assert.deepStrictEqual(getRuleApplicability(agents, '/repo/packages/api/src/server.ts'), { rule: agents, reason: 'alwaysApply', relativePath: 'src/server.ts' });
+		assert.strictEqual(getRuleApplicability(agents, '/repo/packages/web/src/app.ts'), null);
+	});
+
+	it('should not apply instruction files Cursor doesn\'t read', () => {
+		const claude = createRule('/repo/CLAUDE.md', { metadata: { alwaysApply: true }, source: 'claude' });
+		assert.strictEqual(getRuleApplicability(claude, '/repo/src/app.ts'), null);
+	});
+
+	it('should list always-apply rules before glob matches', () => {
+		const rules = [
+			createRule('/repo/.cursor/rules/b-glob.mdc', { metadata: { description: 'B', globs: ['**/*.ts'] } }),
+			createRule('/repo/.cursor/rules/z-always.mdc', { metadata: { description: 'Z', alwaysApply: true } }),
+			createRule('/repo/.cursor/rules/a-glob.mdc', { metadata: { description: 'A', globs: ['*.ts'] } }),
+			createRule('/repo/.cursor/rules/none.mdc', { metadata: { description: 'None', globs: ['*.py'] } })
+		];
+
+		const applicable = getApplicableRules(rules, '/repo/src/app.ts');
+		assert.deepStrictEqual(applicable.map(a => a.rule.fileName), ['z-always.mdc', 'a-glob.mdc', 'b-glob.mdc']);
+	});
+});
@@ -0,0 +1,79 @@
+// Unit tests for rule token and size budgeting
+import * as assert from 'assert';
+import {
+	estimateTokens,
+	getRuleSize,
+	calculateContextBudget,
+	formatTokens,
+	formatBytes
+} from '../../src/utils/ruleBudget';
+import { createRule } from './helpers';
+
+describe('Rule Budget', () => {
+	describe('estimateTokens', () => {
+		it('should estimate roughly four characters per token', () => {
+			assert.strictEqual(estimateTokens(''), 0);
+			assert.strictEqual(estimateTokens('abcd'), 1);
+			assert.strictEqual(estimateTokens('abcde'), 2);
+			assert.strictEqual(estimateTokens('x'.repeat(4000)), 1000);
+		});
+	});
+
+	describe('getRuleSize', () => {
+		it('should count the description and body', () => {
+			const size = getRuleSize(createRule('/repo/.cursor/rules/a.mdc', { content: 'x'.repeat(10), metadata: { description: 'abc' } }));
+			assert.strictEqual(size.bytes, 14);
+			assert.strictEqual(size.tokens, 4);
+		});
+
+		it('should count multi-byte characters as bytes', () => {
+			assert.strictEqual(getRuleSize(createRule('/repo/.cursor/rules/a.mdc', { content: 'é' })).bytes, 2);
+		});
+	});
+
+	describe('calculateContextBudget', () => {
+		const rules = [
+			createRule('/repo/.cursor/rules/small.mdc', { content: 'x'.repeat(400), metadata: { alwaysApply: true } }),
+			createRule('/repo/.cursor/rules/large.mdc', { content: 'x'.repeat(4000), metadata: { alwaysApply: true } }),
+			createRule('/repo/.cursor/rules/scoped.mdc', { content: 'x'.repeat(8000), metadata: { alwaysApply: false, globs: ['*.ts'] } })
+		];
+
+		it('should only count always-apply rules against the budget', () => {
+			const budget = calculateContextBudget(rules, 2000);
+			assert.strictEqual(budget.alwaysApplyTokens, 1100);
+			assert.strictEqual(budget.totalTokens, 3100);
+			assert.strictEqual(budget.exceeded, false);
+			assert.deepStrictEqual(budget.alwaysApplyRules.map(entry => entry.rule.fileName), ['large.mdc', 'small.mdc']);
+		});
+
+		it('should flag budgets that are exceeded', () => {
+			assert.strictEqual(calculateContextBudget(rules, 1000).exceeded, true);
+		});
+
+		it('should treat a budget of zero as disabled', () => {
+			assert.strictEqual(calculateContextBudget(rules, 0).exceeded, false);
+		});
+
+		it('should ignore instruction files Cursor does not load', () => {
+			const claude = createRule('/repo/CLAUDE.md', { content: 'x'.repeat(8000), metadata: { alwaysApply: true }, source: 'claude' });
+			const agents = createRule('/repo/AGENTS.md', { content: 'x'.repeat(400), metadata: { alwaysApply: true }, source: 'agents' });
+			const result = calculateContextBudget([claude, agents], 1000);
+			assert.deepStrictEqual(result.alwaysApplyRules.map(({ rule }) => rule.fileName), ['AGENTS.md']);
+			assert.strictEqual(result.exceeded, false);
+		});
+	});
+
+	describe('formatting', () => {
+		it('should format token counts', () => {
+			assert.strictEqual(formatTokens(850), '850 tokens');
+			assert.strictEqual(formatTokens(1000), '1k tokens');
+			assert.strictEqual(formatTokens(1250), '1.3k tokens');
+		});
+
+		it('should format byte sizes', () => {
+			assert.strictEqual(formatBytes(512), '512 B');
+			assert.strictEqual(formatBytes(3482), '3.4 KB');
+			assert.strictEqual(formatBytes(2 * 1024 * 1024), '2.0 MB');
+		});
+	});
+});
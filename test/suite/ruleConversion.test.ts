@@ -0,0 +1,125 @@
+// Unit tests for converting rules between assistant formats
+import * as assert from 'assert';
+import matter from 'gray-matter';
+import {
+	appendSection,
+	convertToCopilot,
+	convertToCursor,
+	convertToSection,
+	getConversionTargets
+} from '../../src/utils/ruleConversion';
+import { splitMarkdownSections } from '../../src/utils/markdownSections';
+import { createRule } from './helpers';
+
+describe('Rule Conversion', () => {
+	const autoRule = createRule('/repo/react.mdc', {
+		metadata: { description: 'React conventions', globs: ['**/*.tsx', '**/*.jsx'], alwaysApply: false },
+		content: '# React Components\n\nUse hooks.\n\n## State\n\nKeep it local.'
+	});
+
+	it('should offer Cursor targets for other sources and vice versa', () => {
+		assert.deepStrictEqual(getConversionTargets('cursor'), ['copilot', 'agents', 'claude']);
+		assert.deepStrictEqual(getConversionTargets('agents'), ['cursor']);
+	});
+
+	describe('convertToCopilot', () => {
+		it('should map globs to applyTo', () => {
+			const converted = convertToCopilot(autoRule);
+			const { data, content } = matter(converted.text);
+			assert.strictEqual(converted.filePath, '.github/instructions/react.instructions.md');
+			assert.deepStrictEqual(data, { description: 'React conventions', applyTo: '**/*.tsx,**/*.jsx' });
+			assert.ok(content.includes('Use hooks.'));
+			assert.deepStrictEqual(converted.warnings, []);
+		});
+
+		it('should apply always rules to every file', () => {
+			const converted = convertToCopilot(createRule('/repo/style.mdc', { metadata: { alwaysApply: true }, content: 'Tabs.' }));
+			assert.deepStrictEqual(matter(converted.text).data, { applyTo: '**' });
+		});
+
+		it('should report agent-requested semantics, extra keys and @file references', () => {
+			const converted = convertToCopilot(createRule('/repo/db.mdc', {
+				metadata: { description: 'Database access', extra: { priority: 1 } },
+				content: 'See @src/db/client.ts'
+			}));
+			assert.strictEqual(matter(converted.text).data.applyTo, undefined);
+			assert.strictEqual(converted.warnings.length, 3);
+			assert.ok(converted.warnings.some(warning => warning.startsWith('Agent Requested')));
+			assert.ok(converted.warnings.some(warning => warning.includes('priority')));
+			assert.ok(converted.warnings.some(warning => warning.startsWith('@file references')));
+		});
+	});
+
+	describe('convertToSection', () => {
+		it('should build an AGENTS.md section with an Applies to note', () => {
+			const converted = convertToSection(autoRule, 'agents');
+			assert.strictEqual(converted.filePath, 'AGENTS.md');
+			assert.strictEqual(converted.append, true);
+			assert.strictEqual(converted.text, [
+				'## React Components',
+				'',
+				'React conventions',
+				'',
+				'_Applies to: `**/*.tsx`, `**/*.jsx`_',
+				'',
+				'Use hooks.',
+				'',
+				'### State',
+				'',
+				'Keep it local.',
+				''
+			].join('\n'));
+			assert.strictEqual(converted.warnings.length, 1);
+		});
+
+		it('should title untitled rules from the file name and warn about manual rules', () => {
+			const converted = convertToSection(createRule('/repo/code-review.mdc', { metadata: {}, content: 'Be kind.' }), 'claude');
+			assert.strictEqual(converted.filePath, 'CLAUDE.md');
+			assert.ok(converted.text.startsWith('## Code Review\n\nBe kind.'));
+			assert.ok(converted.warnings[0].startsWith('Manual'));
+		});
+
+		it('should keep @file references without warning for CLAUDE.md', () => {
+			const rule = createRule('/repo/a.mdc', { metadata: { description: 'x', alwaysApply: true }, content: 'See @docs/a.md' });
+			assert.deepStrictEqual(convertToSection(rule, 'claude').warnings, []);
+			assert.strictEqual(convertToSection(rule, 'agents').warnings.length, 1);
+		});
+	});
+
+	describe('convertToCursor', () => {
+		it('should round-trip an AGENTS.md section back to globs', () => {
+			const agents = createRule('/repo/AGENTS.md', { metadata: { alwaysApply: true }, content: `# Agents\n\n${convertToSection(autoRule, 'agents').text}`, source: 'agents' });
+			const section = splitMarkdownSections(agents.content).find(candidate => candidate.title === 'React Components');
+			const converted = convertToCursor(agents, section);
+
+			assert.strictEqual(converted.filePath, '.cursor/rules/react-components.mdc');
+			assert.deepStrictEqual(converted.metadata, { description: 'React Components', globs: ['**/*.tsx', '**/*.jsx'], alwaysApply: false });
+			assert.ok(converted.content.startsWith('# React Components\n\nReact conventions\n\nUse hooks.\n\n## State'));
+		});
+
+		it('should convert Copilot instructions using applyTo', () => {
+			const copilot = createRule('/repo/api.instructions.md', { metadata: { description: 'API style', globs: ['src/api/**'], alwaysApply: false }, content: 'Validate input.', source: 'copilot' });
+			const converted = convertToCursor(copilot);
+			assert.strictEqual(converted.filePath, '.cursor/rules/api.mdc');
+			assert.deepStrictEqual(converted.metadata, { description: 'API style', globs: ['src/api/**'], alwaysApply: false });
+		});
+
+		it('should convert a whole legacy file to an always-apply rule', () => {
+			const converted = convertToCursor(createRule('/repo/.cursorrules', { metadata: { alwaysApply: true }, content: 'Use tabs.', source: 'cursorrules' }));
+			assert.strictEqual(converted.filePath, '.cursor/rules/cursorrules.mdc');
+			assert.deepStrictEqual(converted.metadata, { description: 'Cursorrules instructions', alwaysApply: true });
+		});
+
+		it('should report CLAUDE.md imports', () => {
+			const converted = convertToCursor(createRule('/repo/CLAUDE.md', { metadata: { alwaysApply: true }, content: 'See @docs/setup.md', source: 'claude' }));
+			assert.strictEqual(converted.warnings.length, 1);
+		});
+	});
+
+	describe('appendSection', () => {
+		it('should separate sections with a blank line', () => {
+			assert.strictEqual(appendSection('# Agents\n\n', '## A\n'), '# Agents\n\n## A\n');
+			assert.strictEqual(appendSection('', '## A\n'), '## A\n');
+		});
+	});
+});
@@ -0,0 +1,89 @@
+// Unit tests for generating starter rules from project state
+import * as assert from 'assert';
+import matter from 'gray-matter';
+import { generateRulesFromState, getTestFolders, isSameRuleText } from '../../src/utils/ruleGenerator';
+import { lintRuleText } from '../../src/utils/ruleLinter';
+import { classifyRuleType } from '../../src/utils/ruleTypes';
+
+const state: any = {
+	languages: ['TypeScript'],
+	frameworks: ['React', 'Express'],
+	testing: ['Test directory structure', 'Jest'],
+	codeQuality: ['ESLint', 'Prettier'],
+	buildTools: ['Webpack'],
+	identity: { projectType: 'web-app', domain: 'e-commerce', primaryLanguage: 'TypeScript', maturityLevel: 'production' },
+	enhancedArchitecture: { style: 'layered', organization: 'feature-based', patterns: ['Repository Pattern'], entryPoints: ['src/index.ts'] },
+	agentGuidance: { suggestedApproach: 'Keep components small.', criticalFiles: ['package.json'], commonTasks: ['Add a page'], watchOuts: ['Avoid global state'] }
+};
+
+describe('Rule Generator', () => {
+	describe('generateRulesFromState', () => {
+		const rules = generateRulesFromState(state, { projectName: 'shop', testFolders: ['test', 'packages/api/tests'] });
+		const byId = (id: string) => rules.find(rule => rule.id === id)!;
+
+		it('should propose one rule per detected area', () => {
+			assert.deepStrictEqual(rules.map(rule => rule.fileName), [
+				'project-overview.mdc',
+				'testing.mdc',
+				'frameworks.mdc',
+				'code-quality.mdc',
+				'architecture.mdc'
+			]);
+		});
+
+		it('should produce rules without lint problems', () => {
+			for (const rule of rules) {
+				assert.deepStrictEqual(lintRuleText(rule.text, {}), [], rule.fileName);
+			}
+		});
+
+		it('should scope the testing rule to the detected test folders', () => {
+			const { data, content } = matter(byId('testing').text);
+			assert.deepStrictEqual(data.globs, ['test/**', 'packages/api/tests/**']);
+			assert.ok(content.includes('Tests use Jest.'));
+			assert.ok(!content.includes('Test directory structure'));
+		});
+
+		it('should fall back to a language test glob without test folders', () => {
+			const [testing] = generateRulesFromState({ testing: ['Jest'], languages: ['TypeScript'] }, { projectName: 'shop' });
+			assert.deepStrictEqual(matter(testing.text).data.globs, ['**/*.{test,spec}.{ts,tsx,js,jsx}']);
+		});
+
+		it('should use the rule types that fit each rule', () => {
+			const types = rules.map(rule => classifyRuleType(matter(rule.text).data));
+			assert.deepStrictEqual(types, ['always', 'auto', 'auto', 'auto', 'agent']);
+		});
+
+		it('should list entry points and guidance', () => {
+			assert.ok(byId('architecture').text.includes('- `src/index.ts`'));
+			assert.ok(byId('project-overview').text.includes('- Avoid global state'));
+			assert.ok(byId('frameworks').text.includes('- Webpack'));
+		});
+
+		it('should propose nothing for an empty state', () => {
+			assert.deepStrictEqual(generateRulesFromState({}, { projectName: 'empty' }), []);
+		});
+	});
+
+	describe('getTestFolders', () => {
+		it('should return the outermost test folder of each file', () => {
+			assert.deepStrictEqual(getTestFolders([
+				'test/unit/a.test.ts',
+				'test/b.test.ts',
+				'packages/api/__tests__/c.test.ts',
+				'src\\spec\\d.spec.ts'
+			]), ['packages/api/__tests__', 'src/spec', 'test']);
+		});
+
+		it('should ignore file names and node_modules', () => {
+			assert.deepStrictEqual(getTestFolders(['test.ts', 'node_modules/x/test/a.js']), []);
+		});
+	});
+
+	describe('isSameRuleText', () => {
+		it('should ignore line endings and surrounding whitespace', () => {
+			assert.ok(isSameRuleText('---\r\na: 1\r\n---\r\nbody\r\n', '---\na: 1\n---\nbody'));
+			assert.ok(!isSameRuleText('body', 'other'));
+		});
+	});
+});
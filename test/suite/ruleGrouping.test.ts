@@ -0,0 +1,58 @@
+// Unit tests for rule grouping in the hierarchical tree modes
+import * as assert from 'assert';
+import {
+	groupRulesByDirectory,
+	groupRulesByType,
+	getRulePathInRulesFolder,
+	isRulesViewMode
+} from '../../src/utils/ruleGrouping';
+import { createRule } from './helpers';
+
+describe('Rule Grouping', () => {
+	describe('groupRulesByDirectory', () => {
+		it('should group rules by the package that owns the .cursor/rules folder', () => {
+			const groups = groupRulesByDirectory([
+				createRule('/repo/packages/web/.cursor/rules/react.mdc'),
+				createRule('/repo/.cursor/rules/general.mdc'),
+				createRule('/repo/packages/api/.cursor/rules/express.mdc'),
+				createRule('/repo/.cursor/rules/security/auth.mdc')
+			], '/repo');
+
+			assert.deepStrictEqual(Array.from(groups.keys()), ['', 'packages/api', 'packages/web']);
+			assert.deepStrictEqual(groups.get('')!.map(rule => rule.fileName), ['general.mdc', 'auth.mdc']);
+		});
+
+		it('should tolerate a trailing slash on the project root', () => {
+			const groups = groupRulesByDirectory([createRule('/repo/.cursor/rules/a.mdc')], '/repo/');
+			assert.deepStrictEqual(Array.from(groups.keys()), ['']);
+		});
+	});
+
+	describe('groupRulesByType', () => {
+		it('should group in Always, Auto Attached, Agent Requested, Manual order and skip empty groups', () => {
+			const groups = groupRulesByType([
+				createRule('/repo/.cursor/rules/manual.mdc', { metadata: { description: '' } }),
+				createRule('/repo/.cursor/rules/auto.mdc', { metadata: { globs: ['*.ts'] } }),
+				createRule('/repo/.cursor/rules/always.mdc', { metadata: { alwaysApply: true } })
+			]);
+
+			assert.deepStrictEqual(Array.from(groups.keys()), ['always', 'auto', 'manual']);
+			assert.strictEqual(groups.get('auto')![0].fileName, 'auto.mdc');
+		});
+	});
+
+	describe('getRulePathInRulesFolder', () => {
+		it('should keep subfolders inside .cursor/rules', () => {
+			assert.strictEqual(getRulePathInRulesFolder(createRule('/repo/.cursor/rules/security/auth.mdc')), 'security/auth.mdc');
+		});
+	});
+
+	describe('isRulesViewMode', () => {
+		it('should only accept known modes', () => {
+			assert.ok(isRulesViewMode('type'));
+			assert.ok(!isRulesViewMode('tree'));
+			assert.ok(!isRulesViewMode('constructor'));
+			assert.ok(!isRulesViewMode(undefined));
+		});
+	});
+});
@@ -0,0 +1,132 @@
+// Unit tests for the rule linter
+import * as assert from 'assert';
+import { lintRuleText, splitRuleText, MAX_RULE_LINES } from '../../src/utils/ruleLinter';
+import { extractFileReferences, getReferenceCandidates } from '../../src/utils/fileReferences';
+
+const codes = (text: string, context = {}) => lintRuleText(text, context).map(issue => issue.code);
+
+describe('Rule Linter', () => {
+	describe('splitRuleText', () => {
+		it('should split frontmatter from body', () => {
+			const sections = splitRuleText('---\ndescription: x\n---\n# Body\n');
+			assert.strictEqual(sections.frontmatter, 'description: x\n');
+			assert.strictEqual(sections.body, '# Body\n');
+			assert.strictEqual(sections.frontmatterStart, 4);
+		});
+
+		it('should treat text without frontmatter as body', () => {
+			const sections = splitRuleText('# Only body');
+			assert.strictEqual(sections.frontmatter, undefined);
+			assert.strictEqual(sections.body, '# Only body');
+		});
+	});
+
+	describe('lintRuleText', () => {
+		it('should accept a well-formed rule', () => {
+			const text = '---\ndescription: Testing rules\nglobs:\n  - "src/**/*.ts"\nalwaysApply: false\n---\n# Testing\n';
+			assert.deepStrictEqual(lintRuleText(text, { projectFiles: ['src/a.ts'] }), []);
+		});
+
+		it('should report a missing description on the opening delimiter', () => {
+			const [issue] = lintRuleText('---\nalwaysApply: true\n---\n# Body\n');
+			assert.strictEqual(issue.code, 'missing-description');
+			assert.deepStrictEqual([issue.line, issue.column, issue.endColumn], [0, 0, 3]);
+		});
+
+		it('should report an empty description at its key', () => {
+			const [issue] = lintRuleText('---\nalwaysApply: false\ndescription: ""\n---\n# Body\n');
+			assert.strictEqual(issue.code, 'missing-description');
+			assert.deepStrictEqual([issue.line, issue.column, issue.endColumn], [2, 0, 11]);
+		});
+
+		it('should report comma-separated globs at the value', () => {
+			const issues = lintRuleText('---\ndescription: x\nglobs: "*.ts, *.tsx"\n---\n# Body\n');
+			assert.strictEqual(issues.length, 1);
+			assert.strictEqual(issues[0].code, 'globs-comma-string');
+			assert.deepStrictEqual([issues[0].line, issues[0].column, issues[0].endColumn], [2, 7, 20]);
+		});
+
+		it('should report each glob that matches no project files', () => {
+			const text = '---\ndescription: x\nglobs:\n  - "src/**/*.ts"\n  - "lib/**/*.rb"\n---\n# Body\n';
+			const issues = lintRuleText(text, { projectFiles: ['src/index.ts', 'README.md'] });
+			assert.strictEqual(issues.length, 1);
+			assert.strictEqual(issues[0].code, 'glob-no-match');
+			assert.strictEqual(issues[0].target, 'lib/**/*.rb');
+			assert.deepStrictEqual([issues[0].line, issues[0].column], [4, 4]);
+		});
+
+		it('should skip glob matching when project files are unknown', () => {
+			assert.deepStrictEqual(codes('---\ndescription: x\nglobs:\n  - "lib/**/*.rb"\n---\n# Body\n'), []);
+		});
+
+		it('should report string booleans for alwaysApply', () => {
+			assert.deepStrictEqual(codes('---\ndescription: x\nalwaysApply: "true"\n---\n# Body\n'), ['always-apply-not-boolean']);
+		});
+
+		it('should report alwaysApply combined with globs', () => {
+			const issues = lintRuleText('---\ndescription: x\nglobs:\n  - "*.ts"\nalwaysApply: true\n---\n# Body\n');
+			assert.deepStrictEqual(issues.map(issue => issue.code), ['always-apply-with-globs']);
+			assert.strictEqual(issues[0].line, 4);
+		});
+
+		it('should report an empty body at the closing delimiter', () => {
+			const issues = lintRuleText('---\ndescription: x\n---\n\n');
+			assert.deepStrictEqual(issues.map(issue => issue.code), ['empty-body']);
+			assert.strictEqual(issues[0].line, 2);
+		});
+
+		it('should report oversized rules', () => {
+			const body = Array.from({ length: MAX_RULE_LINES + 1 }, (_, i) => `- item ${i}`).join('\n');
+			assert.deepStrictEqual(codes(`---\ndescription: x\n---\n${body}`), ['oversized-rule']);
+		});
+
+		it('should report invalid YAML', () => {
+			assert.deepStrictEqual(codes('---\ndescription: [unclosed\n---\n# Body\n'), ['invalid-frontmatter']);
+		});
+
+		it('should report broken references at their position in the file', () => {
+			const text = '---\ndescription: x\n---\n# Body\nSee @src/missing.ts and @src/ok.ts\n';
+			const issues = lintRuleText(text, { missingReferences: new Set(['src/missing.ts']) });
+			assert.strictEqual(issues.length, 1);
+			assert.strictEqual(issues[0].code, 'broken-reference');
+			assert.deepStrictEqual([issues[0].line, issues[0].column, issues[0].endColumn], [4, 4, 19]);
+		});
+	});
+
+	describe('extractFileReferences', () => {
+		it('should find @file references and mdc links', () => {
+			const references = extractFileReferences('Use @service-template.ts and [api](mdc:src/api.ts)');
+			assert.deepStrictEqual(references.map(reference => reference.reference), ['service-template.ts', 'src/api.ts']);
+			assert.strictEqual(references[0].column, 4);
+		});
+
+		it('should ignore decorators, scoped packages, emails and code blocks', () => {
+			const text = '@Injectable()\nInstall @types/node\nMail dev@example.com\n```\n@src/code.ts\n```\n';
+			assert.deepStrictEqual(extractFileReferences(text), []);
+		});
+
+		it('should report where the path starts for links', () => {
+			const [atReference, mdcLink] = extractFileReferences('See @src/a.ts or [b](mdc:src/b.ts)');
+			assert.strictEqual(atReference.pathColumn, 5);
+			assert.strictEqual(mdcLink.pathColumn, 25);
+			assert.strictEqual(mdcLink.length, '[b](mdc:src/b.ts)'.length);
+		});
+
+		it('should not include trailing punctuation', () => {
+			assert.deepStrictEqual(extractFileReferences('Follow @auth-middleware.ts.').map(reference => reference.reference), ['auth-middleware.ts']);
+		});
+	});
+
+	describe('getReferenceCandidates', () => {
+		it('should resolve against the project root, then the rule folder', () => {
+			assert.deepStrictEqual(
+				getReferenceCandidates('src/a.ts', '/repo/.cursor/rules/testing.mdc'),
+				['/repo/src/a.ts', '/repo/.cursor/rules/src/a.ts']
+			);
+		});
+
+		it('should resolve ./ references against the rule folder only', () => {
+			assert.deepStrictEqual(getReferenceCandidates('./shared.mdc', '/repo/.cursor/rules/testing.mdc'), ['/repo/.cursor/rules/shared.mdc']);
+		});
+	});
+});
@@ -0,0 +1,98 @@
+// Unit tests for rule frontmatter quick fixes
+import * as assert from 'assert';
+import {
+	fixCommaGlobs,
+	fixMissingDescription,
+	fixAlwaysApplyString,
+	removeGlobs,
+	applyTextEdits,
+	deriveDescription
+} from '../../src/utils/ruleQuickFixes';
+import { lintRuleText } from '../../src/utils/ruleLinter';
+
+const apply = (text: string, edits: any) => applyTextEdits(text, Array.isArray(edits) ? edits : [edits]);
+
+describe('Rule Quick Fixes', () => {
+	describe('fixCommaGlobs', () => {
+		it('should convert a comma-separated string into a YAML array', () => {
+			const text = '---\ndescription: x\nglobs: "*.ts, src/**/*.tsx"\nalwaysApply: false\n---\n# Body\n';
+			const fixed = apply(text, fixCommaGlobs(text));
+
+			assert.strictEqual(fixed, '---\ndescription: x\nglobs:\n  - "*.ts"\n  - "src/**/*.tsx"\nalwaysApply: false\n---\n# Body\n');
+			assert.deepStrictEqual(lintRuleText(fixed), []);
+		});
+
+		it('should leave arrays alone', () => {
+			assert.strictEqual(fixCommaGlobs('---\nglobs:\n  - "*.ts"\n---\n'), undefined);
+		});
+	});
+
+	describe('fixMissingDescription', () => {
+		it('should add a description from the first heading', () => {
+			const text = '---\nalwaysApply: true\n---\n\n# Testing Guidelines\n\nWrite tests.\n';
+			assert.strictEqual(apply(text, fixMissingDescription(text)), '---\ndescription: Testing Guidelines\nalwaysApply: true\n---\n\n# Testing Guidelines\n\nWrite tests.\n');
+		});
+
+		it('should fill an empty description in place', () => {
+			const text = '---\ndescription:\nglobs: []\n---\n## API: conventions\n';
+			assert.strictEqual(apply(text, fixMissingDescription(text)), '---\ndescription: "API: conventions"\nglobs: []\n---\n## API: conventions\n');
+		});
+
+		it('should add frontmatter when the rule has none', () => {
+			const text = 'Always use strict mode.\n';
+			assert.strictEqual(apply(text, fixMissingDescription(text)), '---\ndescription: Always use strict mode.\n---\nAlways use strict mode.\n');
+		});
+
+		it('should not replace an existing description', () => {
+			assert.strictEqual(fixMissingDescription('---\ndescription: Keep me\n---\n# Other\n'), undefined);
+		});
+	});
+
+	describe('fixAlwaysApplyString', () => {
+		it('should coerce string booleans', () => {
+			const text = '---\ndescription: x\nalwaysApply: "True"\n---\n# Body\n';
+			assert.strictEqual(apply(text, fixAlwaysApplyString(text)), '---\ndescription: x\nalwaysApply: true\n---\n# Body\n');
+		});
+
+		it('should ignore values that are not boolean-like', () => {
+			assert.strictEqual(fixAlwaysApplyString('---\nalwaysApply: "sometimes"\n---\n'), undefined);
+		});
+	});
+
+	describe('removeGlobs', () => {
+		it('should remove items from a block array', () => {
+			const text = '---\ndescription: x\nglobs:\n  - "src/**/*.ts"\n  - "lib/**/*.rb"\n  - "*.py"\n---\n# Body\n';
+			assert.strictEqual(
+				apply(text, removeGlobs(text, ['lib/**/*.rb', '*.py'])),
+				'---\ndescription: x\nglobs:\n  - "src/**/*.ts"\n---\n# Body\n'
+			);
+		});
+
+		it('should drop the globs key when no globs remain', () => {
+			const text = '---\ndescription: x\nglobs:\n  - "lib/**/*.rb"\nalwaysApply: false\n---\n# Body\n';
+			assert.strictEqual(apply(text, removeGlobs(text, ['lib/**/*.rb'])), '---\ndescription: x\nalwaysApply: false\n---\n# Body\n');
+		});
+
+		it('should rewrite flow arrays and comma strings', () => {
+			const flow = '---\nglobs: ["a/*.ts", "b/*.ts"]\n---\n';
+			assert.strictEqual(apply(flow, removeGlobs(flow, ['a/*.ts'])), '---\nglobs: ["b/*.ts"]\n---\n');
+
+			const comma = '---\nglobs: a/*.ts, b/*.ts\n---\n';
+			assert.strictEqual(apply(comma, removeGlobs(comma, ['b/*.ts'])), '---\nglobs: a/*.ts\n---\n');
+		});
+
+		it('should return no edits for unknown globs', () => {
+			assert.deepStrictEqual(removeGlobs('---\nglobs:\n  - "*.ts"\n---\n', ['*.rb']), []);
+		});
+	});
+
+	describe('deriveDescription', () => {
+		it('should strip markdown emphasis from headings', () => {
+			assert.strictEqual(deriveDescription('# **Security** `rules` #\n'), 'Security rules');
+		});
+
+		it('should return undefined for empty bodies', () => {
+			assert.strictEqual(deriveDescription('\n\n'), undefined);
+		});
+	});
+});
@@ -0,0 +1,63 @@
+// Unit tests for rule search and label highlighting
+import * as assert from 'assert';
+import { searchRule, getHighlights, parseSearchTerms } from '../../src/utils/ruleSearch';
+import { createRule } from './helpers';
+
+describe('Rule Search', () => {
+	const rule = createRule('/repo/.cursor/rules/database.mdc', {
+		metadata: { description: 'Data access conventions', globs: ['src/db/**/*.ts'], alwaysApply: false },
+		content: '# Database\n\nAlways use the Prisma client from src/db/client.ts.\nNever write raw SQL.'
+	});
+
+	describe('parseSearchTerms', () => {
+		it('should split on whitespace and lower-case terms', () => {
+			assert.deepStrictEqual(parseSearchTerms('  Prisma   SQL '), ['prisma', 'sql']);
+		});
+	});
+
+	describe('searchRule', () => {
+		it('should match the file name, description, globs and body', () => {
+			assert.deepStrictEqual(searchRule(rule, 'database')!.fields, ['fileName', 'content']);
+			assert.deepStrictEqual(searchRule(rule, 'conventions')!.fields, ['description']);
+			assert.deepStrictEqual(searchRule(rule, 'src/db')!.fields, ['globs', 'content']);
+		});
+
+		it('should be case-insensitive and return a body snippet', () => {
+			const match = searchRule(rule, 'PRISMA');
+			assert.deepStrictEqual(match!.fields, ['content']);
+			assert.strictEqual(match!.snippet, 'Always use the Prisma client from src/db/client.ts.');
+		});
+
+		it('should require every term to match', () => {
+			assert.ok(searchRule(rule, 'prisma sql'));
+			assert.strictEqual(searchRule(rule, 'prisma mongodb'), undefined);
+		});
+
+		it('should not match placeholder text for rules without a description', () => {
+			const undescribed = createRule('/repo/.cursor/rules/a.mdc', { metadata: {}, content: 'body' });
+			assert.strictEqual(searchRule(undescribed, 'no description'), undefined);
+		});
+
+		it('should trim long snippets around the match', () => {
+			const long = createRule('/repo/.cursor/rules/a.mdc', { metadata: { description: '' }, content: `${'x'.repeat(100)} prisma ${'y'.repeat(100)}` });
+			const snippet = searchRule(long, 'prisma')!.snippet!;
+			assert.ok(snippet.startsWith('…') && snippet.endsWith('…'));
+			assert.ok(snippet.includes('prisma'));
+		});
+	});
+
+	describe('getHighlights', () => {
+		it('should return ranges for every occurrence of every term', () => {
+			assert.deepStrictEqual(getHighlights('api-api.mdc', 'api'), [[0, 3], [4, 7]]);
+			assert.deepStrictEqual(getHighlights('Database.mdc', 'base mdc'), [[4, 8], [9, 12]]);
+		});
+
+		it('should merge overlapping ranges', () => {
+			assert.deepStrictEqual(getHighlights('testing.mdc', 'test sting'), [[0, 7]]);
+		});
+
+		it('should return nothing when the label does not match', () => {
+			assert.deepStrictEqual(getHighlights('security.mdc', 'prisma'), []);
+		});
+	});
+});
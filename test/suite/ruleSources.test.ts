@@ -0,0 +1,93 @@
+// Unit tests for rule sources (Cursor rules and other assistants' instruction files)
+import * as assert from 'assert';
+import {
+	RULE_FILES_GLOB,
+	getProjectRelativePath,
+	getRuleSource,
+	getRuleSources,
+	isReadByCursor,
+	parseInstructionFile
+} from '../../src/utils/ruleSources';
+import { createRule } from './helpers';
+
+describe('Rule Sources', () => {
+	describe('getRuleSource', () => {
+		it('should classify each assistant\'s files', () => {
+			assert.strictEqual(getRuleSource('/repo/.cursor/rules/testing.mdc'), 'cursor');
+			assert.strictEqual(getRuleSource('/repo/packages/api/.cursor/rules/nested/db.md'), 'cursor');
+			assert.strictEqual(getRuleSource('/repo/.cursorrules'), 'cursorrules');
+			assert.strictEqual(getRuleSource('/repo/AGENTS.md'), 'agents');
+			assert.strictEqual(getRuleSource('/repo/packages/api/CLAUDE.md'), 'claude');
+			assert.strictEqual(getRuleSource('/repo/.github/copilot-instructions.md'), 'copilot');
+			assert.strictEqual(getRuleSource('/repo/.github/instructions/react.instructions.md'), 'copilot');
+			assert.strictEqual(getRuleSource('/repo/.windsurfrules'), 'windsurf');
+		});
+
+		it('should handle Windows separators', () => {
+			assert.strictEqual(getRuleSource('C:\\repo\\.cursor\\rules\\a.mdc'), 'cursor');
+		});
+
+		it('should not match similar names', () => {
+			assert.strictEqual(getRuleSource('/repo/docs/MY-AGENTS.md'), undefined);
+			assert.strictEqual(getRuleSource('/repo/.github/instructions/notes.md'), undefined);
+			assert.strictEqual(getRuleSource('/repo/.cursor/rules.mdc'), undefined);
+		});
+	});
+
+	describe('RULE_FILES_GLOB', () => {
+		it('should include every source pattern', () => {
+			for (const pattern of ['**/.cursor/rules/**/*.mdc', '**/.cursorrules', '**/AGENTS.md', '**/CLAUDE.md', '.github/copilot-instructions.md', '**/.windsurfrules']) {
+				assert.ok(RULE_FILES_GLOB.includes(pattern), pattern);
+			}
+		});
+	});
+
+	describe('parseInstructionFile', () => {
+		it('should treat plain instruction files as always applied', () => {
+			const { metadata, content } = parseInstructionFile('# Agents\n\nRun npm test before committing.\n');
+			assert.strictEqual(metadata.alwaysApply, true);
+			assert.strictEqual(metadata.ruleType, 'always');
+			assert.strictEqual(metadata.description, undefined);
+			assert.strictEqual(content, '# Agents\n\nRun npm test before committing.');
+		});
+
+		it('should scope Copilot instructions with applyTo', () => {
+			const { metadata, content } = parseInstructionFile('---\napplyTo: "**/*.ts,**/*.tsx"\ndescription: TypeScript style\n---\nUse strict types.');
+			assert.deepStrictEqual(metadata.globs, ['**/*.ts', '**/*.tsx']);
+			assert.strictEqual(metadata.alwaysApply, false);
+			assert.strictEqual(metadata.ruleType, 'auto');
+			assert.strictEqual(metadata.description, 'TypeScript style');
+			assert.strictEqual(content, 'Use strict types.');
+		});
+
+		it('should treat applyTo "**" as always applied', () => {
+			assert.strictEqual(parseInstructionFile('---\napplyTo: "**"\n---\nAll files.').metadata.ruleType, 'always');
+		});
+
+		it('should keep text with invalid frontmatter as content', () => {
+			const text = '---\n: [broken\n---\nBody';
+			assert.strictEqual(parseInstructionFile(text).content, text);
+		});
+	});
+
+	describe('grouping helpers', () => {
+		const rules = [
+			createRule('/repo/CLAUDE.md', { source: 'claude' }),
+			createRule('/repo/.cursor/rules/a.mdc'),
+			createRule('/repo/AGENTS.md', { source: 'agents' })
+		];
+
+		it('should list present sources in display order', () => {
+			assert.deepStrictEqual(getRuleSources(rules), ['cursor', 'agents', 'claude']);
+		});
+
+		it('should report which files Cursor loads', () => {
+			assert.deepStrictEqual(rules.map(isReadByCursor), [false, true, true]);
+		});
+
+		it('should label files by their path in the project', () => {
+			assert.strictEqual(getProjectRelativePath(createRule('/repo/packages/api/AGENTS.md'), '/repo'), 'packages/api/AGENTS.md');
+			assert.strictEqual(getProjectRelativePath(createRule('/elsewhere/AGENTS.md'), '/repo'), 'AGENTS.md');
+		});
+	});
+});
@@ -0,0 +1,140 @@
+// Unit tests for rule templates
+import * as assert from 'assert';
+import matter from 'gray-matter';
+import {
+	BUILTIN_RULE_TEMPLATES,
+	buildTemplateVariables,
+	isTemplateRecommended,
+	parseUserTemplate,
+	renderRuleTemplate,
+	RuleTemplate,
+	sortTemplates
+} from '../../src/utils/ruleTemplates';
+import { lintRuleText } from '../../src/utils/ruleLinter';
+import { normalizeGlobs } from '../../src/utils/ruleApplicability';
+
+function createTemplate(text: string): RuleTemplate {
+	return { id: 'test', name: 'Test', description: '', category: 'general', text };
+}
+
+describe('Rule Templates', () => {
+	describe('buildTemplateVariables', () => {
+		it('should derive variables from the project state', () => {
+			const variables = buildTemplateVariables('api-errors', 'shop', {
+				languages: ['TypeScript (12 files)', 'JavaScript'],
+				frameworks: ['Node.js', 'Express'],
+				testing: ['Test directory structure', 'Jest'],
+				codeQuality: ['ESLint', 'Prettier']
+			});
+
+			assert.strictEqual(variables.ruleTitle, 'Api Errors');
+			assert.strictEqual(variables.projectName, 'shop');
+			assert.strictEqual(variables.languages, 'TypeScript, JavaScript');
+			assert.strictEqual(variables.primaryLanguage, 'TypeScript');
+			assert.strictEqual(variables.primaryFramework, 'Express');
+			assert.strictEqual(variables.testFramework, 'Jest');
+			assert.strictEqual(variables.codeQuality, 'ESLint, Prettier');
+			assert.strictEqual(variables.sourceGlob, 'src/**/*.{ts,tsx,js,jsx}');
+			assert.strictEqual(variables.testGlob, '**/*.{test,spec}.{ts,tsx,js,jsx}');
+		});
+
+		it('should match language names by whole word', () => {
+			assert.strictEqual(buildTemplateVariables('x', 'demo', { languages: ['Go 1.22'] }).sourceGlob, '**/*.go');
+			assert.strictEqual(buildTemplateVariables('x', 'demo', { languages: ['Kotlin 1.9'] }).testGlob, 'src/test/**/*.kt');
+			for (const language of ['Django', 'MongoDB', 'Google Cloud']) {
+				const variables = buildTemplateVariables('x', 'demo', { languages: [language] });
+				assert.strictEqual(variables.sourceGlob, 'src/**', language);
+				assert.strictEqual(variables.testGlob, '**/*test*', language);
+			}
+		});
+
+		it('should leave values empty without a project state', () => {
+			const variables = buildTemplateVariables('notes', 'demo');
+			assert.strictEqual(variables.primaryLanguage, '');
+			assert.strictEqual(variables.testFramework, '');
+			assert.strictEqual(variables.sourceGlob, 'src/**');
+		});
+	});
+
+	describe('renderRuleTemplate', () => {
+		it('should substitute variables and fallbacks', () => {
+			const text = renderRuleTemplate(createTemplate('{{ruleTitle}} uses {{ testFramework | the test runner }}'), {
+				ruleTitle: 'Testing',
+				testFramework: ''
+			});
+			assert.strictEqual(text, 'Testing uses the test runner');
+		});
+
+		it('should keep unknown placeholders without a fallback', () => {
+			assert.strictEqual(renderRuleTemplate(createTemplate('Owner: {{owner}}'), {}), 'Owner: {{owner}}');
+		});
+
+		it('should escape values substituted into the frontmatter', () => {
+			const template = createTemplate([
+				'---',
+				'description: "Rules for {{projectName}}"',
+				"title: '{{projectName}}'",
+				'owner: {{projectName}} team',
+				'globs:',
+				'  - {{sourceGlob}}',
+				'---',
+				'',
+				'# {{projectName}}'
+			].join('\n'));
+			const projectName = 'Say "hi": #1 it\'s';
+			const text = renderRuleTemplate(template, { projectName, sourceGlob: '*.ts' });
+			const { data, content } = matter(text);
+			assert.strictEqual(data.description, `Rules for ${projectName}`);
+			assert.strictEqual(data.title, projectName);
+			assert.strictEqual(data.owner, `${projectName} team`);
+			assert.deepStrictEqual(data.globs, ['*.ts']);
+			assert.strictEqual(content.trim(), `# ${projectName}`);
+		});
+
+		it('should render every built-in template to a valid rule', () => {
+			const variables = buildTemplateVariables('sample', 'demo', { languages: ['Python'], frameworks: ['Django'] });
+			for (const template of BUILTIN_RULE_TEMPLATES) {
+				const text = renderRuleTemplate(template, variables);
+				assert.ok(!/\{\{/.test(text), `${template.id} left a placeholder`);
+				const errors = lintRuleText(text, {}).filter(issue => issue.severity === 'error');
+				assert.deepStrictEqual(errors, [], `${template.id} has lint errors`);
+				const { data } = matter(text);
+				assert.ok(data.alwaysApply === true || normalizeGlobs(data.globs).length > 0, `${template.id} never applies`);
+			}
+		});
+	});
+
+	describe('parseUserTemplate', () => {
+		it('should use the file name and frontmatter description', () => {
+			const template = parseUserTemplate('team-review.mdc', '---\ndescription: "Code review checklist"\n---\n\n# Review', '/t/team-review.mdc');
+			assert.strictEqual(template.id, 'user:team-review');
+			assert.strictEqual(template.name, 'Team Review');
+			assert.strictEqual(template.description, 'Code review checklist');
+			assert.strictEqual(template.category, 'user');
+			assert.strictEqual(template.path, '/t/team-review.mdc');
+		});
+
+		it('should read the description as YAML', () => {
+			const template = parseUserTemplate('review.mdc', "---\ndescription: 'It''s a \"review\"' # team\n---\n");
+			assert.strictEqual(template.description, 'It\'s a "review"');
+		});
+
+		it('should fall back to the file name without a description', () => {
+			assert.strictEqual(parseUserTemplate('plain.md', '# Plain').description, 'plain.md');
+		});
+	});
+
+	describe('sortTemplates', () => {
+		it('should recommend templates for detected frameworks', () => {
+			const react = BUILTIN_RULE_TEMPLATES.find(template => template.id === 'react')!;
+			assert.ok(isTemplateRecommended(react, ['React', 'TypeScript']));
+			assert.ok(!isTemplateRecommended(react, ['Vue']));
+		});
+
+		it('should list recommended templates first, then by category', () => {
+			const sorted = sortTemplates(BUILTIN_RULE_TEMPLATES, ['Django']);
+			assert.strictEqual(sorted[0].id, 'python-web');
+			assert.strictEqual(sorted[1].id, 'blank');
+		});
+	});
+});
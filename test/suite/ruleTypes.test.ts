@@ -0,0 +1,71 @@
+// Unit tests for rule type classification
+import * as assert from 'assert';
+import {
+	classifyRuleType,
+	resolveRuleType,
+	getRuleTypeLabel,
+	extractExtraFrontmatter
+} from '../../src/utils/ruleTypes';
+
+describe('Rule Types', () => {
+	describe('classifyRuleType', () => {
+		it('should classify alwaysApply rules as Always', () => {
+			assert.strictEqual(classifyRuleType({ alwaysApply: true, globs: ['*.ts'], description: 'x' }), 'always');
+		});
+
+		it('should classify rules with globs as Auto Attached', () => {
+			assert.strictEqual(classifyRuleType({ alwaysApply: false, globs: ['src/**/*.ts'] }), 'auto');
+			assert.strictEqual(classifyRuleType({ globs: '*.ts, *.tsx' }), 'auto');
+		});
+
+		it('should classify rules with only a description as Agent Requested', () => {
+			assert.strictEqual(classifyRuleType({ description: 'Use when writing migrations', globs: [] }), 'agent');
+		});
+
+		it('should classify rules with nothing set as Manual', () => {
+			assert.strictEqual(classifyRuleType({}), 'manual');
+			assert.strictEqual(classifyRuleType({ description: '   ', globs: [], alwaysApply: false }), 'manual');
+		});
+
+		it('should not treat string "true" as alwaysApply', () => {
+			assert.strictEqual(classifyRuleType({ alwaysApply: 'true' }), 'manual');
+		});
+	});
+
+	describe('resolveRuleType', () => {
+		it('should prefer the parsed rule type', () => {
+			assert.strictEqual(resolveRuleType({ ruleType: 'always', description: 'x' }), 'always');
+		});
+
+		it('should classify metadata without a description as Manual', () => {
+			assert.strictEqual(resolveRuleType({ globs: [] }), 'manual');
+		});
+	});
+
+	describe('getRuleTypeLabel', () => {
+		it('should return Cursor rule type labels', () => {
+			assert.strictEqual(getRuleTypeLabel('always'), 'Always');
+			assert.strictEqual(getRuleTypeLabel('auto'), 'Auto Attached');
+			assert.strictEqual(getRuleTypeLabel('agent'), 'Agent Requested');
+			assert.strictEqual(getRuleTypeLabel('manual'), 'Manual');
+		});
+	});
+
+	describe('extractExtraFrontmatter', () => {
+		it('should keep only unknown keys', () => {
+			const extra = extractExtraFrontmatter({
+				description: 'x',
+				globs: [],
+				alwaysApply: false,
+				owner: 'platform-team',
+				tags: ['security']
+			});
+
+			assert.deepStrictEqual(extra, { owner: 'platform-team', tags: ['security'] });
+		});
+
+		it('should return undefined when there are no unknown keys', () => {
+			assert.strictEqual(extractExtraFrontmatter({ description: 'x' }), undefined);
+		});
+	});
+});
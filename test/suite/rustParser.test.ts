@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+
+describe('RustParser Tests', () => {
+	describe('Parser Structure', () => {
+		it('should have parseProject, parseCargoToml, parseToolchain and getImportantDependencies methods', () => {
+			const { RustParser } = require('../../src/scanner/parsers/rustParser');
+			const parser = new RustParser();
+
+			assert.ok(typeof parser.parseProject === 'function');
+			assert.ok(typeof parser.parseCargoToml === 'function');
+			assert.ok(typeof parser.parseToolchain === 'function');
+			assert.ok(typeof parser.getImportantDependencies === 'function');
+		});
+	});
+
+	describe('Cargo.toml Parsing', () => {
+		const cargoToml = [
+			'[package]',
+			'name = "shop-api"',
+			'version = "0.3.0"',
+			'edition = "2021"',
+			'rust-version = "1.75" # MSRV',
+			'',
+			'[features]',
+			'default = ["postgres"]',
+			'postgres = ["sqlx/postgres"]',
+			'',
+			'[dependencies]',
+			'axum = "0.7"',
+			'tokio = { version = "1", features = ["full"] }',
+			'sqlx = { version = "0.7", features = [',
+			'  "runtime-tokio",',
+			'  "postgres",',
+			'], optional = true }',
+			'shared = { path = "../shared" }',
+			'serde.workspace = true',
+			'',
+			'[dependencies.clap]',
+			'version = "4"',
+			'features = ["derive"]',
+			'',
+			'[target.\'cfg(unix)\'.dependencies]',
+			'nix = "0.27"',
+			'',
+			'[dev-dependencies]',
+			'proptest = "1"',
+			'',
+			'[[bin]]',
+			'name = "shop"',
+			'path = "src/bin/shop.rs"'
+		].join('\n');
+
+		it('should parse package metadata and features', () => {
+			const { RustParser } = require('../../src/scanner/parsers/rustParser');
+			const manifest = new RustParser().parseCargoToml(cargoToml);
+
+			assert.strictEqual(manifest.name, 'shop-api');
+			assert.strictEqual(manifest.version, '0.3.0');
+			assert.strictEqual(manifest.edition, '2021');
+			assert.strictEqual(manifest.rustVersion, '1.75');
+			assert.deepStrictEqual(manifest.features, ['default', 'postgres']);
+		});
+
+		it('should parse simple, inline, multi-line, dotted and table dependencies', () => {
+			const { RustParser } = require('../../src/scanner/parsers/rustParser');
+			const manifest = new RustParser().parseCargoToml(cargoToml);
+			const byName = (name: string) => manifest.dependencies.find((crate: any) => crate.name === name);
+
+			assert.deepStrictEqual(manifest.dependencies.map((crate: any) => crate.name), ['axum', 'tokio', 'sqlx', 'shared', 'serde', 'clap', 'nix']);
+			assert.strictEqual(byName('axum').version, '0.7');
+			assert.deepStrictEqual(byName('tokio').features, ['full']);
+			assert.deepStrictEqual(byName('sqlx').features, ['runtime-tokio', 'postgres']);
+			assert.strictEqual(byName('sqlx').optional, true);
+			assert.strictEqual(byName('shared').path, '../shared');
+			assert.strictEqual(byName('serde').workspace, true);
+			assert.deepStrictEqual(byName('clap').features, ['derive']);
+			assert.deepStrictEqual(manifest.devDependencies.map((crate: any) => crate.name), ['proptest']);
+		});
+
+		it('should parse [[bin]] targets and workspaces', () => {
+			const { RustParser } = require('../../src/scanner/parsers/rustParser');
+			const parser = new RustParser();
+
+			assert.deepStrictEqual(parser.parseCargoToml(cargoToml).binaries, ['shop']);
+			assert.strictEqual(parser.parseCargoToml(cargoToml).workspace, undefined);
+
+			const workspace = parser.parseCargoToml([
+				'[workspace]',
+				'members = [',
+				'  "crates/*",',
+				'  "cli",',
+				']',
+				'exclude = ["crates/legacy"]',
+				'',
+				'[workspace.dependencies]',
+				'serde = { version = "1", features = ["derive"] }'
+			].join('\n'));
+			assert.deepStrictEqual(workspace.workspace.members, ['crates/*', 'cli']);
+			assert.deepStrictEqual(workspace.workspace.exclude, ['crates/legacy']);
+			assert.deepStrictEqual(workspace.workspace.dependencies[0].features, ['derive']);
+		});
+	});
+
+	describe('rust-toolchain Parsing', () => {
+		it('should read the channel from rust-toolchain.toml and legacy files', () => {
+			const { RustParser } = require('../../src/scanner/parsers/rustParser');
+			const parser = new RustParser();
+
+			assert.strictEqual(parser.parseToolchain('[toolchain]\nchannel = "1.76.0"\ncomponents = ["clippy"]\n'), '1.76.0');
+			assert.strictEqual(parser.parseToolchain('nightly-2024-01-01\n'), 'nightly-2024-01-01');
+		});
+	});
+
+	describe('Dependency Extraction', () => {
+		it('should format versions, local paths and features', () => {
+			const { RustParser } = require('../../src/scanner/parsers/rustParser');
+			const parser = new RustParser();
+
+			const testProject: any = {
+				dependencies: [
+					{ name: 'tokio', version: '1', features: ['full'] },
+					{ name: 'shared', path: '../shared', features: [] }
+				]
+			};
+
+			assert.deepStrictEqual(parser.getImportantDependencies(testProject), [
+				'tokio 1 (features: full)',
+				'shared path ../shared'
+			]);
+		});
+	});
+});
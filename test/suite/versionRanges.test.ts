@@ -0,0 +1,61 @@
+// Unit tests for declared range / resolved version checks
+import * as assert from 'assert';
+import { satisfiesRange } from '../../src/utils/versionRanges';
+
+describe('Version Ranges', () => {
+	describe('npm', () => {
+		it('should handle caret ranges, including 0.x', () => {
+			assert.strictEqual(satisfiesRange('1.9.0', '^1.2.3'), true);
+			assert.strictEqual(satisfiesRange('2.0.0', '^1.2.3'), false);
+			assert.strictEqual(satisfiesRange('1.2.2', '^1.2.3'), false);
+			assert.strictEqual(satisfiesRange('0.2.9', '^0.2.3'), true);
+			assert.strictEqual(satisfiesRange('0.3.0', '^0.2.3'), false);
+		});
+
+		it('should handle tilde, x-ranges, comparator sets, hyphens and alternatives', () => {
+			assert.strictEqual(satisfiesRange('1.2.9', '~1.2.3'), true);
+			assert.strictEqual(satisfiesRange('1.3.0', '~1.2.3'), false);
+			assert.strictEqual(satisfiesRange('1.4.0', '1.x'), true);
+			assert.strictEqual(satisfiesRange('1.4.0', '1.2'), false);
+			assert.strictEqual(satisfiesRange('1.5.0', '>=1.2.0 <2'), true);
+			assert.strictEqual(satisfiesRange('2.0.0', '>=1.2.0 <2'), false);
+			assert.strictEqual(satisfiesRange('1.5.0', '1.0.0 - 1.5.0'), true);
+			assert.strictEqual(satisfiesRange('3.1.0', '^1.0.0 || ^3.0.0'), true);
+			assert.strictEqual(satisfiesRange('5.4.5', '5.4.5'), true);
+			assert.strictEqual(satisfiesRange('2.0.0', '*'), true);
+		});
+
+		it('should return undefined for ranges and versions it cannot read', () => {
+			assert.strictEqual(satisfiesRange('1.0.0', 'workspace:*'), undefined);
+			assert.strictEqual(satisfiesRange('1.0.0', 'github:acme/lib'), undefined);
+			assert.strictEqual(satisfiesRange('link:../lib', '^1.0.0'), undefined);
+		});
+	});
+
+	describe('Other package managers', () => {
+		it('should handle PEP 440 specifiers', () => {
+			assert.strictEqual(satisfiesRange('4.2.1', '>=4.0,<5', 'python'), true);
+			assert.strictEqual(satisfiesRange('5.0', '>=4.0,<5', 'python'), false);
+			assert.strictEqual(satisfiesRange('1.4.9', '~=1.4.2', 'python'), true);
+			assert.strictEqual(satisfiesRange('1.5.0', '~=1.4.2', 'python'), false);
+			assert.strictEqual(satisfiesRange('1.2.7', '==1.2.*', 'python'), true);
+			assert.strictEqual(satisfiesRange('2.0.0rc1', '>=2.0.0', 'python'), false);
+		});
+
+		it('should treat ~ as pessimistic for Ruby and Composer', () => {
+			assert.strictEqual(satisfiesRange('7.1.3', '~> 7.1.0', 'ruby'), true);
+			assert.strictEqual(satisfiesRange('7.2.0', '~> 7.1.0', 'ruby'), false);
+			assert.strictEqual(satisfiesRange('1.9.0', '~1.2', 'composer'), true);
+			assert.strictEqual(satisfiesRange('2.0.0', '~1.2', 'composer'), false);
+			assert.strictEqual(satisfiesRange('10.5.0', '^9.0|^10.0', 'composer'), true);
+		});
+
+		it('should handle NuGet minimums and intervals', () => {
+			assert.strictEqual(satisfiesRange('8.0.1', '[8.0.0, )', 'nuget'), true);
+			assert.strictEqual(satisfiesRange('7.0.0', '[8.0.0, )', 'nuget'), false);
+			assert.strictEqual(satisfiesRange('2.0.0', '[1.0, 2.0)', 'nuget'), false);
+			assert.strictEqual(satisfiesRange('1.0.0', '[1.0]', 'nuget'), true);
+			assert.strictEqual(satisfiesRange('13.0.3', '13.0.1', 'nuget'), true);
+		});
+	});
+});
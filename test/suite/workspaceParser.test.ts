@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('WorkspaceParser Tests', () => {
+	let root: string;
+
+	const write = (relativePath: string, content: string) => {
+		const file = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		fs.writeFileSync(file, content);
+	};
+
+	const parseWorkspace = async () => {
+		const vscode = require('vscode');
+		const { WorkspaceParser } = require('../../src/scanner/parsers/workspaceParser');
+		return new WorkspaceParser().parseWorkspace(vscode.Uri.file(root));
+	};
+
+	beforeEach(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-parser-'));
+	});
+
+	afterEach(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	describe('Parser Structure', () => {
+		it('should have parseWorkspace method', () => {
+			const { WorkspaceParser } = require('../../src/scanner/parsers/workspaceParser');
+			const parser = new WorkspaceParser();
+
+			assert.ok(typeof parser.parseWorkspace === 'function');
+		});
+	});
+
+	describe('Node Workspaces', () => {
+		it('should expand workspace globs, apply negations and list each folder once', async () => {
+			write('package.json', JSON.stringify({ name: 'root', workspaces: ['packages/*', 'apps/**', '!packages/legacy'] }));
+			write('yarn.lock', '');
+			write('turbo.json', '{}');
+			write('packages/ui/package.json', JSON.stringify({ name: '@acme/ui' }));
+			write('packages/legacy/package.json', JSON.stringify({ name: '@acme/legacy' }));
+			write('packages/docs/README.md', '# Not a package');
+			write('apps/web/package.json', JSON.stringify({ name: 'web' }));
+			write('apps/web/node_modules/dep/package.json', JSON.stringify({ name: 'dep' }));
+			write('lerna.json', JSON.stringify({ packages: ['packages/*'] }));
+
+			const result = await parseWorkspace();
+
+			assert.deepStrictEqual(result.data.tools, ['Yarn workspaces', 'Lerna', 'Turborepo']);
+			assert.deepStrictEqual(result.data.packages, [
+				{ name: '@acme/ui', path: 'packages/ui', source: 'Yarn' },
+				{ name: 'web', path: 'apps/web', source: 'Yarn' },
+				{ name: '@acme/legacy', path: 'packages/legacy', source: 'Lerna' }
+			]);
+		});
+
+		it('should return no data for a single-package project', async () => {
+			write('package.json', JSON.stringify({ name: 'app', dependencies: { yaml: '^2.3.0' } }));
+
+			const result = await parseWorkspace();
+
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(result.data, undefined);
+		});
+	});
+
+	describe('Other Ecosystems', () => {
+		it('should read go.work, Cargo workspace members and multi-project solutions', async () => {
+			write('go.work', 'go 1.22\n\nuse (\n\t./services/api\n)\n');
+			write('services/api/go.mod', 'module example.com/api\n\ngo 1.22\n');
+			write('Cargo.toml', '[workspace]\nmembers = ["crates/*"]\nexclude = ["crates/scratch"]\n');
+			write('crates/core/Cargo.toml', '[package]\nname = "acme-core"\nversion = "0.1.0"\n');
+			write('crates/scratch/Cargo.toml', '[package]\nname = "scratch"\nversion = "0.1.0"\n');
+			write('Shop.sln', [
+				'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Shop.Api", "src\\Shop.Api\\Shop.Api.csproj", "{1}"',
+				'EndProject',
+				'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Shop.Tests", "tests\\Shop.Tests\\Shop.Tests.csproj", "{2}"',
+				'EndProject'
+			].join('\n'));
+
+			const result = await parseWorkspace();
+
+			assert.deepStrictEqual(result.data.tools, ['Go workspace', 'Cargo workspace', '.NET solution (Shop.sln)']);
+			assert.deepStrictEqual(result.data.packages, [
+				{ name: 'example.com/api', path: 'services/api', source: 'Go' },
+				{ name: 'acme-core', path: 'crates/core', source: 'Cargo' },
+				{ name: 'Shop.Api', path: 'src/Shop.Api', source: '.NET' },
+				{ name: 'Shop.Tests', path: 'tests/Shop.Tests', source: '.NET' }
+			]);
+		});
+
+		it('should read projects from an .slnx solution', async () => {
+			write('Shop.slnx', [
+				'<Solution>',
+				'  <Folder Name="/src/">',
+				'    <Project Path="src/Shop.Api/Shop.Api.csproj" />',
+				'  </Folder>',
+				'  <Project Path="tests/Shop.Tests/Shop.Tests.csproj" />',
+				'</Solution>'
+			].join('\n'));
+
+			const result = await parseWorkspace();
+
+			assert.deepStrictEqual(result.data.tools, ['.NET solution (Shop.slnx)']);
+			assert.deepStrictEqual(result.data.packages.map((pkg: any) => pkg.path), ['src/Shop.Api', 'tests/Shop.Tests']);
+		});
+	});
+});